@@ -12,6 +12,8 @@ import pkg from "./package.json";
 
 const config = {
   input: "./cli.ts",
+  // database drivers are the ones installed in the project
+  external: ["@electric-sql/pglite", "@libsql/client", "mysql2/promise", "postgres"],
   output: {
     dir: "dist",
     format: "esm",
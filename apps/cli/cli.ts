@@ -1,15 +1,42 @@
 /* eslint-disable no-console */
 import { spawnSync } from "node:child_process";
+import fs from "node:fs";
+import Path from "node:path";
 
 import {
   DRIZZLE_LAB_ENV_KEY,
+  findDrizzleConfigs,
   getEnv,
   importDrizzleConfig,
 } from "@drizzle-lab/api/config/node";
-import { command, string, run, boolean, number } from "@drizzle-team/brocli";
+import type { DriftableSnapshot } from "@drizzle-lab/api/drift";
+import {
+  formatLintIssues,
+  lintSnapshot,
+  type LintableSnapshot,
+} from "@drizzle-lab/api/lint";
+import type { Snapshot as MySqlSnapshot } from "@drizzle-lab/api/mysql";
+import type { Snapshot as PgSnapshot } from "@drizzle-lab/api/pg";
+import {
+  classifyChanges,
+  hasChangesAtLeast,
+  type ClassifiedChange,
+} from "@drizzle-lab/api/sql";
+import type { Snapshot as SQLiteSnapshot } from "@drizzle-lab/api/sqlite";
+import {
+  command,
+  string,
+  run,
+  boolean,
+  number,
+  positional,
+} from "@drizzle-team/brocli";
+import type { InArgs } from "@libsql/client";
 import chalk from "chalk";
+import type { ParameterOrJSON } from "postgres";
 
 import pkg from "./package.json";
+import { watchSchema } from "./watcher";
 
 const optionConfig = string().desc("Path to drizzle config file").alias("c");
 const debug = boolean().desc("Enable log output").default(false);
@@ -21,11 +48,43 @@ const tsConfig = string()
 const envPath = string()
   .desc("Path to a .env file. It is used to load environment variables.")
   .alias("e");
+const quiet = boolean()
+  .desc("Only print the output, without the disclaimer and the messages")
+  .default(false)
+  .alias("q");
+const watch = boolean()
+  .desc(
+    "Watch the schema files and write the output again each time they change",
+  )
+  .default(false)
+  .alias("w");
+const outputFormat = string()
+  .enum("json", "sql", "ts")
+  .desc(
+    "Format of the output: the snapshot (json), its SQL (sql) or a normalized Drizzle schema (ts)",
+  );
+
+/**
+ * Exit codes of the CLI, stable so scripts and CI pipelines can rely on them
+ */
+const ExitCode = {
+  /** The command succeeded */
+  Success: 0,
+  /** The command ran and reported a failure: lint errors, a drift, a `diff --fail-on` change */
+  Failure: 1,
+  /** The command could not run: invalid options, unreadable config or schema, unreachable database */
+  Error: 2,
+} as const;
 
 const visualizer = command({
   name: "visualizer",
   options: {
     config: optionConfig,
+    workspace: boolean()
+      .desc(
+        "Visualize all the drizzle.config.* files found under the current directory, with a project switcher (instead of --config)",
+      )
+      .default(false),
     debug,
     "save-dir": string()
       .desc("Directory to save the visualizer data")
@@ -51,6 +110,7 @@ const visualizer = command({
       [DRIZZLE_LAB_ENV_KEY.CWD]: DRIZZLE_LAB_CWD,
       [DRIZZLE_LAB_ENV_KEY.TS_CONFIG_PATH]: options["ts-config"],
       [DRIZZLE_LAB_ENV_KEY.ENV_FILE_PATH]: options["env-path"],
+      [DRIZZLE_LAB_ENV_KEY.WORKSPACE]: String(options.workspace),
     } as const;
 
     process.env = {
@@ -58,6 +118,23 @@ const visualizer = command({
       ...cliEnvs,
     };
 
+    if (options.workspace) {
+      const configPaths = findDrizzleConfigs();
+
+      if (configPaths.length === 0) {
+        throw new Error(`No drizzle config file found in ${DRIZZLE_LAB_CWD}`);
+      }
+
+      if (options.debug) {
+        console.log("version", pkg.version);
+        console.log("options", options);
+        console.log("cli env", cliEnvs);
+        console.log("configs", configPaths);
+      }
+
+      return options;
+    }
+
     const config = await importDrizzleConfig(options.config);
 
     if (options.debug) {
@@ -108,6 +185,12 @@ const snapshot = command({
   desc: "Generate the snapshot for the current schema",
   options: {
     config: optionConfig,
+    format: outputFormat.default("json"),
+    out: string().desc(
+      "Path of the file to write the snapshot to. Printed to stdout if omitted.",
+    ),
+    quiet,
+    watch,
     debug,
     "ts-config": tsConfig,
     "env-path": envPath,
@@ -124,54 +207,389 @@ const snapshot = command({
       console.log("config", config);
     }
 
-    return config;
+    return {
+      config,
+      format: options.format,
+      out: options.out,
+      quiet: options.quiet,
+      watch: options.watch,
+    };
   },
-  async handler(config) {
-    disclaimer();
+  async handler({ config, format, out, quiet, watch }) {
+    if (!quiet) {
+      disclaimer();
+    }
+
+    await assertOrmCoreVersion();
+
+    await writeOutputAndWatch(
+      config,
+      () =>
+        generateOutput(config, format, { comments: false, withDown: false }),
+      { out, quiet, watch, label: "Snapshot" },
+    );
+  },
+});
+
+const sql = command({
+  name: "sql",
+  desc: "Generate the SQL for the current schema",
+  options: {
+    config: optionConfig,
+    format: outputFormat.default("sql"),
+    out: string().desc(
+      "Path of the file to write the SQL to. Printed to stdout if omitted.",
+    ),
+    quiet,
+    watch,
+    debug,
+    "ts-config": tsConfig,
+    "env-path": envPath,
+    "with-down": boolean()
+      .desc("Also print the SQL to roll back the schema (drop everything)")
+      .default(false),
+    comments: boolean()
+      .desc(
+        "Emit the `explain` descriptions as SQL comments (`COMMENT ON` for PostgreSQL, `COMMENT` clauses for MySQL, `-- ` annotations for SQLite)",
+      )
+      .default(false),
+  },
+  transform: async (options) => {
+    process.env[DRIZZLE_LAB_ENV_KEY.DEBUG] = String(options.debug);
+    process.env[DRIZZLE_LAB_ENV_KEY.TS_CONFIG_PATH] = options["ts-config"];
+    process.env[DRIZZLE_LAB_ENV_KEY.ENV_FILE_PATH] = options["env-path"];
+
+    const config = await importDrizzleConfig(options.config);
+
+    if (options.debug) {
+      console.log("options", options);
+      console.log("config", config);
+    }
+
+    return {
+      config,
+      format: options.format,
+      out: options.out,
+      quiet: options.quiet,
+      watch: options.watch,
+      withDown: options["with-down"],
+      comments: options.comments,
+    };
+  },
+  async handler({ config, format, out, quiet, watch, withDown, comments }) {
+    if (!quiet) {
+      disclaimer();
+    }
 
     await assertOrmCoreVersion();
 
-    let snapshot = {};
+    await writeOutputAndWatch(
+      config,
+      () => generateOutput(config, format, { comments, withDown }),
+      { out, quiet, watch, label: "SQL" },
+    );
+  },
+});
+
+const typescript = command({
+  name: "typescript",
+  desc: "Generate a normalized Drizzle schema (and its relations) from a drizzle config, a snapshot JSON file or a SQL dump",
+  options: {
+    source: positional("source").desc(
+      "A drizzle config file, a snapshot JSON file or a SQL dump. Defaults to the drizzle config.",
+    ),
+    config: optionConfig,
+    dialect: string()
+      .enum("postgresql", "sqlite", "mysql")
+      .desc("Dialect of the schema. Required when generating from a SQL dump."),
+    casing: string()
+      .enum("camel", "preserve")
+      .desc("Casing of the generated column keys")
+      .default("camel"),
+    split: string()
+      .enum("none", "table", "schema")
+      .desc(
+        "Write one file per table (and view) or one file per pg schema, re-exported by schema.ts. Requires --out.",
+      )
+      .default("none"),
+    out: string().desc(
+      "Directory to write schema.ts and relations.ts to. Printed to stdout if omitted.",
+    ),
+    quiet,
+    debug,
+    "ts-config": tsConfig,
+    "env-path": envPath,
+  },
+  transform: async (options) => {
+    process.env[DRIZZLE_LAB_ENV_KEY.DEBUG] = String(options.debug);
+    process.env[DRIZZLE_LAB_ENV_KEY.TS_CONFIG_PATH] = options["ts-config"];
+    process.env[DRIZZLE_LAB_ENV_KEY.ENV_FILE_PATH] = options["env-path"];
+
+    const source: SchemaSource = options.source
+      ? await readSchemaSource(options.source)
+      : await readSchemaSource(options.config ?? "drizzle.config.ts");
+    const dialect = options.dialect ?? source.dialect;
+
+    if (!dialect) {
+      throw new Error(
+        "Unable to infer the dialect of the schema, please provide it with --dialect",
+      );
+    }
+
+    if (options.split !== "none" && !options.out) {
+      throw new Error("--split requires --out to write the files to");
+    }
+
+    if (options.split === "schema" && dialect !== "postgresql") {
+      throw new Error("--split schema is only supported by PostgreSQL");
+    }
+
+    if (options.debug) {
+      console.log("options", options);
+      console.log("dialect", dialect);
+    }
+
+    return {
+      source,
+      dialect,
+      casing: options.casing,
+      split: options.split,
+      out: options.out,
+      quiet: options.quiet,
+    };
+  },
+  async handler({ source, dialect, casing, split, out, quiet }) {
+    if (!quiet) {
+      disclaimer();
+    }
+
+    await assertOrmCoreVersion();
+
+    const snapshot = await importSourceSnapshot(source, dialect);
+    const { schema, relations } = await snapshotToDrizzleSchema(
+      snapshot,
+      dialect,
+      casing,
+    );
+
+    if (!out) {
+      writeOutput([schema, relations].filter(Boolean).join("\n"), {
+        quiet,
+        label: "Drizzle schema",
+      });
+      return;
+    }
+
+    const { splitTypeScript } = await import("@drizzle-lab/api/typescript");
+    const files: Record<string, string> =
+      split === "none"
+        ? { "schema.ts": schema }
+        : splitTypeScript(schema, split);
+
+    if (relations) {
+      files["relations.ts"] = relations;
+    }
+
+    const outPath = Path.resolve(process.cwd(), out);
+    fs.mkdirSync(outPath, { recursive: true });
+
+    for (const [fileName, content] of Object.entries(files)) {
+      fs.writeFileSync(Path.join(outPath, fileName), content);
+    }
+
+    if (!quiet) {
+      console.log(chalk.green(`\nDrizzle schema written to ${outPath}`));
+    }
+  },
+});
+
+const diff = command({
+  name: "diff",
+  desc: "Compare two schemas and print the changes and the SQL to migrate from <from> to <to>",
+  options: {
+    from: positional("from")
+      .desc("A drizzle config file, a snapshot JSON file or a SQL dump")
+      .required(),
+    to: positional("to")
+      .desc("A drizzle config file, a snapshot JSON file or a SQL dump")
+      .required(),
+    dialect: string()
+      .enum("postgresql", "sqlite", "mysql")
+      .desc(
+        "Dialect of the compared schemas. Required when comparing SQL dumps only.",
+      ),
+    renames: string().desc(
+      "Comma separated list of renames, e.g. 'public.users->public.customers,public.customers.name->public.customers.full_name'",
+    ),
+    "fail-on": string()
+      .enum("destructive", "warning")
+      .desc(
+        "Exit with code 1 when a change is at least this severe. Useful to block risky schema changes in CI.",
+      ),
+    "with-down": boolean()
+      .desc(
+        "Also print the SQL to roll back the migration (from <to> to <from>)",
+      )
+      .default(false),
+    quiet: boolean()
+      .desc("Only print the SQL, without the disclaimer and the changes")
+      .default(false)
+      .alias("q"),
+    debug,
+    "ts-config": tsConfig,
+    "env-path": envPath,
+  },
+  transform: async (options) => {
+    process.env[DRIZZLE_LAB_ENV_KEY.DEBUG] = String(options.debug);
+    process.env[DRIZZLE_LAB_ENV_KEY.TS_CONFIG_PATH] = options["ts-config"];
+    process.env[DRIZZLE_LAB_ENV_KEY.ENV_FILE_PATH] = options["env-path"];
+
+    const from = await readSchemaSource(options.from);
+    const to = await readSchemaSource(options.to);
+    const dialects = new Set(
+      [from.dialect, to.dialect, options.dialect].filter(Boolean),
+    );
+
+    if (dialects.size === 0) {
+      throw new Error(
+        "Unable to infer the dialect of the compared schemas, please provide it with --dialect",
+      );
+    }
+
+    if (dialects.size > 1) {
+      throw new Error(
+        `Unable to compare schemas of different dialects (${[...dialects].join(", ")})`,
+      );
+    }
+
+    const [dialect] = [...dialects] as Dialect[];
 
-    switch (config.dialect) {
+    if (options.debug) {
+      console.log("options", options);
+      console.log("dialect", dialect);
+    }
+
+    return {
+      from,
+      to,
+      dialect,
+      failOn: options["fail-on"],
+      withDown: options["with-down"],
+      quiet: options.quiet,
+      renames: options.renames
+        ?.split(",")
+        .map((it) => it.trim())
+        .filter(Boolean),
+    };
+  },
+  async handler({ from, to, dialect, failOn, withDown, quiet, renames }) {
+    if (!quiet) {
+      disclaimer();
+    }
+
+    let changes: ClassifiedChange[] = [];
+    let sqlStatements: string[] = [];
+    let downSqlStatements: string[] = [];
+
+    switch (dialect) {
       case "postgresql": {
-        const { importFromFiles, drizzleObjectsToSnapshot } = await import(
-          "@drizzle-lab/api/pg/node"
+        const { diffSnapshots, generateRollback } = await import(
+          "@drizzle-lab/api/pg"
         );
-        const drizzleObjects = await importFromFiles(config.schema);
-        snapshot = drizzleObjectsToSnapshot(drizzleObjects, config);
+        const prev = (await importSourceSnapshot(from, dialect)) as PgSnapshot;
+        const next = (await importSourceSnapshot(to, dialect)) as PgSnapshot;
+        const { statements, ...result } = diffSnapshots(prev, next, {
+          renames,
+        });
+        changes = classifyChanges(statements);
+        sqlStatements = result.sqlStatements;
+
+        if (withDown) {
+          downSqlStatements = generateRollback(prev, next, {
+            renames,
+          }).sqlStatements;
+        }
         break;
       }
       case "sqlite": {
-        const { importFromFiles, drizzleObjectsToSnapshot } = await import(
-          "@drizzle-lab/api/sqlite/node"
+        const { diffSnapshots, generateRollback } = await import(
+          "@drizzle-lab/api/sqlite"
         );
+        const prev = (await importSourceSnapshot(
+          from,
+          dialect,
+        )) as SQLiteSnapshot;
+        const next = (await importSourceSnapshot(
+          to,
+          dialect,
+        )) as SQLiteSnapshot;
+        const { statements, ...result } = diffSnapshots(prev, next, {
+          renames,
+        });
+        changes = classifyChanges(statements);
+        sqlStatements = result.sqlStatements;
 
-        const drizzleObjects = await importFromFiles(config.schema);
-        snapshot = drizzleObjectsToSnapshot(drizzleObjects, config);
+        if (withDown) {
+          downSqlStatements = generateRollback(prev, next, {
+            renames,
+          }).sqlStatements;
+        }
         break;
       }
       case "mysql": {
-        const { importFromFiles, drizzleObjectsToSnapshot } = await import(
-          "@drizzle-lab/api/mysql/node"
+        const { diffSnapshots, generateRollback } = await import(
+          "@drizzle-lab/api/mysql"
         );
+        const prev = (await importSourceSnapshot(
+          from,
+          dialect,
+        )) as MySqlSnapshot;
+        const next = (await importSourceSnapshot(to, dialect)) as MySqlSnapshot;
+        const { statements, ...result } = diffSnapshots(prev, next, {
+          renames,
+        });
+        changes = classifyChanges(statements);
+        sqlStatements = result.sqlStatements;
 
-        const drizzleObjects = await importFromFiles(config.schema);
-        snapshot = drizzleObjectsToSnapshot(drizzleObjects, config);
+        if (withDown) {
+          downSqlStatements = generateRollback(prev, next, {
+            renames,
+          }).sqlStatements;
+        }
         break;
       }
     }
 
-    console.log("\n");
-    console.log(JSON.stringify(snapshot, null, 2));
+    if (quiet) {
+      printDiffSql(sqlStatements, withDown ? downSqlStatements : undefined);
+    } else {
+      printDiffChanges(
+        changes,
+        sqlStatements,
+        withDown ? downSqlStatements : undefined,
+      );
+    }
+
+    if (failOn && hasChangesAtLeast(changes, failOn)) {
+      console.error(
+        chalk.red(
+          `\nSome changes are at least ${failOn} (--fail-on=${failOn})`,
+        ),
+      );
+      process.exitCode = ExitCode.Failure;
+    }
   },
 });
 
-const sql = command({
-  name: "sql",
-  desc: "Generate the SQL for the current schema",
+const lint = command({
+  name: "lint",
+  desc: "Lint the current schema with the rules configured in `lab.lint`",
   options: {
     config: optionConfig,
+    reporter: string()
+      .enum("text", "json")
+      .desc("Output format of the lint issues")
+      .default("text"),
     debug,
     "ts-config": tsConfig,
     "env-path": envPath,
@@ -188,61 +606,355 @@ const sql = command({
       console.log("config", config);
     }
 
-    return config;
+    return { config, reporter: options.reporter };
   },
-  async handler(config) {
-    disclaimer();
+  async handler({ config, reporter }) {
+    // json output is meant to be piped
+    if (reporter === "text") {
+      disclaimer();
+    }
 
     await assertOrmCoreVersion();
 
-    let sql = "";
+    const dialect = config.dialect === "turso" ? "sqlite" : config.dialect;
+    const snapshot = (await importSourceSnapshot(
+      { type: "config", dialect, config },
+      dialect,
+    )) as LintableSnapshot;
+    const issues = lintSnapshot(snapshot, config.lab.lint);
+
+    if (reporter === "text") {
+      console.log("\n");
+    }
+
+    console.log(formatLintIssues(issues, reporter));
+
+    if (issues.some((issue) => issue.severity === "error")) {
+      process.exitCode = ExitCode.Failure;
+    }
+  },
+});
+
+const drift = command({
+  name: "drift",
+  desc: "Compare the current schema with a live database and report the drift",
+  options: {
+    config: optionConfig,
+    url: string().desc(
+      "Database URL (a PGlite data directory or a SQLite file path also work). Defaults to `dbCredentials.url` of the config.",
+    ),
+    reporter: string()
+      .enum("text", "json")
+      .desc("Output format of the drift")
+      .default("text"),
+    debug,
+    "ts-config": tsConfig,
+    "env-path": envPath,
+  },
+  transform: async (options) => {
+    process.env[DRIZZLE_LAB_ENV_KEY.DEBUG] = String(options.debug);
+    process.env[DRIZZLE_LAB_ENV_KEY.TS_CONFIG_PATH] = options["ts-config"];
+    process.env[DRIZZLE_LAB_ENV_KEY.ENV_FILE_PATH] = options["env-path"];
+
+    const config = await importDrizzleConfig(options.config);
+    const url = options.url ?? config.dbCredentials?.url;
+
+    if (!url) {
+      throw new Error(
+        "Unable to connect to the database, please provide --url or `dbCredentials.url` in the config",
+      );
+    }
+
+    if (options.debug) {
+      console.log("options", options);
+      console.log("config", config);
+    }
+
+    return {
+      config,
+      reporter: options.reporter,
+      credentials: {
+        url,
+        authToken: config.dbCredentials?.authToken,
+        driver: config.driver,
+      },
+    };
+  },
+  async handler({ config, reporter, credentials }) {
+    // json output is meant to be piped
+    if (reporter === "text") {
+      disclaimer();
+    }
+
+    await assertOrmCoreVersion();
+
+    const { detectDrift, formatDrift } = await import("@drizzle-lab/api/drift");
+    const dialect = config.dialect === "turso" ? "sqlite" : config.dialect;
+    const code = (await importSourceSnapshot(
+      { type: "config", dialect, config },
+      dialect,
+    )) as DriftableSnapshot;
+    const database = await importDatabaseSnapshot(
+      code,
+      dialect,
+      credentials,
+      config.schemaFilter,
+    );
+    const drifts = detectDrift(code, database);
+
+    if (reporter === "text") {
+      console.log("\n");
+    }
+
+    console.log(formatDrift(drifts, reporter));
+
+    if (drifts.length > 0) {
+      process.exitCode = ExitCode.Failure;
+    }
+  },
+});
+
+const docs = command({
+  name: "docs",
+  desc: "Generate the data dictionary of the current schema",
+  options: {
+    config: optionConfig,
+    format: string()
+      .enum("markdown", "html")
+      .desc("Format of the data dictionary")
+      .default("markdown"),
+    out: string().desc(
+      "Path of the file to write the data dictionary to. Printed to stdout if omitted.",
+    ),
+    title: string().desc("Title of the data dictionary"),
+    quiet,
+    watch,
+    debug,
+    "ts-config": tsConfig,
+    "env-path": envPath,
+  },
+  transform: async (options) => {
+    process.env[DRIZZLE_LAB_ENV_KEY.DEBUG] = String(options.debug);
+    process.env[DRIZZLE_LAB_ENV_KEY.TS_CONFIG_PATH] = options["ts-config"];
+    process.env[DRIZZLE_LAB_ENV_KEY.ENV_FILE_PATH] = options["env-path"];
+
+    const config = await importDrizzleConfig(options.config);
+
+    if (options.debug) {
+      console.log("options", options);
+      console.log("config", config);
+    }
+
+    return {
+      config,
+      format: options.format,
+      out: options.out,
+      title: options.title,
+      quiet: options.quiet,
+      watch: options.watch,
+    };
+  },
+  async handler({ config, format, out, title, quiet, watch }) {
+    if (!quiet) {
+      disclaimer();
+    }
+
+    await assertOrmCoreVersion();
+
+    await writeOutputAndWatch(
+      config,
+      () => generateDocs(config, format, title),
+      { out, quiet, watch, label: "Data dictionary" },
+    );
+  },
+});
+
+/**
+ * `generate mermaid` and `generate dbml` only differ by their output format
+ */
+function diagramCommand(format: DiagramFormat) {
+  const label = format === "mermaid" ? "Mermaid ER diagram" : "DBML schema";
+
+  return command({
+    name: format,
+    desc: `Generate the ${label} of the current schema`,
+    options: {
+      config: optionConfig,
+      out: string().desc(
+        `Path of the file to write the ${label} to. Printed to stdout if omitted.`,
+      ),
+      quiet,
+      debug,
+      "ts-config": tsConfig,
+      "env-path": envPath,
+    },
+    transform: async (options) => {
+      process.env[DRIZZLE_LAB_ENV_KEY.DEBUG] = String(options.debug);
+      process.env[DRIZZLE_LAB_ENV_KEY.TS_CONFIG_PATH] = options["ts-config"];
+      process.env[DRIZZLE_LAB_ENV_KEY.ENV_FILE_PATH] = options["env-path"];
 
-    switch (config.dialect) {
+      const config = await importDrizzleConfig(options.config);
+
+      if (options.debug) {
+        console.log("options", options);
+        console.log("config", config);
+      }
+
+      return { config, out: options.out, quiet: options.quiet };
+    },
+    async handler({ config, out, quiet }) {
+      if (!quiet) {
+        disclaimer();
+      }
+
+      await assertOrmCoreVersion();
+
+      const dialect = config.dialect === "turso" ? "sqlite" : config.dialect;
+      const snapshot = await importSourceSnapshot(
+        { type: "config", dialect, config },
+        dialect,
+      );
+      const diagram = await snapshotToDiagram(snapshot, dialect, format);
+
+      writeOutput(diagram, { out, quiet, label });
+    },
+  });
+}
+
+const prisma = command({
+  name: "prisma",
+  desc: "Convert a Prisma schema to a Drizzle schema and its relations",
+  options: {
+    schema: positional("schema")
+      .desc("Path to the Prisma schema, e.g. prisma/schema.prisma")
+      .required(),
+    dialect: string()
+      .enum("postgresql", "sqlite", "mysql")
+      .desc(
+        "Dialect of the generated schema. Inferred from the datasource provider if omitted.",
+      ),
+    out: string().desc(
+      "Directory to write schema.ts and relations.ts to. Printed to stdout if omitted.",
+    ),
+    quiet,
+    debug,
+  },
+  transform: (options) => {
+    const prisma = readSourceFile(options.schema);
+    const [, provider] =
+      prisma.match(/datasource\s+\w+\s*{[^}]*?provider\s*=\s*"(\w+)"/) ?? [];
+    const dialect =
+      options.dialect ??
+      (
+        {
+          postgresql: "postgresql",
+          postgres: "postgresql",
+          cockroachdb: "postgresql",
+          mysql: "mysql",
+          sqlite: "sqlite",
+        } as Record<string, Dialect>
+      )[provider];
+
+    if (!dialect) {
+      throw new Error(
+        `Unable to infer the dialect from the datasource provider${provider ? ` \`${provider}\`` : ""}, please provide it with --dialect`,
+      );
+    }
+
+    if (options.debug) {
+      console.log("options", options);
+      console.log("dialect", dialect);
+    }
+
+    return { prisma, dialect, out: options.out, quiet: options.quiet };
+  },
+  async handler({ prisma, dialect, out, quiet }) {
+    if (!quiet) {
+      disclaimer();
+    }
+
+    let files = { schema: "", relations: "" };
+
+    switch (dialect) {
       case "postgresql": {
-        const { importFromFiles, drizzleObjectsToSql } = await import(
-          "@drizzle-lab/api/pg/node"
-        );
-        const drizzleObjects = await importFromFiles(config.schema);
-        sql = drizzleObjectsToSql(drizzleObjects, config);
+        const { prismaToTypescript } = await import("@drizzle-lab/api/pg");
+        files = prismaToTypescript(prisma);
         break;
       }
       case "sqlite": {
-        const { importFromFiles, drizzleObjectsToSql } = await import(
-          "@drizzle-lab/api/sqlite/node"
-        );
-
-        const drizzleObjects = await importFromFiles(config.schema);
-        sql = drizzleObjectsToSql(drizzleObjects, config);
+        const { prismaToTypescript } = await import("@drizzle-lab/api/sqlite");
+        files = prismaToTypescript(prisma);
         break;
       }
       case "mysql": {
-        const { importFromFiles, drizzleObjectsToSql } = await import(
-          "@drizzle-lab/api/mysql/node"
-        );
-
-        const drizzleObjects = await importFromFiles(config.schema);
-        sql = drizzleObjectsToSql(drizzleObjects, config);
+        const { prismaToTypescript } = await import("@drizzle-lab/api/mysql");
+        files = prismaToTypescript(prisma);
         break;
       }
     }
 
-    console.log("\n");
-    console.log(sql);
+    if (out) {
+      const outPath = Path.resolve(process.cwd(), out);
+      fs.mkdirSync(outPath, { recursive: true });
+      fs.writeFileSync(Path.join(outPath, "schema.ts"), files.schema);
+
+      if (files.relations) {
+        fs.writeFileSync(Path.join(outPath, "relations.ts"), files.relations);
+      }
+
+      if (!quiet) {
+        console.log(chalk.green(`\nDrizzle schema written to ${outPath}`));
+      }
+      return;
+    }
+
+    if (!quiet) {
+      console.log("\n");
+    }
+
+    console.log(files.schema);
+
+    if (files.relations) {
+      console.log(files.relations);
+    }
   },
 });
 
+const convert = command({
+  name: "convert",
+  subcommands: [prisma],
+});
+
 const generate = command({
   name: "generate",
   options: {
     config: optionConfig,
     debug,
   },
-  subcommands: [snapshot, sql],
+  subcommands: [
+    snapshot,
+    sql,
+    typescript,
+    docs,
+    diagramCommand("mermaid"),
+    diagramCommand("dbml"),
+  ],
 });
 
-run([visualizer, generate], {
+run([visualizer, generate, diff, lint, drift, convert], {
   name: "Drizzle Lab CLI",
   version: pkg.version,
+  theme: (event) => {
+    if (event.type === "error") {
+      // brocli exits with 1 once the error is printed
+      process.once("exit", () => {
+        process.exitCode = ExitCode.Error;
+      });
+    }
+
+    // let brocli print the event
+    return false;
+  },
 });
 
 function disclaimer() {
@@ -254,6 +966,60 @@ If you want to help improve it, feel free to create an issue on GitHub: https://
   );
 }
 
+/**
+ * Print the changes of a diff with their severity, then the SQL
+ */
+function printDiffChanges(
+  changes: ClassifiedChange[],
+  sqlStatements: string[],
+  downSqlStatements?: string[],
+) {
+  console.log("\n");
+
+  if (changes.length === 0) {
+    console.log(chalk.green("No changes"));
+    return;
+  }
+
+  const severityStyle = {
+    safe: chalk.green,
+    warning: chalk.yellow,
+    destructive: chalk.red,
+  };
+
+  console.log(chalk.bold(`${changes.length} change(s):`));
+  console.log(
+    changes
+      .map(
+        ({ description, severity, reason }) =>
+          `  - ${severityStyle[severity](`[${severity}]`)} ${description}${reason ? chalk.dim(` (${reason})`) : ""}`,
+      )
+      .join("\n"),
+  );
+  console.log("\n");
+  console.log(chalk.bold("SQL:"));
+  console.log(sqlStatements.join("\n"));
+
+  if (downSqlStatements) {
+    console.log("\n");
+    console.log(chalk.bold("Rollback SQL:"));
+    console.log(downSqlStatements.join("\n"));
+  }
+}
+
+/**
+ * Print only the SQL of a diff, so it can be piped to a file or a database client
+ */
+function printDiffSql(sqlStatements: string[], downSqlStatements?: string[]) {
+  if (sqlStatements.length > 0) {
+    console.log(sqlStatements.join("\n"));
+  }
+
+  if (downSqlStatements && downSqlStatements.length > 0) {
+    console.log(`\n-- Rollback\n${downSqlStatements.join("\n")}`);
+  }
+}
+
 async function assertOrmCoreVersion() {
   try {
     const { npmVersion } = await import("drizzle-orm/version");
@@ -261,7 +1027,8 @@ async function assertOrmCoreVersion() {
     const [_major, minor, _patch] = npmVersion.split(".").map(Number);
 
     if (minor < 35) {
-      console.log(
+      // stderr, to keep stdout clean for the generated output
+      console.error(
         "This version of drizzle-lab requires newer version of drizzle-orm\nPlease update drizzle-orm package to the latest version 👍",
       );
     }
@@ -270,3 +1037,587 @@ async function assertOrmCoreVersion() {
     throw e;
   }
 }
+
+type Dialect = "postgresql" | "sqlite" | "mysql";
+
+type SchemaSource =
+  | {
+      type: "config";
+      dialect: Dialect;
+      config: Awaited<ReturnType<typeof importDrizzleConfig>>;
+    }
+  | { type: "snapshot"; dialect: Dialect; snapshot: unknown }
+  | { type: "sql"; dialect?: undefined; sql: string };
+
+/**
+ * Read a schema source (drizzle config, snapshot or SQL dump), guessing its type from its extension
+ */
+async function readSchemaSource(path: string): Promise<SchemaSource> {
+  if (path.endsWith(".sql")) {
+    return { type: "sql", sql: readSourceFile(path) };
+  }
+
+  if (path.endsWith(".json")) {
+    return readSnapshotSource(path);
+  }
+
+  const config = await importDrizzleConfig(path);
+
+  return {
+    type: "config",
+    // turso speaks sqlite
+    dialect: config.dialect === "turso" ? "sqlite" : config.dialect,
+    config,
+  };
+}
+
+/**
+ * Read a snapshot JSON, upgrading it to the latest version of its dialect
+ */
+async function readSnapshotSource(path: string): Promise<SchemaSource> {
+  let content: unknown;
+
+  try {
+    content = JSON.parse(readSourceFile(path));
+  } catch (e) {
+    throw new Error(
+      `${path} is not a valid JSON file: ${(e as Error).message}`,
+    );
+  }
+
+  const dialect =
+    typeof content === "object" && content !== null && "dialect" in content
+      ? content.dialect
+      : undefined;
+
+  switch (dialect) {
+    // old pg snapshots use `pg`
+    case "pg":
+    case "postgresql": {
+      const { upgradeSnapshot } = await import("@drizzle-lab/api/pg");
+
+      return {
+        type: "snapshot",
+        dialect: "postgresql",
+        snapshot: upgradeSnapshot(content),
+      };
+    }
+    case "sqlite": {
+      const { upgradeSnapshot } = await import("@drizzle-lab/api/sqlite");
+
+      return {
+        type: "snapshot",
+        dialect: "sqlite",
+        snapshot: upgradeSnapshot(content),
+      };
+    }
+    case "mysql": {
+      const { upgradeSnapshot } = await import("@drizzle-lab/api/mysql");
+
+      return {
+        type: "snapshot",
+        dialect: "mysql",
+        snapshot: upgradeSnapshot(content),
+      };
+    }
+    default:
+      throw new Error(
+        `${path} is not a drizzle snapshot: expected a postgresql, sqlite or mysql dialect, got ${dialect ?? "none"}`,
+      );
+  }
+}
+
+function readSourceFile(path: string) {
+  const filePath = Path.resolve(process.cwd(), path);
+
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`${filePath} file does not exist`);
+  }
+
+  return fs.readFileSync(filePath, "utf-8");
+}
+
+async function importSourceSnapshot(source: SchemaSource, dialect: Dialect) {
+  if (source.type === "snapshot") {
+    return source.snapshot;
+  }
+
+  switch (dialect) {
+    case "postgresql": {
+      const { importFromFiles, drizzleObjectsToSnapshot, sqlToSnapshot } =
+        await import("@drizzle-lab/api/pg/node");
+
+      return source.type === "sql"
+        ? sqlToSnapshot(source.sql)
+        : drizzleObjectsToSnapshot(
+            await importFromFiles(source.config.schema),
+            source.config,
+          );
+    }
+    case "sqlite": {
+      const { importFromFiles, drizzleObjectsToSnapshot, sqlToSnapshot } =
+        await import("@drizzle-lab/api/sqlite/node");
+
+      return source.type === "sql"
+        ? sqlToSnapshot(source.sql)
+        : drizzleObjectsToSnapshot(
+            await importFromFiles(source.config.schema),
+            source.config,
+          );
+    }
+    case "mysql": {
+      const { importFromFiles, drizzleObjectsToSnapshot, sqlToSnapshot } =
+        await import("@drizzle-lab/api/mysql/node");
+
+      return source.type === "sql"
+        ? sqlToSnapshot(source.sql)
+        : drizzleObjectsToSnapshot(
+            await importFromFiles(source.config.schema),
+            source.config,
+          );
+    }
+  }
+}
+
+type DatabaseCredentials = {
+  url: string;
+  authToken?: string;
+  driver?: string;
+};
+
+type DatabaseConnection = {
+  db: { query: <T>(sql: string, params?: unknown[]) => Promise<T[]> };
+  close: () => Promise<void>;
+};
+
+/**
+ * Connect to a database with the driver installed in the project, like drizzle-kit does
+ */
+async function connectToDatabase(
+  dialect: Dialect,
+  { url, authToken, driver }: DatabaseCredentials,
+): Promise<DatabaseConnection> {
+  switch (dialect) {
+    case "postgresql": {
+      // anything that is not a postgres URL is a PGlite data directory
+      if (driver === "pglite" || !/^postgres(ql)?:\/\//.test(url)) {
+        const { PGlite } = await import("@electric-sql/pglite");
+        const client = new PGlite(url);
+
+        return {
+          db: {
+            query: async <T>(sql: string, params?: unknown[]) =>
+              (await client.query<T>(sql, params)).rows,
+          },
+          close: () => client.close(),
+        };
+      }
+
+      const { default: postgres } = await import("postgres");
+      const client = postgres(url, { max: 1, onnotice: () => {} });
+
+      return {
+        db: {
+          query: async <T>(sql: string, params?: unknown[]) =>
+            [
+              ...(await client.unsafe(sql, params as ParameterOrJSON<never>[])),
+            ] as T[],
+        },
+        close: () => client.end(),
+      };
+    }
+    case "sqlite": {
+      const { createClient } = await import("@libsql/client");
+      const client = createClient({
+        // drizzle-kit accepts a file path
+        url: /^[a-z]+:/.test(url) ? url : `file:${url}`,
+        authToken,
+      });
+
+      return {
+        db: {
+          query: async <T>(sql: string, params: unknown[] = []) =>
+            (await client.execute({ sql, args: params as InArgs })).rows as T[],
+        },
+        close: async () => client.close(),
+      };
+    }
+    case "mysql": {
+      const { createConnection } = await import("mysql2/promise");
+      const connection = await createConnection(url);
+
+      return {
+        db: {
+          query: async <T>(sql: string, params?: unknown[]) =>
+            (await connection.query(sql, params))[0] as T[],
+        },
+        close: () => connection.end(),
+      };
+    }
+  }
+}
+
+/**
+ * Introspect the database, limited to the schemas of the code (or the config `schemaFilter`)
+ */
+async function importDatabaseSnapshot(
+  code: DriftableSnapshot,
+  dialect: Dialect,
+  credentials: DatabaseCredentials,
+  schemaFilter?: string | string[],
+): Promise<DriftableSnapshot> {
+  const { db, close } = await connectToDatabase(dialect, credentials);
+
+  try {
+    switch (dialect) {
+      case "postgresql": {
+        const { importFromDatabase } = await import("@drizzle-lab/api/pg");
+        const schemas = schemaFilter
+          ? [schemaFilter].flat()
+          : [
+              ...new Set([
+                "public",
+                ...Object.values(code.tables).map(
+                  (table) => ("schema" in table && table.schema) || "public",
+                ),
+              ]),
+            ];
+
+        return await importFromDatabase(db, schemas);
+      }
+      case "sqlite": {
+        const { importFromDatabase } = await import("@drizzle-lab/api/sqlite");
+
+        return await importFromDatabase(db);
+      }
+      case "mysql": {
+        const { importFromDatabase } = await import("@drizzle-lab/api/mysql");
+        const database = new URL(credentials.url).pathname.slice(1);
+
+        return await importFromDatabase(db, database);
+      }
+    }
+  } finally {
+    await close();
+  }
+}
+
+type DiagramFormat = "mermaid" | "dbml";
+
+async function snapshotToDiagram(
+  snapshot: unknown,
+  dialect: Dialect,
+  format: DiagramFormat,
+) {
+  switch (dialect) {
+    case "postgresql": {
+      const { snapshotToMermaid, snapshotToDbml } = await import(
+        "@drizzle-lab/api/pg"
+      );
+
+      return format === "mermaid"
+        ? snapshotToMermaid(snapshot as PgSnapshot)
+        : snapshotToDbml(snapshot as PgSnapshot);
+    }
+    case "sqlite": {
+      const { snapshotToMermaid, snapshotToDbml } = await import(
+        "@drizzle-lab/api/sqlite"
+      );
+
+      return format === "mermaid"
+        ? snapshotToMermaid(snapshot as SQLiteSnapshot)
+        : snapshotToDbml(snapshot as SQLiteSnapshot);
+    }
+    case "mysql": {
+      const { snapshotToMermaid, snapshotToDbml } = await import(
+        "@drizzle-lab/api/mysql"
+      );
+
+      return format === "mermaid"
+        ? snapshotToMermaid(snapshot as MySqlSnapshot)
+        : snapshotToDbml(snapshot as MySqlSnapshot);
+    }
+  }
+}
+
+/**
+ * Render a snapshot as a Drizzle schema and its relations (empty without foreign keys)
+ */
+async function snapshotToDrizzleSchema(
+  snapshot: unknown,
+  dialect: Dialect,
+  casing: "camel" | "preserve",
+) {
+  const { relationsToTypeScript } = await import("@drizzle-lab/api/relations");
+  let schema = "";
+
+  switch (dialect) {
+    case "postgresql": {
+      const { snapshotToTypeScript } = await import("@drizzle-lab/api/pg");
+      schema = snapshotToTypeScript(snapshot as PgSnapshot, casing).file;
+      break;
+    }
+    case "sqlite": {
+      const { snapshotToTypeScript } = await import("@drizzle-lab/api/sqlite");
+      schema = snapshotToTypeScript(snapshot as SQLiteSnapshot, casing).file;
+      break;
+    }
+    case "mysql": {
+      const { snapshotToTypeScript } = await import("@drizzle-lab/api/mysql");
+      schema = snapshotToTypeScript(snapshot as MySqlSnapshot, casing).file;
+      break;
+    }
+  }
+
+  return {
+    schema,
+    relations: relationsToTypeScript(
+      snapshot as Parameters<typeof relationsToTypeScript>[0],
+      casing,
+    ).file,
+  };
+}
+
+type DocsFormat = "markdown" | "html";
+
+/**
+ * Render the data dictionary of the current schema
+ */
+async function generateDocs(
+  config: Awaited<ReturnType<typeof importDrizzleConfig>>,
+  format: DocsFormat,
+  title?: string,
+) {
+  let docs = "";
+
+  switch (config.dialect) {
+    case "postgresql": {
+      const {
+        importFromFiles,
+        drizzleObjectsToSnapshot,
+        snapshotToMarkdown,
+        snapshotToHtml,
+      } = await import("@drizzle-lab/api/pg/node");
+      const drizzleObjects = await importFromFiles(config.schema);
+      const snapshot = drizzleObjectsToSnapshot(drizzleObjects, config);
+      docs =
+        format === "html"
+          ? snapshotToHtml(snapshot, { title })
+          : snapshotToMarkdown(snapshot, { title });
+      break;
+    }
+    case "sqlite": {
+      const {
+        importFromFiles,
+        drizzleObjectsToSnapshot,
+        snapshotToMarkdown,
+        snapshotToHtml,
+      } = await import("@drizzle-lab/api/sqlite/node");
+
+      const drizzleObjects = await importFromFiles(config.schema);
+      const snapshot = drizzleObjectsToSnapshot(drizzleObjects, config);
+      docs =
+        format === "html"
+          ? snapshotToHtml(snapshot, { title })
+          : snapshotToMarkdown(snapshot, { title });
+      break;
+    }
+    case "mysql": {
+      const {
+        importFromFiles,
+        drizzleObjectsToSnapshot,
+        snapshotToMarkdown,
+        snapshotToHtml,
+      } = await import("@drizzle-lab/api/mysql/node");
+
+      const drizzleObjects = await importFromFiles(config.schema);
+      const snapshot = drizzleObjectsToSnapshot(drizzleObjects, config);
+      docs =
+        format === "html"
+          ? snapshotToHtml(snapshot, { title })
+          : snapshotToMarkdown(snapshot, { title });
+      break;
+    }
+  }
+
+  return docs;
+}
+
+type OutputFormat = "json" | "sql" | "ts";
+
+/**
+ * Render the current schema as its snapshot (`json`), its SQL (`sql`) or a normalized Drizzle schema (`ts`)
+ */
+async function generateOutput(
+  config: Awaited<ReturnType<typeof importDrizzleConfig>>,
+  format: OutputFormat,
+  { comments, withDown }: { comments: boolean; withDown: boolean },
+) {
+  const dialect = config.dialect === "turso" ? "sqlite" : config.dialect;
+  const snapshot = await importSourceSnapshot(
+    { type: "config", dialect, config },
+    dialect,
+  );
+
+  if (format === "json") {
+    return JSON.stringify(snapshot, null, 2);
+  }
+
+  let sql = "";
+  let downSql = "";
+
+  switch (dialect) {
+    case "postgresql": {
+      const {
+        snapshotToSql,
+        snapshotToTypeScript,
+        schemaToSnapshot,
+        generateRollback,
+      } = await import("@drizzle-lab/api/pg");
+
+      if (format === "ts") {
+        return snapshotToTypeScript(snapshot as PgSnapshot, "camel").file;
+      }
+
+      sql = snapshotToSql(snapshot as PgSnapshot, { comments });
+
+      if (withDown) {
+        downSql = generateRollback(
+          schemaToSnapshot({}, config),
+          snapshot as PgSnapshot,
+        ).sqlStatements.join("\n");
+      }
+      break;
+    }
+    case "sqlite": {
+      const {
+        snapshotToSql,
+        snapshotToTypeScript,
+        schemaToSnapshot,
+        generateRollback,
+      } = await import("@drizzle-lab/api/sqlite");
+
+      if (format === "ts") {
+        return snapshotToTypeScript(snapshot as SQLiteSnapshot, "camel").file;
+      }
+
+      sql = snapshotToSql(snapshot as SQLiteSnapshot, { comments });
+
+      if (withDown) {
+        downSql = generateRollback(
+          schemaToSnapshot({}, config),
+          snapshot as SQLiteSnapshot,
+        ).sqlStatements.join("\n");
+      }
+      break;
+    }
+    case "mysql": {
+      const {
+        snapshotToSql,
+        snapshotToTypeScript,
+        schemaToSnapshot,
+        generateRollback,
+      } = await import("@drizzle-lab/api/mysql");
+
+      if (format === "ts") {
+        return snapshotToTypeScript(snapshot as MySqlSnapshot, "camel").file;
+      }
+
+      sql = snapshotToSql(snapshot as MySqlSnapshot, { comments });
+
+      if (withDown) {
+        downSql = generateRollback(
+          schemaToSnapshot({}, config),
+          snapshot as MySqlSnapshot,
+        ).sqlStatements.join("\n");
+      }
+      break;
+    }
+  }
+
+  return withDown ? `${sql}\n\n-- Rollback\n\n${downSql}` : sql;
+}
+
+/**
+ * Write the output of a `generate` command, then with `watch`, generate it again each time a schema file changes.
+ *
+ * The output is only rewritten when it changes, and a failing import (e.g. a schema file being edited) doesn't stop the watcher.
+ */
+async function writeOutputAndWatch(
+  config: Awaited<ReturnType<typeof importDrizzleConfig>>,
+  generate: () => Promise<string>,
+  {
+    watch,
+    ...options
+  }: { watch: boolean; out?: string; quiet: boolean; label: string },
+) {
+  let previous = await generate();
+  writeOutput(previous, options);
+
+  if (!watch) {
+    return;
+  }
+
+  let queue = Promise.resolve();
+  let scheduled = false;
+
+  watchSchema(config.schema).on("all", () => {
+    // changes made while generating are batched in the next run
+    if (scheduled) {
+      return;
+    }
+
+    scheduled = true;
+    queue = queue.then(async () => {
+      scheduled = false;
+
+      try {
+        const output = await generate();
+
+        if (output !== previous) {
+          previous = output;
+          writeOutput(output, options);
+        }
+      } catch (error) {
+        console.error(
+          chalk.red(
+            `\n${options.label} not generated: ${(error as Error).message}`,
+          ),
+        );
+      }
+    });
+  });
+
+  if (!options.quiet) {
+    console.log(
+      chalk.yellow(`\nWatching ${config.schema.length} schema file(s)...`),
+    );
+  }
+}
+
+/**
+ * Write the output of a `generate` command to a file, or print it to stdout.
+ *
+ * With `quiet`, nothing but the output is printed, so it can be piped.
+ */
+function writeOutput(
+  output: string,
+  { out, quiet, label }: { out?: string; quiet: boolean; label: string },
+) {
+  if (out) {
+    const outPath = Path.resolve(process.cwd(), out);
+    fs.mkdirSync(Path.dirname(outPath), { recursive: true });
+    fs.writeFileSync(outPath, output);
+
+    if (!quiet) {
+      console.log(chalk.green(`\n${label} written to ${outPath}`));
+    }
+    return;
+  }
+
+  if (!quiet) {
+    console.log("\n");
+  }
+
+  console.log(output);
+}
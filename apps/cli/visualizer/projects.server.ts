@@ -0,0 +1,105 @@
+import path from "node:path";
+
+import { DRIZZLE_LAB_ENV_KEY, findDrizzleConfigs, getEnv, importDrizzleConfig } from "@drizzle-lab/api/config/node";
+import type { Config } from "@drizzle-lab/api/config/node";
+import type { ProjectSnapshot, Snapshot } from "@drizzle-lab/visualizer";
+
+// `lab.projectId` when the config has a `lab` without projectId
+const defaultProjectId = "visualizer";
+
+/**
+ * The drizzle config files to visualize: the one of `--config`, or the ones found in the workspace with `--workspace`
+ */
+export function getConfigPaths() {
+  return getEnv().DRIZZLE_LAB_WORKSPACE ? findDrizzleConfigs() : [process.env[DRIZZLE_LAB_ENV_KEY.CONFIG_PATH]];
+}
+
+/**
+ * Import the config of a project of the workspace (the first one by default), or the config of `--config`
+ * @param project - The path of the project config, relative to the cwd
+ */
+export async function importProjectConfig(project: string | null) {
+  if (!getEnv().DRIZZLE_LAB_WORKSPACE) {
+    return {
+      config: await importDrizzleConfig(process.env[DRIZZLE_LAB_ENV_KEY.CONFIG_PATH]),
+      projects: [],
+      project: null,
+    };
+  }
+
+  const projects = findDrizzleConfigs();
+  const configPath = project && projects.includes(project) ? project : projects.at(0);
+
+  if (!configPath) {
+    throw new Error("No drizzle config file found in the workspace");
+  }
+
+  return {
+    config: await importWorkspaceConfig(configPath),
+    projects,
+    project: configPath,
+  };
+}
+
+/**
+ * Import the snapshots of all the projects of the workspace, to show them together
+ */
+export async function importWorkspaceSnapshots(): Promise<ProjectSnapshot[]> {
+  const projects: ProjectSnapshot[] = [];
+
+  for (const configPath of findDrizzleConfigs()) {
+    const snapshot = await importSnapshot(await importWorkspaceConfig(configPath));
+    const directory = path.dirname(configPath);
+
+    projects.push({
+      projectId: snapshot.projectId,
+      name: directory === "." ? configPath : directory,
+      snapshot,
+    });
+  }
+
+  return projects;
+}
+
+async function importWorkspaceConfig(configPath: string) {
+  const config = await importDrizzleConfig(configPath);
+
+  return { ...config, projectId: workspaceProjectId(configPath, config) };
+}
+
+async function importSnapshot(config: Config): Promise<Snapshot> {
+  switch (config.dialect) {
+    case "postgresql": {
+      const { drizzleObjectsToSnapshot, importFromFiles } = await import("@drizzle-lab/api/pg/node");
+
+      return drizzleObjectsToSnapshot(await importFromFiles(config.schema), config);
+    }
+    case "turso":
+    case "sqlite": {
+      const { drizzleObjectsToSnapshot, importFromFiles } = await import("@drizzle-lab/api/sqlite/node");
+
+      return drizzleObjectsToSnapshot(await importFromFiles(config.schema), config);
+    }
+    case "mysql": {
+      const { drizzleObjectsToSnapshot, importFromFiles } = await import("@drizzle-lab/api/mysql/node");
+
+      return drizzleObjectsToSnapshot(await importFromFiles(config.schema), config);
+    }
+    default: {
+      throw new Error(`Unsupported dialect: ${config.dialect}`);
+    }
+  }
+}
+
+/**
+ * The projects of a workspace share the save dir, so each one needs its own id: its `lab.projectId`, or the directory of its config
+ */
+function workspaceProjectId(configPath: string, config: Config) {
+  if (config.lab.projectId && config.lab.projectId !== defaultProjectId) {
+    return config.lab.projectId;
+  }
+
+  const directory = path.dirname(configPath);
+
+  return directory === "." ? config.projectId : directory.replace(/[^\w.-]+/g, "-");
+}
@@ -2,30 +2,51 @@ import fs from "node:fs/promises";
 import path from "node:path";
 
 import {
-  importDrizzleConfig,
+  loadMigrationHistory,
   DRIZZLE_LAB_ENV_KEY,
+  findDrizzleConfigs,
   getEnv,
 } from "@drizzle-lab/api/config/node";
+import type { MigrationHistoryEntry } from "@drizzle-lab/api/config/node";
 import {
   DrizzleVisualizer,
   DrizzleVisualizerLegend,
 } from "@drizzle-lab/visualizer";
 import type { NodePosition } from "@drizzle-lab/visualizer";
-import type { ActionFunctionArgs, MetaFunction } from "@remix-run/node";
+import type {
+  ActionFunctionArgs,
+  LoaderFunctionArgs,
+  MetaFunction,
+} from "@remix-run/node";
 import type { ShouldRevalidateFunctionArgs } from "@remix-run/react";
 import {
   data,
   isRouteErrorResponse,
+  Link,
   useFetcher,
   useLoaderData,
+  useNavigate,
   useRouteError,
 } from "@remix-run/react";
 import { Alert } from "@repo/ui/components/alert";
+import { Badge } from "@repo/ui/components/badge";
 import { Button } from "@repo/ui/components/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@repo/ui/components/select";
+import { cn } from "@repo/ui/utils/cn";
 import { ClientOnly } from "remix-utils/client-only";
 import { useDebouncedCallback } from "use-debounce";
 
 import { useWatch } from "./watch";
+import {
+  importProjectConfig,
+  importWorkspaceSnapshots,
+} from "../projects.server";
 
 export const meta: MetaFunction = () => {
   return [{ title: "Drizzle Lab - Visualizer" }];
@@ -48,58 +69,151 @@ const saveDir = path.resolve(
   process.env[DRIZZLE_LAB_ENV_KEY.SAVE_DIR] || ".drizzle-lab",
 );
 
-export async function loader() {
+// the project switcher value to show all the projects of a workspace together
+const ALL_PROJECTS = "*";
+// nodes positions of the combined view are saved with this id
+const WORKSPACE_PROJECT_ID = "workspace";
+
+async function readNodesPositions(projectId: string | undefined) {
   try {
-    const configPath = process.env[DRIZZLE_LAB_ENV_KEY.CONFIG_PATH];
-    const config = await importDrizzleConfig(configPath);
-    const saveFilePath = path.join(saveDir, `${config.projectId}.json`);
-
-    let initialNodesPositions: NodePosition[] = [];
-
-    try {
-      initialNodesPositions = JSON.parse(
-        await fs.readFile(saveFilePath, "utf-8"),
-      ) as NodePosition[];
-    } catch (e) {
-      if (getEnv().DRIZZLE_LAB_DEBUG) {
-        console.warn(
-          `Using default nodes positions. Reason is: ${
-            e instanceof Error ? e.message : "unknown"
-          }`,
-        );
-      }
+    return JSON.parse(
+      await fs.readFile(path.join(saveDir, `${projectId}.json`), "utf-8"),
+    ) as NodePosition[];
+  } catch (e) {
+    if (getEnv().DRIZZLE_LAB_DEBUG) {
+      console.warn(
+        `Using default nodes positions. Reason is: ${
+          e instanceof Error ? e.message : "unknown"
+        }`,
+      );
+    }
+
+    return [];
+  }
+}
+
+/**
+ * Pick the snapshot to visualize: the current TypeScript schema or the schema as it was after a migration
+ */
+function withHistory<TSnapshot extends { projectId: string }>(
+  snapshot: TSnapshot,
+  history: MigrationHistoryEntry<TSnapshot>[],
+  migrationTag: string | null,
+  diffSnapshots: (
+    prev: TSnapshot,
+    next: TSnapshot,
+  ) => { sqlStatements: string[] },
+) {
+  const migration = history.find((it) => it.tag === migrationTag);
+  const base = migration ?? history.at(-1);
+
+  return {
+    // keep the project id to share nodes positions between migrations
+    snapshot: migration
+      ? { ...migration.snapshot, projectId: snapshot.projectId }
+      : snapshot,
+    migrations: history.map(({ tag, when }) => ({ tag, when })).reverse(),
+    migrationTag: migration?.tag ?? null,
+    // changes not generated yet (or since the picked migration)
+    diff: base
+      ? {
+          from: base.tag,
+          sqlStatements: diffSnapshots(base.snapshot, snapshot).sqlStatements,
+        }
+      : null,
+  };
+}
+
+function noHistory(error: unknown) {
+  console.warn(
+    `Unable to load the migration history. Reason is: ${
+      error instanceof Error ? error.message : "unknown"
+    }`,
+  );
+
+  return [];
+}
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const migrationTag = searchParams.get("migration");
+
+    if (
+      getEnv().DRIZZLE_LAB_WORKSPACE &&
+      searchParams.get("project") === ALL_PROJECTS
+    ) {
+      return {
+        snapshot: undefined,
+        workspace: await importWorkspaceSnapshots(),
+        migrations: [],
+        migrationTag: null,
+        diff: null,
+        initialNodesPositions: await readNodesPositions(WORKSPACE_PROJECT_ID),
+        projects: findDrizzleConfigs(),
+        project: ALL_PROJECTS,
+      };
     }
 
+    const { config, projects, project } = await importProjectConfig(
+      searchParams.get("project"),
+    );
+    const initialNodesPositions = await readNodesPositions(config.projectId);
+
     switch (config.dialect) {
       case "postgresql": {
-        const { drizzleObjectsToSnapshot, importFromFiles } = await import(
-          "@drizzle-lab/api/pg/node"
-        );
+        const { diffSnapshots, drizzleObjectsToSnapshot, importFromFiles } =
+          await import("@drizzle-lab/api/pg/node");
         const drizzleObjects = await importFromFiles(config.schema);
         const snapshot = drizzleObjectsToSnapshot(drizzleObjects, config);
+        const history = await loadMigrationHistory({
+          dialect: config.dialect,
+          out: config.out,
+        }).catch(noHistory);
 
-        return { snapshot, initialNodesPositions };
+        return {
+          ...withHistory(snapshot, history, migrationTag, diffSnapshots),
+          initialNodesPositions,
+          projects,
+          project,
+        };
       }
 
       case "turso":
       case "sqlite": {
-        const { drizzleObjectsToSnapshot, importFromFiles } = await import(
-          "@drizzle-lab/api/sqlite/node"
-        );
+        const { diffSnapshots, drizzleObjectsToSnapshot, importFromFiles } =
+          await import("@drizzle-lab/api/sqlite/node");
         const drizzleObjects = await importFromFiles(config.schema);
         const snapshot = drizzleObjectsToSnapshot(drizzleObjects, config);
+        const history = await loadMigrationHistory({
+          dialect: config.dialect,
+          out: config.out,
+        }).catch(noHistory);
 
-        return { snapshot, initialNodesPositions };
+        return {
+          ...withHistory(snapshot, history, migrationTag, diffSnapshots),
+          initialNodesPositions,
+          projects,
+          project,
+        };
       }
 
       case "mysql": {
-        const { drizzleObjectsToSnapshot, importFromFiles } = await import(
-          "@drizzle-lab/api/mysql/node"
-        );
+        const { diffSnapshots, drizzleObjectsToSnapshot, importFromFiles } =
+          await import("@drizzle-lab/api/mysql/node");
         const drizzleObjects = await importFromFiles(config.schema);
         const snapshot = drizzleObjectsToSnapshot(drizzleObjects, config);
+        const history = await loadMigrationHistory({
+          dialect: config.dialect,
+          out: config.out,
+        }).catch(noHistory);
 
-        return { snapshot, initialNodesPositions };
+        return {
+          ...withHistory(snapshot, history, migrationTag, diffSnapshots),
+          initialNodesPositions,
+          projects,
+          project,
+        };
       }
 
       default: {
@@ -114,9 +228,12 @@ export async function loader() {
 
 export async function action({ request }: ActionFunctionArgs) {
   try {
-    const configPath = process.env[DRIZZLE_LAB_ENV_KEY.CONFIG_PATH];
-    const config = await importDrizzleConfig(configPath);
-    const saveFilePath = path.join(saveDir, `${config.projectId}.json`);
+    const project = new URL(request.url).searchParams.get("project");
+    const projectId =
+      getEnv().DRIZZLE_LAB_WORKSPACE && project === ALL_PROJECTS
+        ? WORKSPACE_PROJECT_ID
+        : (await importProjectConfig(project)).config.projectId;
+    const saveFilePath = path.join(saveDir, `${projectId}.json`);
     const nodesPositions = (await request.json()) as NodePosition[];
     await fs.mkdir(saveDir, { recursive: true });
     await fs.writeFile(saveFilePath, JSON.stringify(nodesPositions));
@@ -129,7 +246,16 @@ export async function action({ request }: ActionFunctionArgs) {
 
 export default function Index() {
   useWatch();
-  const { snapshot, initialNodesPositions } = useLoaderData<typeof loader>();
+  const {
+    snapshot,
+    workspace,
+    initialNodesPositions,
+    migrations,
+    migrationTag,
+    diff,
+    projects,
+    project,
+  } = useLoaderData<typeof loader>();
   const fetcher = useFetcher();
 
   const saveChanges = useDebouncedCallback(
@@ -154,23 +280,170 @@ export default function Index() {
         <p className="text-sm text-muted-foreground/30">
           It can still have bugs!
         </p>
+        {project && <ProjectSwitcher projects={projects} project={project} />}
       </Alert>
       <ClientOnly fallback={<p>Loading...</p>}>
         {() => (
           <>
             <DrizzleVisualizer
+              // nodes positions are not shared between projects
+              key={snapshot?.projectId ?? WORKSPACE_PROJECT_ID}
               snapshot={snapshot}
+              projects={workspace}
               initialNodesPositions={initialNodesPositions}
-              onNodesPositionsChange={saveChanges}
+              // nodes of a past schema should not overwrite the current layout
+              onNodesPositionsChange={migrationTag ? undefined : saveChanges}
             />
             <DrizzleVisualizerLegend />
           </>
         )}
       </ClientOnly>
+      {migrations.length > 0 && (
+        <MigrationTimeline
+          project={project}
+          migrations={migrations}
+          migrationTag={migrationTag}
+          diff={diff}
+        />
+      )}
+    </div>
+  );
+}
+
+/**
+ * Search params of the visualized project (in a workspace) and migration
+ */
+function toSearch(project: string | null, migrationTag?: string) {
+  const searchParams = new URLSearchParams();
+
+  if (project) {
+    searchParams.set("project", project);
+  }
+
+  if (migrationTag) {
+    searchParams.set("migration", migrationTag);
+  }
+
+  return searchParams.size > 0 ? `?${searchParams}` : ".";
+}
+
+function ProjectSwitcher({
+  projects,
+  project,
+}: {
+  projects: string[];
+  project: string;
+}) {
+  const navigate = useNavigate();
+
+  return (
+    <Select
+      value={project}
+      onValueChange={(value) => navigate(toSearch(value))}
+    >
+      <SelectTrigger className="pointer-events-auto mt-2 h-8 w-fit gap-2 text-xs">
+        <SelectValue placeholder="Select a project" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL_PROJECTS} className="text-xs">
+          All projects (combined)
+        </SelectItem>
+        {projects.map((it) => (
+          <SelectItem key={it} value={it} className="text-xs">
+            {it}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function MigrationTimeline({
+  project,
+  migrations,
+  migrationTag,
+  diff,
+}: {
+  project: string | null;
+  migrations: Array<{ tag: string; when: number }>;
+  migrationTag: string | null;
+  diff: { from: string; sqlStatements: string[] } | null;
+}) {
+  const changes = diff?.sqlStatements.length ?? 0;
+
+  return (
+    <div className="absolute bottom-4 right-4 z-10 flex max-h-[60%] w-80 flex-col gap-2 overflow-hidden rounded-md border bg-background p-2 text-sm shadow-md">
+      <div className="flex items-center justify-between gap-2 px-1">
+        <span className="font-bold">Migrations</span>
+        {diff && (
+          <Badge variant={changes > 0 ? "destructive" : "secondary"}>
+            {changes > 0
+              ? `${changes} un-generated change${changes > 1 ? "s" : ""}`
+              : "In sync"}
+          </Badge>
+        )}
+      </div>
+      <ol className="flex flex-col overflow-y-auto">
+        <TimelineItem
+          to={toSearch(project)}
+          active={!migrationTag}
+          label="Current schema"
+        />
+        {migrations.map(({ tag, when }) => (
+          <TimelineItem
+            key={tag}
+            to={toSearch(project, tag)}
+            active={tag === migrationTag}
+            label={tag}
+            description={new Date(when).toLocaleString()}
+          />
+        ))}
+      </ol>
+      {diff && changes > 0 && (
+        <div className="flex flex-col gap-1 overflow-hidden border-t pt-2">
+          <span className="px-1 text-xs text-muted-foreground">
+            {migrationTag
+              ? `Changes from ${diff.from} to the current schema`
+              : `Changes not generated since ${diff.from}`}
+          </span>
+          <pre className="overflow-auto rounded bg-muted p-2 text-xs">
+            {diff.sqlStatements.join("\n")}
+          </pre>
+        </div>
+      )}
     </div>
   );
 }
 
+function TimelineItem({
+  to,
+  active,
+  label,
+  description,
+}: {
+  to: string;
+  active: boolean;
+  label: string;
+  description?: string;
+}) {
+  return (
+    <li>
+      <Link
+        to={to}
+        className={cn(
+          "flex flex-col rounded px-2 py-1 hover:bg-muted",
+          active && "bg-muted font-medium",
+        )}
+      >
+        <span className="truncate">{label}</span>
+        {description && (
+          <span className="text-xs text-muted-foreground">{description}</span>
+        )}
+      </Link>
+    </li>
+  );
+}
+
 export function ErrorBoundary() {
   useWatch();
   const error = useRouteError();
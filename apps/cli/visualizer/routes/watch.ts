@@ -1,15 +1,16 @@
+import path from "node:path";
+
 import { useEffect } from "react";
 
-import {
-  importDrizzleConfig,
-  DRIZZLE_LAB_ENV_KEY,
-} from "@drizzle-lab/api/config/node";
+import { importDrizzleConfig } from "@drizzle-lab/api/config/node";
 import type { LoaderFunctionArgs } from "@remix-run/node";
 import { useRevalidator } from "@remix-run/react";
-import { watch } from "chokidar";
 import { useEventSource } from "remix-utils/sse/react";
 import { eventStream } from "remix-utils/sse/server";
 
+import { watchSchema } from "../../watcher";
+import { getConfigPaths } from "../projects.server";
+
 type EventType = "change" | "hello";
 type SendFunction = (args: { event: EventType; data: string }) => void;
 
@@ -19,13 +20,20 @@ export async function loader({ request }: LoaderFunctionArgs) {
     abortController.abort(),
   );
 
-  const configPath = process.env[DRIZZLE_LAB_ENV_KEY.CONFIG_PATH];
-  const config = await importDrizzleConfig(configPath);
+  // all the projects of a workspace, not only the visualized one
+  const configs = await Promise.all(
+    getConfigPaths().map((configPath) => importDrizzleConfig(configPath)),
+  );
 
-  const watcher = watch(config.schema, {
-    ignoreInitial: true,
-    ignored: (path, stats) => Boolean(stats?.isFile() && !path.endsWith(".ts")),
-  });
+  // new migrations update the timeline (`out` is resolved by the config loader)
+  const journalPaths = configs.map((config) =>
+    path.join(config.out, "meta/_journal.json"),
+  );
+
+  const watcher = watchSchema(
+    configs.flatMap((config) => config.schema),
+    journalPaths,
+  );
 
   return eventStream(
     AbortSignal.any([request.signal, abortController.signal]),
@@ -0,0 +1,13 @@
+import { watch } from "chokidar";
+
+/**
+ * Watch the TypeScript schema files of a drizzle config, and some other files (e.g. the migrations journal)
+ *
+ * Used by the visualizer to reload the schema and by the `generate --watch` commands to rewrite their output.
+ */
+export function watchSchema(schema: string[], files: string[] = []) {
+  return watch([...schema, ...files], {
+    ignoreInitial: true,
+    ignored: (path, stats) => Boolean(stats?.isFile() && !path.endsWith(".ts") && !files.includes(path)),
+  });
+}
@@ -691,6 +691,7 @@ async function fetchNodeModules(
     ["drizzle-seed", import("drizzle-seed")],
     ["@drizzle-lab/api/pg", import("@drizzle-lab/api/pg")],
     ["@drizzle-lab/api/sqlite", import("@drizzle-lab/api/sqlite")],
+    ["@drizzle-lab/api/mysql", import("@drizzle-lab/api/mysql")],
   ]);
 
   // fine tune modules to import
@@ -732,6 +733,11 @@ async function fetchNodeModules(
     }
     case "mysql": {
       imports.set("drizzle-orm/mysql-core", import("drizzle-orm/mysql-core"));
+      // there is no MySQL engine running in the browser, it is emulated with SQLite
+      imports.set(
+        "~/registry/utils/mysql-emulator",
+        import("~/registry/utils/mysql-emulator"),
+      );
       break;
     }
   }
@@ -1257,8 +1263,12 @@ export async function extractSchema() {
           dialect: "sqlite",
         });
       }
-      default: {
-        throw new Error(`Unsupported dialect ${dialect}`);
+      case "mysql": {
+        const { schemaToSnapshot } = await import("@drizzle-lab/api/mysql");
+        return schemaToSnapshot(await run("./schema"), {
+          ...config,
+          dialect: "mysql",
+        });
       }
     }
   } catch (cause) {
@@ -1301,7 +1311,9 @@ export async function schemaToSql() {
         break;
       }
       case "mysql": {
-        // sql = schemaToMySqlSql(schema).join("\n");
+        const { schemaToSql } = await import("@drizzle-lab/api/mysql");
+
+        sql = schemaToSql(schema, config);
         break;
       }
     }
@@ -1328,6 +1340,11 @@ export async function sqlToSchema(sqlDump: string, dialect: Dialect) {
         schema = await sqlToTypescript(sqlDump);
         break;
       }
+      case "mysql": {
+        const { sqlToTypescript } = await import("@drizzle-lab/api/mysql");
+        schema = await sqlToTypescript(sqlDump);
+        break;
+      }
     }
 
     return schema;
@@ -1337,6 +1354,50 @@ export async function sqlToSchema(sqlDump: string, dialect: Dialect) {
   }
 }
 
+export async function dbmlToSchema(dbml: string, dialect: Dialect) {
+  try {
+    switch (dialect) {
+      case "postgresql": {
+        const { dbmlToTypescript } = await import("@drizzle-lab/api/pg");
+        return dbmlToTypescript(dbml);
+      }
+      case "sqlite": {
+        const { dbmlToTypescript } = await import("@drizzle-lab/api/sqlite");
+        return dbmlToTypescript(dbml);
+      }
+      case "mysql": {
+        const { dbmlToTypescript } = await import("@drizzle-lab/api/mysql");
+        return dbmlToTypescript(dbml);
+      }
+    }
+  } catch (cause) {
+    console.warn("Unable to convert DBML to schema", cause);
+    throw cause;
+  }
+}
+
+export async function prismaToSchema(prisma: string, dialect: Dialect) {
+  try {
+    switch (dialect) {
+      case "postgresql": {
+        const { prismaToTypescript } = await import("@drizzle-lab/api/pg");
+        return prismaToTypescript(prisma);
+      }
+      case "sqlite": {
+        const { prismaToTypescript } = await import("@drizzle-lab/api/sqlite");
+        return prismaToTypescript(prisma);
+      }
+      case "mysql": {
+        const { prismaToTypescript } = await import("@drizzle-lab/api/mysql");
+        return prismaToTypescript(prisma);
+      }
+    }
+  } catch (cause) {
+    console.warn("Unable to convert Prisma schema to Drizzle schema", cause);
+    throw cause;
+  }
+}
+
 /* -------------------------------------------------------------------------- */
 /*                                 Shortcuts;                                 */
 /* -------------------------------------------------------------------------- */
@@ -0,0 +1,33 @@
+import { schemaToSql } from "@drizzle-lab/api/mysql";
+import type { Logger } from "drizzle-orm/logger";
+
+import { createClient, drizzle } from "~/registry/utils/mysql-emulator";
+import type { QueryLog } from "~/registry/utils/query-logger";
+
+// eslint-disable-next-line import/namespace
+import * as $schema from "./schema";
+
+class QueryLogger implements Logger {
+  logQuery(sql: string, params: unknown[]): void {
+    // eslint-disable-next-line no-console
+    console.log({
+      type: "query-log",
+      sql,
+      params,
+    } satisfies QueryLog);
+  }
+}
+
+/**
+ * There is no MySQL engine in the browser, the playground emulates it with SQLite
+ */
+export async function Database<TSchema extends Record<string, unknown> = Record<string, never>>(schema: TSchema) {
+  const client = createClient();
+  const db = drizzle(client, { schema, casing: "snake_case", logger: new QueryLogger() });
+
+  await client.exec(schemaToSql(schema, { casing: "snake_case" }));
+
+  return db;
+}
+
+export const db = await Database($schema);
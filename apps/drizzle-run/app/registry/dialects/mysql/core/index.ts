@@ -0,0 +1,7 @@
+/**
+ * Write your code here
+ * 💡Tip: you can use the `$` global variable to access goodies
+ */
+
+import { db } from "./db";
+import {} from "./schema";
@@ -0,0 +1,8 @@
+/**
+ * This is the schema for the database.
+ * 💡Tip: you can use the `$` global variable to access goodies
+ * Do not forget to `export` your tables 😅
+ */
+
+import { relations } from "drizzle-orm";
+import {} from "drizzle-orm/mysql-core";
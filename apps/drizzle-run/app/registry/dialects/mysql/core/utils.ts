@@ -0,0 +1,4 @@
+/**
+ * Here you can write any utilities you want to use in the playground
+ * 💡Tip: you can use the `$` global variable to access goodies
+ */
@@ -0,0 +1,31 @@
+/**
+ * This is the schema for the database.
+ * 💡Tip: you can use the `$` global variable to access goodies
+ * Do not forget to `export` your tables 😅
+ */
+
+import { relations } from "drizzle-orm";
+import { int, mysqlTable, text, timestamp, varchar } from "drizzle-orm/mysql-core";
+
+export const users = mysqlTable("users", {
+  id: int("id").primaryKey().autoincrement(),
+  name: varchar("name", { length: 255 }).notNull(),
+  createdAt: timestamp("created_at", { fsp: 3 }).notNull().defaultNow(),
+});
+
+export const usersRelations = relations(users, ({ many }) => ({
+  posts: many(posts),
+}));
+
+export const posts = mysqlTable("posts", {
+  id: int("id").primaryKey().autoincrement(),
+  content: text("content").notNull(),
+  authorId: int("author_id")
+    .notNull()
+    .references(() => users.id),
+  createdAt: timestamp("created_at", { fsp: 3 }).notNull().defaultNow(),
+});
+
+export const postsRelations = relations(posts, ({ one }) => ({
+  author: one(users, { fields: [posts.authorId], references: [users.id] }),
+}));
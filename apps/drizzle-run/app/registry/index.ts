@@ -1,6 +1,6 @@
 import { z } from "zod";
 
-export const DialectSchema = z.enum(["postgresql", "sqlite"], {
+export const DialectSchema = z.enum(["postgresql", "sqlite", "mysql"], {
   required_error: "Dialect is required",
 });
 
@@ -25,6 +25,7 @@ export function getPresetsManifest() {
   const presetsManifest: Record<Dialect, PresetManifest[]> = {
     postgresql: [],
     sqlite: [],
+    mysql: [],
   };
 
   for (const path in imports) {
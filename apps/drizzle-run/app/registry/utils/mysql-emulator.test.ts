@@ -0,0 +1,105 @@
+import { schemaToSql } from "@drizzle-lab/api/mysql";
+import { eq, sql } from "drizzle-orm";
+import { int, json, mysqlTable, text, timestamp, varchar } from "drizzle-orm/mysql-core";
+import { seed } from "drizzle-seed";
+import { expect, test } from "vitest";
+
+import { createClient, drizzle } from "./mysql-emulator";
+import * as starter from "../dialects/mysql/presets/starter-01/schema";
+
+async function createDatabase<TSchema extends Record<string, unknown>>(schema: TSchema) {
+  const client = createClient();
+  const db = drizzle(client, { schema, casing: "snake_case" });
+
+  await client.exec(schemaToSql(schema, { casing: "snake_case" }));
+
+  return { client, db };
+}
+
+test("Seed and query the starter preset", async () => {
+  const { db } = await createDatabase(starter);
+
+  // @ts-expect-error - temporary fix for drizzle-seed
+  await seed(db, { users: starter.users, posts: starter.posts }, { count: 3 });
+
+  const users = await db.query.users.findMany({ with: { posts: true } });
+
+  expect(users).toHaveLength(3);
+  expect(users.flatMap((user) => user.posts)).toHaveLength(3);
+  expect(users[0].createdAt).toBeInstanceOf(Date);
+
+  const post = await db.query.posts.findFirst({ with: { author: true } });
+  const { posts: _, ...author } = users.find((user) => user.id === post?.authorId)!;
+
+  expect(post?.author).toEqual(author);
+  expect(
+    await db.query.posts.findMany({ columns: { id: true }, where: eq(starter.posts.authorId, author.id) }),
+  ).toHaveLength(users.find((user) => user.id === author.id)!.posts.length);
+});
+
+test("Insert default values and upsert rows", async () => {
+  const { db } = await createDatabase(starter);
+
+  const [{ insertId }] = await db.insert(starter.users).values([{ name: "Ada" }, { name: "Grace" }]);
+
+  expect(insertId).toBe(1);
+
+  await db
+    .insert(starter.users)
+    .values({ id: 1, name: "Ada Lovelace" })
+    .onDuplicateKeyUpdate({ set: { name: sql`values(${starter.users.name})` } });
+
+  const users = await db.select().from(starter.users);
+
+  expect(users.map((user) => user.createdAt)).toEqual([expect.any(Date), expect.any(Date)]);
+  expect(users.map(({ id, name }) => ({ id, name }))).toEqual([
+    { id: 1, name: "Ada Lovelace" },
+    { id: 2, name: "Grace" },
+  ]);
+});
+
+test("Parse JSON columns of the emulated database", async () => {
+  const documents = mysqlTable("documents", {
+    id: int().primaryKey().autoincrement(),
+    title: varchar({ length: 255 }).notNull(),
+    body: text(),
+    metadata: json().$type<{ tags: string[] }>(),
+    createdAt: timestamp().notNull().defaultNow(),
+  });
+  const { db } = await createDatabase({ documents });
+
+  await db.insert(documents).values({ title: "Notes", metadata: { tags: ["a", "b"] } });
+
+  expect(await db.select({ metadata: documents.metadata }).from(documents)).toEqual([
+    { metadata: { tags: ["a", "b"] } },
+  ]);
+  expect(await db.query.documents.findFirst({ columns: { metadata: true } })).toEqual({
+    metadata: { tags: ["a", "b"] },
+  });
+});
+
+test("Reject the alterations the emulator can't apply", async () => {
+  const { client } = await createDatabase(starter);
+
+  await client.exec("ALTER TABLE `posts` ADD `title` varchar(255)");
+  await expect(client.exec("ALTER TABLE `posts` DROP COLUMN `content`")).rejects.toThrow(
+    "The MySQL emulator only supports ALTER TABLE ... ADD, drop and create the table again to drop its columns or constraints",
+  );
+  await expect(
+    client.exec("ALTER TABLE `posts` ADD `slug` text, MODIFY `title` varchar(100) NOT NULL"),
+  ).rejects.toThrow(
+    "The MySQL emulator only supports ALTER TABLE ... ADD, drop and create the table again to modify its columns or constraints",
+  );
+});
+
+test("Re-create the tables that are dropped and created again", async () => {
+  const { client, db } = await createDatabase(starter);
+
+  await db.insert(starter.users).values({ name: "Ada" });
+  await client.exec(
+    "DROP TABLE `users`;\nCREATE TABLE `users` (`id` int AUTO_INCREMENT PRIMARY KEY, `name` text NOT NULL, `email` varchar(255) NOT NULL)",
+  );
+  await db.execute(sql`insert into \`users\` (\`name\`, \`email\`) values ('Grace', 'grace@example.com')`);
+
+  expect(await client.query("select * from `users`", [], "all")).toEqual({ rows: [[1, "Grace", "grace@example.com"]] });
+});
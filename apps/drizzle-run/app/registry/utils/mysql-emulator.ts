@@ -0,0 +1,488 @@
+import { sqlToSnapshot, type Snapshot } from "@drizzle-lab/api/mysql";
+import { createClient as createSqliteClient } from "@libsql/client-wasm";
+import { DefaultLogger, type DrizzleConfig, is, type Logger } from "drizzle-orm";
+import { MySqlDialect, MySqlJson } from "drizzle-orm/mysql-core";
+import { MySqlRemoteDatabase, MySqlRemoteSession, type RemoteCallback } from "drizzle-orm/mysql-proxy";
+import { createTableRelationsHelpers, extractTablesRelationalConfig } from "drizzle-orm/relations";
+
+/**
+ * There is no MySQL engine running in the browser, so the playground emulates one on top of SQLite (libsql wasm).
+ *
+ * - DDL statements are parsed with `@drizzle-lab/api` and translated to SQLite (enums become checks, `ON UPDATE CURRENT_TIMESTAMP` becomes a trigger, ...)
+ * - queries built by drizzle are rewritten when SQLite has no equivalent syntax (`default` values, `insert ignore`, `on duplicate key update`, ...)
+ *
+ * It is good enough to play with drizzle, but it is not MySQL: types are not enforced and MySQL specific functions may not exist.
+ */
+
+type Table = Snapshot["tables"][string];
+type Column = Table["columns"][string];
+
+export type MySqlEmulator = {
+  /**
+   * `drizzle-orm/mysql-proxy` callback
+   */
+  query: RemoteCallback;
+  /**
+   * Run MySQL DDL statements (e.g. `schemaToSql` output)
+   */
+  exec: (sqlDump: string) => Promise<void>;
+};
+
+/**
+ * MySQL functions and their SQLite equivalent
+ */
+const functions: [RegExp, string][] = [
+  [/\b(?:now|current_timestamp|localtimestamp|localtime)\(\s*\d*\s*\)/gi, "current_timestamp"],
+  [/\b(?:curdate|current_date)\(\s*\)/gi, "current_date"],
+  [/\b(?:curtime|current_time)\(\s*\d*\s*\)/gi, "current_time"],
+  [/\bjson_arrayagg\(/gi, "json_group_array("],
+  [/\bjson_objectagg\(/gi, "json_group_object("],
+  [/\brand\(\s*\)/gi, "random()"],
+  [/\s+for\s+(?:update|share)(?:\s+(?:nowait|skip\s+locked))?\s*$/i, ""],
+  [/\s+lock\s+in\s+share\s+mode\s*$/i, ""],
+];
+
+function quote(name: string) {
+  return `\`${name.replaceAll("`", "``")}\``;
+}
+
+/**
+ * Replace the content of quoted strings and identifiers by spaces, so the SQL can be searched without false positives
+ */
+function mask(sql: string) {
+  return sql.replace(/'(?:[^'\\]|\\.|'')*'|"(?:[^"\\]|\\.)*"|`(?:[^`]|``)*`/g, (quoted) =>
+    quoted.length > 2 ? `${quoted[0]}${" ".repeat(quoted.length - 2)}${quoted[0]}` : quoted,
+  );
+}
+
+/**
+ * Apply a replacement outside of quoted strings and identifiers
+ */
+function replaceUnquoted(sql: string, pattern: RegExp, replacement: string) {
+  let result = "";
+  let lastIndex = 0;
+
+  for (const match of mask(sql).matchAll(new RegExp(pattern.source, pattern.flags.replace("g", "") + "g"))) {
+    const original = sql.slice(match.index, match.index + match[0].length);
+    result += sql.slice(lastIndex, match.index) + original.replace(new RegExp(pattern.source, "i"), replacement);
+    lastIndex = match.index + match[0].length;
+  }
+
+  return result + sql.slice(lastIndex);
+}
+
+function translateFunctions(sql: string) {
+  return functions.reduce((result, [pattern, replacement]) => replaceUnquoted(result, pattern, replacement), sql);
+}
+
+function toDefault(value: NonNullable<Column["default"]>) {
+  if (typeof value === "boolean") {
+    return value ? "1" : "0";
+  }
+
+  return translateFunctions(String(value));
+}
+
+function isRowId(table: Table, column: Column) {
+  const [primaryKey, ...others] = Object.values(table.compositePrimaryKeys);
+
+  return (
+    column.autoincrement &&
+    others.length === 0 &&
+    primaryKey?.columns.length === 1 &&
+    primaryKey.columns[0] === column.name
+  );
+}
+
+function columnToSql(table: Table, column: Column) {
+  if (isRowId(table, column)) {
+    return `${quote(column.name)} integer PRIMARY KEY AUTOINCREMENT`;
+  }
+
+  let sql = `${quote(column.name)} ${column.type.startsWith("enum(") ? "text" : column.type}`;
+
+  if (column.notNull) {
+    sql += " NOT NULL";
+  }
+
+  if (column.default !== undefined) {
+    sql += ` DEFAULT ${toDefault(column.default)}`;
+  }
+
+  if (column.generated) {
+    sql += ` GENERATED ALWAYS AS (${translateFunctions(column.generated.as)}) ${column.generated.type.toUpperCase()}`;
+  }
+
+  if (column.enumValues) {
+    sql += ` CHECK (${quote(column.name)} IN (${column.enumValues.map((it) => `'${it.replaceAll("'", "''")}'`).join(", ")}))`;
+  }
+
+  return sql;
+}
+
+/**
+ * SQLite index names are global, MySQL ones are scoped to their table
+ */
+function indexName(table: Table, name: string) {
+  return quote(`${table.name}.${name}`);
+}
+
+function createIndexToSql(table: Table, index: Table["indexes"][string]) {
+  const columns = index.columns.map((it) => (table.columns[it] ? quote(it) : `(${translateFunctions(it)})`));
+
+  return `CREATE ${index.isUnique ? "UNIQUE " : ""}INDEX ${indexName(table, index.name)} ON ${quote(table.name)} (${columns.join(", ")})`;
+}
+
+function onUpdateTriggerToSql(table: Table, column: Column) {
+  return [
+    `CREATE TRIGGER ${quote(`${table.name}.${column.name}.on_update`)} AFTER UPDATE ON ${quote(table.name)}`,
+    `FOR EACH ROW WHEN NEW.${quote(column.name)} IS OLD.${quote(column.name)}`,
+    `BEGIN UPDATE ${quote(table.name)} SET ${quote(column.name)} = current_timestamp WHERE rowid = NEW.rowid; END`,
+  ].join(" ");
+}
+
+function createTableToSql(table: Table) {
+  const columns = Object.values(table.columns);
+  const definitions = columns.map((column) => columnToSql(table, column));
+
+  if (!columns.some((column) => isRowId(table, column))) {
+    for (const primaryKey of Object.values(table.compositePrimaryKeys)) {
+      definitions.push(`PRIMARY KEY (${primaryKey.columns.map(quote).join(", ")})`);
+    }
+  }
+
+  for (const unique of Object.values(table.uniqueConstraints)) {
+    definitions.push(`CONSTRAINT ${quote(unique.name)} UNIQUE (${unique.columns.map(quote).join(", ")})`);
+  }
+
+  for (const check of Object.values(table.checkConstraints)) {
+    definitions.push(`CONSTRAINT ${quote(check.name)} CHECK (${translateFunctions(check.value)})`);
+  }
+
+  for (const fk of Object.values(table.foreignKeys)) {
+    definitions.push(
+      [
+        `CONSTRAINT ${quote(fk.name)} FOREIGN KEY (${fk.columnsFrom.map(quote).join(", ")})`,
+        `REFERENCES ${quote(fk.tableTo)} (${fk.columnsTo.map(quote).join(", ")})`,
+        `ON DELETE ${fk.onDelete ?? "no action"} ON UPDATE ${fk.onUpdate ?? "no action"}`,
+      ].join(" "),
+    );
+  }
+
+  return [
+    `CREATE TABLE ${quote(table.name)} (\n\t${definitions.join(",\n\t")}\n)`,
+    ...Object.values(table.indexes).map((index) => createIndexToSql(table, index)),
+    ...columns.filter((column) => column.onUpdate).map((column) => onUpdateTriggerToSql(table, column)),
+  ];
+}
+
+/**
+ * @returns The SQLite statements to go from the previous MySQL schema to the next one
+ */
+function snapshotsToSql(prev: Snapshot, next: Snapshot) {
+  const statements: string[] = [];
+
+  for (const [key, view] of Object.entries(prev.views)) {
+    if (next.views[key]?.definition !== view.definition) {
+      statements.push(`DROP VIEW ${quote(view.name)}`);
+    }
+  }
+
+  for (const [key, table] of Object.entries(prev.tables)) {
+    if (!next.tables[key]) {
+      statements.push(`DROP TABLE ${quote(table.name)}`);
+    }
+  }
+
+  for (const [key, table] of Object.entries(next.tables)) {
+    const prevTable = prev.tables[key];
+
+    if (!prevTable) {
+      statements.push(...createTableToSql(table));
+      continue;
+    }
+
+    // the table was dropped and created again with other columns or constraints
+    const isRedefined =
+      Object.values(prevTable.columns).some(
+        (column) => JSON.stringify(table.columns[column.name]) !== JSON.stringify(column),
+      ) ||
+      (["foreignKeys", "checkConstraints", "compositePrimaryKeys", "uniqueConstraints"] as const).some((kind) =>
+        Object.entries(prevTable[kind]).some(
+          ([name, constraint]) => JSON.stringify(table[kind][name]) !== JSON.stringify(constraint),
+        ),
+      );
+
+    if (isRedefined) {
+      statements.push(`DROP TABLE ${quote(prevTable.name)}`, ...createTableToSql(table));
+      continue;
+    }
+
+    const hasNewConstraints = (["foreignKeys", "checkConstraints", "compositePrimaryKeys"] as const).some((kind) =>
+      Object.keys(table[kind]).some((name) => !prevTable[kind][name]),
+    );
+
+    if (hasNewConstraints) {
+      throw new Error(
+        `The MySQL emulator can't add constraints to the existing table ${quote(table.name)}, declare them in CREATE TABLE`,
+      );
+    }
+
+    for (const column of Object.values(table.columns)) {
+      if (!prevTable.columns[column.name]) {
+        statements.push(`ALTER TABLE ${quote(table.name)} ADD COLUMN ${columnToSql(table, column)}`);
+      }
+    }
+
+    for (const index of Object.values(prevTable.indexes)) {
+      if (!table.indexes[index.name]) {
+        statements.push(`DROP INDEX ${indexName(table, index.name)}`);
+      }
+    }
+
+    for (const index of Object.values(table.indexes)) {
+      if (!prevTable.indexes[index.name]) {
+        statements.push(createIndexToSql(table, index));
+      }
+    }
+
+    for (const unique of Object.values(table.uniqueConstraints)) {
+      if (!prevTable.uniqueConstraints[unique.name]) {
+        statements.push(createIndexToSql(table, { name: unique.name, columns: unique.columns, isUnique: true }));
+      }
+    }
+  }
+
+  for (const [key, view] of Object.entries(next.views)) {
+    if (prev.views[key]?.definition !== view.definition) {
+      statements.push(`CREATE VIEW ${quote(view.name)} AS ${translateFunctions(view.definition ?? "")}`);
+    }
+  }
+
+  return statements;
+}
+
+/**
+ * The DDL parser only applies `ALTER TABLE ... ADD`, other alterations would be silently ignored
+ */
+function assertSupportedAlterations(sqlDump: string) {
+  for (const [, clauses] of mask(sqlDump).matchAll(/\balter\s+table\s+(?:`[^`]*`\.)?(?:`[^`]*`|[\w.]+)\s+([^;]*)/gi)) {
+    const unsupported = clauses.split(",").find((clause) => /^\s*(?:drop|modify|change|rename|alter)\b/i.test(clause));
+
+    if (unsupported) {
+      throw new Error(
+        `The MySQL emulator only supports ALTER TABLE ... ADD, drop and create the table again to ${unsupported.trim().split(/\s/)[0].toLowerCase()} its columns or constraints`,
+      );
+    }
+  }
+}
+
+/**
+ * Replace MySQL `default` values (not supported by SQLite) in `insert into t (a, b) values (default, ?)`
+ */
+function translateInsert(sql: string, snapshot?: Snapshot) {
+  const match = /^insert\s+(?:ignore\s+)?into\s+(?:`(?:[^`]|``)*`\.)?`((?:[^`]|``)*)`\s*\(([^)]*)\)\s*values\s*/i.exec(
+    sql,
+  );
+
+  if (!match) {
+    return sql;
+  }
+
+  const masked = mask(sql);
+  const tableName = match[1].replaceAll("``", "`");
+  const table = Object.values(snapshot?.tables ?? {}).find((it) => it.name === tableName);
+  const columns = [...match[2].matchAll(/`((?:[^`]|``)*)`/g)].map((it) => it[1].replaceAll("``", "`"));
+
+  let result = sql.slice(0, match[0].length).replace(/^insert\s+ignore\s+into/i, "insert or ignore into");
+  let depth = 0;
+  let valueIndex = 0;
+  let valueStart = match[0].length;
+  let index = match[0].length;
+
+  const defaultOf = (columnName: string) => {
+    const column = table?.columns[columnName];
+
+    return column?.default !== undefined && !(table && isRowId(table, column)) ? toDefault(column.default) : "null";
+  };
+
+  for (; index < sql.length; index++) {
+    const char = masked[index];
+
+    if (char === "(") {
+      depth++;
+
+      if (depth === 1) {
+        result += sql.slice(valueStart, index + 1);
+        valueStart = index + 1;
+        valueIndex = 0;
+      }
+
+      continue;
+    }
+
+    if ((char === "," || char === ")") && depth === 1) {
+      const value = sql.slice(valueStart, index);
+      result += value.replace(
+        /^(\s*)default(\s*)$/i,
+        (_, before, after) => before + defaultOf(columns[valueIndex]) + after,
+      );
+      result += char;
+      valueStart = index + 1;
+      valueIndex++;
+    }
+
+    if (char === ")") {
+      depth--;
+      continue;
+    }
+
+    // end of the values, e.g. `on duplicate key update`
+    if (depth === 0 && char !== "," && char.trim()) {
+      break;
+    }
+  }
+
+  result += sql.slice(valueStart, index);
+
+  const rest = sql.slice(index);
+
+  if (!/^on\s+duplicate\s+key\s+update\s/i.test(rest)) {
+    return result + rest;
+  }
+
+  return (
+    result +
+    replaceUnquoted(
+      rest.replace(/^on\s+duplicate\s+key\s+update\s/i, "on conflict do update set "),
+      /\bvalues\(\s*(?:`(?:[^`]|``)*`\.)?(`(?:[^`]|``)*`)\s*\)/i,
+      "excluded.$1",
+    )
+  );
+}
+
+/**
+ * @returns The SQLite statement, `undefined` if it has no effect in SQLite
+ */
+function translateStatement(sql: string, snapshot?: Snapshot) {
+  const statement = sql.trim().replace(/;$/, "");
+  const foreignKeyChecks = /^set\s+foreign_key_checks\s*=\s*(0|1)$/i.exec(statement);
+
+  if (foreignKeyChecks) {
+    return `PRAGMA foreign_keys = ${foreignKeyChecks[1] === "1" ? "ON" : "OFF"}`;
+  }
+
+  if (/^set\s/i.test(statement)) {
+    return undefined;
+  }
+
+  if (/^truncate\s/i.test(statement)) {
+    return statement.replace(/^truncate\s+(table\s+)?/i, "DELETE FROM ");
+  }
+
+  return translateFunctions(translateInsert(statement, snapshot));
+}
+
+/**
+ * Create an in-memory MySQL emulator
+ */
+export function createClient(): MySqlEmulator {
+  const client = createSqliteClient({ url: ":memory:" });
+  let history: string[] = [];
+  let snapshot: Snapshot | undefined;
+  const ready = client.execute("PRAGMA foreign_keys = ON");
+
+  async function exec(sqlDump: string) {
+    await ready;
+    assertSupportedAlterations(sqlDump);
+    const nextHistory = [...history, sqlDump];
+    const next = await sqlToSnapshot(nextHistory.join(";\n"));
+
+    await client.batch(
+      snapshotsToSql(snapshot ?? { ...next, tables: {}, views: {} }, next).map((sql) => ({ sql, args: [] })),
+      "write",
+    );
+
+    history = nextHistory;
+    snapshot = next;
+  }
+
+  const query: RemoteCallback = async (sql, params, method) => {
+    await ready;
+
+    if (/^\s*(create|alter|drop|rename)\s/i.test(sql)) {
+      await exec(sql);
+      return { rows: [{ insertId: 0, affectedRows: 0 }] };
+    }
+
+    const statement = translateStatement(sql, snapshot);
+
+    if (!statement) {
+      return { rows: [{ insertId: 0, affectedRows: 0 }] };
+    }
+
+    const result = await client.execute({ sql: statement, args: params });
+    const rows = result.rows.map((row) => result.columns.map((_, index) => row[index]));
+
+    if (method === "all") {
+      return { rows };
+    }
+
+    if (result.columns.length > 0) {
+      return {
+        rows: rows.map((row) => Object.fromEntries(result.columns.map((column, index) => [column, row[index]]))),
+      };
+    }
+
+    // MySQL returns the first id of a multi-row insert
+    const insertId = /^\s*insert\s/i.test(statement)
+      ? Number(result.lastInsertRowid ?? 0) - result.rowsAffected + 1
+      : 0;
+
+    return { rows: [{ insertId, affectedRows: result.rowsAffected }] };
+  };
+
+  return { query, exec };
+}
+
+/**
+ * `drizzle-orm/mysql-proxy` with the relational queries mode that doesn't use lateral joins (not supported by SQLite)
+ */
+export function drizzle<TSchema extends Record<string, unknown> = Record<string, never>>(
+  emulator: MySqlEmulator,
+  config: DrizzleConfig<TSchema> = {},
+) {
+  const dialect = new MySqlDialect({ casing: config.casing });
+  let schema;
+
+  if (config.schema) {
+    const tablesConfig = extractTablesRelationalConfig(config.schema, createTableRelationsHelpers);
+
+    // mysql2 parses JSON columns, SQLite returns them as text
+    for (const table of Object.values(tablesConfig.tables)) {
+      for (const column of Object.values(table.columns)) {
+        if (is(column, MySqlJson)) {
+          column.mapFromDriverValue = (value: unknown) => (typeof value === "string" ? JSON.parse(value) : value);
+        }
+      }
+    }
+
+    schema = {
+      fullSchema: config.schema,
+      schema: tablesConfig.tables,
+      tableNamesMap: tablesConfig.tableNamesMap,
+    };
+  }
+
+  let logger: Logger | undefined;
+
+  if (config.logger === true) {
+    logger = new DefaultLogger();
+  } else if (config.logger !== false) {
+    logger = config.logger;
+  }
+
+  const session = new MySqlRemoteSession(emulator.query, dialect, schema, { logger });
+
+  return new MySqlRemoteDatabase<TSchema>(dialect, session, schema as never, "planetscale");
+}
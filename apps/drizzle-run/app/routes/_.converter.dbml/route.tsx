@@ -0,0 +1,278 @@
+import { useEffect, useRef, useState } from "react";
+
+import { Editor } from "@monaco-editor/react";
+import { Badge } from "@repo/ui/components/badge";
+import { Button, buttonVariants } from "@repo/ui/components/button";
+import { Icon } from "@repo/ui/components/icon";
+import {
+  ResizableHandle,
+  ResizablePanel,
+  ResizablePanelGroup,
+} from "@repo/ui/components/resizable";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@repo/ui/components/select";
+import { Typography } from "@repo/ui/components/typography";
+import { cn } from "@repo/ui/utils/cn";
+import { useActor } from "@xstate/react";
+import type { ImperativePanelHandle } from "react-resizable-panels";
+import { useDebounce } from "use-debounce";
+
+import { RainLogo } from "~/components/logo";
+import {
+  EditorMachine,
+  dbmlToSchema,
+} from "~/modules/playground/machine.client";
+import { useEditorOptions } from "~/modules/playground/options.client";
+import { asFileName, dialects, type Dialect } from "~/registry";
+
+const dbmlExample = `Table users {
+  id serial [pk]
+  name text
+}
+
+Table posts {
+  id serial [pk]
+  content text
+  author_id integer [not null, ref: > users.id]
+}
+
+Table comments {
+  id serial [pk]
+  text text
+  author_id integer [not null]
+  post_id integer [not null]
+
+  Indexes {
+    post_id
+  }
+}
+
+Ref: comments.author_id > users.id
+Ref: comments.post_id > posts.id [delete: cascade]
+`;
+
+type OutputFile = "schema.ts" | "relations.ts";
+
+export default function Route() {
+  const editorPanelRef = useRef<ImperativePanelHandle>(null);
+  const editorOptions = useEditorOptions();
+  const [rawDbml, setRawDbml] = useState<string>(
+    () => sessionStorage.getItem("converter.schema.dbml") || dbmlExample,
+  );
+  const [debouncedDbml] = useDebounce(rawDbml, 500);
+  const [output, setOutput] = useState<Record<OutputFile, string>>({
+    "schema.ts": "",
+    "relations.ts": "",
+  });
+  const [outputFile, setOutputFile] = useState<OutputFile>("schema.ts");
+  const schema = output[outputFile];
+  const [dialect, setDialect] = useState<Dialect>("postgresql");
+  const [editor] = useActor(EditorMachine, {
+    input: {
+      dialect: "postgresql",
+      fileTree: {
+        "index.ts": "",
+        "schema.ts": "",
+        "utils.ts": "",
+      },
+    },
+  });
+  const [copied, setCopied] = useState(false);
+  const isReady = editor.hasTag("started");
+  const editorSetupError = editor.context.setupError;
+
+  useEffect(() => {
+    if (copied) {
+      setTimeout(() => {
+        setCopied(false);
+      }, 1000);
+    }
+  }, [copied]);
+
+  useEffect(() => {
+    if (!isReady) {
+      return;
+    }
+
+    dbmlToSchema(debouncedDbml, dialect)
+      .then((result) => {
+        setOutput({
+          "schema.ts": result?.schema ?? "",
+          "relations.ts": result?.relations ?? "",
+        });
+      })
+      .catch((cause) => {
+        setOutput({ "schema.ts": cause.message, "relations.ts": "" });
+      });
+  }, [isReady, debouncedDbml, dialect]);
+
+  return (
+    <ResizablePanelGroup
+      autoSaveId="converter"
+      direction="horizontal"
+      className="relative size-full"
+    >
+      <ResizablePanel
+        ref={editorPanelRef}
+        defaultSize={50}
+        className="relative p-4 pl-0"
+      >
+        <div className="absolute right-4 top-4 z-10 flex items-center gap-1">
+          <Select
+            value={dialect}
+            onValueChange={(value) => setDialect(value as Dialect)}
+          >
+            <SelectTrigger
+              className={buttonVariants({
+                variant: "secondary",
+                size: "sm",
+                className: "w-fit h-6",
+              })}
+            >
+              <SelectValue placeholder="Select a dialect" />
+            </SelectTrigger>
+            <SelectContent>
+              {dialects.map((dialect) => (
+                <SelectItem key={dialect} value={dialect}>
+                  {dialect}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Badge variant="secondary" className="w-fit">
+            DBML schema
+          </Badge>
+        </div>
+
+        {editor.hasTag("setup") && (
+          <div className="flex h-full flex-col items-center justify-center gap-4 p-4">
+            {editor.hasTag("starting") && (
+              <>
+                <RainLogo className="h-10 animate-pulse" />
+                <Typography variant="mutedText" className="animate-pulse">
+                  {editor.hasTag("starting:boot") && "Starting editor"}
+                  {editor.hasTag("starting:types") && "Loading types"}
+                  {editor.hasTag("starting:prepare") && "Preparing playground"}
+                </Typography>
+              </>
+            )}
+            {editor.hasTag("start_failed") && editorSetupError && (
+              <>
+                <RainLogo className="h-10 text-red" />
+                <p>{editorSetupError.message}</p>
+                {editorSetupError.cause ? (
+                  <p>{editorSetupError.cause}</p>
+                ) : null}
+              </>
+            )}
+          </div>
+        )}
+
+        {editor.hasTag("started") && (
+          <Editor
+            value={rawDbml}
+            language="plaintext"
+            path="schema.dbml"
+            theme="tokyo-night"
+            options={editorOptions}
+            onChange={async (rawDbml) => {
+              if (!rawDbml) {
+                setRawDbml("");
+                return;
+              }
+              sessionStorage.setItem("converter.schema.dbml", rawDbml);
+              setRawDbml(rawDbml);
+            }}
+          />
+        )}
+      </ResizablePanel>
+      <ResizableHandle
+        withHandle
+        onDoubleClick={() => {
+          editorPanelRef.current?.resize(50);
+        }}
+      />
+      <ResizablePanel defaultSize={50} className="relative p-4 pl-0">
+        <div className="absolute right-4 top-4 z-10 flex items-center gap-1">
+          <Select
+            value={outputFile}
+            onValueChange={(value) => setOutputFile(value as OutputFile)}
+          >
+            <SelectTrigger
+              className={buttonVariants({
+                variant: "secondary",
+                size: "sm",
+                className: "w-fit h-6",
+              })}
+            >
+              <SelectValue placeholder="Select a file" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="schema.ts">schema.ts</SelectItem>
+              <SelectItem value="relations.ts">relations.ts</SelectItem>
+            </SelectContent>
+          </Select>
+          <Badge variant="secondary" className="flex w-fit items-center gap-1">
+            Generated Drizzle schema
+            <Button
+              size="icon"
+              className="size-fit rounded-none"
+              variant="ghost"
+              onClick={() => {
+                if (!schema) {
+                  return;
+                }
+
+                navigator.clipboard.writeText(schema);
+                setCopied(true);
+              }}
+            >
+              <Icon
+                name={copied ? "clipboard-check" : "clipboard"}
+                className={cn(copied && "text-green")}
+              />
+            </Button>
+          </Badge>
+        </div>
+
+        {editor.hasTag("setup") && (
+          <div className="flex h-full flex-col items-center justify-center gap-4 p-4">
+            {editor.hasTag("starting") && (
+              <>
+                <RainLogo className="h-10 animate-pulse" />
+                <Typography variant="mutedText" className="animate-pulse">
+                  {editor.hasTag("starting:boot") && "Starting editor"}
+                  {editor.hasTag("starting:types") && "Loading types"}
+                  {editor.hasTag("starting:prepare") && "Preparing playground"}
+                </Typography>
+              </>
+            )}
+            {editor.hasTag("start_failed") && editorSetupError && (
+              <>
+                <RainLogo className="h-10 text-red" />
+                <p>{editorSetupError.message}</p>
+                {editorSetupError.cause ? (
+                  <p>{editorSetupError.cause}</p>
+                ) : null}
+              </>
+            )}
+          </div>
+        )}
+
+        {editor.hasTag("started") && (
+          <Editor
+            value={schema}
+            defaultPath={asFileName("schema.ts")}
+            theme="tokyo-night"
+            options={editorOptions}
+          />
+        )}
+      </ResizablePanel>
+    </ResizablePanelGroup>
+  );
+}
@@ -0,0 +1,281 @@
+import { useEffect, useRef, useState } from "react";
+
+import { Editor } from "@monaco-editor/react";
+import { Badge } from "@repo/ui/components/badge";
+import { Button, buttonVariants } from "@repo/ui/components/button";
+import { Icon } from "@repo/ui/components/icon";
+import {
+  ResizableHandle,
+  ResizablePanel,
+  ResizablePanelGroup,
+} from "@repo/ui/components/resizable";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@repo/ui/components/select";
+import { Typography } from "@repo/ui/components/typography";
+import { cn } from "@repo/ui/utils/cn";
+import { useActor } from "@xstate/react";
+import type { ImperativePanelHandle } from "react-resizable-panels";
+import { useDebounce } from "use-debounce";
+
+import { RainLogo } from "~/components/logo";
+import {
+  EditorMachine,
+  prismaToSchema,
+} from "~/modules/playground/machine.client";
+import { useEditorOptions } from "~/modules/playground/options.client";
+import { asFileName, dialects, type Dialect } from "~/registry";
+
+const prismaExample = `datasource db {
+  provider = "postgresql"
+  url      = env("DATABASE_URL")
+}
+
+enum Role {
+  USER
+  ADMIN
+}
+
+model User {
+  id    Int    @id @default(autoincrement())
+  email String @unique
+  name  String?
+  role  Role   @default(USER)
+  posts Post[]
+}
+
+model Post {
+  id        Int      @id @default(autoincrement())
+  title     String
+  createdAt DateTime @default(now())
+  authorId  Int
+  author    User     @relation(fields: [authorId], references: [id], onDelete: Cascade)
+
+  @@index([authorId])
+}
+`;
+
+type OutputFile = "schema.ts" | "relations.ts";
+
+export default function Route() {
+  const editorPanelRef = useRef<ImperativePanelHandle>(null);
+  const editorOptions = useEditorOptions();
+  const [rawPrisma, setRawPrisma] = useState<string>(
+    () => sessionStorage.getItem("converter.schema.prisma") || prismaExample,
+  );
+  const [debouncedPrisma] = useDebounce(rawPrisma, 500);
+  const [output, setOutput] = useState<Record<OutputFile, string>>({
+    "schema.ts": "",
+    "relations.ts": "",
+  });
+  const [outputFile, setOutputFile] = useState<OutputFile>("schema.ts");
+  const schema = output[outputFile];
+  const [dialect, setDialect] = useState<Dialect>("postgresql");
+  const [editor] = useActor(EditorMachine, {
+    input: {
+      dialect: "postgresql",
+      fileTree: {
+        "index.ts": "",
+        "schema.ts": "",
+        "utils.ts": "",
+      },
+    },
+  });
+  const [copied, setCopied] = useState(false);
+  const isReady = editor.hasTag("started");
+  const editorSetupError = editor.context.setupError;
+
+  useEffect(() => {
+    if (copied) {
+      setTimeout(() => {
+        setCopied(false);
+      }, 1000);
+    }
+  }, [copied]);
+
+  useEffect(() => {
+    if (!isReady) {
+      return;
+    }
+
+    prismaToSchema(debouncedPrisma, dialect)
+      .then((result) => {
+        setOutput({
+          "schema.ts": result?.schema ?? "",
+          "relations.ts": result?.relations ?? "",
+        });
+      })
+      .catch((cause) => {
+        setOutput({ "schema.ts": cause.message, "relations.ts": "" });
+      });
+  }, [isReady, debouncedPrisma, dialect]);
+
+  return (
+    <ResizablePanelGroup
+      autoSaveId="converter"
+      direction="horizontal"
+      className="relative size-full"
+    >
+      <ResizablePanel
+        ref={editorPanelRef}
+        defaultSize={50}
+        className="relative p-4 pl-0"
+      >
+        <div className="absolute right-4 top-4 z-10 flex items-center gap-1">
+          <Select
+            value={dialect}
+            onValueChange={(value) => setDialect(value as Dialect)}
+          >
+            <SelectTrigger
+              className={buttonVariants({
+                variant: "secondary",
+                size: "sm",
+                className: "w-fit h-6",
+              })}
+            >
+              <SelectValue placeholder="Select a dialect" />
+            </SelectTrigger>
+            <SelectContent>
+              {dialects.map((dialect) => (
+                <SelectItem key={dialect} value={dialect}>
+                  {dialect}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Badge variant="secondary" className="w-fit">
+            Prisma schema
+          </Badge>
+        </div>
+
+        {editor.hasTag("setup") && (
+          <div className="flex h-full flex-col items-center justify-center gap-4 p-4">
+            {editor.hasTag("starting") && (
+              <>
+                <RainLogo className="h-10 animate-pulse" />
+                <Typography variant="mutedText" className="animate-pulse">
+                  {editor.hasTag("starting:boot") && "Starting editor"}
+                  {editor.hasTag("starting:types") && "Loading types"}
+                  {editor.hasTag("starting:prepare") && "Preparing playground"}
+                </Typography>
+              </>
+            )}
+            {editor.hasTag("start_failed") && editorSetupError && (
+              <>
+                <RainLogo className="h-10 text-red" />
+                <p>{editorSetupError.message}</p>
+                {editorSetupError.cause ? (
+                  <p>{editorSetupError.cause}</p>
+                ) : null}
+              </>
+            )}
+          </div>
+        )}
+
+        {editor.hasTag("started") && (
+          <Editor
+            value={rawPrisma}
+            language="plaintext"
+            path="schema.prisma"
+            theme="tokyo-night"
+            options={editorOptions}
+            onChange={async (rawPrisma) => {
+              if (!rawPrisma) {
+                setRawPrisma("");
+                return;
+              }
+              sessionStorage.setItem("converter.schema.prisma", rawPrisma);
+              setRawPrisma(rawPrisma);
+            }}
+          />
+        )}
+      </ResizablePanel>
+      <ResizableHandle
+        withHandle
+        onDoubleClick={() => {
+          editorPanelRef.current?.resize(50);
+        }}
+      />
+      <ResizablePanel defaultSize={50} className="relative p-4 pl-0">
+        <div className="absolute right-4 top-4 z-10 flex items-center gap-1">
+          <Select
+            value={outputFile}
+            onValueChange={(value) => setOutputFile(value as OutputFile)}
+          >
+            <SelectTrigger
+              className={buttonVariants({
+                variant: "secondary",
+                size: "sm",
+                className: "w-fit h-6",
+              })}
+            >
+              <SelectValue placeholder="Select a file" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="schema.ts">schema.ts</SelectItem>
+              <SelectItem value="relations.ts">relations.ts</SelectItem>
+            </SelectContent>
+          </Select>
+          <Badge variant="secondary" className="flex w-fit items-center gap-1">
+            Generated Drizzle schema
+            <Button
+              size="icon"
+              className="size-fit rounded-none"
+              variant="ghost"
+              onClick={() => {
+                if (!schema) {
+                  return;
+                }
+
+                navigator.clipboard.writeText(schema);
+                setCopied(true);
+              }}
+            >
+              <Icon
+                name={copied ? "clipboard-check" : "clipboard"}
+                className={cn(copied && "text-green")}
+              />
+            </Button>
+          </Badge>
+        </div>
+
+        {editor.hasTag("setup") && (
+          <div className="flex h-full flex-col items-center justify-center gap-4 p-4">
+            {editor.hasTag("starting") && (
+              <>
+                <RainLogo className="h-10 animate-pulse" />
+                <Typography variant="mutedText" className="animate-pulse">
+                  {editor.hasTag("starting:boot") && "Starting editor"}
+                  {editor.hasTag("starting:types") && "Loading types"}
+                  {editor.hasTag("starting:prepare") && "Preparing playground"}
+                </Typography>
+              </>
+            )}
+            {editor.hasTag("start_failed") && editorSetupError && (
+              <>
+                <RainLogo className="h-10 text-red" />
+                <p>{editorSetupError.message}</p>
+                {editorSetupError.cause ? (
+                  <p>{editorSetupError.cause}</p>
+                ) : null}
+              </>
+            )}
+          </div>
+        )}
+
+        {editor.hasTag("started") && (
+          <Editor
+            value={schema}
+            defaultPath={asFileName("schema.ts")}
+            theme="tokyo-night"
+            options={editorOptions}
+          />
+        )}
+      </ResizablePanel>
+    </ResizablePanelGroup>
+  );
+}
@@ -98,6 +98,32 @@ export default function Route() {
           >
             <span>SQL to Drizzle</span>
           </NavLink>
+          <NavLink
+            end
+            to={path("/converter/dbml")}
+            className={({ isActive }) =>
+              buttonVariants({
+                variant: isActive ? "secondary" : "ghost",
+                size: "sm",
+                className: cn(isActive && "pointer-events-none"),
+              })
+            }
+          >
+            <span>DBML to Drizzle</span>
+          </NavLink>
+          <NavLink
+            end
+            to={path("/converter/prisma")}
+            className={({ isActive }) =>
+              buttonVariants({
+                variant: isActive ? "secondary" : "ghost",
+                size: "sm",
+                className: cn(isActive && "pointer-events-none"),
+              })
+            }
+          >
+            <span>Prisma to Drizzle</span>
+          </NavLink>
         </div>
 
         <Outlet />
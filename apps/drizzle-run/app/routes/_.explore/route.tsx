@@ -89,7 +89,7 @@ export function ErrorBoundary() {
   );
 }
 
-const dialectOptions = ["all", "postgresql", "sqlite"] as const;
+const dialectOptions = ["all", "postgresql", "sqlite", "mysql"] as const;
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   try {
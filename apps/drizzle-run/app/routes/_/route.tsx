@@ -202,6 +202,18 @@ const apps: Array<{ id: string; path: string; icon: IconName; label: string }> =
       icon: "arrow-right-left",
       id: "converter",
     },
+    {
+      path: "/converter/dbml",
+      label: "Convert DBML to Drizzle",
+      icon: "arrow-right-left",
+      id: "converter",
+    },
+    {
+      path: "/converter/prisma",
+      label: "Convert Prisma to Drizzle",
+      icon: "arrow-right-left",
+      id: "converter",
+    },
   ] as const;
 
 export default function MainLayout() {
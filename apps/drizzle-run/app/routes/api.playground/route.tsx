@@ -114,6 +114,9 @@ export function NewPlaygroundWizard(props: NewPlaygroundWizardProps) {
               <SelectItem value={asDialect("sqlite")}>
                 <span className="font-medium">SQLite</span>
               </SelectItem>
+              <SelectItem value={asDialect("mysql")}>
+                <span className="font-medium">MySQL</span>
+              </SelectItem>
             </SelectContent>
           </Select>
           <Typography variant="smallText">Presets</Typography>
@@ -0,0 +1,30 @@
+import fs from "node:fs/promises";
+
+import { zodToJsonSchema } from "zod-to-json-schema";
+
+import { schemaInternal as mysqlSchema } from "./src/mysql/schema";
+import { pgSchemaInternal as pgSchema } from "./src/pg/schema";
+import { schemaInternal as sqliteSchema } from "./src/sqlite/schema";
+
+// JSON Schemas of the Drizzle Lab snapshots, published with the package (`@drizzle-lab/api/schemas/*.json`)
+
+const snapshots = {
+  pg: { name: "PgSnapshot", schema: pgSchema },
+  mysql: { name: "MySqlSnapshot", schema: mysqlSchema },
+  sqlite: { name: "SQLiteSnapshot", schema: sqliteSchema },
+};
+
+await fs.mkdir("schemas", { recursive: true });
+
+for (const [dialect, { name, schema }] of Object.entries(snapshots)) {
+  const jsonSchema = zodToJsonSchema(schema, {
+    name,
+    // snapshots are read from files, fields with a default are optional
+    pipeStrategy: "input",
+  });
+
+  await fs.writeFile(
+    `schemas/${dialect}-snapshot.schema.json`,
+    `${JSON.stringify(jsonSchema, null, 2)}\n`,
+  );
+}
@@ -6,6 +6,7 @@ export const DRIZZLE_LAB_ENV_KEY = {
   PROJECT_ID: "DRIZZLE_LAB_PROJECT_ID",
   TS_CONFIG_PATH: "TS_CONFIG_PATH",
   ENV_FILE_PATH: "DRIZZLE_LAB_ENV_FILE_PATH",
+  WORKSPACE: "DRIZZLE_LAB_WORKSPACE",
 } as const;
 
 export function getEnv() {
@@ -19,5 +20,7 @@ export function getEnv() {
     DRIZZLE_LAB_TS_CONFIG_PATH:
       process.env[DRIZZLE_LAB_ENV_KEY.TS_CONFIG_PATH] || "./tsconfig.json",
     DRIZZLE_LAB_ENV_FILE_PATH: process.env[DRIZZLE_LAB_ENV_KEY.ENV_FILE_PATH],
+    DRIZZLE_LAB_WORKSPACE:
+      process.env[DRIZZLE_LAB_ENV_KEY.WORKSPACE] === "true",
   };
 }
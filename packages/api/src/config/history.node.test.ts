@@ -0,0 +1,179 @@
+import fs from "node:fs";
+import os from "node:os";
+import Path from "node:path";
+
+import { eq, sql } from "drizzle-orm";
+import {
+  index,
+  integer,
+  pgPolicy,
+  pgTable,
+  pgView,
+  text,
+} from "drizzle-orm/pg-core";
+import {
+  integer as sqliteInteger,
+  sqliteTable,
+  text as sqliteText,
+} from "drizzle-orm/sqlite-core";
+import { afterEach, beforeEach, expect, test } from "vitest";
+
+import { DRIZZLE_LAB_ENV_KEY } from "./env.node";
+import { loadMigrationHistory } from "./history.node";
+import { importDrizzleConfig } from "./loader.node";
+import { explain } from "../extensions/explain";
+import { diffSnapshots as pgDiffSnapshots } from "../pg/serializer/diff";
+import { schemaToSnapshot } from "../pg/serializer/snapshot";
+import { diffSnapshots as sqliteDiffSnapshots } from "../sqlite/serializer/diff";
+import { schemaToSnapshot as sqliteSchemaToSnapshot } from "../sqlite/serializer/snapshot";
+
+let cwd: string;
+
+beforeEach(() => {
+  cwd = fs.mkdtempSync(Path.join(os.tmpdir(), "drizzle-lab-history-"));
+  process.env[DRIZZLE_LAB_ENV_KEY.CWD] = cwd;
+});
+
+afterEach(() => {
+  delete process.env[DRIZZLE_LAB_ENV_KEY.CWD];
+  fs.rmSync(cwd, { recursive: true, force: true });
+});
+
+/**
+ * Write a file relative to the cwd of the test
+ */
+function write(path: string, content: unknown) {
+  const file = Path.join(cwd, path);
+
+  fs.mkdirSync(Path.dirname(file), { recursive: true });
+  fs.writeFileSync(
+    file,
+    typeof content === "string" ? content : JSON.stringify(content),
+  );
+}
+
+/**
+ * Write a drizzle-kit migrations folder with one migration per snapshot
+ */
+function writeMigrations(out: string, snapshots: unknown[]) {
+  const tags = snapshots.map((_, idx) => `000${idx}_migration`);
+
+  write(`${out}/meta/_journal.json`, {
+    entries: tags.map((tag, idx) => ({
+      idx,
+      tag,
+      when: idx,
+      breakpoints: true,
+    })),
+  });
+  snapshots.forEach((snapshot, idx) =>
+    write(`${out}/meta/000${idx}_snapshot.json`, snapshot),
+  );
+}
+
+test("Resolve the migrations of a workspace package from the directory of its config", async () => {
+  const snapshot = schemaToSnapshot({
+    users: pgTable("users", { id: integer().primaryKey(), name: text() }),
+  });
+
+  write("packages/db/schema.ts", "export {};");
+  write("packages/db/drizzle.config.json", {
+    dialect: "postgresql",
+    schema: "./schema.ts",
+    out: "./migrations",
+  });
+  writeMigrations("packages/db/migrations", [snapshot]);
+
+  const config = await importDrizzleConfig("packages/db/drizzle.config.json");
+
+  expect(config.out).toBe(Path.join(cwd, "packages/db/migrations"));
+
+  const history = await loadMigrationHistory(config);
+
+  expect(history.map((it) => it.tag)).toEqual(["0000_migration"]);
+  expect(Object.keys(history[0].snapshot.tables)).toEqual(["public.users"]);
+});
+
+test("Default the migrations folder to `drizzle` in the cwd", async () => {
+  write("schema.ts", "export {};");
+  write("drizzle.config.json", {
+    dialect: "postgresql",
+    schema: "./schema.ts",
+  });
+
+  const config = await importDrizzleConfig("drizzle.config.json");
+
+  expect(config.out).toBe(Path.join(cwd, "drizzle"));
+  expect(await loadMigrationHistory(config)).toEqual([]);
+});
+
+function pgSchema(explained: boolean) {
+  const users = pgTable(
+    "users",
+    { id: integer().primaryKey(), name: text() },
+    (table) => [
+      explain(index("users_name_idx").on(table.name), {
+        description: explained ? "Search by name" : undefined,
+      }),
+      explain(pgPolicy("users_read", { for: "select", using: sql`true` }), {
+        description: explained ? "Anyone can read users" : undefined,
+      }),
+    ],
+  );
+  const namedUsers = pgView("named_users").as((qb) =>
+    qb.select().from(users).where(eq(users.id, 1)),
+  );
+
+  if (explained) {
+    explain(users, {
+      description: "Users",
+      tags: ["auth"],
+      columns: { name: { description: "Full name", sensitivity: "pii" } },
+    });
+    explain(namedUsers, { description: "Users with a name", owner: "team" });
+  }
+
+  return { users, namedUsers };
+}
+
+function sqliteSchema(explained: boolean) {
+  const users = sqliteTable("users", {
+    id: sqliteInteger().primaryKey(),
+    name: sqliteText(),
+  });
+
+  if (explained) {
+    explain(users, {
+      tags: ["auth"],
+      columns: { name: { description: "Full name", sensitivity: "pii" } },
+    });
+  }
+
+  return { users };
+}
+
+test("A schema matching the last migration has no pending changes", async () => {
+  writeMigrations("pg", [schemaToSnapshot(pgSchema(false))]);
+  writeMigrations("sqlite", [sqliteSchemaToSnapshot(sqliteSchema(false))]);
+
+  const [pgBase] = await loadMigrationHistory({
+    dialect: "postgresql",
+    out: "pg",
+  });
+  const [sqliteBase] = await loadMigrationHistory({
+    dialect: "sqlite",
+    out: "sqlite",
+  });
+
+  // explain metadata and descriptions are not in drizzle-kit snapshots and only document the schema
+  expect(
+    pgDiffSnapshots(pgBase.snapshot, schemaToSnapshot(pgSchema(true)))
+      .sqlStatements,
+  ).toEqual([]);
+  expect(
+    sqliteDiffSnapshots(
+      sqliteBase.snapshot,
+      sqliteSchemaToSnapshot(sqliteSchema(true)),
+    ).sqlStatements,
+  ).toEqual([]);
+});
@@ -0,0 +1,114 @@
+/* lab extension */
+
+import fs from "node:fs";
+import Path from "node:path";
+
+import { getEnv } from "./env.node.ts";
+import type { Dialect } from "./schema.ts";
+import type { Snapshot as MySqlSnapshot } from "../mysql/schema";
+import { upgradeSnapshot as upgradeMySqlSnapshot } from "../mysql/serializer/upgrade";
+import type { Snapshot as PgSnapshot } from "../pg/schema";
+import { upgradeSnapshot as upgradePgSnapshot } from "../pg/serializer/upgrade";
+import type { Snapshot as SQLiteSnapshot } from "../sqlite/schema";
+import { upgradeSnapshot as upgradeSQLiteSnapshot } from "../sqlite/serializer/upgrade";
+
+type SnapshotByDialect = {
+  postgresql: PgSnapshot;
+  mysql: MySqlSnapshot;
+  sqlite: SQLiteSnapshot;
+  turso: SQLiteSnapshot;
+};
+
+const upgrades: Record<Dialect, (json: unknown) => SnapshotByDialect[Dialect]> =
+  {
+    postgresql: upgradePgSnapshot,
+    mysql: upgradeMySqlSnapshot,
+    sqlite: upgradeSQLiteSnapshot,
+    turso: upgradeSQLiteSnapshot,
+  };
+
+type Journal = {
+  entries: Array<{
+    idx: number;
+    when: number;
+    tag: string;
+    breakpoints: boolean;
+  }>;
+};
+
+export type MigrationHistoryEntry<TSnapshot = SnapshotByDialect[Dialect]> = {
+  /** Position of the migration in the journal */
+  idx: number;
+  /** Name of the migration (e.g. `0000_mighty_thor`) */
+  tag: string;
+  /** Timestamp of the generation, in milliseconds */
+  when: number;
+  breakpoints: boolean;
+  /** Schema as it was after this migration, upgraded to the current Drizzle Lab snapshot */
+  snapshot: TSnapshot;
+};
+
+/**
+ * Load the migrations generated by drizzle-kit in the `out` folder as an ordered snapshot history
+ *
+ * Snapshots of old drizzle-kit versions are upgraded to the current Drizzle Lab snapshot.
+ *
+ * @param config - The Drizzle config (`out` defaults to `drizzle`, like drizzle-kit)
+ * @returns The migrations, from the oldest to the latest. Empty if there is no `meta/_journal.json`.
+ * @throws If a snapshot listed in the journal is missing or invalid
+ */
+export async function loadMigrationHistory<TDialect extends Dialect>(config: {
+  dialect: TDialect;
+  out?: string;
+}): Promise<MigrationHistoryEntry<SnapshotByDialect[TDialect]>[]> {
+  // `out` of an imported config is absolute, resolved from the cwd or from the directory of the config
+  const metaDir = Path.resolve(
+    getEnv().DRIZZLE_LAB_CWD,
+    config.out ?? "drizzle",
+    "meta",
+  );
+  const journalPath = Path.join(metaDir, "_journal.json");
+
+  if (!fs.existsSync(journalPath)) {
+    if (getEnv().DRIZZLE_LAB_DEBUG) {
+      console.info(`No migration history, '${journalPath}' does not exist`);
+    }
+
+    return [];
+  }
+
+  const journal = JSON.parse(
+    await fs.promises.readFile(journalPath, "utf-8"),
+  ) as Journal;
+  const upgradeSnapshot = upgrades[config.dialect];
+
+  return Promise.all(
+    [...journal.entries]
+      .sort((a, b) => a.idx - b.idx)
+      .map(async ({ idx, tag, when, breakpoints }) => {
+        // drizzle-kit names snapshots after the migration prefix (index, timestamp, ...)
+        const snapshotPath = Path.join(
+          metaDir,
+          `${tag.split("_")[0]}_snapshot.json`,
+        );
+
+        if (!fs.existsSync(snapshotPath)) {
+          throw new Error(
+            `Snapshot of migration '${tag}' not found: '${snapshotPath}' does not exist`,
+          );
+        }
+
+        try {
+          const snapshot = upgradeSnapshot(
+            JSON.parse(await fs.promises.readFile(snapshotPath, "utf-8")),
+          ) as SnapshotByDialect[TDialect];
+
+          return { idx, tag, when, breakpoints, snapshot };
+        } catch (error) {
+          throw new Error(
+            `Unable to read the snapshot of migration '${tag}': ${(error as Error).message}`,
+          );
+        }
+      }),
+  );
+}
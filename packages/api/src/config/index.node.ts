@@ -1,3 +1,5 @@
 export type { Config, PartialConfig } from "./loader.node.ts";
-export { importDrizzleConfig } from "./loader.node.ts";
+export { findDrizzleConfigs, importDrizzleConfig } from "./loader.node.ts";
+export type { MigrationHistoryEntry } from "./history.node.ts";
+export { loadMigrationHistory } from "./history.node.ts";
 export * from "./env.node.ts";
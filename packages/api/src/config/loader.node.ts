@@ -64,14 +64,15 @@ export async function importDrizzleConfig(configPath?: string) {
 
   return {
     ...config.data,
-    schema: prepareFilenames(config.data.schema),
+    schema: prepareFilenames(config.data.schema, Path.dirname(path)),
+    out: prepareOut(config.data.out, Path.dirname(path)),
     projectId: config.data.lab.projectId || getEnv().DRIZZLE_LAB_PROJECT_ID,
   };
 }
 
-const prepareFilenames = (paths: string[]) => {
-  const matches = paths.reduce((matches, cur) => {
-    const globMatches = glob.sync(`${getEnv().DRIZZLE_LAB_CWD}${cur}`);
+const globFilenames = (paths: string[], base: string) =>
+  paths.reduce((matches, cur) => {
+    const globMatches = glob.sync(`${base}${cur}`);
 
     globMatches.forEach((it) => {
       const fileName = fs.lstatSync(it).isDirectory() ? null : Path.resolve(it);
@@ -88,6 +89,15 @@ const prepareFilenames = (paths: string[]) => {
     return matches;
   }, new Set<string>());
 
+const prepareFilenames = (paths: string[], configDir: string) => {
+  let matches = globFilenames(paths, getEnv().DRIZZLE_LAB_CWD);
+
+  /* lab extension */
+  // configs of a workspace package can be relative to their own directory
+  if (matches.size === 0) {
+    matches = globFilenames(paths, `${configDir}/`);
+  }
+
   // when schema: "./schema" and not "./schema.ts"
   if (matches.size === 0) {
     console.info(
@@ -107,3 +117,31 @@ const prepareFilenames = (paths: string[]) => {
 
   return [...matches];
 };
+
+/* lab extension */
+/**
+ * Resolve the migrations folder like the schema paths: relative to the cwd, or to the directory of the config
+ * @returns The absolute path of the folder (`drizzle` by default, like drizzle-kit)
+ */
+const prepareOut = (out = "drizzle", configDir: string) => {
+  const fromCwd = Path.resolve(getEnv().DRIZZLE_LAB_CWD, out);
+  const fromConfigDir = Path.resolve(configDir, out);
+
+  return !fs.existsSync(fromCwd) && fs.existsSync(fromConfigDir)
+    ? fromConfigDir
+    : fromCwd;
+};
+
+/* lab extension */
+/**
+ * Find the drizzle config files of a workspace (e.g. a monorepo), ignoring dependencies and build outputs
+ * @returns The paths of the config files, relative to the cwd
+ */
+export function findDrizzleConfigs() {
+  return glob
+    .sync("**/drizzle.config.{ts,mts,cts,js,mjs,cjs,json}", {
+      cwd: getEnv().DRIZZLE_LAB_CWD || process.cwd(),
+      ignore: ["**/node_modules/**", "**/dist/**", "**/build/**"],
+    })
+    .sort();
+}
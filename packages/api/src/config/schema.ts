@@ -1,5 +1,7 @@
 import { enum as enumType, object, string, union, boolean } from "zod";
 
+import { lintConfigSchema } from "../lint/schema";
+
 const dialects = ["postgresql", "mysql", "sqlite", "turso"] as const;
 const dialect = enumType(dialects);
 
@@ -22,6 +24,14 @@ export const configCommonSchema = object({
   out: string().optional(),
   casing: casingType.optional(),
   schemaFilter: union([string(), string().array()]).optional(),
+  /* lab extension */
+  driver: string().optional(),
+  dbCredentials: object({
+    url: string().optional(),
+    authToken: string().optional(),
+  })
+    .passthrough()
+    .optional(),
   entities: object({
     roles: boolean()
       .or(
@@ -35,5 +45,7 @@ export const configCommonSchema = object({
       .default(false),
   }).optional(),
   /* lab extension */
-  lab: object({ projectId }).optional().default({ projectId: "" }),
+  lab: object({ projectId, lint: lintConfigSchema.optional() })
+    .optional()
+    .default({ projectId: "" }),
 }).passthrough();
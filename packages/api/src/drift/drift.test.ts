@@ -0,0 +1,176 @@
+import { PGlite } from "@electric-sql/pglite";
+import { createClient } from "@libsql/client-wasm";
+import {
+  index,
+  integer,
+  jsonb,
+  pgEnum,
+  pgTable,
+  text,
+} from "drizzle-orm/pg-core";
+import {
+  integer as sqliteInteger,
+  sqliteTable,
+  text as sqliteText,
+} from "drizzle-orm/sqlite-core";
+import { expect, test } from "vitest";
+
+import { detectDrift } from "./drift";
+import { importFromDatabase as importFromPg } from "../pg/loader/database";
+import { schemaToSnapshot as pgSchemaToSnapshot } from "../pg/serializer/snapshot";
+import { snapshotToSql as pgSnapshotToSql } from "../pg/serializer/sql";
+import { importFromDatabase as importFromSQLite } from "../sqlite/loader/database";
+import { schemaToSnapshot as sqliteSchemaToSnapshot } from "../sqlite/serializer/snapshot";
+import { snapshotToSql as sqliteSnapshotToSql } from "../sqlite/serializer/sql";
+
+const mood = pgEnum("mood", ["sad", "ok"]);
+const pgCode = pgSchemaToSnapshot({
+  mood,
+  users: pgTable(
+    "users",
+    {
+      id: integer().primaryKey(),
+      name: text().notNull(),
+      mood: mood(),
+      settings: jsonb()
+        .notNull()
+        .default({ theme: "dark", notifications: true, tags: ["a"] }),
+    },
+    (table) => [index("users_name_idx").on(table.name)],
+  ),
+});
+
+async function createPgDatabase(sql: string) {
+  const client = new PGlite();
+  await client.exec(sql);
+
+  return importFromPg(
+    {
+      query: async (query: string, params?: unknown[]) =>
+        (await client.query<any>(query, params)).rows,
+    },
+    ["public"],
+  );
+}
+
+test("A pg database created from the code has no drift", async () => {
+  const database = await createPgDatabase(pgSnapshotToSql(pgCode));
+
+  // jsonb reorders the keys of the default
+  expect(database.tables["public.users"].columns.settings.default).not.toEqual(
+    pgCode.tables["public.users"].columns.settings.default,
+  );
+  expect(detectDrift(pgCode, database)).toEqual([]);
+});
+
+test("Report the drift of a pg database", async () => {
+  const database = await createPgDatabase(`
+    CREATE TYPE "mood" AS ENUM ('sad', 'ok', 'happy');
+    CREATE TABLE "users" (
+      "id" integer PRIMARY KEY,
+      "name" varchar(50),
+      "mood" "mood",
+      "settings" jsonb DEFAULT '{"theme": "light"}'::jsonb NOT NULL
+    );
+    CREATE TABLE "audit" ("id" integer);
+  `);
+
+  expect(
+    detectDrift(pgCode, database).map(
+      ({ kind, entity, name, differences }) => ({
+        kind,
+        entity,
+        name,
+        differences,
+      }),
+    ),
+  ).toEqual([
+    { kind: "missing_in_code", entity: "table", name: "public.audit" },
+    {
+      kind: "changed",
+      entity: "enum",
+      name: "public.mood",
+      differences: [
+        {
+          property: "values",
+          code: ["sad", "ok"],
+          database: ["sad", "ok", "happy"],
+        },
+      ],
+    },
+    { kind: "missing_in_database", entity: "index", name: "users_name_idx" },
+    {
+      kind: "changed",
+      entity: "column",
+      name: "name",
+      differences: [
+        { property: "type", code: "text", database: "varchar(50)" },
+        { property: "notNull", code: true, database: false },
+      ],
+    },
+    {
+      kind: "changed",
+      entity: "column",
+      name: "settings",
+      differences: [
+        {
+          property: "default",
+          code: `'{"theme":"dark","notifications":true,"tags":["a"]}'::jsonb`,
+          database: `'{"theme":"light"}'::jsonb`,
+        },
+      ],
+    },
+  ]);
+});
+
+const sqliteCode = sqliteSchemaToSnapshot({
+  users: sqliteTable("users", {
+    id: sqliteInteger().primaryKey(),
+    name: sqliteText().notNull(),
+    settings: sqliteText({ mode: "json" }).default({ theme: "dark" }),
+  }),
+});
+
+async function createSQLiteDatabase(sql: string) {
+  const client = createClient({ url: ":memory:" });
+  await client.executeMultiple(sql);
+
+  return importFromSQLite({
+    query: async (query, args = []) =>
+      (await client.execute({ sql: query, args })).rows as any,
+  });
+}
+
+test("A sqlite database created from the code has no drift", async () => {
+  const database = await createSQLiteDatabase(sqliteSnapshotToSql(sqliteCode));
+
+  expect(detectDrift(sqliteCode, database)).toEqual([]);
+});
+
+test("Report the drift of a sqlite database", async () => {
+  const database = await createSQLiteDatabase(`
+    CREATE TABLE \`users\` (
+      \`id\` integer PRIMARY KEY NOT NULL,
+      \`email\` text,
+      \`settings\` text DEFAULT '{"theme":"light"}'
+    );
+  `);
+
+  expect(
+    detectDrift(sqliteCode, database).map(({ kind, entity, name }) => ({
+      kind,
+      entity,
+      name,
+    })),
+  ).toEqual([
+    { kind: "missing_in_database", entity: "column", name: "name" },
+    { kind: "missing_in_code", entity: "column", name: "email" },
+    { kind: "changed", entity: "column", name: "settings" },
+  ]);
+});
+
+test("Refuse to compare snapshots of different dialects", () => {
+  expect(() => detectDrift(pgCode, sqliteCode)).toThrow(
+    "Unable to compare a postgresql schema with a sqlite database",
+  );
+});
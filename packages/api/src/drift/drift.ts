@@ -0,0 +1,304 @@
+import type { Snapshot as MySqlSnapshot } from "../mysql/schema";
+import type { Snapshot as PgSnapshot } from "../pg/schema";
+import type { Snapshot as SQLiteSnapshot } from "../sqlite/schema";
+
+export type DriftableSnapshot = PgSnapshot | SQLiteSnapshot | MySqlSnapshot;
+
+export type DriftKind = "missing_in_database" | "missing_in_code" | "changed";
+
+export type DriftEntity =
+  | "table"
+  | "view"
+  | "enum"
+  | "column"
+  | "index"
+  | "foreign_key";
+
+export type DriftDifference = {
+  property: "type" | "default" | "notNull" | "primaryKey" | "values";
+  code: unknown;
+  database: unknown;
+};
+
+export type Drift = {
+  kind: DriftKind;
+  entity: DriftEntity;
+  /** Snapshot key of the table, view or enum, or name of the column, index or foreign key */
+  name: string;
+  /** Snapshot key of the table of a column, index or foreign key */
+  table?: string;
+  /** Only for `changed` drifts */
+  differences?: DriftDifference[];
+  message: string;
+};
+
+/**
+ * Dialect agnostic view of a snapshot, only what can be compared with a database
+ */
+type DriftObjects = {
+  tables: Record<
+    string,
+    {
+      columns: Record<
+        string,
+        {
+          type: string;
+          default: unknown;
+          notNull: boolean;
+          primaryKey: boolean;
+        }
+      >;
+      indexes: string[];
+      foreignKeys: string[];
+    }
+  >;
+  views: string[];
+  enums: Record<string, string[]>;
+};
+
+/**
+ * Compare the snapshot of the code with the snapshot of a live database (see `importFromDatabase`)
+ *
+ * Reports objects present in the code but missing in the database and vice versa, and column type, default, nullability and primary key differences.
+ * Drizzle Lab metadata (relations, descriptions, ...) and roles, policies and sequences are ignored.
+ *
+ * @example
+ * ```ts
+ * const code = drizzleObjectsToSnapshot(await importFromFiles(config.schema), config);
+ * const database = await importFromDatabase(db, ["public"]);
+ * const drift = detectDrift(code, database);
+ * ```
+ *
+ * @param code - Snapshot of the TypeScript schema
+ * @param database - Snapshot of the database, of the same dialect
+ * @returns Drifts, sorted by table
+ */
+export function detectDrift(
+  code: DriftableSnapshot,
+  database: DriftableSnapshot,
+): Drift[] {
+  if (code.dialect !== database.dialect) {
+    throw new Error(
+      `Unable to compare a ${code.dialect} schema with a ${database.dialect} database`,
+    );
+  }
+
+  const inCode = toDriftObjects(code);
+  const inDatabase = toDriftObjects(database);
+  const drifts: Drift[] = [];
+
+  drifts.push(...compareNames("table", inCode.tables, inDatabase.tables));
+
+  for (const [table, codeTable] of Object.entries(inCode.tables)) {
+    const databaseTable = inDatabase.tables[table];
+
+    if (!databaseTable) {
+      continue;
+    }
+
+    drifts.push(
+      ...compareNames(
+        "column",
+        codeTable.columns,
+        databaseTable.columns,
+        table,
+      ),
+      ...compareNames("index", codeTable.indexes, databaseTable.indexes, table),
+      ...compareNames(
+        "foreign_key",
+        codeTable.foreignKeys,
+        databaseTable.foreignKeys,
+        table,
+      ),
+    );
+
+    for (const [column, codeColumn] of Object.entries(codeTable.columns)) {
+      const databaseColumn = databaseTable.columns[column];
+
+      if (!databaseColumn) {
+        continue;
+      }
+
+      const differences = (
+        ["type", "default", "notNull", "primaryKey"] as const
+      )
+        .filter(
+          (property) =>
+            normalize(codeColumn[property]) !==
+            normalize(databaseColumn[property]),
+        )
+        .map((property) => ({
+          property,
+          code: codeColumn[property],
+          database: databaseColumn[property],
+        }));
+
+      if (differences.length > 0) {
+        drifts.push({
+          kind: "changed",
+          entity: "column",
+          name: column,
+          table,
+          differences,
+          message: `column \`${table}.${column}\` differs: ${formatDifferences(differences)}`,
+        });
+      }
+    }
+  }
+
+  drifts.push(...compareNames("view", inCode.views, inDatabase.views));
+  drifts.push(...compareNames("enum", inCode.enums, inDatabase.enums));
+
+  for (const [name, codeValues] of Object.entries(inCode.enums)) {
+    const databaseValues = inDatabase.enums[name];
+
+    if (databaseValues && codeValues.join() !== databaseValues.join()) {
+      const differences: DriftDifference[] = [
+        { property: "values", code: codeValues, database: databaseValues },
+      ];
+
+      drifts.push({
+        kind: "changed",
+        entity: "enum",
+        name,
+        differences,
+        message: `enum \`${name}\` differs: ${formatDifferences(differences)}`,
+      });
+    }
+  }
+
+  return drifts.sort((a, b) =>
+    (a.table ?? a.name).localeCompare(b.table ?? b.name),
+  );
+}
+
+function toDriftObjects(snapshot: DriftableSnapshot): DriftObjects {
+  const tables = Object.entries(snapshot.tables).map(
+    ([key, table]: [string, DriftableSnapshot["tables"][string]]) => {
+      // columns of a composite primary key are implicitly not null in the database
+      const primaryKeyColumns = Object.values(
+        table.compositePrimaryKeys,
+      ).flatMap((it) => it.columns);
+
+      return [
+        key,
+        {
+          columns: Object.fromEntries(
+            Object.values(table.columns).map((column) => [
+              column.name,
+              {
+                type: column.type,
+                default: column.default,
+                notNull:
+                  column.notNull || primaryKeyColumns.includes(column.name),
+                primaryKey: column.primaryKey,
+              },
+            ]),
+          ),
+          indexes: Object.keys(table.indexes),
+          foreignKeys: Object.keys(table.foreignKeys),
+        },
+      ] as const;
+    },
+  );
+
+  return {
+    tables: Object.fromEntries(tables),
+    views: Object.keys(snapshot.views),
+    enums:
+      snapshot.dialect === "postgresql"
+        ? Object.fromEntries(
+            Object.entries(snapshot.enums).map(([key, it]) => [key, it.values]),
+          )
+        : {},
+  };
+}
+
+function compareNames(
+  entity: DriftEntity,
+  inCode: Record<string, unknown> | string[],
+  inDatabase: Record<string, unknown> | string[],
+  table?: string,
+): Drift[] {
+  const codeNames = Array.isArray(inCode) ? inCode : Object.keys(inCode);
+  const databaseNames = Array.isArray(inDatabase)
+    ? inDatabase
+    : Object.keys(inDatabase);
+  const label = `${entity.replace("_", " ")} \`${table ? `${table}.` : ""}`;
+
+  return [
+    ...codeNames
+      .filter((name) => !databaseNames.includes(name))
+      .map((name) => ({
+        kind: "missing_in_database" as const,
+        entity,
+        name,
+        table,
+        message: `${label}${name}\` is in the code but not in the database`,
+      })),
+    ...databaseNames
+      .filter((name) => !codeNames.includes(name))
+      .map((name) => ({
+        kind: "missing_in_code" as const,
+        entity,
+        name,
+        table,
+        message: `${label}${name}\` is in the database but not in the code`,
+      })),
+  ];
+}
+
+/**
+ * Snapshots of the code and of the database don't always use the same type for defaults (e.g. `1` and `"1"`),
+ * and databases can reorder the keys of JSON defaults (e.g. pg `jsonb`)
+ */
+function normalize(value: unknown) {
+  if (value === undefined || value === null) {
+    return "";
+  }
+
+  const text = String(value);
+  const [, json, cast = ""] = text.match(jsonDefaultPattern) ?? [];
+
+  if (json === undefined) {
+    return text;
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(json.replaceAll("''", "'"));
+
+    return typeof parsed === "object" && parsed !== null
+      ? `'${JSON.stringify(sortJsonKeys(parsed))}'${cast}`
+      : text;
+  } catch {
+    return text;
+  }
+}
+
+// a quoted default, optionally cast, e.g. `'{"a":1}'::jsonb`
+const jsonDefaultPattern = /^'(.*)'(::jsonb?)?$/s;
+
+function sortJsonKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortJsonKeys);
+  }
+
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([key, it]) => [key, sortJsonKeys(it)]),
+    );
+  }
+
+  return value;
+}
+
+function formatDifferences(differences: DriftDifference[]) {
+  return differences
+    .map(
+      ({ property, code, database }) =>
+        `${property} ${JSON.stringify(code) ?? "none"} (code) / ${JSON.stringify(database) ?? "none"} (database)`,
+    )
+    .join(", ");
+}
@@ -0,0 +1,9 @@
+export {
+  detectDrift,
+  type Drift,
+  type DriftableSnapshot,
+  type DriftDifference,
+  type DriftEntity,
+  type DriftKind,
+} from "./drift";
+export { formatDrift, type DriftReporter } from "./reporters";
@@ -0,0 +1,29 @@
+import type { Drift, DriftKind } from "./drift";
+
+export type DriftReporter = "text" | "json";
+
+/**
+ * Format drifts for a terminal or a machine
+ * @param drifts - Drifts returned by `detectDrift`
+ * @param reporter - `text` (one drift per line, with a summary) or `json`
+ * @returns The formatted report
+ */
+export function formatDrift(drifts: Drift[], reporter: DriftReporter) {
+  if (reporter === "json") {
+    return JSON.stringify(drifts, null, 2);
+  }
+
+  if (drifts.length === 0) {
+    return "No drift, the database matches the code";
+  }
+
+  const count = (kind: DriftKind) =>
+    drifts.filter((drift) => drift.kind === kind).length;
+  const lines = drifts.map((drift) => `  - ${drift.message}`);
+
+  return [
+    ...lines,
+    "",
+    `${drifts.length} drift(s) (${count("missing_in_database")} missing in the database, ${count("missing_in_code")} missing in the code, ${count("changed")} changed)`,
+  ].join("\n");
+}
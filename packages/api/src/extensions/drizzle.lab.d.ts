@@ -1,5 +1,5 @@
 import type { Config } from "drizzle-kit";
-import type { Column, TableConfig } from "drizzle-orm";
+import type { Column, Relation, TableConfig } from "drizzle-orm";
 
 import type { DrizzleLab } from "./symbols";
 
@@ -13,6 +13,100 @@ export type JsonShapeDescription<T> = T extends object
       ? "boolean"
       : string;
 
+/**
+ * How sensitive the data is. `pii` and `secret` are highlighted by Drizzle Lab.
+ */
+export type Sensitivity =
+  | "public"
+  | "internal"
+  | "confidential"
+  | "pii"
+  | "secret"
+  | (string & Record<never, never>);
+
+/**
+ * Governance metadata of a table, a view or a column.
+ */
+export type ExplainMetadata = {
+  /**
+   * Labels to group and filter, e.g. `["billing", "gdpr"]`.
+   */
+  tags?: string[];
+  /**
+   * The team or the person responsible for the data.
+   */
+  owner?: string;
+  /**
+   * How sensitive the data is, e.g. `pii` or `secret`.
+   */
+  sensitivity?: Sensitivity;
+  /**
+   * Why it is deprecated and what to use instead.
+   */
+  deprecated?: string;
+  /**
+   * Example values.
+   */
+  examples?: string[];
+};
+
+/**
+ * A description of a column, or its description and metadata.
+ */
+export type ColumnExplain =
+  | string
+  | ({
+      /**
+       * A description of the column.
+       */
+      description?: string;
+    } & ExplainMetadata);
+
+/**
+ * A description of an enum and of its values.
+ */
+export type EnumExplain<TValues extends string = string> = {
+  /**
+   * A description of the enum.
+   */
+  description?: string;
+  /**
+   * A description of each value of the enum.
+   */
+  values?: {
+    [K in TValues]?: string;
+  };
+};
+
+/**
+ * A description of each relation declared with `relations()`.
+ */
+export type RelationsExplain<
+  TConfig extends Record<string, Relation> = Record<string, Relation>,
+> = {
+  [K in keyof TConfig]?: string;
+};
+
+/**
+ * A description of a policy.
+ */
+export type PolicyExplain = {
+  /**
+   * What the policy allows or restricts.
+   */
+  description?: string;
+};
+
+/**
+ * A description of an index.
+ */
+export type IndexExplain = {
+  /**
+   * Why the index exists, e.g. the queries it speeds up.
+   */
+  description?: string;
+};
+
 declare module "drizzle-orm" {
   interface Table<
     T extends TableConfig = TableConfig<Column<any, object, object>>,
@@ -21,7 +115,7 @@ declare module "drizzle-orm" {
       /**
        * Documentation for the table.
        */
-      explain?: {
+      explain?: ExplainMetadata & {
         /**
          * A description of the table.
          */
@@ -30,7 +124,7 @@ declare module "drizzle-orm" {
          * A description of each column in the table.
          */
         columns?: {
-          [K in keyof T["columns"]]?: string;
+          [K in keyof T["columns"]]?: ColumnExplain;
         };
         /**
          * A description of each JSON column in the table.
@@ -50,7 +144,7 @@ declare module "drizzle-orm" {
       /**
        * Documentation for the table.
        */
-      explain?: {
+      explain?: ExplainMetadata & {
         /**
          * A description of the table.
          */
@@ -59,7 +153,7 @@ declare module "drizzle-orm" {
          * A description of each column in the table.
          */
         columns?: {
-          [K in keyof T["columns"]]?: string;
+          [K in keyof T["columns"]]?: ColumnExplain;
         };
         /**
          * A description of each JSON column in the table.
@@ -72,6 +166,37 @@ declare module "drizzle-orm" {
       };
     };
   }
+  interface Relations<
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars -- merged declarations share their type parameters
+    TTableName extends string = string,
+    TConfig extends Record<string, Relation> = Record<string, Relation>,
+  > {
+    [DrizzleLab]?: {
+      /**
+       * Documentation for the relations of the table.
+       */
+      explain?: RelationsExplain<TConfig>;
+    };
+  }
+}
+
+declare module "drizzle-orm/pg-core" {
+  interface PgEnum<TValues extends [string, ...string[]]> {
+    [DrizzleLab]?: {
+      /**
+       * Documentation for the enum.
+       */
+      explain?: EnumExplain<TValues[number]>;
+    };
+  }
+  interface PgPolicy {
+    [DrizzleLab]?: {
+      /**
+       * Documentation for the policy.
+       */
+      explain?: PolicyExplain;
+    };
+  }
 }
 
 type LabExtendedConfig = Config & {
@@ -1,10 +1,30 @@
-import type { View, Table } from "drizzle-orm";
+import { is } from "drizzle-orm";
+import type { View, Table, Relation, Relations } from "drizzle-orm";
+import { IndexBuilder as MySqlIndexBuilder } from "drizzle-orm/mysql-core";
+import {
+  IndexBuilder as PgIndexBuilder,
+  type PgPolicy,
+  type PgEnum,
+} from "drizzle-orm/pg-core";
+import { IndexBuilder as SQLiteIndexBuilder } from "drizzle-orm/sqlite-core";
 
-import type { JsonShapeDescription } from "./drizzle.lab";
+import type {
+  ColumnExplain,
+  EnumExplain,
+  ExplainMetadata,
+  IndexExplain,
+  JsonShapeDescription,
+  PolicyExplain,
+  RelationsExplain,
+} from "./drizzle.lab";
 import { DrizzleLab } from "./symbols";
 
+type AnyIndexBuilder = PgIndexBuilder | MySqlIndexBuilder | SQLiteIndexBuilder;
+
 /**
  * Extend a table or a view with additional descriptions that can be used to generate documentation.
+ *
+ * Tables, views and columns can also be tagged, owned, flagged as sensitive (`pii`, `secret`, ...) or deprecated.
  */
 export function explain<
   T extends Table | View,
@@ -16,7 +36,7 @@ export function explain<
 >(
   tableOrView: T,
   explain: T extends Table
-    ? {
+    ? ExplainMetadata & {
         /**
          * A description of the table.
          */
@@ -25,7 +45,7 @@ export function explain<
          * A description of each column in the table.
          */
         columns?: {
-          [K in keyof Columns]?: string;
+          [K in keyof Columns]?: ColumnExplain;
         };
         /**
          * A description of each JSON column in the table.
@@ -36,19 +56,71 @@ export function explain<
             : never]: JsonShapeDescription<T["_"]["columns"][K]["_"]["data"]>;
         };
       }
-    : {
+    : ExplainMetadata & {
         /**
-         * A description of the table.
+         * A description of the view.
          */
         description?: string;
         /**
          * A description of each column in the table.
          */
         columns?: {
-          [K in keyof Columns]?: string;
+          [K in keyof Columns]?: ColumnExplain;
         };
       },
+): T;
+/**
+ * Extend a pg enum with a description of the enum and of its values.
+ */
+export function explain<TValues extends [string, ...string[]]>(
+  pgEnum: PgEnum<TValues>,
+  explain: EnumExplain<TValues[number]>,
+): PgEnum<TValues>;
+/**
+ * Extend `relations()` with a description of each relation.
+ */
+export function explain<
+  TTableName extends string,
+  TConfig extends Record<string, Relation>,
+>(
+  relations: Relations<TTableName, TConfig>,
+  explain: RelationsExplain<TConfig>,
+): Relations<TTableName, TConfig>;
+/**
+ * Extend a pg policy with a description of what it allows or restricts.
+ */
+export function explain<T extends PgPolicy>(
+  policy: T,
+  explain: PolicyExplain,
+): T;
+/**
+ * Extend an index with a description of why it exists.
+ */
+export function explain<T extends AnyIndexBuilder>(
+  index: T,
+  explain: IndexExplain,
+): T;
+export function explain(
+  target:
+    | Table
+    | View
+    | PgEnum<[string, ...string[]]>
+    | Relations
+    | PgPolicy
+    | AnyIndexBuilder,
+  explain: object,
 ) {
-  tableOrView[DrizzleLab] = { explain };
-  return tableOrView;
+  const isIndex =
+    is(target, PgIndexBuilder) ||
+    is(target, MySqlIndexBuilder) ||
+    is(target, SQLiteIndexBuilder);
+
+  // an index is built from a copy of its builder config
+  Object.assign(
+    isIndex ? (target as unknown as { config: object }).config : target,
+    {
+      [DrizzleLab]: { explain },
+    },
+  );
+  return target;
 }
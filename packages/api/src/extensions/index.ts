@@ -1 +1,10 @@
 export { explain } from "./explain";
+export type {
+  ColumnExplain,
+  EnumExplain,
+  ExplainMetadata,
+  IndexExplain,
+  PolicyExplain,
+  RelationsExplain,
+  Sensitivity,
+} from "./drizzle.lab";
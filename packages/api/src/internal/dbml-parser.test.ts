@@ -0,0 +1,187 @@
+import { expect, test } from "vitest";
+
+import { parseDbml } from "./dbml-parser";
+
+test("Parse tables, columns, notes and indexes", () => {
+  const { tables } = parseDbml(`
+    Project shop { database_type: 'PostgreSQL' }
+
+    Table auth.users {
+      id int [pk, increment]
+      email "character varying" [not null, unique, note: 'Login']
+      tags text[] // labels
+      created_at timestamptz [default: \`now()\`]
+      Note: '''
+        Accounts
+        of the shop
+      '''
+    }
+
+    Table posts {
+      id bigint [pk]
+      price decimal(10, 2) [default: 0]
+
+      Indexes {
+        (id, price) [unique, name: 'posts_price_idx']
+        \`lower(title)\` [type: hash]
+      }
+    }
+  `);
+
+  expect(tables).toEqual([
+    {
+      name: "users",
+      schema: "auth",
+      note: "Accounts\nof the shop",
+      indexes: [],
+      columns: [
+        {
+          name: "id",
+          type: "int",
+          primaryKey: true,
+          increment: true,
+          notNull: true,
+          unique: false,
+        },
+        {
+          name: "email",
+          type: "character varying",
+          primaryKey: false,
+          increment: false,
+          notNull: true,
+          unique: true,
+          note: "Login",
+        },
+        {
+          name: "tags",
+          type: "text[]",
+          primaryKey: false,
+          increment: false,
+          notNull: false,
+          unique: false,
+        },
+        {
+          name: "created_at",
+          type: "timestamptz",
+          primaryKey: false,
+          increment: false,
+          notNull: false,
+          unique: false,
+          default: { kind: "expression", value: "now()" },
+        },
+      ],
+    },
+    {
+      name: "posts",
+      columns: [
+        {
+          name: "id",
+          type: "bigint",
+          primaryKey: true,
+          increment: false,
+          notNull: true,
+          unique: false,
+        },
+        {
+          name: "price",
+          type: "decimal(10, 2)",
+          primaryKey: false,
+          increment: false,
+          notNull: false,
+          unique: false,
+          default: { kind: "number", value: "0" },
+        },
+      ],
+      indexes: [
+        {
+          name: "posts_price_idx",
+          columns: [
+            { value: "id", isExpression: false },
+            { value: "price", isExpression: false },
+          ],
+          primaryKey: false,
+          unique: true,
+        },
+        {
+          columns: [{ value: "lower(title)", isExpression: true }],
+          primaryKey: false,
+          unique: false,
+          type: "hash",
+        },
+      ],
+    },
+  ]);
+});
+
+test("Parse enums", () => {
+  expect(
+    parseDbml(`
+      Enum auth.role {
+        admin [note: 'Can do anything']
+        "read only"
+      }
+    `).enums,
+  ).toEqual([{ schema: "auth", name: "role", values: ["admin", "read only"] }]);
+});
+
+test("Resolve table aliases and inline references", () => {
+  const { references } = parseDbml(`
+    Table auth.users as U {
+      id int [pk]
+    }
+
+    Table posts {
+      id int [pk]
+      author_id int [ref: > U.id]
+    }
+
+    Table post_tags {
+      post_id int
+      tag varchar
+    }
+
+    Ref post_tags_fk: post_tags.post_id > posts.id [delete: cascade]
+    Ref: posts.id < post_tags.tag
+    Ref: posts.id <> post_tags.tag
+  `);
+
+  expect(references).toEqual([
+    {
+      tableFrom: "posts",
+      columnsFrom: ["author_id"],
+      tableTo: "users",
+      schemaTo: "auth",
+      columnsTo: ["id"],
+    },
+    {
+      name: "post_tags_fk",
+      tableFrom: "post_tags",
+      columnsFrom: ["post_id"],
+      tableTo: "posts",
+      columnsTo: ["id"],
+      onDelete: "cascade",
+    },
+    // `<` references point from the right side, many-to-many references are ignored
+    {
+      tableFrom: "post_tags",
+      columnsFrom: ["tag"],
+      tableTo: "posts",
+      columnsTo: ["id"],
+    },
+  ]);
+});
+
+test("Report the line of syntax errors", () => {
+  expect(() => parseDbml("Table users {\n  id int [pk,\n}")).toThrow(
+    "Invalid DBML at line 3: unexpected `}` in settings",
+  );
+  expect(() => parseDbml("Table users {\n  id\n}")).toThrow(
+    "Invalid DBML at line 2: expected a type",
+  );
+  expect(() => parseDbml("\n\nFoo bar {}")).toThrow(
+    "Invalid DBML at line 3: unexpected `Foo`",
+  );
+  expect(() =>
+    parseDbml("Table users {\n  note text [note: 'oops]\n}"),
+  ).toThrow("Invalid DBML at line 2: unterminated ' string");
+});
@@ -0,0 +1,781 @@
+/* lab extension */
+
+/**
+ * Dialect agnostic model of a DBML document (https://dbml.dbdiagram.io/docs)
+ *
+ * Table aliases and inline references are resolved, `Project`, `TableGroup`, `TablePartial` and `Note` blocks are ignored.
+ */
+export type DbmlSchema = {
+  enums: DbmlEnum[];
+  tables: DbmlTable[];
+  /** One-to-one and many-to-one references, many-to-many references need a join table and are ignored */
+  references: DbmlReference[];
+};
+
+export type DbmlEnum = {
+  name: string;
+  schema?: string;
+  values: string[];
+};
+
+export type DbmlValue = {
+  kind: "string" | "number" | "boolean" | "null" | "expression" | "word";
+  value: string;
+};
+
+export type DbmlColumn = {
+  name: string;
+  /** Type as written, e.g. `varchar(255)` or `int[]` */
+  type: string;
+  primaryKey: boolean;
+  increment: boolean;
+  notNull: boolean;
+  unique: boolean;
+  default?: DbmlValue;
+  note?: string;
+};
+
+export type DbmlIndex = {
+  name?: string;
+  columns: { value: string; isExpression: boolean }[];
+  primaryKey: boolean;
+  unique: boolean;
+  /** Index method, e.g. `btree` or `hash` */
+  type?: string;
+};
+
+export type DbmlTable = {
+  name: string;
+  schema?: string;
+  note?: string;
+  columns: DbmlColumn[];
+  indexes: DbmlIndex[];
+};
+
+export type DbmlReference = {
+  name?: string;
+  /** Table holding the foreign key */
+  tableFrom: string;
+  schemaFrom?: string;
+  columnsFrom: string[];
+  tableTo: string;
+  schemaTo?: string;
+  columnsTo: string[];
+  onDelete?: string;
+  onUpdate?: string;
+};
+
+type Token = {
+  type: "word" | "quoted" | "string" | "expression" | "symbol" | "newline";
+  value: string;
+  line: number;
+  start: number;
+  end: number;
+};
+
+type Setting = { key: string; value?: DbmlValue; ref?: InlineRef };
+
+type Endpoint = { schema?: string; table: string; columns: string[] };
+
+type InlineRef = { relation: string; endpoint: Endpoint };
+
+type RawReference = {
+  name?: string;
+  left: Endpoint;
+  relation: string;
+  right: Endpoint;
+  settings: Setting[];
+};
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let line = 1;
+  let index = 0;
+
+  const fail = (message: string, at = line): never => {
+    throw new Error(`Invalid DBML at line ${at}: ${message}`);
+  };
+
+  while (index < source.length) {
+    const char = source[index];
+    const start = index;
+    const startLine = line;
+
+    if (char === "\n") {
+      tokens.push({ type: "newline", value: char, line, start, end: ++index });
+      line++;
+      continue;
+    }
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    if (source.startsWith("//", index)) {
+      const end = source.indexOf("\n", index);
+      index = end === -1 ? source.length : end;
+      continue;
+    }
+
+    if (source.startsWith("/*", index)) {
+      const end = source.indexOf("*/", index + 2);
+
+      if (end === -1) {
+        fail("unterminated comment");
+      }
+
+      line += source.slice(index, end).split("\n").length - 1;
+      index = end + 2;
+      continue;
+    }
+
+    if (source.startsWith("'''", index)) {
+      const end = source.indexOf("'''", index + 3);
+
+      if (end === -1) {
+        fail("unterminated multi-line string");
+      }
+
+      const value = source.slice(index + 3, end);
+      line += value.split("\n").length - 1;
+      index = end + 3;
+      tokens.push({
+        type: "string",
+        value: dedent(value),
+        line: startLine,
+        start,
+        end: index,
+      });
+      continue;
+    }
+
+    if (char === "'" || char === '"' || char === "`") {
+      let value = "";
+      index++;
+
+      while (index < source.length && source[index] !== char) {
+        if (source[index] === "\\" && index + 1 < source.length) {
+          const escaped = source[index + 1];
+          value += escaped === "n" ? "\n" : escaped;
+          index += 2;
+          continue;
+        }
+
+        if (source[index] === "\n") {
+          line++;
+        }
+
+        value += source[index++];
+      }
+
+      if (index >= source.length) {
+        fail(`unterminated ${char} string`, startLine);
+      }
+
+      index++;
+      tokens.push({
+        type: char === "'" ? "string" : char === '"' ? "quoted" : "expression",
+        value,
+        line: startLine,
+        start,
+        end: index,
+      });
+      continue;
+    }
+
+    if (source.startsWith("<>", index)) {
+      index += 2;
+      tokens.push({ type: "symbol", value: "<>", line, start, end: index });
+      continue;
+    }
+
+    const word = /\d+\.\d+(?![\w$])|[\w$]+/y;
+    word.lastIndex = index;
+    const match = word.exec(source);
+
+    if (match) {
+      index += match[0].length;
+      tokens.push({ type: "word", value: match[0], line, start, end: index });
+      continue;
+    }
+
+    index++;
+    tokens.push({ type: "symbol", value: char, line, start, end: index });
+  }
+
+  return tokens;
+}
+
+/**
+ * Multi-line strings are indented like the code around them
+ */
+function dedent(value: string) {
+  const lines = value
+    .replace(/^\n/, "")
+    .replace(/\n\s*$/, "")
+    .split("\n");
+  const indent = Math.min(
+    ...lines
+      .filter((line) => line.trim())
+      .map((line) => line.match(/^\s*/)![0].length),
+  );
+
+  return lines.map((line) => line.slice(indent)).join("\n");
+}
+
+/**
+ * Parse a DBML document
+ *
+ * @example
+ * ```ts
+ * const { tables, references } = parseDbml(`
+ *   Table users {
+ *     id integer [pk, increment]
+ *     name varchar(255) [not null]
+ *   }
+ * `);
+ * ```
+ *
+ * @param source - DBML document
+ * @returns Enums, tables and references of the document
+ * @throws If the document is not valid DBML
+ */
+export function parseDbml(source: string): DbmlSchema {
+  const tokens = tokenize(source);
+  const enums: DbmlEnum[] = [];
+  const tables: DbmlTable[] = [];
+  const aliases = new Map<string, Endpoint>();
+  const rawReferences: RawReference[] = [];
+  let position = 0;
+
+  const peek = (offset = 0): Token | undefined => tokens[position + offset];
+
+  const fail = (message: string, token = peek()): never => {
+    throw new Error(
+      `Invalid DBML at line ${token?.line ?? tokens.at(-1)?.line ?? 1}: ${message}`,
+    );
+  };
+
+  const next = () => {
+    const token = peek();
+
+    if (!token) {
+      return fail("unexpected end of document");
+    }
+
+    position++;
+    return token;
+  };
+
+  const isSymbol = (value: string, token = peek()) =>
+    token?.type === "symbol" && token.value === value;
+
+  const isKeyword = (value: string, token = peek()) =>
+    token?.type === "word" && token.value.toLowerCase() === value;
+
+  const expectSymbol = (value: string) => {
+    if (!isSymbol(value)) {
+      fail(`expected \`${value}\`, got \`${peek()?.value ?? "end"}\``);
+    }
+
+    return next();
+  };
+
+  const skipNewlines = () => {
+    while (peek()?.type === "newline") {
+      position++;
+    }
+  };
+
+  const expectEndOfLine = () => {
+    if (peek() && peek()?.type !== "newline" && !isSymbol("}")) {
+      fail(`unexpected \`${peek()?.value}\``);
+    }
+  };
+
+  /**
+   * Read a `{ ... }` block, one item per line
+   */
+  const readBlock = (readLine: () => void) => {
+    expectSymbol("{");
+    skipNewlines();
+
+    while (!isSymbol("}")) {
+      readLine();
+      expectEndOfLine();
+      skipNewlines();
+    }
+
+    next();
+  };
+
+  const readName = () => {
+    const token = next();
+
+    if (token.type !== "word" && token.type !== "quoted") {
+      fail(`expected a name, got \`${token.value}\``, token);
+    }
+
+    return token.value;
+  };
+
+  const readString = () => {
+    const token = next();
+
+    if (token.type !== "string" && token.type !== "quoted") {
+      fail(`expected a string, got \`${token.value}\``, token);
+    }
+
+    return token.value;
+  };
+
+  const readTableName = () => {
+    const parts = [readName()];
+
+    while (isSymbol(".")) {
+      next();
+      parts.push(readName());
+    }
+
+    if (parts.length > 2) {
+      fail(`invalid name \`${parts.join(".")}\``);
+    }
+
+    return parts.length === 2
+      ? { schema: parts[0], name: parts[1] }
+      : { name: parts[0] };
+  };
+
+  const skipBlock = () => {
+    while (peek() && !isSymbol("{")) {
+      next();
+    }
+
+    expectSymbol("{");
+    let depth = 1;
+
+    while (depth > 0) {
+      const token = next();
+
+      if (isSymbol("{", token)) {
+        depth++;
+      } else if (isSymbol("}", token)) {
+        depth--;
+      }
+    }
+  };
+
+  const readValue = (): DbmlValue => {
+    const token = next();
+
+    switch (token.type) {
+      case "string":
+      case "quoted":
+        return { kind: "string", value: token.value };
+      case "expression":
+        return { kind: "expression", value: token.value };
+      case "symbol": {
+        // negative numbers and colors
+        if ((token.value === "-" || token.value === "#") && peek()) {
+          const value = `${token.value}${next().value}`;
+
+          return {
+            kind: token.value === "-" ? "number" : "word",
+            value,
+          };
+        }
+
+        return fail(`unexpected \`${token.value}\``, token);
+      }
+      case "word": {
+        if (/^\d+(\.\d+)?$/.test(token.value)) {
+          return { kind: "number", value: token.value };
+        }
+
+        const lowered = token.value.toLowerCase();
+
+        if (lowered === "true" || lowered === "false") {
+          return { kind: "boolean", value: lowered };
+        }
+
+        if (lowered === "null") {
+          return { kind: "null", value: lowered };
+        }
+
+        // multi-words values, like `set null`
+        const words = [token.value];
+
+        while (peek()?.type === "word") {
+          words.push(next().value);
+        }
+
+        return { kind: "word", value: words.join(" ") };
+      }
+      default:
+        return fail("unexpected end of line", token);
+    }
+  };
+
+  const readEndpoint = (): Endpoint => {
+    const parts = [readName()];
+    let columns: string[] | undefined;
+
+    while (isSymbol(".")) {
+      next();
+
+      if (isSymbol("(")) {
+        next();
+        columns = [readName()];
+
+        while (isSymbol(",")) {
+          next();
+          columns.push(readName());
+        }
+
+        expectSymbol(")");
+        break;
+      }
+
+      parts.push(readName());
+    }
+
+    if (!columns) {
+      columns = parts.length > 1 ? [parts.pop()!] : [];
+    }
+
+    if (columns.length === 0 || parts.length > 2) {
+      fail(`invalid reference \`${parts.join(".")}\``);
+    }
+
+    return parts.length === 2
+      ? { schema: parts[0], table: parts[1], columns }
+      : { table: parts[0], columns };
+  };
+
+  const readRelation = () => {
+    const token = next();
+
+    if (!["<", ">", "-", "<>"].includes(token.value)) {
+      fail(
+        `expected a relation (<, >, - or <>), got \`${token.value}\``,
+        token,
+      );
+    }
+
+    return token.value;
+  };
+
+  const readSettings = (): Setting[] => {
+    const settings: Setting[] = [];
+    expectSymbol("[");
+    skipNewlines();
+
+    while (!isSymbol("]")) {
+      const words: string[] = [];
+
+      while (peek()?.type === "word") {
+        words.push(next().value.toLowerCase());
+      }
+
+      if (words.length === 0) {
+        fail(`unexpected \`${peek()?.value ?? "end"}\` in settings`);
+      }
+
+      const key = words.join(" ");
+
+      if (isSymbol(":")) {
+        next();
+
+        if (key === "ref") {
+          settings.push({
+            key,
+            ref: { relation: readRelation(), endpoint: readEndpoint() },
+          });
+        } else {
+          settings.push({ key, value: readValue() });
+        }
+      } else {
+        settings.push({ key });
+      }
+
+      skipNewlines();
+
+      if (isSymbol(",")) {
+        next();
+        skipNewlines();
+      } else if (!isSymbol("]")) {
+        fail(`expected \`,\` or \`]\`, got \`${peek()?.value ?? "end"}\``);
+      }
+    }
+
+    next();
+    return settings;
+  };
+
+  const readType = () => {
+    const first = peek();
+
+    if (first?.type === "quoted") {
+      next();
+      return first.value;
+    }
+
+    if (first?.type !== "word") {
+      return fail(`expected a type, got \`${first?.value ?? "end"}\``);
+    }
+
+    let last = first;
+    let depth = 0;
+
+    while (peek()) {
+      const token = peek()!;
+
+      if (depth === 0) {
+        const isArraySuffix = isSymbol("[", token) && isSymbol("]", peek(1));
+
+        if (
+          token.type === "newline" ||
+          isSymbol("}", token) ||
+          (isSymbol("[", token) && !isArraySuffix)
+        ) {
+          break;
+        }
+      }
+
+      if (isSymbol("(", token)) {
+        depth++;
+      } else if (isSymbol(")", token)) {
+        depth--;
+      }
+
+      last = next();
+    }
+
+    return source.slice(first.start, last.end);
+  };
+
+  const parseColumn = (table: DbmlTable, endpoint: Endpoint) => {
+    const name = readName();
+    const type = readType();
+    const settings = isSymbol("[") ? readSettings() : [];
+    const has = (key: string) => settings.some((it) => it.key === key);
+    const primaryKey = has("pk") || has("primary key");
+
+    table.columns.push({
+      name,
+      type,
+      primaryKey,
+      increment: has("increment"),
+      notNull: has("not null") || primaryKey,
+      unique: has("unique"),
+      default: settings.find((it) => it.key === "default")?.value,
+      note: settings.find((it) => it.key === "note")?.value?.value,
+    });
+
+    for (const setting of settings) {
+      if (setting.ref) {
+        rawReferences.push({
+          left: { ...endpoint, columns: [name] },
+          relation: setting.ref.relation,
+          right: setting.ref.endpoint,
+          settings: [],
+        });
+      }
+    }
+  };
+
+  const parseIndexes = (table: DbmlTable) => {
+    const readIndexColumn = () => {
+      const token = next();
+
+      if (token.type === "expression") {
+        return { value: token.value, isExpression: true };
+      }
+
+      if (token.type !== "word" && token.type !== "quoted") {
+        fail(`expected a column, got \`${token.value}\``, token);
+      }
+
+      return { value: token.value, isExpression: false };
+    };
+
+    readBlock(() => {
+      const columns: DbmlIndex["columns"] = [];
+
+      if (isSymbol("(")) {
+        next();
+        columns.push(readIndexColumn());
+
+        while (isSymbol(",")) {
+          next();
+          columns.push(readIndexColumn());
+        }
+
+        expectSymbol(")");
+      } else {
+        columns.push(readIndexColumn());
+      }
+
+      const settings = isSymbol("[") ? readSettings() : [];
+      const has = (key: string) => settings.some((it) => it.key === key);
+
+      table.indexes.push({
+        name: settings.find((it) => it.key === "name")?.value?.value,
+        columns,
+        primaryKey: has("pk"),
+        unique: has("unique"),
+        type: settings.find((it) => it.key === "type")?.value?.value,
+      });
+    });
+  };
+
+  const parseTable = () => {
+    next();
+    const { schema, name } = readTableName();
+    const endpoint = { schema, table: name, columns: [] };
+    const table: DbmlTable = { name, schema, columns: [], indexes: [] };
+
+    if (isKeyword("as")) {
+      next();
+      aliases.set(readName(), endpoint);
+    }
+
+    if (isSymbol("[")) {
+      table.note = readSettings().find((it) => it.key === "note")?.value?.value;
+    }
+
+    skipNewlines();
+    readBlock(() => {
+      if (isKeyword("indexes") && isSymbol("{", peek(1))) {
+        next();
+        parseIndexes(table);
+      } else if (isKeyword("note") && isSymbol(":", peek(1))) {
+        next();
+        next();
+        table.note = readString();
+      } else if (isKeyword("note") && isSymbol("{", peek(1))) {
+        next();
+        next();
+        skipNewlines();
+        table.note = readString();
+        skipNewlines();
+        expectSymbol("}");
+      } else {
+        parseColumn(table, endpoint);
+      }
+    });
+
+    tables.push(table);
+  };
+
+  const parseEnum = () => {
+    next();
+    const dbmlEnum: DbmlEnum = { ...readTableName(), values: [] };
+
+    skipNewlines();
+    readBlock(() => {
+      dbmlEnum.values.push(readName());
+
+      if (isSymbol("[")) {
+        readSettings();
+      }
+    });
+
+    enums.push(dbmlEnum);
+  };
+
+  const parseReference = () => {
+    next();
+    let name: string | undefined;
+
+    if (!isSymbol(":") && !isSymbol("{")) {
+      name = readName();
+    }
+
+    const readBody = () => {
+      const left = readEndpoint();
+      const relation = readRelation();
+      const right = readEndpoint();
+      const settings = isSymbol("[") ? readSettings() : [];
+
+      rawReferences.push({ name, left, relation, right, settings });
+    };
+
+    if (isSymbol(":")) {
+      next();
+      readBody();
+      return;
+    }
+
+    expectSymbol("{");
+    skipNewlines();
+    readBody();
+    skipNewlines();
+    expectSymbol("}");
+  };
+
+  skipNewlines();
+
+  for (let token = peek(); token; token = peek()) {
+    switch (token.type === "word" ? token.value.toLowerCase() : "") {
+      case "table":
+        parseTable();
+        break;
+      case "enum":
+        parseEnum();
+        break;
+      case "ref":
+        parseReference();
+        break;
+      case "project":
+      case "tablegroup":
+      case "tablepartial":
+      case "note":
+      case "records":
+        skipBlock();
+        break;
+      default:
+        fail(`unexpected \`${token.value}\``);
+    }
+
+    skipNewlines();
+  }
+
+  const resolve = (endpoint: Endpoint): Endpoint =>
+    !endpoint.schema && aliases.has(endpoint.table)
+      ? { ...aliases.get(endpoint.table)!, columns: endpoint.columns }
+      : endpoint;
+
+  const references = rawReferences.flatMap(
+    ({ name, left, relation, right, settings }): DbmlReference[] => {
+      // many-to-many relations need a join table
+      if (relation === "<>") {
+        return [];
+      }
+
+      const [from, to] =
+        relation === "<"
+          ? [resolve(right), resolve(left)]
+          : [resolve(left), resolve(right)];
+      const setting = (key: string) =>
+        settings.find((it) => it.key === key)?.value?.value.toLowerCase();
+
+      return [
+        {
+          name,
+          tableFrom: from.table,
+          schemaFrom: from.schema,
+          columnsFrom: from.columns,
+          tableTo: to.table,
+          schemaTo: to.schema,
+          columnsTo: to.columns,
+          onDelete: setting("delete"),
+          onUpdate: setting("update"),
+        },
+      ];
+    },
+  );
+
+  return { enums, tables, references };
+}
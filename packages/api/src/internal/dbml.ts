@@ -0,0 +1,145 @@
+/* lab extension */
+import type { DataDictionary, DataDictionaryEntity } from "./docs";
+
+function name(value: string) {
+  return /^\w+$/.test(value) ? value : `"${value.replaceAll('"', '\\"')}"`;
+}
+
+function tableName(entity: { name: string; schema?: string }) {
+  return entity.schema && entity.schema !== "public"
+    ? `${name(entity.schema)}.${name(entity.name)}`
+    : name(entity.name);
+}
+
+function columnType(type: string) {
+  return /[\s[\]"]/.test(type) ? `"${type.replaceAll('"', '\\"')}"` : type;
+}
+
+function note(value: string) {
+  return `'${value.replaceAll("\\", "\\\\").replaceAll("'", "\\'").replaceAll("\n", "\\n")}'`;
+}
+
+function defaultValue(value: string) {
+  if (/^'.*'$/s.test(value) || /^-?\d+(\.\d+)?$/.test(value)) {
+    return value;
+  }
+
+  if (["true", "false", "null"].includes(value.toLowerCase())) {
+    return value.toLowerCase();
+  }
+
+  return `\`${value.replaceAll("`", "'")}\``;
+}
+
+function isIncrement(column: DataDictionaryEntity["columns"][number]) {
+  return (
+    /identity|auto_?increment/.test(column.generated ?? "") ||
+    /serial/.test(column.type.toLowerCase())
+  );
+}
+
+function group(values: string[]) {
+  return values.length === 1 ? values[0] : `(${values.join(", ")})`;
+}
+
+/**
+ * Index columns can be expressions, they are written between backticks
+ */
+function columns(values: string[]) {
+  return group(
+    values.map((value) =>
+      /^\w+$/.test(value) ? value : `\`${value.replaceAll("`", "'")}\``,
+    ),
+  );
+}
+
+function entityToDbml(entity: DataDictionaryEntity) {
+  const lines = [`Table ${tableName(entity)} {`];
+
+  for (const column of entity.columns) {
+    const settings = [
+      column.primaryKey ? "pk" : "",
+      isIncrement(column) ? "increment" : "",
+      column.notNull && !column.primaryKey ? "not null" : "",
+      column.isUnique ? "unique" : "",
+      // `$defaultFn` values are computed by drizzle, not by the database
+      column.default && !column.default.startsWith("$defaultFn")
+        ? `default: ${defaultValue(column.default)}`
+        : "",
+      column.description ? `note: ${note(column.description)}` : "",
+    ].filter(Boolean);
+
+    lines.push(
+      `  ${name(column.name)} ${columnType(column.type)}${settings.length > 0 ? ` [${settings.join(", ")}]` : ""}`,
+    );
+  }
+
+  const indexes = [
+    ...(entity.primaryKeys ?? []).map(
+      (pk) =>
+        `${columns(pk.columns)} [pk${pk.name ? `, name: ${note(pk.name)}` : ""}]`,
+    ),
+    ...(entity.uniqueConstraints ?? []).map(
+      (unique) =>
+        `${columns(unique.columns)} [unique, name: ${note(unique.name)}]`,
+    ),
+    ...(entity.indexes ?? []).map(
+      (index) =>
+        `${columns(index.columns)} [${index.isUnique ? "unique, " : ""}name: ${note(index.name)}${index.description ? `, note: ${note(index.description)}` : ""}]`,
+    ),
+  ];
+
+  if (indexes.length > 0) {
+    lines.push("", "  Indexes {", ...indexes.map((it) => `    ${it}`), "  }");
+  }
+
+  if (entity.description) {
+    lines.push("", `  Note: ${note(entity.description)}`);
+  }
+
+  lines.push("}");
+
+  return lines.join("\n");
+}
+
+function referencesToDbml(entity: DataDictionaryEntity) {
+  return (entity.foreignKeys ?? []).map((fk) => {
+    const settings = [
+      fk.onDelete ? `delete: ${fk.onDelete.toLowerCase()}` : "",
+      fk.onUpdate ? `update: ${fk.onUpdate.toLowerCase()}` : "",
+    ].filter(Boolean);
+    const from = `${tableName(entity)}.${group(fk.columnsFrom.map(name))}`;
+    const to = `${tableName({ name: fk.tableTo, schema: fk.schemaTo })}.${group(fk.columnsTo.map(name))}`;
+
+    return [
+      `Ref${/^\w+$/.test(fk.name) ? ` ${fk.name}` : ""}: ${from} > ${to}`,
+      settings.length > 0 ? ` [${settings.join(", ")}]` : "",
+    ].join("");
+  });
+}
+
+/**
+ * Render a data dictionary as DBML (https://dbml.dbdiagram.io)
+ */
+export function dataDictionaryToDbml(dictionary: DataDictionary) {
+  const blocks = [
+    ...dictionary.enums.map((enumType) =>
+      [
+        `Enum ${tableName(enumType)} {`,
+        ...enumType.values.map(
+          (value) =>
+            `  ${name(value)}${enumType.valueDescriptions?.[value] ? ` [note: ${note(enumType.valueDescriptions[value])}]` : ""}`,
+        ),
+        "}",
+      ].join("\n"),
+    ),
+    ...dictionary.tables.map(entityToDbml),
+  ];
+  const references = dictionary.tables.flatMap(referencesToDbml);
+
+  if (references.length > 0) {
+    blocks.push(references.join("\n"));
+  }
+
+  return `${blocks.join("\n\n")}\n`;
+}
@@ -0,0 +1,191 @@
+/* lab extension */
+import { omitExplainMetadata } from "./explain";
+
+export type DiffOptions = {
+  /**
+   * Objects to treat as renamed instead of dropped and re-created, as `from->to` keys.
+   *
+   * Keys are the snapshot keys of the object (e.g. `public.users` for a pg table, `users` for a sqlite table),
+   * suffixed by the column or policy name for table members (e.g. `public.users.name`).
+   *
+   * @example ["public.users->public.customers", "public.customers.name->public.customers.full_name"]
+   */
+  renames?: string[];
+};
+
+export type RecordsDiff = {
+  added: string[];
+  deleted: string[];
+  renamed: { from: string; to: string }[];
+  common: string[];
+};
+
+/**
+ * Parse `from->to` rename hints
+ * @param renames - Rename hints
+ * @returns A map of `from` keys to `to` keys
+ */
+export function parseRenames(renames: string[] = []) {
+  const result = new Map<string, string>();
+
+  for (const rename of renames) {
+    const [from, to] = rename.split("->").map((it) => it.trim());
+
+    if (!from || !to) {
+      throw new Error(
+        `Invalid rename "${rename}". Expected format is "from->to"`,
+      );
+    }
+
+    result.set(from, to);
+  }
+
+  return result;
+}
+
+/**
+ * Swap the sides of `from->to` rename hints, to diff in the opposite direction
+ *
+ * Member renames are scoped to the renamed object, so their key moves back to its original name too.
+ *
+ * @param renames - Rename hints
+ * @returns `to->from` rename hints
+ */
+export function invertRenames(renames: string[] = []) {
+  const parsed = parseRenames(renames);
+  const originalKeys = new Map([...parsed].map(([from, to]) => [to, from]));
+  const withOriginalKey = (name: string) => {
+    const separator = name.lastIndexOf(".");
+    const key = originalKeys.get(name.slice(0, separator));
+
+    return separator !== -1 && key ? `${key}${name.slice(separator)}` : name;
+  };
+
+  return [...parsed].map(
+    ([from, to]) => `${withOriginalKey(to)}->${withOriginalKey(from)}`,
+  );
+}
+
+/**
+ * Keep only the renames of the members of an object (e.g. columns of a table) and strip the object key from them
+ * @param renames - Parsed rename hints
+ * @param key - The object key (e.g. `public.users`)
+ * @returns A map of member names
+ */
+export function scopeRenames(renames: Map<string, string>, key: string) {
+  const result = new Map<string, string>();
+  const prefix = `${key}.`;
+
+  for (const [from, to] of renames) {
+    if (from.startsWith(prefix) && to.startsWith(prefix)) {
+      result.set(from.slice(prefix.length), to.slice(prefix.length));
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Compare the keys of two records
+ * @param prev - Previous record
+ * @param next - Next record
+ * @param renames - Parsed rename hints for this record
+ * @returns Added, deleted, renamed and common keys
+ */
+export function diffRecords(
+  prev: Record<string, unknown>,
+  next: Record<string, unknown>,
+  renames: Map<string, string> = new Map(),
+): RecordsDiff {
+  const prevKeys = Object.keys(prev);
+  const nextKeys = Object.keys(next);
+  const renamed: RecordsDiff["renamed"] = [];
+
+  for (const from of prevKeys) {
+    const to = renames.get(from);
+
+    if (to && to !== from && !(to in prev) && to in next && !(from in next)) {
+      renamed.push({ from, to });
+    }
+  }
+
+  const renamedFrom = new Set(renamed.map((it) => it.from));
+  const renamedTo = new Set(renamed.map((it) => it.to));
+
+  return {
+    added: nextKeys.filter((key) => !(key in prev) && !renamedTo.has(key)),
+    deleted: prevKeys.filter((key) => !(key in next) && !renamedFrom.has(key)),
+    renamed,
+    common: prevKeys.filter((key) => key in next),
+  };
+}
+
+/**
+ * Structural equality that ignores `undefined` properties
+ */
+export function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+
+  if (
+    typeof a !== "object" ||
+    typeof b !== "object" ||
+    a === null ||
+    b === null
+  ) {
+    return false;
+  }
+
+  if (Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+
+  const aKeys = Object.keys(a).filter((key) => (a as any)[key] !== undefined);
+  const bKeys = Object.keys(b).filter((key) => (b as any)[key] !== undefined);
+
+  if (aKeys.length !== bKeys.length) {
+    return false;
+  }
+
+  return aKeys.every((key) => isDeepEqual((a as any)[key], (b as any)[key]));
+}
+
+/**
+ * Remove the lab extension fields of a snapshot column, including its explain metadata.
+ *
+ * They document the schema and have no effect on the database.
+ */
+export function omitLabColumnFields<
+  T extends {
+    enumValues?: string[];
+    defaultFn?: string;
+    onUpdateFn?: string;
+    description?: string;
+    jsonShape?: string;
+  },
+>(column: T) {
+  const {
+    enumValues: _enumValues,
+    defaultFn: _defaultFn,
+    onUpdateFn: _onUpdateFn,
+    description: _description,
+    jsonShape: _jsonShape,
+    ...rest
+  } = column;
+
+  return omitExplainMetadata(rest);
+}
+
+/**
+ * Remove the description of a snapshot object (e.g. an index or a policy).
+ *
+ * It documents the schema and has no effect on the database.
+ */
+export function omitDescription<T extends object>(entity: T) {
+  const { description: _description, ...rest } = entity as T & {
+    description?: string;
+  };
+
+  return rest;
+}
@@ -0,0 +1,545 @@
+/* lab extension */
+import type { Relation } from "./relations";
+
+/**
+ * Dialect agnostic model of a data dictionary, built from a snapshot
+ */
+export type DataDictionary = {
+  title: string;
+  dialect: string;
+  tables: DataDictionaryEntity[];
+  views: DataDictionaryEntity[];
+  enums: {
+    name: string;
+    schema?: string;
+    values: string[];
+    description?: string;
+    valueDescriptions?: Record<string, string>;
+  }[];
+};
+
+export type DataDictionaryEntity = {
+  name: string;
+  schema?: string;
+  /** `table`, `view` or `materialized view` */
+  kind: string;
+  description?: string;
+  columns: {
+    name: string;
+    type: string;
+    notNull: boolean;
+    primaryKey: boolean;
+    isUnique?: boolean;
+    default?: string;
+    /** Generated, identity or auto increment */
+    generated?: string;
+    description?: string;
+    jsonShape?: string;
+    enumValues?: string[];
+  }[];
+  primaryKeys?: { name?: string; columns: string[] }[];
+  indexes?: {
+    name: string;
+    columns: string[];
+    isUnique: boolean;
+    where?: string;
+    description?: string;
+  }[];
+  foreignKeys?: {
+    name: string;
+    columnsFrom: string[];
+    tableTo: string;
+    schemaTo?: string;
+    columnsTo: string[];
+    onDelete?: string;
+    onUpdate?: string;
+  }[];
+  uniqueConstraints?: { name: string; columns: string[] }[];
+  checkConstraints?: { name: string; value: string }[];
+  relations?: Relation[];
+  isRLSEnabled?: boolean;
+  policies?: {
+    name: string;
+    as?: string;
+    for?: string;
+    to?: string[];
+    using?: string;
+    withCheck?: string;
+    description?: string;
+  }[];
+  definition?: string;
+};
+
+/**
+ * Format a snapshot default value for documentation
+ */
+export function formatDefault(column: {
+  default?: unknown;
+  defaultFn?: string;
+}) {
+  if (column.default !== undefined) {
+    return typeof column.default === "string"
+      ? column.default
+      : JSON.stringify(column.default);
+  }
+
+  return column.defaultFn ? `$defaultFn(${column.defaultFn})` : undefined;
+}
+
+export function qualifiedName(entity: { name: string; schema?: string }) {
+  return entity.schema && entity.schema !== "public"
+    ? `${entity.schema}.${entity.name}`
+    : entity.name;
+}
+
+function anchor(kind: string, entity: { name: string; schema?: string }) {
+  return `${kind}-${qualifiedName(entity)}`
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-");
+}
+
+/* -------------------------------- Markdown; ------------------------------- */
+
+function escapeCell(value: string) {
+  return value.replaceAll("|", "\\|").replaceAll("\n", "<br>");
+}
+
+function code(value: string) {
+  return `\`${value.replaceAll("`", "'")}\``;
+}
+
+function markdownTable(headers: string[], rows: string[][]) {
+  return [
+    `| ${headers.join(" | ")} |`,
+    `| ${headers.map(() => "---").join(" | ")} |`,
+    ...rows.map((row) => `| ${row.map(escapeCell).join(" | ")} |`),
+  ].join("\n");
+}
+
+function markdownLink(name: string, schema?: string) {
+  return `[${code(qualifiedName({ name, schema }))}](#${anchor("table", { name, schema })})`;
+}
+
+function entityToMarkdown(entity: DataDictionaryEntity) {
+  const lines: string[] = [
+    `<a id="${anchor(entity.kind, entity)}"></a>`,
+    "",
+    `### ${code(qualifiedName(entity))}`,
+    "",
+  ];
+
+  if (entity.kind !== "table") {
+    lines.push(`_${entity.kind}_`, "");
+  }
+
+  if (entity.description) {
+    lines.push(entity.description, "");
+  }
+
+  lines.push(
+    markdownTable(
+      ["Column", "Type", "Nullable", "Default", "Description"],
+      entity.columns.map((column) => [
+        [
+          code(column.name),
+          column.primaryKey ? "🔑" : "",
+          column.isUnique ? "(unique)" : "",
+        ]
+          .filter(Boolean)
+          .join(" "),
+        [
+          code(column.type),
+          column.enumValues ? `(${column.enumValues.join(", ")})` : "",
+          column.generated ? `_${column.generated}_` : "",
+        ]
+          .filter(Boolean)
+          .join(" "),
+        column.notNull ? "no" : "yes",
+        column.default !== undefined ? code(column.default) : "",
+        column.description ?? "",
+      ]),
+    ),
+    "",
+  );
+
+  if (entity.primaryKeys?.length) {
+    lines.push(
+      "**Primary key**",
+      "",
+      ...entity.primaryKeys.map(
+        (pk) =>
+          `- ${pk.name ? `${code(pk.name)}: ` : ""}(${pk.columns.map(code).join(", ")})`,
+      ),
+      "",
+    );
+  }
+
+  if (entity.indexes?.length) {
+    lines.push(
+      "**Indexes**",
+      "",
+      ...entity.indexes.map(
+        (index) =>
+          `- ${code(index.name)}: ${index.isUnique ? "unique " : ""}(${index.columns.map(code).join(", ")})${index.where ? ` where ${code(index.where)}` : ""}${index.description ? ` — ${index.description}` : ""}`,
+      ),
+      "",
+    );
+  }
+
+  if (entity.foreignKeys?.length) {
+    lines.push(
+      "**Foreign keys**",
+      "",
+      ...entity.foreignKeys.map(
+        (fk) =>
+          `- ${code(fk.name)}: (${fk.columnsFrom.map(code).join(", ")}) → ${markdownLink(fk.tableTo, fk.schemaTo)} (${fk.columnsTo.map(code).join(", ")})${fk.onDelete ? `, on delete ${fk.onDelete}` : ""}${fk.onUpdate ? `, on update ${fk.onUpdate}` : ""}`,
+      ),
+      "",
+    );
+  }
+
+  if (entity.uniqueConstraints?.length) {
+    lines.push(
+      "**Unique constraints**",
+      "",
+      ...entity.uniqueConstraints.map(
+        (unique) =>
+          `- ${code(unique.name)}: (${unique.columns.map(code).join(", ")})`,
+      ),
+      "",
+    );
+  }
+
+  if (entity.checkConstraints?.length) {
+    lines.push(
+      "**Check constraints**",
+      "",
+      ...entity.checkConstraints.map(
+        (check) => `- ${code(check.name)}: ${code(check.value)}`,
+      ),
+      "",
+    );
+  }
+
+  if (entity.relations?.length) {
+    lines.push(
+      "**Relations**",
+      "",
+      ...entity.relations.map(
+        (relation) =>
+          `- ${code(relation.fieldName)}: ${relation.type} ${markdownLink(relation.referencedTableName)}${relation.description ? ` — ${relation.description}` : ""}`,
+      ),
+      "",
+    );
+  }
+
+  if (entity.isRLSEnabled || entity.policies?.length) {
+    lines.push(
+      "**Row level security**",
+      "",
+      `Enabled: ${entity.isRLSEnabled ? "yes" : "no"}`,
+      "",
+    );
+
+    if (entity.policies?.length) {
+      lines.push(
+        markdownTable(
+          ["Policy", "As", "For", "To", "Using", "With check", "Description"],
+          entity.policies.map((policy) => [
+            code(policy.name),
+            policy.as ?? "",
+            policy.for ?? "",
+            policy.to?.join(", ") ?? "",
+            policy.using ? code(policy.using) : "",
+            policy.withCheck ? code(policy.withCheck) : "",
+            policy.description ?? "",
+          ]),
+        ),
+        "",
+      );
+    }
+  }
+
+  const jsonShapes = entity.columns.filter((column) => column.jsonShape);
+
+  if (jsonShapes.length) {
+    lines.push("**JSON shapes**", "");
+
+    for (const column of jsonShapes) {
+      lines.push(
+        code(column.name),
+        "",
+        "```json",
+        column.jsonShape!,
+        "```",
+        "",
+      );
+    }
+  }
+
+  if (entity.definition) {
+    lines.push("**Definition**", "", "```sql", entity.definition, "```", "");
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Render a data dictionary as Markdown
+ */
+export function dataDictionaryToMarkdown(dictionary: DataDictionary) {
+  const lines: string[] = [`# ${dictionary.title}`, ""];
+
+  const toc = (title: string, entities: DataDictionaryEntity[]) =>
+    entities.length
+      ? [
+          `- ${title}`,
+          ...entities.map(
+            (entity) =>
+              `  - [${code(qualifiedName(entity))}](#${anchor(entity.kind, entity)})`,
+          ),
+        ]
+      : [];
+
+  lines.push(
+    ...toc("Tables", dictionary.tables),
+    ...toc("Views", dictionary.views),
+    ...(dictionary.enums.length ? ["- [Enums](#enums)"] : []),
+    "",
+  );
+
+  if (dictionary.tables.length) {
+    lines.push("## Tables", "", ...dictionary.tables.map(entityToMarkdown));
+  }
+
+  if (dictionary.views.length) {
+    lines.push("## Views", "", ...dictionary.views.map(entityToMarkdown));
+  }
+
+  if (dictionary.enums.length) {
+    lines.push(
+      '<a id="enums"></a>',
+      "",
+      "## Enums",
+      "",
+      markdownTable(
+        ["Enum", "Values", "Description"],
+        dictionary.enums.map((it) => [
+          code(qualifiedName(it)),
+          it.valueDescriptions
+            ? it.values
+                .map((value) =>
+                  it.valueDescriptions?.[value]
+                    ? `${code(value)}: ${it.valueDescriptions[value]}`
+                    : code(value),
+                )
+                .join("\n")
+            : it.values.map(code).join(", "),
+          it.description ?? "",
+        ]),
+      ),
+      "",
+    );
+  }
+
+  return lines.join("\n");
+}
+
+/* ---------------------------------- HTML; --------------------------------- */
+
+function escapeHtml(value: string) {
+  return value
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&#39;");
+}
+
+function htmlCode(value: string) {
+  return `<code>${escapeHtml(value)}</code>`;
+}
+
+function htmlTable(headers: string[], rows: string[][]) {
+  return `<table><thead><tr>${headers.map((it) => `<th>${it}</th>`).join("")}</tr></thead><tbody>${rows
+    .map((row) => `<tr>${row.map((it) => `<td>${it}</td>`).join("")}</tr>`)
+    .join("")}</tbody></table>`;
+}
+
+function htmlList(title: string, items: string[]) {
+  return items.length
+    ? `<h4>${title}</h4><ul>${items.map((it) => `<li>${it}</li>`).join("")}</ul>`
+    : "";
+}
+
+function entityToHtml(entity: DataDictionaryEntity) {
+  const tableLink = (name: string, schema?: string) =>
+    `<a href="#${anchor("table", { name, schema })}">${htmlCode(qualifiedName({ name, schema }))}</a>`;
+
+  return [
+    `<section id="${anchor(entity.kind, entity)}">`,
+    `<h3>${htmlCode(qualifiedName(entity))}${entity.kind !== "table" ? ` <small>${entity.kind}</small>` : ""}</h3>`,
+    entity.description ? `<p>${escapeHtml(entity.description)}</p>` : "",
+    htmlTable(
+      ["Column", "Type", "Nullable", "Default", "Description"],
+      entity.columns.map((column) => [
+        `${htmlCode(column.name)}${column.primaryKey ? " 🔑" : ""}${column.isUnique ? " <small>unique</small>" : ""}`,
+        `${htmlCode(column.type)}${column.enumValues ? ` <small>(${escapeHtml(column.enumValues.join(", "))})</small>` : ""}${column.generated ? ` <small>${escapeHtml(column.generated)}</small>` : ""}`,
+        column.notNull ? "no" : "yes",
+        column.default !== undefined ? htmlCode(column.default) : "",
+        escapeHtml(column.description ?? ""),
+      ]),
+    ),
+    htmlList(
+      "Primary key",
+      (entity.primaryKeys ?? []).map(
+        (pk) =>
+          `${pk.name ? `${htmlCode(pk.name)}: ` : ""}(${pk.columns.map(htmlCode).join(", ")})`,
+      ),
+    ),
+    htmlList(
+      "Indexes",
+      (entity.indexes ?? []).map(
+        (index) =>
+          `${htmlCode(index.name)}: ${index.isUnique ? "unique " : ""}(${index.columns.map(htmlCode).join(", ")})${index.where ? ` where ${htmlCode(index.where)}` : ""}${index.description ? ` — ${escapeHtml(index.description)}` : ""}`,
+      ),
+    ),
+    htmlList(
+      "Foreign keys",
+      (entity.foreignKeys ?? []).map(
+        (fk) =>
+          `${htmlCode(fk.name)}: (${fk.columnsFrom.map(htmlCode).join(", ")}) → ${tableLink(fk.tableTo, fk.schemaTo)} (${fk.columnsTo.map(htmlCode).join(", ")})${fk.onDelete ? `, on delete ${escapeHtml(fk.onDelete)}` : ""}${fk.onUpdate ? `, on update ${escapeHtml(fk.onUpdate)}` : ""}`,
+      ),
+    ),
+    htmlList(
+      "Unique constraints",
+      (entity.uniqueConstraints ?? []).map(
+        (unique) =>
+          `${htmlCode(unique.name)}: (${unique.columns.map(htmlCode).join(", ")})`,
+      ),
+    ),
+    htmlList(
+      "Check constraints",
+      (entity.checkConstraints ?? []).map(
+        (check) => `${htmlCode(check.name)}: ${htmlCode(check.value)}`,
+      ),
+    ),
+    htmlList(
+      "Relations",
+      (entity.relations ?? []).map(
+        (relation) =>
+          `${htmlCode(relation.fieldName)}: ${relation.type} ${tableLink(relation.referencedTableName)}${relation.description ? ` — ${escapeHtml(relation.description)}` : ""}`,
+      ),
+    ),
+    entity.isRLSEnabled || entity.policies?.length
+      ? `<h4>Row level security</h4><p>Enabled: ${entity.isRLSEnabled ? "yes" : "no"}</p>${
+          entity.policies?.length
+            ? htmlTable(
+                [
+                  "Policy",
+                  "As",
+                  "For",
+                  "To",
+                  "Using",
+                  "With check",
+                  "Description",
+                ],
+                entity.policies.map((policy) => [
+                  htmlCode(policy.name),
+                  escapeHtml(policy.as ?? ""),
+                  escapeHtml(policy.for ?? ""),
+                  escapeHtml(policy.to?.join(", ") ?? ""),
+                  policy.using ? htmlCode(policy.using) : "",
+                  policy.withCheck ? htmlCode(policy.withCheck) : "",
+                  escapeHtml(policy.description ?? ""),
+                ]),
+              )
+            : ""
+        }`
+      : "",
+    ...entity.columns
+      .filter((column) => column.jsonShape)
+      .map(
+        (column) =>
+          `<h4>JSON shape of ${htmlCode(column.name)}</h4><pre>${escapeHtml(column.jsonShape!)}</pre>`,
+      ),
+    entity.definition
+      ? `<h4>Definition</h4><pre>${escapeHtml(entity.definition)}</pre>`
+      : "",
+    "</section>",
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+const style = `
+body { font-family: system-ui, sans-serif; margin: 0; display: flex; color: #1f2937; }
+nav { position: sticky; top: 0; height: 100vh; overflow-y: auto; min-width: 240px; padding: 1rem; background: #f3f4f6; box-sizing: border-box; }
+nav ul { list-style: none; padding-left: 0.5rem; }
+main { padding: 1rem 2rem; overflow-x: auto; flex: 1; }
+section { margin-bottom: 3rem; }
+table { border-collapse: collapse; margin: 0.5rem 0; }
+th, td { border: 1px solid #d1d5db; padding: 0.25rem 0.5rem; text-align: left; vertical-align: top; }
+th { background: #f9fafb; }
+pre { background: #f3f4f6; padding: 0.5rem; overflow-x: auto; }
+small { color: #6b7280; }
+a { color: #2563eb; }
+`;
+
+/**
+ * Render a data dictionary as a standalone HTML page
+ */
+export function dataDictionaryToHtml(dictionary: DataDictionary) {
+  const toc = (title: string, entities: DataDictionaryEntity[]) =>
+    entities.length
+      ? `<h4>${title}</h4><ul>${entities
+          .map(
+            (entity) =>
+              `<li><a href="#${anchor(entity.kind, entity)}">${escapeHtml(qualifiedName(entity))}</a></li>`,
+          )
+          .join("")}</ul>`
+      : "";
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(dictionary.title)}</title>
+<style>${style}</style>
+</head>
+<body>
+<nav>
+<h3>${escapeHtml(dictionary.title)}</h3>
+${toc("Tables", dictionary.tables)}
+${toc("Views", dictionary.views)}
+${dictionary.enums.length ? `<h4><a href="#enums">Enums</a></h4>` : ""}
+</nav>
+<main>
+${dictionary.tables.length ? `<h2>Tables</h2>\n${dictionary.tables.map(entityToHtml).join("\n")}` : ""}
+${dictionary.views.length ? `<h2>Views</h2>\n${dictionary.views.map(entityToHtml).join("\n")}` : ""}
+${
+  dictionary.enums.length
+    ? `<section id="enums"><h2>Enums</h2>${htmlTable(
+        ["Enum", "Values", "Description"],
+        dictionary.enums.map((it) => [
+          htmlCode(qualifiedName(it)),
+          it.valueDescriptions
+            ? it.values
+                .map((value) =>
+                  it.valueDescriptions?.[value]
+                    ? `${htmlCode(value)}: ${escapeHtml(it.valueDescriptions[value])}`
+                    : htmlCode(value),
+                )
+                .join("<br>")
+            : it.values.map(htmlCode).join(", "),
+          escapeHtml(it.description ?? ""),
+        ]),
+      )}</section>`
+    : ""
+}
+</main>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,90 @@
+/* lab extension */
+import { object, string, type TypeOf } from "zod";
+
+import type {
+  ColumnExplain,
+  ExplainMetadata as ExplainMetadataInput,
+  IndexExplain,
+} from "../extensions/drizzle.lab";
+import { DrizzleLab } from "../extensions/symbols";
+
+/**
+ * Governance metadata of a table, a view or a column of a snapshot (see `explain`)
+ */
+export const explainMetadata = object({
+  tags: string().array().optional(),
+  owner: string().optional(),
+  sensitivity: string().optional(),
+  deprecated: string().optional(),
+  examples: string().array().optional(),
+});
+
+export type ExplainMetadata = TypeOf<typeof explainMetadata>;
+
+const metadataKeys = Object.keys(
+  explainMetadata.shape,
+) as (keyof ExplainMetadata)[];
+
+/**
+ * Pick the metadata that are set, so snapshots don't get `undefined` keys
+ */
+export function pickExplainMetadata(
+  explain: ExplainMetadataInput | undefined,
+): ExplainMetadata {
+  const metadata: ExplainMetadata = {};
+
+  for (const key of metadataKeys) {
+    if (explain?.[key] !== undefined) {
+      Object.assign(metadata, { [key]: explain[key] });
+    }
+  }
+
+  return metadata;
+}
+
+/**
+ * Remove the metadata of a table, a view or a column, they have no effect on the database
+ */
+export function omitExplainMetadata<T extends object>(
+  entity: T,
+): Omit<T, keyof ExplainMetadata> {
+  const result = { ...entity };
+
+  for (const key of metadataKeys) {
+    delete (result as ExplainMetadata)[key];
+  }
+
+  return result;
+}
+
+/**
+ * Normalize the `explain` of a column, a description or a description with metadata
+ */
+export function explainColumn(
+  explain: ColumnExplain | undefined,
+): ExplainMetadata & { description?: string } {
+  if (typeof explain === "string" || explain === undefined) {
+    return { description: explain };
+  }
+
+  return {
+    description: explain.description,
+    ...pickExplainMetadata(explain),
+  };
+}
+
+/**
+ * Whether a table, a view or a column has metadata
+ */
+export function hasExplainMetadata(entity: ExplainMetadata) {
+  return metadataKeys.some((key) => entity[key] !== undefined);
+}
+
+/**
+ * The `explain` of an index, kept in its config as drizzle builds indexes from a copy of it
+ */
+export function explainIndex(index: { config: object }) {
+  return (index.config as { [DrizzleLab]?: { explain?: IndexExplain } })[
+    DrizzleLab
+  ]?.explain;
+}
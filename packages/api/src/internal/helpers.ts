@@ -1,6 +1,11 @@
 import { CasingCache, toCamelCase, toSnakeCase } from "drizzle-orm/casing";
 import type { SQL } from "drizzle-orm/sql";
 
+import {
+  hasExplainMetadata,
+  pickExplainMetadata,
+  type ExplainMetadata,
+} from "./explain";
 import type { CasingType } from "../config/schema";
 
 export const sqlToStr = (sql: SQL, casing: CasingType | undefined) => {
@@ -18,6 +23,103 @@ export const sqlToStr = (sql: SQL, casing: CasingType | undefined) => {
   }).sql;
 };
 
+/* lab extension */
+/**
+ * Generate the `explain(...)` call documenting a table or a view of a snapshot, so descriptions survive a SQL → TypeScript conversion
+ * @param variable - TypeScript name of the table or view
+ * @param entity - Table or view of a snapshot
+ * @param columnKey - TypeScript key of a column, from its database name
+ * @returns An empty string if there is nothing to explain
+ */
+export function explainToTypeScript(
+  variable: string,
+  entity: ExplainMetadata & {
+    description?: string;
+    columns: Record<
+      string,
+      ExplainMetadata & {
+        name: string;
+        description?: string;
+        jsonShape?: string;
+      }
+    >;
+  },
+  columnKey: (name: string) => string,
+) {
+  const columns = Object.values(entity.columns);
+  const described = columns.filter(
+    (it) => it.description || hasExplainMetadata(it),
+  );
+  const shaped = columns.filter((it) => it.jsonShape);
+
+  if (
+    !entity.description &&
+    !hasExplainMetadata(entity) &&
+    described.length === 0 &&
+    shaped.length === 0
+  ) {
+    return "";
+  }
+
+  let statement = `explain(${variable}, {\n`;
+
+  if (entity.description) {
+    statement += `\tdescription: ${JSON.stringify(entity.description)},\n`;
+  }
+
+  for (const [key, value] of Object.entries(pickExplainMetadata(entity))) {
+    statement += `\t${key}: ${toLiteral(value)},\n`;
+  }
+
+  if (described.length > 0) {
+    statement += "\tcolumns: {\n";
+    statement += described
+      .map((it) => {
+        // a plain description, unless the column has metadata
+        const explain = hasExplainMetadata(it)
+          ? toLiteral({
+              description: it.description,
+              ...pickExplainMetadata(it),
+            })
+          : JSON.stringify(it.description);
+
+        return `\t\t${columnKey(it.name)}: ${explain},\n`;
+      })
+      .join("");
+    statement += "\t},\n";
+  }
+
+  if (shaped.length > 0) {
+    statement += "\tjsonShapes: {\n";
+    statement += shaped
+      .map(
+        (it) =>
+          `\t\t${columnKey(it.name)}: ${it.jsonShape!.replace(/\n/g, "\n\t\t")},\n`,
+      )
+      .join("");
+    statement += "\t},\n";
+  }
+
+  statement += "});";
+
+  return statement;
+}
+
+/* lab extension */
+function toLiteral(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(toLiteral).join(", ")}]`;
+  }
+
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value).filter(([, it]) => it !== undefined);
+
+    return `{ ${entries.map(([key, it]) => `${key}: ${toLiteral(it)}`).join(", ")} }`;
+  }
+
+  return JSON.stringify(value);
+}
+
 export function getColumnCasing(
   column: { keyAsName: boolean; name: string | undefined },
   casing: CasingType | undefined,
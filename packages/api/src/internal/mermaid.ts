@@ -0,0 +1,99 @@
+/* lab extension */
+import {
+  qualifiedName,
+  type DataDictionary,
+  type DataDictionaryEntity,
+} from "./docs";
+
+/**
+ * Mermaid entity names and attribute types only allow a subset of characters
+ */
+function entityName(entity: { name: string; schema?: string }) {
+  return qualifiedName(entity).replace(/[^\w-]/g, "_");
+}
+
+function attributeType(type: string) {
+  return type.replace(/,\s*/g, "_").replace(/[^\w\-[\]()]/g, "_");
+}
+
+function comment(value: string) {
+  return `"${value.replaceAll('"', "'").replaceAll("\n", " ")}"`;
+}
+
+function isUniqueColumns(entity: DataDictionaryEntity, columns: string[]) {
+  const sameColumns = (other: string[]) =>
+    other.length === columns.length &&
+    other.every((column) => columns.includes(column));
+
+  return (
+    (columns.length === 1 &&
+      entity.columns.some(
+        (column) =>
+          column.name === columns[0] && (column.isUnique || column.primaryKey),
+      )) ||
+    (entity.primaryKeys ?? []).some((pk) => sameColumns(pk.columns)) ||
+    (entity.uniqueConstraints ?? []).some((unique) =>
+      sameColumns(unique.columns),
+    ) ||
+    (entity.indexes ?? []).some(
+      (index) => index.isUnique && !index.where && sameColumns(index.columns),
+    )
+  );
+}
+
+/**
+ * Render a data dictionary as a Mermaid entity relationship diagram
+ */
+export function dataDictionaryToMermaid(dictionary: DataDictionary) {
+  const lines = ["erDiagram"];
+
+  for (const table of dictionary.tables) {
+    const primaryKeyColumns = new Set([
+      ...table.columns
+        .filter((column) => column.primaryKey)
+        .map((column) => column.name),
+      ...(table.primaryKeys ?? []).flatMap((pk) => pk.columns),
+    ]);
+    const foreignKeyColumns = new Set(
+      (table.foreignKeys ?? []).flatMap((fk) => fk.columnsFrom),
+    );
+
+    lines.push(`  ${entityName(table)} {`);
+
+    for (const column of table.columns) {
+      const keys = [
+        primaryKeyColumns.has(column.name) ? "PK" : "",
+        foreignKeyColumns.has(column.name) ? "FK" : "",
+        column.isUnique ? "UK" : "",
+      ].filter(Boolean);
+
+      lines.push(
+        [
+          `    ${attributeType(column.type)}`,
+          column.name.replace(/[^\w-]/g, "_"),
+          keys.join(", "),
+          column.description ? comment(column.description) : "",
+        ]
+          .filter(Boolean)
+          .join(" "),
+      );
+    }
+
+    lines.push("  }");
+  }
+
+  for (const table of dictionary.tables) {
+    for (const fk of table.foreignKeys ?? []) {
+      const isRequired = fk.columnsFrom.every(
+        (name) => table.columns.find((column) => column.name === name)?.notNull,
+      );
+      const isOneToOne = isUniqueColumns(table, fk.columnsFrom);
+
+      lines.push(
+        `  ${entityName({ name: fk.tableTo, schema: fk.schemaTo })} ${isRequired ? "||" : "|o"}--${isOneToOne ? "o|" : "o{"} ${entityName(table)} : ${comment(fk.columnsFrom.join(", "))}`,
+      );
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+}
@@ -0,0 +1,240 @@
+import { expect, test } from "vitest";
+
+import { parsePrisma } from "./prisma-parser";
+
+const schema = `
+  datasource db {
+    provider = "postgresql"
+    url      = env("DATABASE_URL")
+  }
+
+  generator client {
+    provider = "prisma-client-js"
+  }
+
+  /// Role of a user
+  enum Role {
+    ADMIN
+    MEMBER @map("member")
+  }
+
+  /// Accounts of the shop
+  model User {
+    id        Int      @id @default(autoincrement())
+    /// Login
+    email     String   @unique @db.VarChar(255)
+    role      Role     @default(MEMBER)
+    tags      String[] @default(["a", "b"])
+    createdAt DateTime @default(now()) @map("created_at") @db.Timestamptz(6)
+    updatedAt DateTime @updatedAt
+    posts     Post[]
+    groups    Group[]
+
+    @@map("users")
+  }
+
+  model Post {
+    id       BigInt  @id @default(autoincrement())
+    authorId Int     @map("author_id")
+    author   User    @relation(fields: [authorId], references: [id], onDelete: Cascade)
+    price    Decimal @default(0) @db.Decimal(10, 2)
+    legacy   String  @ignore
+
+    @@index([authorId, id(sort: Desc)])
+    @@unique([authorId, price], map: "posts_author_price_key")
+  }
+
+  model Group {
+    id    Int    @id
+    users User[]
+  }
+
+  model Tag {
+    postId Int
+    name   String
+
+    @@id([postId, name])
+  }
+`;
+
+test("Parse the datasource provider and enums", () => {
+  const { provider, enums } = parsePrisma(schema);
+
+  expect(provider).toBe("postgresql");
+  expect(enums).toEqual([
+    {
+      name: "Role",
+      values: ["ADMIN", "member"],
+      documentation: "Role of a user",
+    },
+  ]);
+});
+
+test("Parse models with their database names", () => {
+  const [users, posts, groups, tags] = parsePrisma(schema).models;
+
+  expect(users).toMatchObject({
+    name: "users",
+    documentation: "Accounts of the shop",
+    indexes: [
+      {
+        name: "users_email_key",
+        columns: [{ name: "email", asc: true }],
+        unique: true,
+      },
+    ],
+  });
+  expect(users.columns).toEqual([
+    {
+      name: "id",
+      type: "Int",
+      kind: "scalar",
+      isList: false,
+      notNull: true,
+      primaryKey: true,
+      isUpdatedAt: false,
+      default: { kind: "function", value: "autoincrement", args: [] },
+    },
+    {
+      name: "email",
+      type: "String",
+      kind: "scalar",
+      nativeType: { name: "VarChar", args: ["255"] },
+      isList: false,
+      notNull: true,
+      primaryKey: false,
+      isUpdatedAt: false,
+      documentation: "Login",
+    },
+    {
+      name: "role",
+      type: "Role",
+      kind: "enum",
+      isList: false,
+      notNull: true,
+      primaryKey: false,
+      isUpdatedAt: false,
+      // enum defaults are the mapped database value
+      default: { kind: "string", value: "member", args: [] },
+    },
+    {
+      name: "tags",
+      type: "String",
+      kind: "scalar",
+      isList: true,
+      notNull: false,
+      primaryKey: false,
+      isUpdatedAt: false,
+      default: { kind: "list", value: "", args: ["a", "b"] },
+    },
+    {
+      name: "created_at",
+      type: "DateTime",
+      kind: "scalar",
+      nativeType: { name: "Timestamptz", args: ["6"] },
+      isList: false,
+      notNull: true,
+      primaryKey: false,
+      isUpdatedAt: false,
+      default: { kind: "function", value: "now", args: [] },
+    },
+    {
+      name: "updatedAt",
+      type: "DateTime",
+      kind: "scalar",
+      isList: false,
+      notNull: true,
+      primaryKey: false,
+      isUpdatedAt: true,
+    },
+  ]);
+
+  // `@ignore` fields are skipped
+  expect(posts.columns.map((it) => it.name)).toEqual([
+    "id",
+    "author_id",
+    "price",
+  ]);
+  expect(posts.indexes).toEqual([
+    {
+      name: "Post_author_id_id_idx",
+      columns: [
+        { name: "author_id", asc: true },
+        { name: "id", asc: false },
+      ],
+      unique: false,
+    },
+    {
+      name: "posts_author_price_key",
+      columns: [
+        { name: "author_id", asc: true },
+        { name: "price", asc: true },
+      ],
+      unique: true,
+    },
+  ]);
+  expect(groups.name).toBe("Group");
+  expect(tags.primaryKey).toEqual({
+    name: "Tag_pkey",
+    columns: ["postId", "name"],
+  });
+});
+
+test("Resolve relations and implicit many-to-many join tables", () => {
+  const { models, references } = parsePrisma(schema);
+
+  expect(models.at(-1)).toMatchObject({
+    name: "_GroupToUser",
+    columns: [
+      { name: "A", type: "Int", notNull: true },
+      { name: "B", type: "Int", notNull: true },
+    ],
+    indexes: [
+      { name: "_GroupToUser_AB_unique", unique: true },
+      { name: "_GroupToUser_B_index", unique: false },
+    ],
+  });
+  expect(references).toEqual([
+    {
+      name: "_GroupToUser_A_fkey",
+      tableFrom: "_GroupToUser",
+      columnsFrom: ["A"],
+      tableTo: "Group",
+      columnsTo: ["id"],
+      onDelete: "cascade",
+      onUpdate: "cascade",
+    },
+    {
+      name: "_GroupToUser_B_fkey",
+      tableFrom: "_GroupToUser",
+      columnsFrom: ["B"],
+      tableTo: "users",
+      columnsTo: ["id"],
+      onDelete: "cascade",
+      onUpdate: "cascade",
+    },
+    {
+      name: "Post_author_id_fkey",
+      tableFrom: "Post",
+      columnsFrom: ["author_id"],
+      tableTo: "users",
+      columnsTo: ["id"],
+      onDelete: "cascade",
+      onUpdate: "cascade",
+    },
+  ]);
+});
+
+test("Report the line of invalid schemas", () => {
+  expect(() =>
+    parsePrisma("model User {\n  id Int @id\n  post Post\n}"),
+  ).toThrow(
+    "Invalid Prisma schema at line 3: unknown type `Post` of `User.post`",
+  );
+  expect(() => parsePrisma("model User {\n  id Int @id @default(\n}")).toThrow(
+    "Invalid Prisma schema at line 3: unexpected `}`",
+  );
+  expect(() => parsePrisma("\nfoo Bar {}")).toThrow(
+    "Invalid Prisma schema at line 2: unexpected `foo`",
+  );
+});
@@ -0,0 +1,1008 @@
+/* lab extension */
+
+/**
+ * Dialect agnostic model of a Prisma schema (https://www.prisma.io/docs/orm/reference/prisma-schema-reference)
+ *
+ * Names are the database names (`@map` and `@@map` are applied) and constraints are named after the Prisma conventions.
+ * Relation fields are resolved to references and implicit many-to-many relations to their join table.
+ * `generator`, `view` and `type` blocks, `@ignore` fields and `@@ignore` models are ignored.
+ */
+export type PrismaSchema = {
+  /** `provider` of the `datasource` block, e.g. `postgresql` */
+  provider?: string;
+  enums: PrismaEnum[];
+  models: PrismaModel[];
+  references: PrismaReference[];
+};
+
+export type PrismaEnum = {
+  name: string;
+  schema?: string;
+  values: string[];
+  documentation?: string;
+};
+
+export type PrismaDefault = {
+  kind: "string" | "number" | "boolean" | "list" | "function";
+  /** Literal value, or the function name for `function` defaults (e.g. `now` or `autoincrement`) */
+  value: string;
+  /** Items of `list` defaults or arguments of `function` defaults, e.g. the expression of `dbgenerated("...")` */
+  args: string[];
+};
+
+export type PrismaColumn = {
+  name: string;
+  /** Prisma scalar type (e.g. `String`), enum name or raw type of `Unsupported("...")` */
+  type: string;
+  kind: "scalar" | "enum" | "unsupported";
+  /** Native type attribute without its datasource prefix, e.g. `VarChar` and `["255"]` for `@db.VarChar(255)` */
+  nativeType?: { name: string; args: string[] };
+  isList: boolean;
+  notNull: boolean;
+  primaryKey: boolean;
+  /** `@updatedAt` is set by Prisma Client, not by the database */
+  isUpdatedAt: boolean;
+  default?: PrismaDefault;
+  documentation?: string;
+};
+
+export type PrismaIndex = {
+  name: string;
+  columns: { name: string; asc: boolean }[];
+  unique: boolean;
+  /** Index method, e.g. `Hash` or `Gin` */
+  type?: string;
+};
+
+export type PrismaModel = {
+  name: string;
+  schema?: string;
+  documentation?: string;
+  columns: PrismaColumn[];
+  /** Composite primary key (`@@id`) */
+  primaryKey?: { name: string; columns: string[] };
+  /** `@unique`, `@@unique` and `@@index` */
+  indexes: PrismaIndex[];
+};
+
+export type PrismaReference = {
+  name: string;
+  /** Table holding the foreign key */
+  tableFrom: string;
+  schemaFrom?: string;
+  columnsFrom: string[];
+  tableTo: string;
+  schemaTo?: string;
+  columnsTo: string[];
+  onDelete: string;
+  onUpdate: string;
+};
+
+type Token = {
+  type: "word" | "string" | "number" | "symbol" | "documentation" | "newline";
+  value: string;
+  line: number;
+};
+
+type Value = {
+  kind: "string" | "number" | "boolean" | "identifier" | "function" | "list";
+  /** Literal value, identifier or function name */
+  value: string;
+  /** Arguments of a function or items of a list */
+  args: Argument[];
+};
+
+type Argument = { name?: string; value: Value };
+
+type Attribute = { name: string; args: Argument[]; line: number };
+
+type RawField = {
+  name: string;
+  /** Type name, or the raw type of `Unsupported("...")` */
+  type: string;
+  isUnsupported: boolean;
+  isList: boolean;
+  isOptional: boolean;
+  attributes: Attribute[];
+  documentation?: string;
+  line: number;
+};
+
+type RawModel = {
+  name: string;
+  fields: RawField[];
+  attributes: Attribute[];
+  documentation?: string;
+  line: number;
+};
+
+type RawEnum = {
+  name: string;
+  values: { name: string; attributes: Attribute[] }[];
+  attributes: Attribute[];
+  documentation?: string;
+};
+
+const scalarTypes = new Set([
+  "String",
+  "Boolean",
+  "Int",
+  "BigInt",
+  "Float",
+  "Decimal",
+  "DateTime",
+  "Json",
+  "Bytes",
+]);
+
+const referentialActions: Record<string, string> = {
+  Cascade: "cascade",
+  Restrict: "restrict",
+  NoAction: "no action",
+  SetNull: "set null",
+  SetDefault: "set default",
+};
+
+function fail(message: string, line: number): never {
+  throw new Error(`Invalid Prisma schema at line ${line}: ${message}`);
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let line = 1;
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (char === "\n") {
+      tokens.push({ type: "newline", value: char, line });
+      line++;
+      index++;
+      continue;
+    }
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    if (source.startsWith("//", index)) {
+      const end = source.indexOf("\n", index);
+      const comment = source.slice(index, end === -1 ? source.length : end);
+
+      if (comment.startsWith("///")) {
+        tokens.push({
+          type: "documentation",
+          value: comment.slice(3).trim(),
+          line,
+        });
+      }
+
+      index += comment.length;
+      continue;
+    }
+
+    if (char === '"') {
+      let value = "";
+      index++;
+
+      while (
+        index < source.length &&
+        source[index] !== '"' &&
+        source[index] !== "\n"
+      ) {
+        if (source[index] === "\\" && index + 1 < source.length) {
+          const escaped = source[index + 1];
+          value += escaped === "n" ? "\n" : escaped === "t" ? "\t" : escaped;
+          index += 2;
+          continue;
+        }
+
+        value += source[index++];
+      }
+
+      if (source[index] !== '"') {
+        fail("unterminated string", line);
+      }
+
+      index++;
+      tokens.push({ type: "string", value, line });
+      continue;
+    }
+
+    const word = /(-?\d+(?:\.\d+)?)(?!\w)|[A-Za-z_]\w*/y;
+    word.lastIndex = index;
+    const match = word.exec(source);
+
+    if (match) {
+      index += match[0].length;
+      tokens.push({
+        type: match[1] ? "number" : "word",
+        value: match[0],
+        line,
+      });
+      continue;
+    }
+
+    const symbol = source.startsWith("@@", index) ? "@@" : char;
+    index += symbol.length;
+    tokens.push({ type: "symbol", value: symbol, line });
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse a Prisma schema
+ *
+ * @example
+ * ```ts
+ * const { models, references } = parsePrisma(`
+ *   model User {
+ *     id    Int    @id @default(autoincrement())
+ *     email String @unique
+ *   }
+ * `);
+ * ```
+ *
+ * @param source - Prisma schema (`schema.prisma`)
+ * @returns Enums, models and references of the schema
+ * @throws If the schema is not valid
+ */
+export function parsePrisma(source: string): PrismaSchema {
+  const tokens = tokenize(source);
+  const enums: RawEnum[] = [];
+  const models: RawModel[] = [];
+  let provider: string | undefined;
+  let position = 0;
+
+  const peek = (): Token | undefined => tokens[position];
+
+  const failAt = (message: string, token = peek()): never =>
+    fail(message, token?.line ?? tokens.at(-1)?.line ?? 1);
+
+  const next = () => tokens[position++] ?? failAt("unexpected end of schema");
+
+  const isSymbol = (value: string, token = peek()) =>
+    token?.type === "symbol" && token.value === value;
+
+  const expectSymbol = (value: string) => {
+    if (!isSymbol(value)) {
+      failAt(`expected \`${value}\``);
+    }
+
+    return next();
+  };
+
+  const expectWord = () => {
+    if (peek()?.type !== "word") {
+      failAt("expected a name");
+    }
+
+    return next().value;
+  };
+
+  const skipNewlines = () => {
+    while (peek()?.type === "newline") {
+      position++;
+    }
+  };
+
+  /**
+   * Documentation comments (`///`) preceding a declaration
+   */
+  const readDocumentation = () => {
+    const lines: string[] = [];
+
+    for (
+      let token = peek();
+      token?.type === "newline" || token?.type === "documentation";
+      token = peek()
+    ) {
+      if (token.type === "documentation") {
+        lines.push(token.value);
+      }
+
+      position++;
+    }
+
+    return lines.length > 0 ? lines.join("\n") : undefined;
+  };
+
+  const expectEndOfLine = () => {
+    const token = peek();
+
+    if (token && token.type !== "newline" && !isSymbol("}")) {
+      failAt(`unexpected \`${token.value}\``);
+    }
+  };
+
+  const readBlock = (readLine: (documentation?: string) => void) => {
+    expectSymbol("{");
+
+    for (
+      let documentation = readDocumentation();
+      !isSymbol("}");
+      documentation = readDocumentation()
+    ) {
+      if (!peek()) {
+        failAt("unterminated block");
+      }
+
+      readLine(documentation);
+      expectEndOfLine();
+    }
+
+    position++;
+  };
+
+  const skipBlock = () => {
+    expectWord();
+    expectSymbol("{");
+
+    for (let depth = 1; depth > 0; ) {
+      const token = next();
+
+      if (isSymbol("{", token)) {
+        depth++;
+      }
+
+      if (isSymbol("}", token)) {
+        depth--;
+      }
+    }
+  };
+
+  const readValue = (): Value => {
+    const token = next();
+
+    if (token.type === "string" || token.type === "number") {
+      return { kind: token.type, value: token.value, args: [] };
+    }
+
+    if (token.type === "word") {
+      if (token.value === "true" || token.value === "false") {
+        return { kind: "boolean", value: token.value, args: [] };
+      }
+
+      return isSymbol("(")
+        ? { kind: "function", value: token.value, args: readArguments() }
+        : { kind: "identifier", value: token.value, args: [] };
+    }
+
+    if (!isSymbol("[", token)) {
+      failAt(`unexpected \`${token.value}\``, token);
+    }
+
+    const args: Argument[] = [];
+    skipNewlines();
+
+    while (!isSymbol("]")) {
+      args.push({ value: readValue() });
+      skipNewlines();
+
+      if (!isSymbol("]")) {
+        expectSymbol(",");
+        skipNewlines();
+      }
+    }
+
+    position++;
+
+    return { kind: "list", value: "", args };
+  };
+
+  const readArguments = () => {
+    const args: Argument[] = [];
+    expectSymbol("(");
+    skipNewlines();
+
+    while (!isSymbol(")")) {
+      const isNamed =
+        peek()?.type === "word" && isSymbol(":", tokens[position + 1]);
+      const name = isNamed ? next().value : undefined;
+
+      if (isNamed) {
+        position++;
+      }
+
+      args.push({ name, value: readValue() });
+      skipNewlines();
+
+      if (!isSymbol(")")) {
+        expectSymbol(",");
+        skipNewlines();
+      }
+    }
+
+    position++;
+
+    return args;
+  };
+
+  /**
+   * Attribute after its `@` or `@@`, e.g. `db.VarChar(255)`
+   */
+  const readAttribute = (): Attribute => {
+    const line = peek()?.line ?? 0;
+    let name = expectWord();
+
+    while (isSymbol(".")) {
+      position++;
+      name += `.${expectWord()}`;
+    }
+
+    return { name, args: isSymbol("(") ? readArguments() : [], line };
+  };
+
+  const readAttributes = () => {
+    const attributes: Attribute[] = [];
+
+    while (isSymbol("@")) {
+      position++;
+      attributes.push(readAttribute());
+    }
+
+    return attributes;
+  };
+
+  /**
+   * Trailing documentation comment of a line, e.g. `name String /// Full name`
+   */
+  const readTrailingDocumentation = (documentation?: string) => {
+    if (peek()?.type !== "documentation") {
+      return documentation;
+    }
+
+    return [documentation, next().value].filter(Boolean).join("\n");
+  };
+
+  const parseField = (documentation?: string): RawField => {
+    const line = peek()?.line ?? 0;
+    const name = expectWord();
+    let type = expectWord();
+    const isUnsupported = type === "Unsupported";
+
+    if (isUnsupported) {
+      const [raw] = readArguments();
+
+      if (raw?.value.kind !== "string") {
+        failAt("expected the raw type of `Unsupported`");
+      }
+
+      type = raw.value.value;
+    }
+
+    const isList = isSymbol("[");
+
+    if (isList) {
+      position++;
+      expectSymbol("]");
+    }
+
+    const isOptional = isSymbol("?");
+
+    if (isOptional) {
+      position++;
+    }
+
+    return {
+      name,
+      type,
+      isUnsupported,
+      isList,
+      isOptional,
+      attributes: readAttributes(),
+      documentation: readTrailingDocumentation(documentation),
+      line,
+    };
+  };
+
+  const parseModel = (documentation?: string): RawModel => {
+    const line = peek()?.line ?? 0;
+    const model: RawModel = {
+      name: expectWord(),
+      fields: [],
+      attributes: [],
+      documentation,
+      line,
+    };
+
+    readBlock((documentation) => {
+      if (isSymbol("@@")) {
+        position++;
+        model.attributes.push(readAttribute());
+        return;
+      }
+
+      model.fields.push(parseField(documentation));
+    });
+
+    return model;
+  };
+
+  const parseEnum = (documentation?: string): RawEnum => {
+    const rawEnum: RawEnum = {
+      name: expectWord(),
+      values: [],
+      attributes: [],
+      documentation,
+    };
+
+    readBlock(() => {
+      if (isSymbol("@@")) {
+        position++;
+        rawEnum.attributes.push(readAttribute());
+        return;
+      }
+
+      rawEnum.values.push({ name: expectWord(), attributes: readAttributes() });
+      readTrailingDocumentation();
+    });
+
+    return rawEnum;
+  };
+
+  const parseDatasource = () => {
+    let datasourceProvider: string | undefined;
+
+    expectWord();
+    readBlock(() => {
+      const key = expectWord();
+      expectSymbol("=");
+      const value = readValue();
+
+      if (key === "provider" && value.kind === "string") {
+        datasourceProvider = value.value;
+      }
+    });
+
+    return datasourceProvider;
+  };
+
+  for (
+    let documentation = readDocumentation();
+    peek();
+    documentation = readDocumentation()
+  ) {
+    const token = peek();
+    const keyword = expectWord();
+
+    switch (keyword) {
+      case "model": {
+        models.push(parseModel(documentation));
+        break;
+      }
+      case "enum": {
+        enums.push(parseEnum(documentation));
+        break;
+      }
+      case "datasource": {
+        provider = parseDatasource() ?? provider;
+        break;
+      }
+      case "generator":
+      case "view":
+      case "type": {
+        skipBlock();
+        break;
+      }
+      default: {
+        failAt(`unexpected \`${keyword}\``, token);
+      }
+    }
+  }
+
+  return resolveSchema(provider, enums, models);
+}
+
+function findAttribute(attributes: Attribute[], name: string) {
+  return attributes.find((it) => it.name === name);
+}
+
+/**
+ * Named argument of an attribute, or its positional argument (e.g. `@map("name")` or `@map(name: "name")`)
+ */
+function argument(
+  attribute: Attribute | undefined,
+  name: string,
+  position?: number,
+) {
+  const named = attribute?.args.find((it) => it.name === name);
+
+  if (named || position === undefined) {
+    return named?.value;
+  }
+
+  return attribute?.args.filter((it) => !it.name)[position]?.value;
+}
+
+function stringArgument(
+  attribute: Attribute | undefined,
+  name: string,
+  position?: number,
+) {
+  const value = argument(attribute, name, position);
+
+  return value?.kind === "string" ? value.value : undefined;
+}
+
+/**
+ * Fields of `@@id`, `@@unique` and `@@index`, e.g. `[title, createdAt(sort: Desc)]`
+ */
+function fieldsArgument(attribute: Attribute) {
+  const value = argument(attribute, "fields", 0);
+
+  if (value?.kind !== "list") {
+    fail(
+      `expected a list of fields in \`@@${attribute.name}\``,
+      attribute.line,
+    );
+  }
+
+  return value.args.map(({ value: field }) => ({
+    name: field.value,
+    asc:
+      field.kind !== "function" ||
+      argument({ ...attribute, args: field.args }, "sort")?.value !== "Desc",
+  }));
+}
+
+function resolveSchema(
+  provider: string | undefined,
+  rawEnums: RawEnum[],
+  rawModels: RawModel[],
+): PrismaSchema {
+  const models = rawModels.filter(
+    (model) => !findAttribute(model.attributes, "ignore"),
+  );
+  const modelsByName = new Map(rawModels.map((model) => [model.name, model]));
+  const enumsByName = new Map(rawEnums.map((it) => [it.name, it]));
+  const tableName = (model: RawModel) =>
+    stringArgument(findAttribute(model.attributes, "map"), "name", 0) ??
+    model.name;
+  const schemaName = (model: RawModel) =>
+    stringArgument(findAttribute(model.attributes, "schema"), "name", 0);
+  const columnName = (field: RawField) =>
+    stringArgument(findAttribute(field.attributes, "map"), "name", 0) ??
+    field.name;
+  const columnNames = (model: RawModel, fields: string[], line: number) =>
+    fields.map((name) => {
+      const field = model.fields.find((it) => it.name === name);
+
+      if (!field) {
+        fail(`unknown field \`${model.name}.${name}\``, line);
+      }
+
+      return columnName(field);
+    });
+  const isColumn = (field: RawField) =>
+    !findAttribute(field.attributes, "ignore") &&
+    (field.isUnsupported ||
+      scalarTypes.has(field.type) ||
+      enumsByName.has(field.type));
+  const enumValue = (rawEnum: RawEnum, value: string) => {
+    const enumValue = rawEnum.values.find((it) => it.name === value);
+
+    return enumValue
+      ? (stringArgument(
+          findAttribute(enumValue.attributes, "map"),
+          "name",
+          0,
+        ) ?? enumValue.name)
+      : value;
+  };
+
+  const toDefault = (field: RawField): PrismaDefault | undefined => {
+    const value = argument(
+      findAttribute(field.attributes, "default"),
+      "value",
+      0,
+    );
+    const rawEnum = enumsByName.get(field.type);
+    const literal = (it: Value) =>
+      it.kind === "identifier" && rawEnum
+        ? enumValue(rawEnum, it.value)
+        : it.value;
+
+    if (!value) {
+      return undefined;
+    }
+
+    switch (value.kind) {
+      case "identifier": {
+        return { kind: "string", value: literal(value), args: [] };
+      }
+      case "list":
+      case "function": {
+        return {
+          kind: value.kind,
+          value: value.value,
+          args: value.args.map((it) => literal(it.value)),
+        };
+      }
+      default: {
+        return { kind: value.kind, value: value.value, args: [] };
+      }
+    }
+  };
+
+  const toColumn = (field: RawField): PrismaColumn => {
+    const nativeType = field.attributes.find(
+      (it) => it.name.split(".").length === 2,
+    );
+
+    return {
+      name: columnName(field),
+      type: field.isUnsupported
+        ? field.type
+        : enumsByName.has(field.type)
+          ? (stringArgument(
+              findAttribute(enumsByName.get(field.type)!.attributes, "map"),
+              "name",
+              0,
+            ) ?? field.type)
+          : field.type,
+      kind: field.isUnsupported
+        ? "unsupported"
+        : enumsByName.has(field.type)
+          ? "enum"
+          : "scalar",
+      nativeType: nativeType && {
+        name: nativeType.name.split(".")[1],
+        args: nativeType.args.map((it) => it.value.value),
+      },
+      isList: field.isList,
+      // Prisma does not make scalar lists NOT NULL
+      notNull: !field.isOptional && !field.isList,
+      primaryKey: Boolean(findAttribute(field.attributes, "id")),
+      isUpdatedAt: Boolean(findAttribute(field.attributes, "updatedAt")),
+      default: toDefault(field),
+      documentation: field.documentation,
+    };
+  };
+
+  const result: PrismaSchema = {
+    provider,
+    enums: rawEnums.map((rawEnum) => ({
+      name:
+        stringArgument(findAttribute(rawEnum.attributes, "map"), "name", 0) ??
+        rawEnum.name,
+      schema: stringArgument(
+        findAttribute(rawEnum.attributes, "schema"),
+        "name",
+        0,
+      ),
+      values: rawEnum.values.map((it) => enumValue(rawEnum, it.name)),
+      documentation: rawEnum.documentation,
+    })),
+    models: [],
+    references: [],
+  };
+  const joinTables = new Map<string, PrismaModel>();
+
+  for (const model of models) {
+    const table = tableName(model);
+    const columns = model.fields.filter(isColumn);
+    const unknownField = model.fields.find(
+      (it) =>
+        !isColumn(it) &&
+        !modelsByName.has(it.type) &&
+        !findAttribute(it.attributes, "ignore"),
+    );
+
+    if (unknownField) {
+      fail(
+        `unknown type \`${unknownField.type}\` of \`${model.name}.${unknownField.name}\``,
+        unknownField.line,
+      );
+    }
+
+    const primaryKey = findAttribute(model.attributes, "id");
+    const indexes: PrismaIndex[] = columns
+      .filter((field) => findAttribute(field.attributes, "unique"))
+      .map((field) => ({
+        name:
+          stringArgument(findAttribute(field.attributes, "unique"), "map") ??
+          `${table}_${columnName(field)}_key`,
+        columns: [{ name: columnName(field), asc: true }],
+        unique: true,
+      }));
+
+    for (const attribute of model.attributes) {
+      if (attribute.name !== "unique" && attribute.name !== "index") {
+        continue;
+      }
+
+      const fields = fieldsArgument(attribute);
+      const names = columnNames(
+        model,
+        fields.map((it) => it.name),
+        attribute.line,
+      );
+      const unique = attribute.name === "unique";
+
+      indexes.push({
+        name:
+          stringArgument(attribute, "map") ??
+          `${table}_${names.join("_")}_${unique ? "key" : "idx"}`,
+        columns: names.map((name, index) => ({
+          name,
+          asc: fields[index].asc,
+        })),
+        unique,
+        type: argument(attribute, "type")?.value,
+      });
+    }
+
+    result.models.push({
+      name: table,
+      schema: schemaName(model),
+      documentation: model.documentation,
+      columns: columns.map(toColumn),
+      primaryKey: primaryKey && {
+        name: stringArgument(primaryKey, "map") ?? `${table}_pkey`,
+        columns: columnNames(
+          model,
+          fieldsArgument(primaryKey).map((it) => it.name),
+          primaryKey.line,
+        ),
+      },
+      indexes,
+    });
+
+    for (const field of model.fields) {
+      const target = modelsByName.get(field.type);
+
+      if (
+        !target ||
+        findAttribute(field.attributes, "ignore") ||
+        findAttribute(target.attributes, "ignore")
+      ) {
+        continue;
+      }
+
+      const relation = findAttribute(field.attributes, "relation");
+      const relationName = stringArgument(relation, "name", 0);
+      const fields = argument(relation, "fields");
+      const references = argument(relation, "references");
+
+      if (fields?.kind === "list" && references?.kind === "list") {
+        const columnsFrom = columnNames(
+          model,
+          fields.args.map((it) => it.value.value),
+          field.line,
+        );
+        const isOptional = fields.args.some(
+          (it) =>
+            model.fields.find((other) => other.name === it.value.value)
+              ?.isOptional,
+        );
+
+        result.references.push({
+          name:
+            stringArgument(relation, "map") ??
+            `${table}_${columnsFrom.join("_")}_fkey`,
+          tableFrom: table,
+          schemaFrom: schemaName(model),
+          columnsFrom,
+          tableTo: tableName(target),
+          schemaTo: schemaName(target),
+          columnsTo: columnNames(
+            target,
+            references.args.map((it) => it.value.value),
+            field.line,
+          ),
+          // Prisma defaults
+          onDelete:
+            referentialActions[argument(relation, "onDelete")?.value ?? ""] ??
+            (isOptional ? "set null" : "restrict"),
+          onUpdate:
+            referentialActions[argument(relation, "onUpdate")?.value ?? ""] ??
+            "cascade",
+        });
+        continue;
+      }
+
+      const opposite = target.fields.find(
+        (it) =>
+          it !== field &&
+          it.type === model.name &&
+          it.isList &&
+          stringArgument(
+            findAttribute(it.attributes, "relation"),
+            "name",
+            0,
+          ) === relationName,
+      );
+
+      if (!field.isList || !opposite) {
+        continue;
+      }
+
+      // implicit many-to-many relation, `A` references the model that comes first alphabetically
+      const [modelA, modelB] = [model, target].sort((a, b) =>
+        a.name.localeCompare(b.name),
+      );
+      const name = `_${relationName ?? `${modelA.name}To${modelB.name}`}`;
+      const schema = schemaName(model);
+
+      if (joinTables.has(name)) {
+        continue;
+      }
+
+      const idOf = (model: RawModel) => {
+        const ids = model.fields.filter((it) =>
+          findAttribute(it.attributes, "id"),
+        );
+
+        if (ids.length !== 1) {
+          fail(
+            `implicit many-to-many relations need a single \`@id\` field on \`${model.name}\``,
+            model.line,
+          );
+        }
+
+        return ids[0];
+      };
+      const idA = idOf(modelA);
+      const idB = idOf(modelB);
+
+      joinTables.set(name, {
+        name,
+        schema,
+        columns: [
+          {
+            ...toColumn(idA),
+            name: "A",
+            primaryKey: false,
+            default: undefined,
+          },
+          {
+            ...toColumn(idB),
+            name: "B",
+            primaryKey: false,
+            default: undefined,
+          },
+        ].map((column) => ({ ...column, documentation: undefined })),
+        indexes: [
+          {
+            name: `${name}_AB_unique`,
+            columns: [
+              { name: "A", asc: true },
+              { name: "B", asc: true },
+            ],
+            unique: true,
+          },
+          {
+            name: `${name}_B_index`,
+            columns: [{ name: "B", asc: true }],
+            unique: false,
+          },
+        ],
+      });
+
+      for (const [column, model, id] of [
+        ["A", modelA, idA],
+        ["B", modelB, idB],
+      ] as const) {
+        result.references.push({
+          name: `${name}_${column}_fkey`,
+          tableFrom: name,
+          schemaFrom: schema,
+          columnsFrom: [column],
+          tableTo: tableName(model),
+          schemaTo: schemaName(model),
+          columnsTo: [columnName(id)],
+          onDelete: "cascade",
+          onUpdate: "cascade",
+        });
+      }
+    }
+  }
+
+  result.models.push(...joinTables.values());
+
+  return result;
+}
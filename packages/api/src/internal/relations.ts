@@ -1,4 +1,4 @@
-import { is } from "drizzle-orm";
+import { getTableUniqueName, is } from "drizzle-orm";
 import {
   createTableRelationsHelpers,
   extractTablesRelationalConfig,
@@ -7,15 +7,38 @@ import {
 import { object, enum as enumType, string, type TypeOf } from "zod";
 
 import type { DrizzleSchema } from "./global";
+import type { RelationsExplain } from "../extensions/drizzle.lab";
+import { DrizzleLab } from "../extensions/symbols";
 
 export type TableRelationConfig = ReturnType<
   typeof extractTablesRelationsConfig
 >[number];
 
 export function extractTablesRelationsConfig(schema: DrizzleSchema) {
-  return Object.values(
-    extractTablesRelationalConfig(schema, createTableRelationsHelpers).tables,
+  const { tables, tableNamesMap } = extractTablesRelationalConfig(
+    schema,
+    createTableRelationsHelpers,
   );
+
+  /* lab extension */
+  const explains: Record<string, RelationsExplain> = {};
+
+  for (const value of Object.values(schema)) {
+    if (is(value, DrizzleRelation) && value[DrizzleLab]?.explain) {
+      const tableName = tableNamesMap[getTableUniqueName(value.table)];
+
+      explains[tableName] = {
+        ...explains[tableName],
+        ...value[DrizzleLab].explain,
+      };
+    }
+  }
+
+  return Object.entries(tables).map(([tableName, config]) => ({
+    ...config,
+    /* lab extension */
+    explain: explains[tableName] ?? {},
+  }));
 }
 
 export type { DrizzleRelation };
@@ -30,6 +53,7 @@ export const relation = object({
   fieldName: string(),
   relationName: string(),
   referencedTableName: string(),
+  description: string().optional(),
 }).strict();
 
 /* lab extension */
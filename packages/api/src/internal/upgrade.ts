@@ -0,0 +1,94 @@
+/* lab extension */
+
+import type { ZodType, ZodTypeDef } from "zod";
+
+/**
+ * A snapshot JSON (e.g. a drizzle-kit `meta/*_snapshot.json`) that is not validated yet
+ */
+export type RawSnapshot = { version: string } & Record<string, any>;
+
+/**
+ * Read a snapshot JSON before upgrading it
+ * @param json - Parsed snapshot JSON
+ * @param dialects - Accepted `dialect` values (old pg snapshots use `pg`)
+ * @returns The snapshot, without the drizzle-kit `id` and `prevId`
+ * @throws If the JSON is not a snapshot of one of these dialects
+ */
+export function readRawSnapshot(
+  json: unknown,
+  dialects: string[],
+): RawSnapshot {
+  if (typeof json !== "object" || json === null || Array.isArray(json)) {
+    throw new Error("Invalid snapshot: expected a JSON object");
+  }
+
+  const { id: _id, prevId: _prevId, ...snapshot } = json as RawSnapshot;
+
+  if (typeof snapshot.version !== "string") {
+    throw new Error("Invalid snapshot: `version` is missing");
+  }
+
+  if (!dialects.includes(snapshot.dialect)) {
+    throw new Error(
+      `Invalid snapshot: expected a ${dialects[0]} snapshot, got ${snapshot.dialect ?? "no dialect"}`,
+    );
+  }
+
+  return snapshot;
+}
+
+/**
+ * Upgrade a snapshot one version at a time
+ * @param snapshot - Snapshot to upgrade
+ * @param upgrades - Upgrade from each historical version to the next one
+ * @param latestVersion - Version to reach
+ * @returns The snapshot at `latestVersion`
+ * @throws If a version has no upgrade
+ */
+export function applyUpgrades(
+  snapshot: RawSnapshot,
+  upgrades: Record<string, (snapshot: RawSnapshot) => RawSnapshot>,
+  latestVersion: string,
+) {
+  let result = snapshot;
+
+  while (result.version !== latestVersion) {
+    const upgrade = upgrades[result.version];
+
+    if (!upgrade) {
+      throw new Error(
+        `Unsupported snapshot version "${result.version}". Supported versions are ${[...Object.keys(upgrades), latestVersion].map((it) => `"${it}"`).join(", ")}`,
+      );
+    }
+
+    result = upgrade(result);
+  }
+
+  return result;
+}
+
+/**
+ * Validate a snapshot with a zod schema
+ * @param schema - Zod schema of the snapshot
+ * @param snapshot - Snapshot to validate
+ * @param version - Original version of the snapshot, for the error message
+ * @returns The parsed snapshot, with defaults applied
+ * @throws If the snapshot is not valid, with the list of issues
+ */
+export function parseSnapshot<T>(
+  schema: ZodType<T, ZodTypeDef, unknown>,
+  snapshot: unknown,
+  version: string,
+): T {
+  const result = schema.safeParse(snapshot);
+
+  if (!result.success) {
+    throw new Error(
+      `Invalid snapshot (version "${version}"):\n${result.error.issues
+        .map((it) => `  - ${it.path.join(".") || "(root)"}: ${it.message}`)
+        .join("\n")}`,
+    );
+  }
+
+  return result.data;
+}
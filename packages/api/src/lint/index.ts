@@ -0,0 +1,10 @@
+export {
+  lintSnapshot,
+  type LintableSnapshot,
+  type LintIssue,
+  type LintRule,
+  type LintTable,
+} from "./lint";
+export { formatLintIssues, type LintReporter } from "./reporters";
+export { defaultRules } from "./rules";
+export { lintConfigSchema, type LintConfig, type LintSeverity } from "./schema";
@@ -0,0 +1,174 @@
+import { sql } from "drizzle-orm";
+import {
+  boolean,
+  index,
+  integer,
+  pgPolicy,
+  pgTable,
+  text,
+  varchar,
+} from "drizzle-orm/pg-core";
+import { integer as sqliteInteger, sqliteTable } from "drizzle-orm/sqlite-core";
+import { expect, test } from "vitest";
+
+import { lintSnapshot, type LintRule } from "./lint";
+import { formatLintIssues } from "./reporters";
+import { explain } from "../extensions/explain";
+import { schemaToSnapshot } from "../pg/serializer/snapshot";
+import { schemaToSnapshot as sqliteSchemaToSnapshot } from "../sqlite/serializer/snapshot";
+
+const users = pgTable("users", {
+  id: integer().primaryKey(),
+  name: varchar(),
+  active: boolean(),
+});
+
+const posts = pgTable(
+  "posts",
+  {
+    id: integer().primaryKey(),
+    authorId: integer()
+      .notNull()
+      .references(() => users.id),
+    title: text().notNull(),
+  },
+  (table) => [
+    index("posts_title_idx").on(table.title),
+    index("posts_title_copy_idx").on(table.title),
+  ],
+);
+
+const logs = pgTable("logs", { message: text() }, () => [
+  pgPolicy("logs_read", { for: "select", using: sql`true` }),
+]);
+
+const snapshot = schemaToSnapshot({ users, posts, logs });
+
+function summarize(issues: ReturnType<typeof lintSnapshot>) {
+  return issues.map(({ rule, severity, table, column }) => ({
+    rule,
+    severity,
+    table,
+    column,
+  }));
+}
+
+test("Report the issues of the default rules", () => {
+  expect(summarize(lintSnapshot(snapshot))).toEqual([
+    { rule: "table-without-primary-key", severity: "error", table: "logs" },
+    { rule: "policies-without-rls", severity: "warn", table: "logs" },
+    {
+      rule: "foreign-key-without-index",
+      severity: "warn",
+      table: "posts",
+      column: "authorId",
+    },
+    { rule: "duplicate-index", severity: "warn", table: "posts" },
+    {
+      rule: "nullable-boolean",
+      severity: "warn",
+      table: "users",
+      column: "active",
+    },
+    {
+      rule: "varchar-without-length",
+      severity: "warn",
+      table: "users",
+      column: "name",
+    },
+  ]);
+});
+
+test("Configure the severity of the rules", () => {
+  const issues = lintSnapshot(snapshot, {
+    rules: {
+      "table-without-primary-key": "off",
+      "policies-without-rls": "off",
+      "foreign-key-without-index": "off",
+      "duplicate-index": "error",
+      "nullable-boolean": "off",
+      "varchar-without-length": "off",
+    },
+  });
+
+  expect(summarize(issues)).toEqual([
+    { rule: "duplicate-index", severity: "error", table: "posts" },
+  ]);
+  expect(issues[0].message).toBe(
+    "index `posts_title_copy_idx` duplicates index `posts_title_idx` (title)",
+  );
+});
+
+test("Enable the missing description rule", () => {
+  const documented = pgTable("documented", {
+    id: integer().primaryKey(),
+    name: text(),
+  });
+
+  explain(documented, {
+    description: "Documented table",
+    columns: { id: "Identifier" },
+  });
+
+  expect(
+    lintSnapshot(schemaToSnapshot({ documented }), {
+      rules: { "missing-description": "warn" },
+    }).map((issue) => issue.message),
+  ).toEqual(["column `documented.name` has no description"]);
+});
+
+test("Reject unknown rules", () => {
+  expect(() =>
+    lintSnapshot(snapshot, { rules: { "no-such-rule": "error" } }),
+  ).toThrow("Unknown lint rule(s): no-such-rule");
+});
+
+test("Run custom rules", () => {
+  const noLogs: LintRule = {
+    name: "no-logs",
+    description: "Logs belong to the logging service",
+    defaultSeverity: "error",
+    check: (table) =>
+      table.name === "logs"
+        ? [{ table: table.name, message: "logs table is forbidden" }]
+        : [],
+  };
+
+  expect(
+    lintSnapshot(snapshot, { rules: { "table-without-primary-key": "off" } }, [
+      noLogs,
+    ])
+      .filter((issue) => issue.table === "logs")
+      .map((issue) => issue.rule),
+  ).toEqual(["policies-without-rls", "no-logs"]);
+});
+
+test("Lint sqlite snapshots", () => {
+  const events = sqliteTable("events", { at: sqliteInteger() });
+
+  expect(summarize(lintSnapshot(sqliteSchemaToSnapshot({ events })))).toEqual([
+    { rule: "table-without-primary-key", severity: "error", table: "events" },
+  ]);
+});
+
+test("Format lint issues", () => {
+  const issues = lintSnapshot(snapshot, {
+    rules: {
+      "policies-without-rls": "off",
+      "foreign-key-without-index": "off",
+      "duplicate-index": "off",
+      "nullable-boolean": "off",
+      "varchar-without-length": "off",
+    },
+  });
+
+  expect(formatLintIssues(issues, "text")).toBe(
+    [
+      "error  table `logs` has no primary key  (table-without-primary-key)",
+      "",
+      "1 problem(s) (1 error(s), 0 warning(s))",
+    ].join("\n"),
+  );
+  expect(JSON.parse(formatLintIssues(issues, "json"))).toEqual(issues);
+  expect(formatLintIssues([], "text")).toBe("No lint issues");
+});
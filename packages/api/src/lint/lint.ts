@@ -0,0 +1,165 @@
+import { defaultRules } from "./rules";
+import type { LintConfig, LintSeverity } from "./schema";
+import type { Snapshot as MySqlSnapshot } from "../mysql/schema";
+import type { Snapshot as PgSnapshot } from "../pg/schema";
+import type { Snapshot as SQLiteSnapshot } from "../sqlite/schema";
+
+export type LintableSnapshot = PgSnapshot | SQLiteSnapshot | MySqlSnapshot;
+
+/**
+ * Dialect agnostic view of a snapshot table, given to the lint rules
+ */
+export type LintTable = {
+  /** Snapshot key of the table */
+  key: string;
+  name: string;
+  schema?: string;
+  description?: string;
+  columns: {
+    name: string;
+    type: string;
+    notNull: boolean;
+    primaryKey: boolean;
+    description?: string;
+  }[];
+  /** Index columns, expressions are kept as-is */
+  indexes: {
+    name: string;
+    columns: string[];
+    isUnique: boolean;
+    where?: string;
+  }[];
+  foreignKeys: { name: string; columnsFrom: string[] }[];
+  primaryKeys: { columns: string[] }[];
+  uniqueConstraints: { name: string; columns: string[] }[];
+  /** `undefined` when the dialect has no row level security */
+  isRLSEnabled?: boolean;
+  /** Table policies and policies linked to the table with `.link()` */
+  policies: string[];
+};
+
+export type LintIssue = {
+  rule: string;
+  severity: Exclude<LintSeverity, "off">;
+  message: string;
+  table?: string;
+  column?: string;
+};
+
+export type LintRule = {
+  /** Unique name, used to configure the rule in `lab.lint.rules` */
+  name: string;
+  description: string;
+  /** Severity when the rule is not configured */
+  defaultSeverity: LintSeverity;
+  /**
+   * Check a table and return the problems found
+   */
+  check: (
+    table: LintTable,
+    snapshot: LintableSnapshot,
+  ) => Omit<LintIssue, "rule" | "severity">[];
+};
+
+/**
+ * Run lint rules over a snapshot
+ *
+ * @example
+ * ```ts
+ * const snapshot = drizzleObjectsToSnapshot(drizzleObjects, config);
+ * const issues = lintSnapshot(snapshot, config.lab.lint);
+ * ```
+ *
+ * @param snapshot - Snapshot of any dialect
+ * @param config - Rules severity, usually `config.lab.lint`
+ * @param customRules - Additional rules, configured like the built-in ones
+ * @returns Issues found, sorted by table
+ */
+export function lintSnapshot(
+  snapshot: LintableSnapshot,
+  config: Partial<LintConfig> = {},
+  customRules: LintRule[] = [],
+): LintIssue[] {
+  const rules = [...defaultRules, ...customRules];
+  const unknownRules = Object.keys(config.rules ?? {}).filter(
+    (name) => !rules.some((rule) => rule.name === name),
+  );
+
+  if (unknownRules.length > 0) {
+    throw new Error(`Unknown lint rule(s): ${unknownRules.join(", ")}`);
+  }
+
+  const tables = toLintTables(snapshot);
+  const issues: LintIssue[] = [];
+
+  for (const rule of rules) {
+    const severity = config.rules?.[rule.name] ?? rule.defaultSeverity;
+
+    if (severity === "off") {
+      continue;
+    }
+
+    for (const table of tables) {
+      for (const issue of rule.check(table, snapshot)) {
+        issues.push({ rule: rule.name, severity, ...issue });
+      }
+    }
+  }
+
+  return issues.sort((a, b) => (a.table ?? "").localeCompare(b.table ?? ""));
+}
+
+function toLintTables(snapshot: LintableSnapshot): LintTable[] {
+  switch (snapshot.dialect) {
+    case "postgresql":
+      return Object.entries(snapshot.tables).map(([key, table]) => ({
+        key,
+        name: table.name,
+        schema: table.schema,
+        description: table.description,
+        columns: Object.values(table.columns),
+        indexes: Object.values(table.indexes).map((index) => ({
+          ...index,
+          columns: index.columns.map((it) => it.expression),
+        })),
+        foreignKeys: Object.values(table.foreignKeys),
+        primaryKeys: Object.values(table.compositePrimaryKeys),
+        uniqueConstraints: Object.values(table.uniqueConstraints),
+        isRLSEnabled: table.isRLSEnabled,
+        policies: [
+          ...Object.values(table.policies),
+          ...Object.values(snapshot.policies).filter((policy) =>
+            isPolicyLinkedTo(policy.on, table),
+          ),
+        ].map((policy) => policy.name),
+      }));
+    case "sqlite":
+    case "mysql":
+      return Object.entries(snapshot.tables).map(([key, table]) => ({
+        key,
+        name: table.name,
+        schema: "schema" in table ? table.schema : undefined,
+        description: table.description,
+        columns: Object.values(table.columns),
+        indexes: Object.values(table.indexes),
+        foreignKeys: Object.values(table.foreignKeys),
+        primaryKeys: Object.values(table.compositePrimaryKeys),
+        uniqueConstraints: Object.values(table.uniqueConstraints),
+        policies: [],
+      }));
+  }
+}
+
+/**
+ * Individual policies reference their table with a quoted name, like `"public"."users"`
+ */
+function isPolicyLinkedTo(
+  on: string | undefined,
+  table: { name: string; schema: string },
+) {
+  const name = on?.replaceAll('"', "");
+
+  return (
+    name === table.name || name === `${table.schema || "public"}.${table.name}`
+  );
+}
@@ -0,0 +1,30 @@
+import type { LintIssue } from "./lint";
+
+export type LintReporter = "text" | "json";
+
+/**
+ * Format lint issues for a terminal or a machine
+ * @param issues - Issues returned by `lintSnapshot`
+ * @param reporter - `text` (one issue per line, with a summary) or `json`
+ * @returns The formatted report
+ */
+export function formatLintIssues(issues: LintIssue[], reporter: LintReporter) {
+  if (reporter === "json") {
+    return JSON.stringify(issues, null, 2);
+  }
+
+  if (issues.length === 0) {
+    return "No lint issues";
+  }
+
+  const errors = issues.filter((issue) => issue.severity === "error").length;
+  const lines = issues.map(
+    (issue) => `${issue.severity.padEnd(5)}  ${issue.message}  (${issue.rule})`,
+  );
+
+  return [
+    ...lines,
+    "",
+    `${issues.length} problem(s) (${errors} error(s), ${issues.length - errors} warning(s))`,
+  ].join("\n");
+}
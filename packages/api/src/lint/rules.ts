@@ -0,0 +1,199 @@
+import type { LintRule, LintTable } from "./lint";
+
+function tableName(table: LintTable) {
+  return table.schema && table.schema !== "public"
+    ? `${table.schema}.${table.name}`
+    : table.name;
+}
+
+function startsWith(columns: string[], prefix: string[]) {
+  return prefix.every((column, index) => columns[index] === column);
+}
+
+const foreignKeyWithoutIndex: LintRule = {
+  name: "foreign-key-without-index",
+  description:
+    "Foreign key columns should be indexed, otherwise joins and cascades scan the whole table",
+  defaultSeverity: "warn",
+  check(table) {
+    const indexedColumns = [
+      ...table.indexes.filter((index) => !index.where),
+      ...table.primaryKeys,
+      ...table.uniqueConstraints,
+      ...table.columns
+        .filter((column) => column.primaryKey)
+        .map((column) => ({ columns: [column.name] })),
+    ].map((it) => it.columns);
+
+    return table.foreignKeys
+      .filter(
+        (fk) =>
+          !indexedColumns.some((columns) =>
+            startsWith(columns, fk.columnsFrom),
+          ),
+      )
+      .map((fk) => ({
+        table: tableName(table),
+        column: fk.columnsFrom.join(", "),
+        message: `foreign key \`${fk.name}\` columns (${fk.columnsFrom.join(", ")}) are not indexed`,
+      }));
+  },
+};
+
+const tableWithoutPrimaryKey: LintRule = {
+  name: "table-without-primary-key",
+  description: "Tables should have a primary key to identify their rows",
+  defaultSeverity: "error",
+  check(table) {
+    const hasPrimaryKey =
+      table.primaryKeys.length > 0 ||
+      table.columns.some((column) => column.primaryKey);
+
+    return hasPrimaryKey
+      ? []
+      : [
+          {
+            table: tableName(table),
+            message: `table \`${tableName(table)}\` has no primary key`,
+          },
+        ];
+  },
+};
+
+const rlsWithoutPolicies: LintRule = {
+  name: "rls-without-policies",
+  description:
+    "Tables with row level security enabled and no policies deny all access to non-owner roles",
+  defaultSeverity: "warn",
+  check(table) {
+    return table.isRLSEnabled && table.policies.length === 0
+      ? [
+          {
+            table: tableName(table),
+            message: `table \`${tableName(table)}\` has row level security enabled without policies, only its owner can access it`,
+          },
+        ]
+      : [];
+  },
+};
+
+const policiesWithoutRls: LintRule = {
+  name: "policies-without-rls",
+  description:
+    "Tables with policies should explicitly enable row level security with `.enableRLS()`",
+  defaultSeverity: "warn",
+  check(table) {
+    return table.isRLSEnabled === false && table.policies.length > 0
+      ? [
+          {
+            table: tableName(table),
+            message: `table \`${tableName(table)}\` has policies (${table.policies.join(", ")}) but row level security is not explicitly enabled`,
+          },
+        ]
+      : [];
+  },
+};
+
+const duplicateIndex: LintRule = {
+  name: "duplicate-index",
+  description: "Indexes on the same columns slow down writes for nothing",
+  defaultSeverity: "warn",
+  check(table) {
+    return table.indexes.flatMap((index, position) => {
+      const duplicate = table.indexes
+        .slice(0, position)
+        .find(
+          (other) =>
+            other.isUnique === index.isUnique &&
+            other.where === index.where &&
+            other.columns.join(",") === index.columns.join(","),
+        );
+
+      return duplicate
+        ? [
+            {
+              table: tableName(table),
+              message: `index \`${index.name}\` duplicates index \`${duplicate.name}\` (${index.columns.join(", ")})`,
+            },
+          ]
+        : [];
+    });
+  },
+};
+
+const nullableBoolean: LintRule = {
+  name: "nullable-boolean",
+  description:
+    "Nullable booleans have three states, they should be NOT NULL with a default",
+  defaultSeverity: "warn",
+  check(table) {
+    return table.columns
+      .filter(
+        (column) =>
+          ["boolean", "bool"].includes(column.type.toLowerCase()) &&
+          !column.notNull,
+      )
+      .map((column) => ({
+        table: tableName(table),
+        column: column.name,
+        message: `column \`${tableName(table)}.${column.name}\` is a nullable boolean`,
+      }));
+  },
+};
+
+const varcharWithoutLength: LintRule = {
+  name: "varchar-without-length",
+  description:
+    "`varchar` without length is an unbounded `text`, set a length or use `text`",
+  defaultSeverity: "warn",
+  check(table) {
+    return table.columns
+      .filter((column) =>
+        ["varchar", "character varying"].includes(
+          column.type.toLowerCase().replace(/(\[\d*\])+$/, ""),
+        ),
+      )
+      .map((column) => ({
+        table: tableName(table),
+        column: column.name,
+        message: `column \`${tableName(table)}.${column.name}\` is a \`varchar\` without length`,
+      }));
+  },
+};
+
+const missingDescription: LintRule = {
+  name: "missing-description",
+  description:
+    "Tables and columns should be documented with `explain` from `@drizzle-lab/api/extensions`",
+  defaultSeverity: "off",
+  check(table) {
+    return [
+      ...(table.description
+        ? []
+        : [
+            {
+              table: tableName(table),
+              message: `table \`${tableName(table)}\` has no description`,
+            },
+          ]),
+      ...table.columns
+        .filter((column) => !column.description)
+        .map((column) => ({
+          table: tableName(table),
+          column: column.name,
+          message: `column \`${tableName(table)}.${column.name}\` has no description`,
+        })),
+    ];
+  },
+};
+
+export const defaultRules: LintRule[] = [
+  foreignKeyWithoutIndex,
+  tableWithoutPrimaryKey,
+  rlsWithoutPolicies,
+  policiesWithoutRls,
+  duplicateIndex,
+  nullableBoolean,
+  varcharWithoutLength,
+  missingDescription,
+];
@@ -0,0 +1,26 @@
+import { enum as enumType, object, record, string, type TypeOf } from "zod";
+
+export const lintSeverities = ["off", "warn", "error"] as const;
+export const lintSeverity = enumType(lintSeverities);
+export type LintSeverity = (typeof lintSeverities)[number];
+
+/**
+ * `lab.lint` block of the drizzle config
+ *
+ * @example
+ * ```ts
+ * lab: {
+ *   lint: {
+ *     rules: {
+ *       "missing-description": "warn",
+ *       "nullable-boolean": "off",
+ *     },
+ *   },
+ * },
+ * ```
+ */
+export const lintConfigSchema = object({
+  rules: record(string(), lintSeverity).optional().default({}),
+});
+
+export type LintConfig = TypeOf<typeof lintConfigSchema>;
@@ -0,0 +1,89 @@
+import { expect, test } from "vitest";
+
+import { importFromDatabase } from "./database";
+
+const database = "it's `db` ünïcødé select";
+const table = `user's "table"`;
+const view = "active `users`";
+
+/**
+ * Answer the introspection queries like MySQL would, recording them
+ */
+function createDatabase() {
+  const queries: { sql: string; params?: unknown[] }[] = [];
+  const column = {
+    TABLE_SCHEMA: database,
+    COLUMN_NAME: "naïve 'name'",
+    IS_NULLABLE: "YES",
+    COLUMN_TYPE: "varchar(255)",
+    COLUMN_DEFAULT: "it's",
+    EXTRA: "",
+  };
+
+  return {
+    queries,
+    db: {
+      query: async (sql: string, params?: unknown[]): Promise<any[]> => {
+        queries.push({ sql, params });
+
+        if (sql.includes("information_schema.columns")) {
+          return [
+            { ...column, TABLE_NAME: table },
+            { ...column, TABLE_NAME: view },
+          ];
+        }
+
+        if (sql.includes("INFORMATION_SCHEMA.VIEWS")) {
+          return [
+            {
+              TABLE_NAME: view,
+              VIEW_DEFINITION: "select 1",
+              CHECK_OPTION: "NONE",
+              SECURITY_TYPE: "DEFINER",
+            },
+          ];
+        }
+
+        if (sql.startsWith("SHOW CREATE VIEW")) {
+          return [{ "Create View": "CREATE ALGORITHM=UNDEFINED VIEW ..." }];
+        }
+
+        return [];
+      },
+    },
+  };
+}
+
+test("Introspect a database with quotes, unicode and reserved words in its name", async () => {
+  const { db } = createDatabase();
+  const snapshot = await importFromDatabase(db, database);
+
+  expect(snapshot.tables[table].columns["naïve 'name'"]).toMatchObject({
+    type: "varchar(255)",
+    default: "'it''s'",
+  });
+  expect(snapshot.views[view]).toMatchObject({ schema: database });
+});
+
+test("Database name is bound, not injected in the introspection queries", async () => {
+  const { db, queries } = createDatabase();
+
+  await importFromDatabase(db, database);
+
+  const showCreateView = queries.find(({ sql }) =>
+    sql.startsWith("SHOW CREATE VIEW"),
+  );
+  const introspection = queries.filter((query) => query !== showCreateView);
+
+  expect(introspection.length).toBeGreaterThan(0);
+
+  for (const { sql, params } of introspection) {
+    expect(sql).not.toContain(database);
+    expect(params).toEqual([database]);
+  }
+
+  // identifiers can't be bound, they are escaped
+  expect(showCreateView?.sql).toBe(
+    "SHOW CREATE VIEW `it's ``db`` ünïcødé select`.`active ``users```;",
+  );
+});
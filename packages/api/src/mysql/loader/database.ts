@@ -35,6 +35,12 @@ function escapeSingleQuotes(str: string) {
   return str.replace(/'/g, "''");
 }
 
+/* lab extension */
+// identifiers can't be bound as parameters
+function escapeIdentifier(name: string) {
+  return `\`${name.replaceAll("`", "``")}\``;
+}
+
 type DB = {
   query: <T = any>(sql: string, params?: any[]) => Promise<T[]>;
 };
@@ -53,9 +59,12 @@ export async function importFromDatabase(
   const result: Record<string, Table> = {};
   const internals: MySqlKitInternals = { tables: {}, indexes: {} };
 
-  const columns = await db.query(`select * from information_schema.columns
-	where table_schema = '${inputSchema}' and table_name != '__drizzle_migrations'
-	order by table_name, ordinal_position;`);
+  const columns = await db.query(
+    `select * from information_schema.columns
+	where table_schema = ? and table_name != '__drizzle_migrations'
+	order by table_name, ordinal_position;`,
+    [inputSchema],
+  );
 
   const response = columns as RowDataPacket[];
 
@@ -63,7 +72,8 @@ export async function importFromDatabase(
 
   const idxs = await db.query(
     `select * from INFORMATION_SCHEMA.STATISTICS
-	WHERE INFORMATION_SCHEMA.STATISTICS.TABLE_SCHEMA = '${inputSchema}' and INFORMATION_SCHEMA.STATISTICS.INDEX_NAME != 'PRIMARY';`,
+	WHERE INFORMATION_SCHEMA.STATISTICS.TABLE_SCHEMA = ? and INFORMATION_SCHEMA.STATISTICS.INDEX_NAME != 'PRIMARY';`,
+    [inputSchema],
   );
 
   const idxRows = idxs as RowDataPacket[];
@@ -157,6 +167,8 @@ export async function importFromDatabase(
             type: columnExtra === "VIRTUAL GENERATED" ? "virtual" : "stored",
           }
         : undefined,
+      /* lab extension */
+      description: column["COLUMN_COMMENT"] || undefined,
     };
 
     // Set default to internal object
@@ -211,8 +223,9 @@ export async function importFromDatabase(
   USING(constraint_name,table_schema,table_name)
   WHERE t.constraint_type='PRIMARY KEY'
       and table_name != '__drizzle_migrations'
-      AND t.table_schema = '${inputSchema}'
+      AND t.table_schema = ?
       ORDER BY ordinal_position`,
+    [inputSchema],
   );
 
   const tableToPk: { [tname: string]: string[] } = {};
@@ -264,8 +277,9 @@ export async function importFromDatabase(
   LEFT JOIN 
       information_schema.referential_constraints rc 
       ON kcu.CONSTRAINT_NAME = rc.CONSTRAINT_NAME
-  WHERE kcu.TABLE_SCHEMA = '${inputSchema}' AND kcu.CONSTRAINT_NAME != 'PRIMARY' 
+  WHERE kcu.TABLE_SCHEMA = ? AND kcu.CONSTRAINT_NAME != 'PRIMARY' 
       AND kcu.REFERENCED_TABLE_NAME IS NOT NULL;`,
+      [inputSchema],
     );
 
     const fkRows = fks as RowDataPacket[];
@@ -352,7 +366,8 @@ export async function importFromDatabase(
   }
 
   const views = await db.query(
-    `select * from INFORMATION_SCHEMA.VIEWS WHERE table_schema = '${inputSchema}';`,
+    `select * from INFORMATION_SCHEMA.VIEWS WHERE table_schema = ?;`,
+    [inputSchema],
   );
 
   const resultViews: Record<string, View> = {};
@@ -368,7 +383,7 @@ export async function importFromDatabase(
     const sqlSecurity = view["SECURITY_TYPE"].toLowerCase();
 
     const [createSqlStatement] = await db.query(
-      `SHOW CREATE VIEW \`${viewName}\`;`,
+      `SHOW CREATE VIEW ${escapeIdentifier(inputSchema)}.${escapeIdentifier(viewName)};`,
     );
     const algorithmMatch =
       createSqlStatement["Create View"].match(/ALGORITHM=([^ ]+)/);
@@ -402,9 +417,10 @@ JOIN
     information_schema.check_constraints cc 
     ON tc.constraint_name = cc.constraint_name
 WHERE 
-    tc.constraint_schema = '${inputSchema}'
+    tc.constraint_schema = ?
 AND 
     tc.constraint_type = 'CHECK';`,
+    [inputSchema],
   );
 
   for (const checkConstraintRow of checkConstraints) {
@@ -420,6 +436,21 @@ AND
     };
   }
 
+  /* lab extension */
+  const tableComments = await db.query(
+    `select TABLE_NAME, TABLE_COMMENT from information_schema.tables
+	where table_schema = ? and table_type = 'BASE TABLE';`,
+    [inputSchema],
+  );
+
+  for (const tableCommentRow of tableComments) {
+    const tableInResult = result[tableCommentRow["TABLE_NAME"]];
+
+    if (tableInResult && tableCommentRow["TABLE_COMMENT"]) {
+      tableInResult.description = tableCommentRow["TABLE_COMMENT"];
+    }
+  }
+
   const schemasObject = Object.fromEntries(schemas.map((it) => [it, it]));
 
   return {
@@ -0,0 +1,186 @@
+import { expect, test } from "vitest";
+
+import { importFromSql } from "./sql";
+import { sqlToTypescript } from "../serializer/typescript";
+
+const dump = `
+/*!40101 SET NAMES utf8mb4 */;
+SET FOREIGN_KEY_CHECKS = 0;
+DROP TABLE IF EXISTS \`users\`;
+CREATE TABLE \`users\` (
+  \`id\` int unsigned NOT NULL AUTO_INCREMENT,
+  \`email\` varchar(255) COLLATE utf8mb4_bin NOT NULL COMMENT 'Login',
+  \`role\` enum('admin','member') NOT NULL DEFAULT 'member',
+  \`active\` tinyint(1) NOT NULL DEFAULT '1',
+  \`created_at\` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  \`full_name\` varchar(511) GENERATED ALWAYS AS (concat(\`email\`, ' ')) VIRTUAL,
+  PRIMARY KEY (\`id\`),
+  UNIQUE KEY \`users_email_unique\` (\`email\`),
+  KEY \`role\` (\`role\`),
+  CONSTRAINT \`users_role_check\` CHECK ((\`role\` <> 'x'))
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COMMENT='Accounts';
+
+CREATE TABLE posts (
+  id bigint NOT NULL,
+  author_id int unsigned,
+  price decimal(10,2) DEFAULT 0.00,
+  PRIMARY KEY (id)
+);
+CREATE INDEX posts_author_idx ON posts (author_id);
+ALTER TABLE posts ADD CONSTRAINT posts_author_fk FOREIGN KEY (author_id) REFERENCES users (id) ON DELETE CASCADE;
+INSERT INTO posts VALUES (1, 1, 'a;b');
+
+DELIMITER ;;
+CREATE TRIGGER posts_price BEFORE INSERT ON posts FOR EACH ROW BEGIN SET NEW.price = 1; END;;
+DELIMITER ;
+
+CREATE VIEW active_users AS SELECT id, email, 1 + 1 AS two FROM users WHERE active = 1;
+`;
+
+test("Parse the tables of a MySQL dump", () => {
+  const { tables } = importFromSql(dump);
+
+  expect(Object.keys(tables)).toEqual(["users", "posts"]);
+  expect(tables.users).toEqual({
+    name: "users",
+    schema: "",
+    description: "Accounts",
+    columns: {
+      id: {
+        name: "id",
+        type: "int unsigned",
+        primaryKey: false,
+        notNull: true,
+        autoincrement: true,
+      },
+      email: {
+        name: "email",
+        type: "varchar(255)",
+        primaryKey: false,
+        notNull: true,
+        autoincrement: false,
+        description: "Login",
+      },
+      role: {
+        name: "role",
+        type: "enum('admin','member')",
+        primaryKey: false,
+        notNull: true,
+        autoincrement: false,
+        enumValues: ["admin", "member"],
+        default: "'member'",
+      },
+      active: {
+        name: "active",
+        type: "tinyint(1)",
+        primaryKey: false,
+        notNull: true,
+        autoincrement: false,
+        default: 1,
+      },
+      created_at: {
+        name: "created_at",
+        type: "timestamp",
+        primaryKey: false,
+        notNull: true,
+        autoincrement: false,
+        default: "(CURRENT_TIMESTAMP)",
+        onUpdate: true,
+      },
+      full_name: {
+        name: "full_name",
+        type: "varchar(511)",
+        primaryKey: false,
+        notNull: false,
+        autoincrement: false,
+        generated: { as: "concat(`email`, ' ')", type: "virtual" },
+      },
+    },
+    indexes: {
+      role: {
+        name: "role",
+        columns: ["role"],
+        isUnique: false,
+      },
+    },
+    foreignKeys: {},
+    compositePrimaryKeys: { users_id: { name: "users_id", columns: ["id"] } },
+    uniqueConstraints: {
+      users_email_unique: { name: "users_email_unique", columns: ["email"] },
+    },
+    checkConstraints: {
+      users_role_check: { name: "users_role_check", value: "(`role` <> 'x')" },
+    },
+    relations: [],
+  });
+});
+
+test("Apply CREATE INDEX and ALTER TABLE statements to their table", () => {
+  const { posts } = importFromSql(dump).tables;
+
+  expect(posts.columns.price.default).toBe("'0.00'");
+  expect(Object.keys(posts.indexes)).toEqual(["posts_author_idx"]);
+  expect(posts.foreignKeys).toEqual({
+    posts_author_fk: {
+      name: "posts_author_fk",
+      tableFrom: "posts",
+      columnsFrom: ["author_id"],
+      tableTo: "users",
+      columnsTo: ["id"],
+      onDelete: "cascade",
+      onUpdate: "no action",
+    },
+  });
+});
+
+test("Infer the columns of views from the columns they select", () => {
+  const view = importFromSql(dump).views.active_users;
+
+  expect(view.definition).toBe(
+    "SELECT id, email, 1 + 1 AS two FROM users WHERE active = 1",
+  );
+  // computed columns are skipped
+  expect(Object.keys(view.columns)).toEqual(["id", "email"]);
+  expect(view.columns.email).toMatchObject({
+    type: "varchar(255)",
+    notNull: true,
+  });
+});
+
+test("Name unnamed indexes after their first column", () => {
+  const { tables } = importFromSql(`
+    CREATE TABLE t (a int, b int, UNIQUE (a), KEY (a, b), KEY ((a + b)));
+  `);
+
+  expect(Object.keys(tables.t.uniqueConstraints)).toEqual(["a"]);
+  expect(Object.keys(tables.t.indexes)).toEqual(["a_2", "functional_index"]);
+});
+
+test("Report the line of invalid statements", () => {
+  expect(() =>
+    importFromSql(
+      "CREATE TABLE a (\n  id int,\n  name varchar(10) DEFAULT\n);",
+    ),
+  ).toThrow("Invalid SQL at line 4: unexpected `)` in DEFAULT");
+  expect(() => importFromSql("\nCREATE INDEX i ON missing (id);")).toThrow(
+    "Invalid SQL at line 2: unknown table `missing`",
+  );
+});
+
+test("Convert a MySQL dump to a Drizzle schema", async () => {
+  const file = await sqlToTypescript(dump);
+
+  expect(file).toContain('export const users = mysqlTable("users", {');
+  expect(file).toContain(
+    "role: mysqlEnum(['admin','member']).default('member').notNull(),",
+  );
+  expect(file).toContain(
+    "created_at: timestamp({ mode: 'string' }).defaultNow().onUpdateNow().notNull(),",
+  );
+  expect(file).toContain(
+    'author_id: int({ unsigned: true }).references(() => users.id, { onDelete: "cascade" } ),',
+  );
+  expect(file).toContain(
+    'export const active_users = mysqlView("active_users", {',
+  );
+});
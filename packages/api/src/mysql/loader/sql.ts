@@ -0,0 +1,1325 @@
+import { escapeSingleQuotes } from "../../sql/utils";
+import type {
+  CheckConstraint,
+  Column,
+  Index,
+  MySqlKitInternals,
+  MySqlSchemaInternal,
+  Table,
+  View,
+} from "../schema";
+
+type Token = {
+  type: "word" | "quoted" | "string" | "number" | "symbol" | "delimiter";
+  value: string;
+  line: number;
+  start: number;
+  end: number;
+};
+
+type Statement = { tokens: Token[]; line: number };
+
+type Name = { schema: string; name: string };
+
+type KeyPart = { value: string; isExpression: boolean };
+
+const typeAliases: Record<string, string> = {
+  integer: "int",
+  int1: "tinyint",
+  int2: "smallint",
+  int3: "mediumint",
+  int4: "int",
+  int8: "bigint",
+  middleint: "mediumint",
+  bool: "boolean",
+  dec: "decimal",
+  numeric: "decimal",
+  fixed: "decimal",
+  float4: "float",
+  float8: "double",
+  "double precision": "double",
+  character: "char",
+  "character varying": "varchar",
+  "long varchar": "mediumtext",
+  long: "mediumtext",
+};
+
+/**
+ * Integer display widths are deprecated and not returned by the introspection, except for `tinyint(1)`
+ */
+const integerTypes = new Set([
+  "tinyint",
+  "smallint",
+  "mediumint",
+  "int",
+  "bigint",
+]);
+
+const currentTimestamp = new Set([
+  "current_timestamp",
+  "now",
+  "localtime",
+  "localtimestamp",
+  "current_date",
+  "current_time",
+  "curdate",
+  "curtime",
+]);
+
+const referentialActions = [
+  ["set", "null"],
+  ["set", "default"],
+  ["no", "action"],
+  ["cascade"],
+  ["restrict"],
+];
+
+/**
+ * Words ending a table reference in a `FROM` clause, used to tell aliases apart
+ */
+const clauseKeywords = new Set([
+  "where",
+  "group",
+  "having",
+  "order",
+  "limit",
+  "join",
+  "inner",
+  "left",
+  "right",
+  "cross",
+  "natural",
+  "straight_join",
+  "on",
+  "using",
+  "union",
+  "window",
+  "for",
+  "lock",
+  "with",
+]);
+
+function fail(message: string, line: number): never {
+  throw new Error(`Invalid SQL at line ${line}: ${message}`);
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let delimiter = ";";
+  let line = 1;
+  let index = 0;
+  // executable comments (`/*!50001 ... */`) are run by MySQL, so their content is kept
+  let inExecutableComment = false;
+
+  const push = (type: Token["type"], start: number) => {
+    tokens.push({
+      type,
+      value: source.slice(start, index),
+      line,
+      start,
+      end: index,
+    });
+  };
+
+  while (index < source.length) {
+    const char = source[index];
+    const start = index;
+
+    if (char === "\n") {
+      line++;
+      index++;
+      continue;
+    }
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    if (
+      source.startsWith("#", index) ||
+      /^--(\s|$)/.test(source.slice(index, index + 3))
+    ) {
+      const end = source.indexOf("\n", index);
+      index = end === -1 ? source.length : end;
+      continue;
+    }
+
+    if (inExecutableComment && source.startsWith("*/", index)) {
+      inExecutableComment = false;
+      index += 2;
+      continue;
+    }
+
+    if (source.startsWith("/*!", index)) {
+      inExecutableComment = true;
+      index += 3;
+
+      while (/\d/.test(source[index] ?? "")) {
+        index++;
+      }
+
+      continue;
+    }
+
+    if (source.startsWith("/*", index)) {
+      const end = source.indexOf("*/", index + 2);
+
+      if (end === -1) {
+        fail("unterminated comment", line);
+      }
+
+      line += source.slice(index, end).split("\n").length - 1;
+      index = end + 2;
+      continue;
+    }
+
+    const isStatementStart =
+      tokens.length === 0 || tokens.at(-1)!.type === "delimiter";
+
+    if (
+      isStatementStart &&
+      /^delimiter\s/i.test(source.slice(index, index + 10))
+    ) {
+      const end = source.indexOf("\n", index);
+      delimiter = source
+        .slice(index + "delimiter".length, end === -1 ? source.length : end)
+        .trim();
+      index = end === -1 ? source.length : end;
+      continue;
+    }
+
+    if (source.startsWith(delimiter, index)) {
+      index += delimiter.length;
+      push("delimiter", start);
+      continue;
+    }
+
+    if (char === "'" || char === '"' || char === "`") {
+      let value = "";
+      index++;
+
+      while (index < source.length) {
+        if (source[index] === char && source[index + 1] === char) {
+          value += char;
+          index += 2;
+          continue;
+        }
+
+        if (source[index] === char) {
+          break;
+        }
+
+        if (source[index] === "\\" && char !== "`") {
+          const escaped = source[index + 1] ?? "";
+          value += escaped === "n" ? "\n" : escaped === "t" ? "\t" : escaped;
+          index += 2;
+          continue;
+        }
+
+        if (source[index] === "\n") {
+          line++;
+        }
+
+        value += source[index++];
+      }
+
+      if (index >= source.length) {
+        fail(`unterminated ${char} string`, line);
+      }
+
+      index++;
+      tokens.push({
+        type: char === "`" ? "quoted" : "string",
+        value,
+        line,
+        start,
+        end: index,
+      });
+      continue;
+    }
+
+    const number = /0x[\da-f]+|(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?(?![\w$])/iy;
+    number.lastIndex = index;
+    const numberMatch = number.exec(source);
+
+    if (numberMatch) {
+      index += numberMatch[0].length;
+      push("number", start);
+      continue;
+    }
+
+    const word = /[\w$]+/y;
+    word.lastIndex = index;
+    const wordMatch = word.exec(source);
+
+    if (wordMatch) {
+      index += wordMatch[0].length;
+      push("word", start);
+      continue;
+    }
+
+    index++;
+    push("symbol", start);
+  }
+
+  return tokens;
+}
+
+function splitStatements(tokens: Token[]): Statement[] {
+  const statements: Statement[] = [];
+  let current: Token[] = [];
+
+  for (const token of tokens) {
+    if (token.type !== "delimiter") {
+      current.push(token);
+      continue;
+    }
+
+    if (current.length > 0) {
+      statements.push({ tokens: current, line: current[0].line });
+    }
+
+    current = [];
+  }
+
+  if (current.length > 0) {
+    statements.push({ tokens: current, line: current[0].line });
+  }
+
+  return statements;
+}
+
+/**
+ * Cursor over the tokens of a statement
+ */
+function createReader(source: string, { tokens, line }: Statement) {
+  let position = 0;
+
+  const peek = (offset = 0): Token | undefined => tokens[position + offset];
+
+  const failAt = (message: string): never =>
+    fail(message, peek()?.line ?? tokens.at(-1)?.line ?? line);
+
+  const next = () =>
+    tokens[position++] ?? failAt("unexpected end of statement");
+
+  const isKeyword = (...words: string[]) =>
+    words.every((word, offset) => {
+      const token = peek(offset);
+      return token?.type === "word" && token.value.toLowerCase() === word;
+    });
+
+  const acceptKeyword = (...words: string[]) => {
+    if (!isKeyword(...words)) {
+      return false;
+    }
+
+    position += words.length;
+    return true;
+  };
+
+  const expectKeyword = (...words: string[]) => {
+    if (!acceptKeyword(...words)) {
+      failAt(`expected \`${words.join(" ").toUpperCase()}\``);
+    }
+  };
+
+  const isSymbol = (value: string, token = peek()) =>
+    token?.type === "symbol" && token.value === value;
+
+  const acceptSymbol = (value: string) => {
+    if (!isSymbol(value)) {
+      return false;
+    }
+
+    position++;
+    return true;
+  };
+
+  const expectSymbol = (value: string) => {
+    if (!acceptSymbol(value)) {
+      failAt(`expected \`${value}\``);
+    }
+  };
+
+  const readName = () => {
+    const token = peek();
+
+    if (token?.type !== "word" && token?.type !== "quoted") {
+      return failAt("expected a name");
+    }
+
+    position++;
+    return token.value;
+  };
+
+  const readQualifiedName = (): Name => {
+    const name = readName();
+
+    if (isSymbol(".") && ["word", "quoted"].includes(peek(1)?.type ?? "")) {
+      position++;
+      return { schema: name, name: readName() };
+    }
+
+    return { schema: "", name };
+  };
+
+  /**
+   * Skip balanced parentheses
+   * @returns The source between the parentheses
+   */
+  const readParenthesized = () => {
+    const open = peek();
+    expectSymbol("(");
+
+    for (let depth = 1; depth > 0; ) {
+      const token = next();
+
+      if (isSymbol("(", token)) {
+        depth++;
+      }
+
+      if (isSymbol(")", token)) {
+        depth--;
+      }
+    }
+
+    return source.slice(open!.end, tokens[position - 1].start).trim();
+  };
+
+  /**
+   * Skip tokens until one of the symbols, outside of parentheses
+   */
+  const skipUntil = (...symbols: string[]) => {
+    for (let token = peek(); token; token = peek()) {
+      if (symbols.some((it) => isSymbol(it, token))) {
+        return;
+      }
+
+      if (isSymbol("(", token)) {
+        readParenthesized();
+        continue;
+      }
+
+      position++;
+    }
+  };
+
+  /**
+   * Read `(a, b(10) DESC, (lower(c)))`
+   */
+  const readKeyParts = (): KeyPart[] => {
+    const parts: KeyPart[] = [];
+    expectSymbol("(");
+
+    do {
+      if (isSymbol("(")) {
+        parts.push({ value: readParenthesized(), isExpression: true });
+      } else {
+        parts.push({ value: readName(), isExpression: false });
+
+        if (isSymbol("(")) {
+          readParenthesized();
+        }
+      }
+
+      acceptKeyword("asc") || acceptKeyword("desc");
+    } while (acceptSymbol(","));
+
+    expectSymbol(")");
+
+    return parts;
+  };
+
+  const readNameList = () => {
+    const names: string[] = [];
+    expectSymbol("(");
+
+    do {
+      names.push(readName());
+    } while (acceptSymbol(","));
+
+    expectSymbol(")");
+
+    return names;
+  };
+
+  return {
+    get position() {
+      return position;
+    },
+    peek,
+    next,
+    failAt,
+    isKeyword,
+    acceptKeyword,
+    expectKeyword,
+    isSymbol,
+    acceptSymbol,
+    expectSymbol,
+    readName,
+    readQualifiedName,
+    readParenthesized,
+    skipUntil,
+    readKeyParts,
+    readNameList,
+    isDone: () => position >= tokens.length,
+    /** Source from the current token to the end of the statement */
+    rest: (end = tokens.length) =>
+      position < end
+        ? source.slice(tokens[position].start, tokens[end - 1].end).trim()
+        : "",
+    tokens,
+  };
+}
+
+type Reader = ReturnType<typeof createReader>;
+
+function normalizeType(base: string, args: string[], modifiers: string[]) {
+  const lowered = base.toLowerCase();
+  const type = typeAliases[lowered] ?? lowered;
+  const keepArgs =
+    args.length > 0 &&
+    !(integerTypes.has(type) && !(type === "tinyint" && args[0] === "1")) &&
+    type !== "year";
+
+  return [`${type}${keepArgs ? `(${args.join(",")})` : ""}`, ...modifiers].join(
+    " ",
+  );
+}
+
+/**
+ * Read a column type, e.g. `varchar(255)`, `int unsigned` or `enum('a','b')`
+ */
+function readType(reader: Reader) {
+  let base = reader.readName();
+
+  // multi words types
+  for (const [first, second] of [
+    ["double", "precision"],
+    ["character", "varying"],
+    ["long", "varchar"],
+  ]) {
+    if (base.toLowerCase() === first && reader.acceptKeyword(second)) {
+      base = `${first} ${second}`;
+    }
+  }
+
+  const args: string[] = [];
+  let enumValues: string[] | undefined;
+
+  if (reader.acceptSymbol("(")) {
+    do {
+      const token = reader.next();
+
+      if (token.type === "string") {
+        enumValues ??= [];
+        enumValues.push(token.value);
+        args.push(`'${escapeSingleQuotes(token.value)}'`);
+      } else {
+        args.push(token.value);
+      }
+    } while (reader.acceptSymbol(","));
+
+    reader.expectSymbol(")");
+  }
+
+  const modifiers: string[] = [];
+
+  for (;;) {
+    if (reader.acceptKeyword("unsigned")) {
+      modifiers.push("unsigned");
+    } else if (reader.acceptKeyword("zerofill")) {
+      modifiers.push("zerofill");
+    } else if (!reader.acceptKeyword("signed")) {
+      break;
+    }
+  }
+
+  return { type: normalizeType(base, args, modifiers), enumValues };
+}
+
+/**
+ * @returns The default value like the introspection does, and whether it is an expression
+ */
+function readDefault(
+  reader: Reader,
+  type: string,
+): [value: string | number | boolean | undefined, isExpression: boolean] {
+  const isQuotedType = ["decimal", "char", "varchar"].some((it) =>
+    type.startsWith(it),
+  );
+  const toLiteral = (value: string) =>
+    /^-?[\d.]+(?:e-?\d+)?$/i.test(value) && !isQuotedType
+      ? Number(value)
+      : `'${escapeSingleQuotes(value)}'`;
+
+  if (reader.isSymbol("(")) {
+    return [`(${reader.readParenthesized()})`, true];
+  }
+
+  const sign = reader.acceptSymbol("-") ? "-" : (reader.acceptSymbol("+"), "");
+  const token = reader.next();
+  const lowered = token.value.toLowerCase();
+
+  if (token.type === "number") {
+    return [toLiteral(`${sign}${token.value}`), false];
+  }
+
+  if (token.type === "string") {
+    return [toLiteral(token.value), false];
+  }
+
+  if (token.type !== "word") {
+    return reader.failAt(`unexpected \`${token.value}\` in DEFAULT`);
+  }
+
+  // charset introducer, e.g. _utf8mb4'value'
+  if (lowered.startsWith("_") && reader.peek()?.type === "string") {
+    return [toLiteral(reader.next().value), false];
+  }
+
+  // bit and hex literals, e.g. b'1' or x'ff'
+  if (["b", "x"].includes(lowered) && reader.peek()?.type === "string") {
+    return [`${lowered}'${reader.next().value}'`, false];
+  }
+
+  if (lowered === "null") {
+    return [undefined, false];
+  }
+
+  if (lowered === "true" || lowered === "false") {
+    return [lowered === "true", false];
+  }
+
+  if (currentTimestamp.has(lowered)) {
+    const args = reader.isSymbol("(") ? `(${reader.readParenthesized()})` : "";
+    const name = lowered === "now" ? "now" : token.value.toUpperCase();
+
+    return [`(${name}${args || (lowered === "now" ? "()" : "")})`, true];
+  }
+
+  return reader.failAt(`unexpected \`${token.value}\` in DEFAULT`);
+}
+
+function readReferentialAction(reader: Reader) {
+  const action = referentialActions.find((words) =>
+    reader.acceptKeyword(...words),
+  );
+
+  if (!action) {
+    return reader.failAt("expected a referential action");
+  }
+
+  return action.join(" ");
+}
+
+/**
+ * Parse the schema statements of a MySQL dump, without a database
+ *
+ * Supports `CREATE TABLE` (columns, generated columns, primary keys, indexes, unique and check constraints, foreign keys, comments),
+ * `CREATE INDEX`, `ALTER TABLE ... ADD`, `CREATE VIEW` and `DROP TABLE/VIEW`. Other statements (e.g. `INSERT` or `SET`) are ignored.
+ *
+ * View columns are inferred from the columns they select, computed columns are skipped.
+ *
+ * @param sqlDump - SQL dump, e.g. from `mysqldump --no-data` or drizzle-kit migrations
+ * @returns The schema, like `importFromDatabase` would return it
+ * @throws If a schema statement is not valid
+ */
+export function importFromSql(sqlDump: string): MySqlSchemaInternal {
+  const tables: Record<string, Table> = {};
+  const views: Record<string, View> = {};
+  const internal: NonNullable<MySqlKitInternals> = { tables: {}, indexes: {} };
+  const schemas = new Set<string>();
+
+  const keyOf = ({ schema, name }: Name) =>
+    schema ? `${schema}.${name}` : name;
+
+  const findTable = (reader: Reader, name: Name) =>
+    tables[keyOf(name)] ?? reader.failAt(`unknown table \`${name.name}\``);
+
+  /**
+   * MySQL names unnamed indexes after their first column
+   */
+  const indexName = (table: Table, parts: KeyPart[]) => {
+    const base = parts[0].isExpression ? "functional_index" : parts[0].value;
+    const taken = (name: string) =>
+      Boolean(table.indexes[name] || table.uniqueConstraints[name]);
+
+    if (!taken(base)) {
+      return base;
+    }
+
+    let suffix = 2;
+
+    while (taken(`${base}_${suffix}`)) {
+      suffix++;
+    }
+
+    return `${base}_${suffix}`;
+  };
+
+  const addIndex = (
+    table: Table,
+    name: string,
+    parts: KeyPart[],
+    options: { isUnique: boolean; using?: "btree" | "hash" },
+  ) => {
+    table.indexes[name] = {
+      name,
+      columns: parts.map((it) => it.value),
+      isUnique: options.isUnique,
+      using: options.using,
+    };
+
+    if (parts.some((it) => it.isExpression)) {
+      internal.indexes![name] = {
+        columns: Object.fromEntries(
+          parts
+            .filter((it) => it.isExpression)
+            .map((it) => [it.value, { isExpression: true }]),
+        ),
+      };
+    }
+  };
+
+  const addCheck = (table: Table, value: string, name?: string) => {
+    const checkName =
+      name ??
+      `${table.name}_chk_${Object.keys(table.checkConstraints).length + 1}`;
+    const check: CheckConstraint = { name: checkName, value };
+    table.checkConstraints[checkName] = check;
+  };
+
+  const readIndexUsing = (reader: Reader): Index["using"] => {
+    if (!reader.acceptKeyword("using")) {
+      return undefined;
+    }
+
+    const method = reader.readName().toLowerCase();
+
+    return method === "hash" ? "hash" : "btree";
+  };
+
+  /**
+   * Index options after the key parts, e.g. `USING BTREE COMMENT '...' INVISIBLE`
+   */
+  const readIndexOptions = (reader: Reader) => {
+    let using: "btree" | "hash" | undefined;
+
+    while (!reader.isDone() && !reader.isSymbol(",") && !reader.isSymbol(")")) {
+      using = readIndexUsing(reader) ?? using;
+
+      if (!reader.isDone() && !reader.isSymbol(",") && !reader.isSymbol(")")) {
+        reader.next();
+      }
+    }
+
+    return using;
+  };
+
+  const readForeignKey = (
+    reader: Reader,
+    table: Table,
+    constraintName?: string,
+  ) => {
+    // optional index name
+    if (!reader.isSymbol("(")) {
+      reader.readName();
+    }
+
+    const columnsFrom = reader.readNameList();
+    reader.expectKeyword("references");
+    const tableTo = reader.readQualifiedName();
+    const columnsTo = reader.readNameList();
+    let onDelete = "no action";
+    let onUpdate = "no action";
+
+    if (reader.acceptKeyword("match")) {
+      reader.readName();
+    }
+
+    while (reader.acceptKeyword("on")) {
+      if (reader.acceptKeyword("delete")) {
+        onDelete = readReferentialAction(reader);
+      } else {
+        reader.expectKeyword("update");
+        onUpdate = readReferentialAction(reader);
+      }
+    }
+
+    const name =
+      constraintName ??
+      `${table.name}_ibfk_${Object.keys(table.foreignKeys).length + 1}`;
+
+    table.foreignKeys[name] = {
+      name,
+      tableFrom: table.name,
+      columnsFrom,
+      tableTo: tableTo.name,
+      schemaTo: tableTo.schema || undefined,
+      columnsTo,
+      onDelete,
+      onUpdate,
+    };
+  };
+
+  const setPrimaryKey = (table: Table, columns: string[]) => {
+    const name = `${table.name}_${columns.join("_")}`;
+    table.compositePrimaryKeys = { [name]: { name, columns } };
+
+    for (const column of columns) {
+      if (table.columns[column]) {
+        table.columns[column].notNull = true;
+      }
+    }
+  };
+
+  /**
+   * Table constraints and indexes, shared by `CREATE TABLE` and `ALTER TABLE ... ADD`
+   * @returns `false` if the definition is not a constraint or an index
+   */
+  const readConstraint = (reader: Reader, table: Table) => {
+    let constraintName: string | undefined;
+
+    if (reader.acceptKeyword("constraint")) {
+      if (
+        !["primary", "unique", "foreign", "check"].some((it) =>
+          reader.isKeyword(it),
+        )
+      ) {
+        constraintName = reader.readName();
+      }
+    }
+
+    if (reader.acceptKeyword("primary", "key")) {
+      readIndexUsing(reader);
+      setPrimaryKey(
+        table,
+        reader.readKeyParts().map((it) => it.value),
+      );
+      readIndexOptions(reader);
+      return true;
+    }
+
+    if (reader.acceptKeyword("foreign", "key")) {
+      readForeignKey(reader, table, constraintName);
+      return true;
+    }
+
+    if (reader.acceptKeyword("check")) {
+      addCheck(table, reader.readParenthesized(), constraintName);
+      reader.acceptKeyword("not");
+      reader.acceptKeyword("enforced");
+      return true;
+    }
+
+    if (reader.acceptKeyword("unique")) {
+      reader.acceptKeyword("index") || reader.acceptKeyword("key");
+      const name = reader.isSymbol("(") ? undefined : reader.readName();
+      readIndexUsing(reader);
+      const parts = reader.readKeyParts();
+      readIndexOptions(reader);
+      const uniqueName = name ?? constraintName ?? indexName(table, parts);
+
+      table.uniqueConstraints[uniqueName] = {
+        name: uniqueName,
+        columns: parts.map((it) => it.value),
+      };
+      return true;
+    }
+
+    if (constraintName) {
+      return reader.failAt("expected a constraint");
+    }
+
+    const isFullText =
+      reader.acceptKeyword("fulltext") || reader.acceptKeyword("spatial");
+
+    if (
+      reader.acceptKeyword("index") ||
+      reader.acceptKeyword("key") ||
+      isFullText
+    ) {
+      if (isFullText) {
+        reader.acceptKeyword("index") || reader.acceptKeyword("key");
+      }
+
+      const name = reader.isSymbol("(") ? undefined : reader.readName();
+      const using = readIndexUsing(reader);
+      const parts = reader.readKeyParts();
+
+      addIndex(table, name ?? indexName(table, parts), parts, {
+        isUnique: false,
+        using: readIndexOptions(reader) ?? using,
+      });
+      return true;
+    }
+
+    return false;
+  };
+
+  const readColumn = (reader: Reader, table: Table) => {
+    const name = reader.readName();
+    const { type, enumValues } = readType(reader);
+    const column: Column = {
+      name,
+      type,
+      primaryKey: false,
+      notNull: false,
+      autoincrement: false,
+      enumValues,
+    };
+    let isDefaultAnExpression = false;
+
+    while (!reader.isDone() && !reader.isSymbol(",") && !reader.isSymbol(")")) {
+      if (reader.acceptKeyword("not", "null")) {
+        column.notNull = true;
+      } else if (reader.acceptKeyword("null")) {
+        column.notNull = false;
+      } else if (reader.acceptKeyword("default")) {
+        [column.default, isDefaultAnExpression] = readDefault(reader, type);
+      } else if (reader.acceptKeyword("auto_increment")) {
+        column.autoincrement = true;
+      } else if (reader.acceptKeyword("on", "update")) {
+        reader.next();
+
+        if (reader.isSymbol("(")) {
+          reader.readParenthesized();
+        }
+
+        column.onUpdate = true;
+      } else if (
+        reader.acceptKeyword("generated", "always", "as") ||
+        reader.acceptKeyword("as")
+      ) {
+        column.generated = { as: reader.readParenthesized(), type: "virtual" };
+      } else if (reader.acceptKeyword("stored")) {
+        column.generated!.type = "stored";
+      } else if (reader.acceptKeyword("virtual")) {
+        column.generated!.type = "virtual";
+      } else if (reader.acceptKeyword("primary", "key")) {
+        setPrimaryKey(table, [name]);
+        column.notNull = true;
+      } else if (reader.acceptKeyword("unique")) {
+        reader.acceptKeyword("key");
+        table.uniqueConstraints[name] = { name, columns: [name] };
+      } else if (reader.acceptKeyword("key")) {
+        setPrimaryKey(table, [name]);
+        column.notNull = true;
+      } else if (reader.acceptKeyword("comment")) {
+        column.description = reader.next().value;
+      } else if (reader.acceptKeyword("check")) {
+        addCheck(table, reader.readParenthesized());
+      } else if (reader.acceptKeyword("constraint")) {
+        const checkName = reader.readName();
+        reader.expectKeyword("check");
+        addCheck(table, reader.readParenthesized(), checkName);
+      } else if (reader.acceptKeyword("references")) {
+        // MySQL parses inline references but ignores them
+        reader.readQualifiedName();
+        reader.readParenthesized();
+      } else if (
+        reader.acceptKeyword("character", "set") ||
+        reader.acceptKeyword("charset") ||
+        reader.acceptKeyword("collate") ||
+        reader.acceptKeyword("srid") ||
+        reader.acceptKeyword("column_format") ||
+        reader.acceptKeyword("storage")
+      ) {
+        reader.acceptSymbol("=");
+        reader.next();
+      } else {
+        // VISIBLE, INVISIBLE, ENFORCED, ...
+        reader.next();
+      }
+    }
+
+    if (isDefaultAnExpression) {
+      internal.tables![table.name] ??= { columns: {} };
+      internal.tables![table.name]!.columns[name] = {
+        isDefaultAnExpression: true,
+      };
+    }
+
+    table.columns[name] = column;
+  };
+
+  const createTable = (reader: Reader) => {
+    reader.acceptKeyword("if", "not", "exists");
+    const name = reader.readQualifiedName();
+
+    // CREATE TABLE ... LIKE / AS SELECT can't be resolved without a database
+    if (!reader.isSymbol("(")) {
+      return;
+    }
+
+    const table: Table = {
+      name: name.name,
+      schema: name.schema,
+      columns: {},
+      indexes: {},
+      foreignKeys: {},
+      compositePrimaryKeys: {},
+      uniqueConstraints: {},
+      checkConstraints: {},
+      relations: [],
+    };
+
+    reader.expectSymbol("(");
+
+    do {
+      if (!readConstraint(reader, table)) {
+        readColumn(reader, table);
+      }
+    } while (reader.acceptSymbol(","));
+
+    reader.expectSymbol(")");
+
+    while (!reader.isDone()) {
+      if (reader.acceptKeyword("comment")) {
+        reader.acceptSymbol("=");
+        table.description = reader.next().value;
+        continue;
+      }
+
+      reader.next();
+    }
+
+    if (name.schema) {
+      schemas.add(name.schema);
+    }
+
+    tables[keyOf(name)] = table;
+  };
+
+  const createIndex = (reader: Reader) => {
+    const isUnique = reader.acceptKeyword("unique");
+    reader.acceptKeyword("fulltext") || reader.acceptKeyword("spatial");
+    reader.expectKeyword("index");
+    const name = reader.readName();
+    let using = readIndexUsing(reader);
+    reader.expectKeyword("on");
+    const table = findTable(reader, reader.readQualifiedName());
+    const parts = reader.readKeyParts();
+
+    while (!reader.isDone()) {
+      using = readIndexUsing(reader) ?? using;
+
+      if (!reader.isDone()) {
+        reader.next();
+      }
+    }
+
+    addIndex(table, name, parts, { isUnique, using });
+  };
+
+  const alterTable = (reader: Reader) => {
+    const table = findTable(reader, reader.readQualifiedName());
+
+    do {
+      if (!reader.acceptKeyword("add")) {
+        // only additions are supported, other alterations are ignored
+        reader.skipUntil(",");
+        continue;
+      }
+
+      if (!readConstraint(reader, table)) {
+        reader.acceptKeyword("column");
+        readColumn(reader, table);
+      }
+
+      reader.skipUntil(",");
+    } while (reader.acceptSymbol(","));
+  };
+
+  const createView = (reader: Reader) => {
+    let algorithm: View["algorithm"] = "undefined";
+    let sqlSecurity: View["sqlSecurity"] = "definer";
+
+    while (!reader.acceptKeyword("view")) {
+      if (reader.acceptKeyword("algorithm")) {
+        reader.expectSymbol("=");
+        algorithm = reader.readName().toLowerCase() as View["algorithm"];
+      } else if (reader.acceptKeyword("sql", "security")) {
+        sqlSecurity = reader.readName().toLowerCase() as View["sqlSecurity"];
+      } else {
+        // OR REPLACE, DEFINER = user@host
+        reader.next();
+      }
+    }
+
+    const name = reader.readQualifiedName();
+    const columnNames = reader.isSymbol("(")
+      ? reader.readNameList()
+      : undefined;
+    reader.expectKeyword("as");
+
+    let end = reader.tokens.length;
+    let withCheckOption: View["withCheckOption"];
+    const tail = reader.tokens
+      .slice(-4)
+      .map((it) => it.value.toLowerCase())
+      .join(" ");
+
+    if (tail.endsWith("check option")) {
+      const match = tail.match(/with (cascaded |local )?check option$/)!;
+      withCheckOption = (match[1]?.trim() ??
+        "cascaded") as View["withCheckOption"];
+      end -= match[1] ? 4 : 3;
+    }
+
+    // drizzle-kit wraps the definition in parentheses, e.g. `AS (select ...)`
+    const isWrapped =
+      reader.isSymbol("(") &&
+      reader.isSymbol(")", reader.tokens[end - 1]) &&
+      reader.tokens
+        .slice(reader.position + 1, end - 1)
+        .reduce(
+          (depth, token) =>
+            depth < 0
+              ? depth
+              : depth +
+                Number(reader.isSymbol("(", token)) -
+                Number(reader.isSymbol(")", token)),
+          0,
+        ) === 0;
+    const definition = isWrapped
+      ? reader.readParenthesized()
+      : reader.rest(end);
+
+    views[keyOf(name)] = {
+      name: name.name,
+      schema: name.schema,
+      columns: inferViewColumns(definition, tables, columnNames),
+      definition,
+      algorithm,
+      sqlSecurity,
+      withCheckOption,
+      isExisting: false,
+    };
+  };
+
+  const drop = (reader: Reader, target: Record<string, unknown>) => {
+    reader.acceptKeyword("if", "exists");
+
+    do {
+      delete target[keyOf(reader.readQualifiedName())];
+    } while (reader.acceptSymbol(","));
+  };
+
+  for (const statement of splitStatements(tokenize(sqlDump))) {
+    const reader = createReader(sqlDump, statement);
+
+    if (reader.acceptKeyword("create")) {
+      reader.acceptKeyword("or", "replace");
+      reader.acceptKeyword("temporary");
+
+      if (reader.acceptKeyword("table")) {
+        createTable(reader);
+      } else if (
+        reader.isKeyword("index") ||
+        reader.isKeyword("unique") ||
+        reader.isKeyword("fulltext") ||
+        reader.isKeyword("spatial")
+      ) {
+        createIndex(reader);
+      } else if (
+        reader.tokens.some(
+          (token) =>
+            token.type === "word" && token.value.toLowerCase() === "view",
+        ) &&
+        !reader.isKeyword("trigger") &&
+        !reader.isKeyword("procedure") &&
+        !reader.isKeyword("function") &&
+        !reader.isKeyword("event")
+      ) {
+        createView(reader);
+      }
+    } else if (reader.acceptKeyword("alter", "table")) {
+      alterTable(reader);
+    } else if (reader.acceptKeyword("drop", "table")) {
+      drop(reader, tables);
+    } else if (reader.acceptKeyword("drop", "view")) {
+      drop(reader, views);
+    }
+  }
+
+  for (const table of Object.values(tables)) {
+    // in MySQL a foreign key creates an index with the same name, the introspection skips it
+    for (const name of Object.keys(table.foreignKeys)) {
+      delete table.indexes[name];
+    }
+  }
+
+  return {
+    version: "5",
+    dialect: "mysql",
+    tables,
+    views,
+    _meta: {
+      tables: {},
+      columns: {},
+    },
+    internal,
+    projectId: "drizzle-lab",
+    schemas: Object.fromEntries([...schemas].map((it) => [it, it])),
+  };
+}
+
+/**
+ * Infer the columns of a view from the columns it selects, e.g. `select users.id, name as full_name from users`
+ */
+function inferViewColumns(
+  definition: string,
+  tables: Record<string, Table>,
+  columnNames?: string[],
+) {
+  const tokens = tokenize(definition);
+  const columns: Record<string, Column> = {};
+  const isName = (token?: Token) =>
+    token?.type === "word" || token?.type === "quoted";
+  const isWord = (token: Token | undefined, ...words: string[]) =>
+    token?.type === "word" && words.includes(token.value.toLowerCase());
+  const isSymbol = (token: Token | undefined, value: string) =>
+    token?.type === "symbol" && token.value === value;
+
+  if (!isWord(tokens[0], "select")) {
+    return columns;
+  }
+
+  // split the select list and the `FROM` clause, outside of parentheses
+  const items: Token[][] = [[]];
+  let fromIndex = tokens.length;
+
+  for (
+    let index = isWord(tokens[1], "distinct") ? 2 : 1, depth = 0;
+    index < tokens.length;
+    index++
+  ) {
+    const token = tokens[index];
+    depth += Number(isSymbol(token, "(")) - Number(isSymbol(token, ")"));
+
+    if (depth === 0 && isWord(token, "from")) {
+      fromIndex = index;
+      break;
+    }
+
+    if (depth === 0 && isSymbol(token, ",")) {
+      items.push([]);
+      continue;
+    }
+
+    items.at(-1)!.push(token);
+  }
+
+  const sources = new Map<string, Table>();
+  let expectsSource = true;
+
+  for (let index = fromIndex + 1; index < tokens.length; index++) {
+    const token = tokens[index];
+
+    if (isWord(token, "join", "straight_join") || isSymbol(token, ",")) {
+      expectsSource = true;
+      continue;
+    }
+
+    if (
+      !expectsSource ||
+      !isName(token) ||
+      clauseKeywords.has(token.value.toLowerCase())
+    ) {
+      continue;
+    }
+
+    expectsSource = false;
+
+    // qualified name, e.g. `db`.`table`
+    if (isSymbol(tokens[index + 1], ".") && isName(tokens[index + 2])) {
+      index += 2;
+    }
+
+    const name = tokens[index].value;
+    const table =
+      tables[name] ?? Object.values(tables).find((it) => it.name === name);
+
+    if (!table) {
+      continue;
+    }
+
+    sources.set(name, table);
+
+    if (isWord(tokens[index + 1], "as")) {
+      index++;
+    }
+
+    const alias = tokens[index + 1];
+
+    if (isName(alias) && !clauseKeywords.has(alias.value.toLowerCase())) {
+      sources.set(alias.value, table);
+      index++;
+    }
+  }
+
+  let position = 0;
+
+  const addColumn = (column: Column, alias?: string) => {
+    const name = columnNames?.[position] ?? alias ?? column.name;
+    position++;
+    columns[name] = {
+      name,
+      type: column.type,
+      primaryKey: false,
+      notNull: column.notNull,
+      autoincrement: false,
+      enumValues: column.enumValues,
+      description: column.description,
+    };
+  };
+
+  for (const item of items) {
+    let expression = item;
+    let alias: string | undefined;
+
+    if (isWord(item.at(-2), "as") && isName(item.at(-1))) {
+      expression = item.slice(0, -2);
+      alias = item.at(-1)!.value;
+    } else if (item.length > 1 && isName(item.at(-1)) && isName(item.at(-2))) {
+      expression = item.slice(0, -1);
+      alias = item.at(-1)!.value;
+    }
+
+    const [first, second, third] = expression;
+    const isQualified =
+      expression.length === 3 && isName(first) && isSymbol(second, ".");
+    const column = isQualified
+      ? third
+      : expression.length === 1
+        ? first
+        : undefined;
+    const candidates = isQualified
+      ? [sources.get(first.value)].filter((it) => it !== undefined)
+      : [...new Set(sources.values())];
+
+    if (isSymbol(column, "*")) {
+      for (const source of candidates) {
+        Object.values(source.columns).forEach((it) => addColumn(it));
+      }
+      continue;
+    }
+
+    const source = isName(column)
+      ? candidates.find((it) => it.columns[column!.value])
+      : undefined;
+
+    if (source) {
+      addColumn(source.columns[column!.value], alias);
+    } else {
+      // computed column, its type can't be inferred without a database
+      position++;
+    }
+  }
+
+  return columns;
+}
@@ -12,6 +12,7 @@ import {
 } from "zod";
 
 import { projectId } from "../config/schema";
+import { explainMetadata } from "../internal/explain";
 import { mapValues, originUUID } from "../internal/global";
 import { relation } from "../internal/relations";
 
@@ -25,6 +26,8 @@ const index = object({
   using: enumType(["btree", "hash"]).optional(),
   algorithm: enumType(["default", "inplace", "copy"]).optional(),
   lock: enumType(["default", "none", "shared", "exclusive"]).optional(),
+  /* lab extension */
+  description: string().optional(),
 }).strict();
 
 const fk = object({
@@ -55,6 +58,7 @@ const column = object({
   defaultFn: string().optional(),
   onUpdateFn: string().optional(),
   description: string().optional(),
+  ...explainMetadata.shape,
   jsonShape: string().optional(),
 }).strict();
 
@@ -100,6 +104,7 @@ const table = object({
   schema: string(),
   relations: array(relation).default([]),
   description: string().optional(),
+  ...explainMetadata.shape,
 }).strict();
 
 const viewMeta = object({
@@ -116,6 +121,7 @@ export const view = object({
   isExisting: boolean(),
   /* lab extension */
   description: string().optional(),
+  ...explainMetadata.shape,
 })
   .strict()
   .merge(viewMeta);
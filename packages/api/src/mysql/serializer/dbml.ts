@@ -0,0 +1,214 @@
+import { parseDbml, type DbmlValue } from "../../internal/dbml-parser";
+import { relationsToTypeScript } from "../../relations/typescript";
+import type { MySqlKitInternals, Snapshot, Table } from "../schema";
+import { snapshotToTypeScript } from "./typescript";
+
+const typeAliases: Record<string, string> = {
+  integer: "int",
+  int4: "int",
+  int2: "smallint",
+  int8: "bigint",
+  bool: "boolean",
+  float4: "float",
+  float8: "double",
+  "double precision": "double",
+  numeric: "decimal",
+  "character varying": "varchar",
+  timestamptz: "timestamp",
+  string: "varchar",
+};
+
+/**
+ * Map DBML types to the names returned by the introspection, e.g. `integer` -> `int`
+ */
+function normalizeType(type: string) {
+  const [, base = type, args = ""] =
+    type.trim().match(/^(.+?)\s*(\(.*\))?$/) ?? [];
+
+  return `${typeAliases[base.toLowerCase()] ?? base.toLowerCase()}${args.replace(/\s+/g, "")}`;
+}
+
+function toDefault(value: DbmlValue, type: string) {
+  switch (value.kind) {
+    case "string":
+      return `'${value.value.replaceAll("'", "''")}'`;
+    case "number":
+      return ["decimal", "char", "varchar"].some((it) => type.startsWith(it))
+        ? `'${value.value}'`
+        : Number(value.value);
+    case "boolean":
+      return value.value === "true";
+    case "null":
+      return "NULL";
+    default:
+      return `(${value.value})`;
+  }
+}
+
+/**
+ * Convert a DBML document to a Drizzle snapshot, without a database
+ *
+ * Supports tables, enums (inlined in the columns), indexes, composite primary keys, notes and references.
+ *
+ * @param dbml - DBML document
+ * @returns Drizzle snapshot
+ * @throws If the document is not valid DBML
+ */
+export function dbmlToSnapshot(dbml: string): Snapshot {
+  const { enums, tables, references } = parseDbml(dbml);
+  const internal: NonNullable<MySqlKitInternals> = {
+    tables: {},
+    indexes: {},
+  };
+  const schemas = new Set<string>();
+  const result: Record<string, Table> = {};
+
+  for (const dbmlTable of tables) {
+    const schema = dbmlTable.schema ?? "";
+    const table: Table = {
+      name: dbmlTable.name,
+      schema,
+      columns: {},
+      indexes: {},
+      foreignKeys: {},
+      compositePrimaryKeys: {},
+      uniqueConstraints: {},
+      checkConstraints: {},
+      relations: [],
+      description: dbmlTable.note,
+    };
+
+    if (schema) {
+      schemas.add(schema);
+    }
+
+    for (const column of dbmlTable.columns) {
+      const enumType = enums.find((it) =>
+        [it.name, `${it.schema}.${it.name}`].includes(column.type),
+      );
+      const type = enumType
+        ? `enum(${enumType.values.map((it) => `'${it.replaceAll("'", "''")}'`).join(",")})`
+        : normalizeType(column.type);
+
+      if (column.default?.kind === "expression") {
+        internal.tables![table.name] ??= { columns: {} };
+        internal.tables![table.name]!.columns[column.name] = {
+          isDefaultAnExpression: true,
+        };
+      }
+
+      table.columns[column.name] = {
+        name: column.name,
+        type,
+        primaryKey: column.primaryKey,
+        notNull: column.notNull,
+        autoincrement: column.increment,
+        default: column.default ? toDefault(column.default, type) : undefined,
+        enumValues: enumType?.values,
+        description: column.note,
+      };
+
+      if (column.unique) {
+        const name = `${table.name}_${column.name}_unique`;
+        table.uniqueConstraints[name] = { name, columns: [column.name] };
+      }
+    }
+
+    for (const index of dbmlTable.indexes) {
+      const columns = index.columns.map((it) => it.value);
+
+      if (index.primaryKey) {
+        const name = index.name ?? `${table.name}_${columns.join("_")}_pk`;
+        table.compositePrimaryKeys[name] = { name, columns };
+        continue;
+      }
+
+      const name =
+        index.name ??
+        `${table.name}_${columns.join("_").replace(/\W+/g, "_").replace(/_$/, "")}_index`;
+      table.indexes[name] = {
+        name,
+        columns,
+        isUnique: index.unique,
+        using: index.type === "hash" ? "hash" : undefined,
+      };
+
+      if (index.columns.some((it) => it.isExpression)) {
+        internal.indexes![name] = {
+          columns: Object.fromEntries(
+            index.columns.map((it) => [
+              it.value,
+              { isExpression: it.isExpression },
+            ]),
+          ),
+        };
+      }
+    }
+
+    result[schema ? `${schema}.${table.name}` : table.name] = table;
+  }
+
+  for (const reference of references) {
+    const table =
+      result[
+        reference.schemaFrom
+          ? `${reference.schemaFrom}.${reference.tableFrom}`
+          : reference.tableFrom
+      ];
+
+    if (!table) {
+      throw new Error(
+        `Invalid DBML: reference to unknown table \`${reference.tableFrom}\``,
+      );
+    }
+
+    const name =
+      reference.name ??
+      `${reference.tableFrom}_${reference.columnsFrom.join("_")}_${reference.tableTo}_${reference.columnsTo.join("_")}_fk`;
+
+    table.foreignKeys[name] = {
+      name,
+      tableFrom: reference.tableFrom,
+      columnsFrom: reference.columnsFrom,
+      tableTo: reference.tableTo,
+      schemaTo: reference.schemaTo,
+      columnsTo: reference.columnsTo,
+      onDelete: reference.onDelete ?? "no action",
+      onUpdate: reference.onUpdate ?? "no action",
+    };
+  }
+
+  return {
+    version: "5",
+    dialect: "mysql",
+    tables: result,
+    views: {},
+    _meta: {
+      tables: {},
+      columns: {},
+    },
+    internal,
+    schemas: Object.fromEntries([...schemas].map((it) => [it, it])),
+    projectId: "drizzle-lab",
+  };
+}
+
+/**
+ * Convert a DBML document to a Drizzle schema and its relations
+ * @param dbml - DBML document
+ * @returns The TypeScript files, `relations` is empty if there are no references
+ */
+export function dbmlToTypescript(dbml: string) {
+  const snapshot = dbmlToSnapshot(dbml);
+  const { file } = snapshotToTypeScript(snapshot, "preserve");
+  const hasReferences = Object.values(snapshot.tables).some(
+    (table) => Object.keys(table.foreignKeys).length > 0,
+  );
+
+  return {
+    schema: file,
+    relations: hasReferences
+      ? relationsToTypeScript(snapshot, "preserve").file
+      : "",
+  };
+}
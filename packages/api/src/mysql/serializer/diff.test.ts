@@ -0,0 +1,182 @@
+import { eq } from "drizzle-orm";
+import {
+  index,
+  int,
+  mysqlEnum,
+  mysqlTable,
+  mysqlView,
+  varchar,
+} from "drizzle-orm/mysql-core";
+import { expect, test } from "vitest";
+
+import { diffSnapshots, generateRollback } from "./diff";
+import { schemaToSnapshot } from "./snapshot";
+import type { ExplainMetadata } from "../../extensions/drizzle.lab";
+import { explain } from "../../extensions/explain";
+
+const empty = schemaToSnapshot({});
+const v1 = schemaToSnapshot({
+  users: mysqlTable(
+    "users",
+    { id: int().primaryKey(), name: varchar({ length: 50 }) },
+    (table) => ({ nameIdx: index("users_name_idx").on(table.name) }),
+  ),
+});
+const v2 = schemaToSnapshot({
+  users: mysqlTable("users", {
+    id: int().primaryKey(),
+    name: varchar({ length: 100 }).notNull(),
+    email: varchar({ length: 255 }),
+  }),
+});
+const renamed = schemaToSnapshot({
+  customers: mysqlTable("customers", {
+    id: int().primaryKey(),
+    fullName: varchar({ length: 50 }),
+  }),
+});
+
+test("Identical snapshots produce no statements", () => {
+  expect(diffSnapshots(v1, v1).sqlStatements).toEqual([]);
+});
+
+test("Create tables and their indexes", () => {
+  expect(diffSnapshots(empty, v1).sqlStatements).toEqual([
+    "CREATE TABLE `users` (\n\t`id` int NOT NULL,\n\t`name` varchar(50),\n\tCONSTRAINT `users_id` PRIMARY KEY(`id`)\n);\n",
+    "CREATE INDEX users_name_idx ON `users` (`name`);",
+  ]);
+});
+
+test("Alter columns, add columns and drop indexes", () => {
+  expect(diffSnapshots(v1, v2).sqlStatements).toEqual([
+    "DROP INDEX `users_name_idx` ON `users`;",
+    "ALTER TABLE `users` ADD `email` varchar(255);",
+    "ALTER TABLE `users` MODIFY COLUMN `name` varchar(100) NOT NULL;",
+  ]);
+});
+
+test("Rename tables and columns with rename hints", () => {
+  expect(
+    diffSnapshots(v1, renamed, {
+      renames: ["users->customers", "customers.name->customers.fullName"],
+    }).sqlStatements,
+  ).toEqual([
+    "RENAME TABLE `users` TO `customers`;",
+    "DROP INDEX `users_name_idx` ON `customers`;",
+    "ALTER TABLE `customers` RENAME COLUMN `name` TO `fullName`;",
+  ]);
+  // without hints, the table is dropped and re-created
+  expect(diffSnapshots(v1, renamed).sqlStatements).toContain(
+    "DROP TABLE `users`;",
+  );
+});
+
+test("Drop tables", () => {
+  expect(diffSnapshots(v1, empty).sqlStatements).toEqual([
+    "DROP TABLE `users`;",
+  ]);
+});
+
+function usersSchema(metadata: ExplainMetadata = {}) {
+  const users = mysqlTable("users", {
+    id: int().primaryKey(),
+    email: varchar({ length: 255 }).notNull(),
+  });
+  const activeUsers = mysqlView("active_users").as((qb) =>
+    qb.select().from(users).where(eq(users.id, 1)),
+  );
+
+  explain(users, {
+    ...metadata,
+    description: "Users of the app",
+    columns: { email: { description: "Login email", ...metadata } },
+  });
+  explain(activeUsers, { ...metadata, description: "Active users" });
+
+  return { users, activeUsers };
+}
+
+test("Explain metadata only changes produce no statements", () => {
+  const prev = schemaToSnapshot(usersSchema());
+  const next = schemaToSnapshot(
+    usersSchema({
+      tags: ["auth"],
+      owner: "team-identity",
+      sensitivity: "pii",
+      deprecated: "Use accounts",
+      examples: ["jane@example.com"],
+    }),
+  );
+
+  expect(next.tables["users"].columns.email.sensitivity).toBe("pii");
+  expect(next.views["active_users"].tags).toEqual(["auth"]);
+  expect(diffSnapshots(prev, next).sqlStatements).toEqual([]);
+});
+
+function postsSchema(description?: string) {
+  const posts = mysqlTable(
+    "posts",
+    {
+      id: int().primaryKey(),
+      authorId: int().notNull(),
+    },
+    (table) => ({
+      authorIdx: explain(index("posts_author_idx").on(table.authorId), {
+        description,
+      }),
+    }),
+  );
+
+  return { posts };
+}
+
+test("Index description only changes produce no statements", () => {
+  const prev = schemaToSnapshot(postsSchema());
+  const next = schemaToSnapshot(postsSchema("Posts of an author"));
+
+  expect(next.tables.posts.indexes.posts_author_idx.description).toBe(
+    "Posts of an author",
+  );
+  expect(diffSnapshots(prev, next).sqlStatements).toEqual([]);
+});
+
+test("Roll back created indexes, dropped columns and altered columns", () => {
+  expect(generateRollback(v1, v2).sqlStatements).toEqual([
+    "ALTER TABLE `users` DROP COLUMN `email`;",
+    "ALTER TABLE `users` MODIFY COLUMN `name` varchar(50);",
+    "CREATE INDEX users_name_idx ON `users` (`name`);",
+  ]);
+});
+
+test("Roll back dropped columns and enum values", () => {
+  const prev = schemaToSnapshot({
+    users: mysqlTable("users", {
+      id: int().primaryKey(),
+      mood: mysqlEnum(["sad", "ok", "happy"]),
+      status: varchar({ length: 20 }).notNull().default("active"),
+    }),
+  });
+  const next = schemaToSnapshot({
+    users: mysqlTable("users", {
+      id: int().primaryKey(),
+      mood: mysqlEnum(["sad", "ok"]),
+    }),
+  });
+
+  expect(generateRollback(prev, next).sqlStatements).toEqual([
+    "ALTER TABLE `users` ADD `status` varchar(20) NOT NULL DEFAULT 'active';",
+    "ALTER TABLE `users` MODIFY COLUMN `mood` enum('sad','ok','happy');",
+  ]);
+});
+
+test("Roll back renames with the inverted rename hints", () => {
+  expect(
+    generateRollback(v1, renamed, {
+      renames: ["users->customers", "customers.name->customers.fullName"],
+    }).sqlStatements,
+  ).toEqual([
+    "RENAME TABLE `customers` TO `users`;",
+    "ALTER TABLE `users` RENAME COLUMN `fullName` TO `name`;",
+    "CREATE INDEX users_name_idx ON `users` (`name`);",
+  ]);
+});
@@ -0,0 +1,475 @@
+import {
+  diffRecords,
+  invertRenames,
+  isDeepEqual,
+  omitLabColumnFields,
+  parseRenames,
+  scopeRenames,
+  type DiffOptions,
+} from "../../internal/diff";
+import {
+  prepareAlterColumnsJson,
+  prepareDropTableJson,
+  prepareRenameTableJson,
+} from "../../sql/alter-statements";
+import {
+  prepareCreateIndexesJson,
+  prepareCreateReferencesJson,
+  prepareCreateSchemasJson,
+  prepareMySqlCreateTableJson,
+  prepareMySqlCreateViewJson,
+  type JsonStatement,
+} from "../../sql/create-statements";
+import { generateSql } from "../../sql/generator";
+import {
+  MySqlSquasher,
+  squashSnapshot,
+  type Snapshot,
+  type Table,
+} from "../schema";
+
+/**
+ * Compare two snapshots and generate the statements to migrate the database from `prev` to `next`
+ * @param prev - Snapshot of the current database
+ * @param next - Snapshot of the desired database
+ * @param options - Diff options
+ * @returns JSON statements and SQL statements
+ */
+export function diffSnapshots(
+  prev: Snapshot,
+  next: Snapshot,
+  options: DiffOptions = {},
+) {
+  return generateMySqlMigration(prev, next, options);
+}
+
+/**
+ * Generate the statements to roll back a migration from `prev` to `next`, i.e. to migrate the database from `next` back to `prev`
+ *
+ * Created objects are dropped, dropped objects are re-created from `prev` (columns keep their original type and default) and altered objects are restored.
+ * Data of dropped tables and columns can't be restored.
+ *
+ * @param prev - Snapshot of the database before the migration
+ * @param next - Snapshot of the database after the migration
+ * @param options - Diff options of the forward migration, renames are inverted
+ * @returns JSON statements and SQL statements
+ */
+export function generateRollback(
+  prev: Snapshot,
+  next: Snapshot,
+  options: DiffOptions = {},
+) {
+  return generateMySqlMigration(next, prev, {
+    ...options,
+    renames: invertRenames(options.renames),
+  });
+}
+
+const generateMySqlMigration = (
+  prev: Snapshot,
+  next: Snapshot,
+  options: DiffOptions,
+): {
+  statements: JsonStatement[];
+  sqlStatements: string[];
+} => {
+  const renames = parseRenames(options.renames);
+  const squashedPrev = squashSnapshot(prev);
+  const squashedNext = squashSnapshot(next);
+  const statements: JsonStatement[] = [];
+
+  /* -------------------------------- Schemas; -------------------------------- */
+  const schemasDiff = diffRecords(prev.schemas, next.schemas);
+
+  statements.push(...prepareCreateSchemasJson(schemasDiff.added));
+
+  /* ------------------------------ Drop views; ------------------------------- */
+  const viewsDiff = diffRecords(prev.views, next.views, renames);
+
+  for (const key of viewsDiff.deleted) {
+    const { name, schema, isExisting } = prev.views[key];
+
+    if (!isExisting) {
+      statements.push({ type: "drop_view", name, schema });
+    }
+  }
+
+  /* --------------------------------- Tables; -------------------------------- */
+  const tablesDiff = diffRecords(prev.tables, next.tables, renames);
+
+  for (const { from, to } of tablesDiff.renamed) {
+    statements.push(prepareRenameTableJson(prev.tables[from], next.tables[to]));
+  }
+
+  const dropConstraints: JsonStatement[] = [];
+  const alterColumns: JsonStatement[] = [];
+  const createConstraints: JsonStatement[] = [];
+
+  for (const { from, to } of [
+    ...tablesDiff.renamed,
+    ...tablesDiff.common.map((key) => ({ from: key, to: key })),
+  ]) {
+    const prevTable = prev.tables[from];
+    const nextTable = next.tables[to];
+    const { name: tableName, schema } = nextTable;
+
+    /* ------------------------------- Columns; ------------------------------- */
+    const columnsDiff = diffRecords(
+      prevTable.columns,
+      nextTable.columns,
+      scopeRenames(renames, to),
+    );
+
+    for (const {
+      from: oldColumnName,
+      to: newColumnName,
+    } of columnsDiff.renamed) {
+      alterColumns.push({
+        type: "alter_table_rename_column",
+        tableName,
+        oldColumnName,
+        newColumnName,
+        schema,
+      });
+    }
+
+    for (const name of columnsDiff.deleted) {
+      alterColumns.push({
+        type: "alter_table_drop_column",
+        tableName,
+        columnName: name,
+        schema,
+      });
+    }
+
+    const addColumn = (name: string) =>
+      alterColumns.push({
+        type: "alter_table_add_column",
+        tableName,
+        schema,
+        column: nextTable.columns[name],
+      });
+
+    for (const name of columnsDiff.added) {
+      addColumn(name);
+    }
+
+    for (const { from: prevName, to: nextName } of [
+      ...columnsDiff.renamed,
+      ...columnsDiff.common.map((it) => ({ from: it, to: it })),
+    ]) {
+      const prevColumn = omitLabColumnFields({
+        ...prevTable.columns[prevName],
+        name: nextName,
+      });
+      const nextColumn = omitLabColumnFields(nextTable.columns[nextName]);
+
+      if (isDeepEqual(prevColumn, nextColumn)) {
+        continue;
+      }
+
+      // generated columns are dropped and added back
+      if (!isDeepEqual(prevColumn.generated, nextColumn.generated)) {
+        alterColumns.push({
+          type: "alter_table_drop_column",
+          tableName,
+          columnName: nextName,
+          schema,
+        });
+        addColumn(nextName);
+        continue;
+      }
+
+      alterColumns.push(
+        ...prepareAlterColumnsJson(
+          tableName,
+          schema,
+          prevColumn,
+          nextTable.columns[nextName],
+        ),
+      );
+    }
+
+    /* ----------------------------- Constraints; ----------------------------- */
+    diffTableConstraints(
+      { ...prevTable, name: tableName },
+      nextTable,
+      squashedPrev.tables[from].indexes,
+      squashedNext.tables[to].indexes,
+      next,
+      { dropConstraints, createConstraints },
+    );
+  }
+
+  statements.push(...dropConstraints);
+
+  for (const key of tablesDiff.added) {
+    const table = squashedNext.tables[key];
+
+    statements.push(prepareMySqlCreateTableJson(table, next, next.internal));
+    createConstraints.push(
+      ...prepareCreateReferencesJson(
+        table.name,
+        table.schema,
+        table.foreignKeys,
+      ),
+      ...prepareCreateIndexesJson(
+        table.name,
+        table.schema,
+        table.indexes,
+        next.internal,
+      ),
+    );
+  }
+
+  statements.push(...alterColumns);
+  statements.push(...createConstraints);
+
+  for (const key of tablesDiff.deleted) {
+    statements.push(prepareDropTableJson(prev.tables[key]));
+  }
+
+  /* --------------------------------- Views; -------------------------------- */
+  for (const { from, to } of viewsDiff.renamed) {
+    const prevView = prev.views[from];
+    const nextView = next.views[to];
+
+    if (prevView.isExisting || nextView.isExisting) {
+      continue;
+    }
+
+    statements.push({
+      type: "rename_view",
+      nameFrom: prevView.name,
+      nameTo: nextView.name,
+      schema: prevView.schema,
+    });
+  }
+
+  for (const key of viewsDiff.added) {
+    const view = squashedNext.views[key];
+
+    if (!view.isExisting) {
+      statements.push(
+        prepareMySqlCreateViewJson(
+          view.name,
+          view.schema,
+          view.definition!,
+          view.meta,
+        ),
+      );
+    }
+  }
+
+  for (const { from, to } of [
+    ...viewsDiff.renamed,
+    ...viewsDiff.common.map((key) => ({ from: key, to: key })),
+  ]) {
+    const prevView = squashedPrev.views[from];
+    const view = squashedNext.views[to];
+
+    if (
+      view.isExisting ||
+      (prevView.definition === view.definition && prevView.meta === view.meta)
+    ) {
+      continue;
+    }
+
+    statements.push(
+      prepareMySqlCreateViewJson(
+        view.name,
+        view.schema,
+        view.definition!,
+        view.meta,
+        true,
+      ),
+    );
+  }
+
+  /* ------------------------------ Drop objects; ----------------------------- */
+  for (const name of schemasDiff.deleted) {
+    statements.push({ type: "drop_schema", name });
+  }
+
+  /* -------------------------------- Compose; -------------------------------- */
+
+  const sqlStatements = [...new Set(generateSql(statements, "mysql"))];
+
+  return {
+    statements,
+    sqlStatements,
+  };
+};
+
+/**
+ * Changed indexes, foreign keys and constraints are dropped and re-created
+ */
+function diffTableConstraints(
+  prevTable: Table,
+  nextTable: Table,
+  prevIndexes: Record<string, string>,
+  nextIndexes: Record<string, string>,
+  next: Snapshot,
+  output: {
+    dropConstraints: JsonStatement[];
+    createConstraints: JsonStatement[];
+  },
+) {
+  const { name: tableName, schema } = nextTable;
+  const { dropConstraints, createConstraints } = output;
+  const changed = <T>(
+    prevRecord: Record<string, T>,
+    nextRecord: Record<string, T>,
+  ) => {
+    const { added, deleted, common } = diffRecords(prevRecord, nextRecord);
+    const altered = common.filter(
+      (key) => !isDeepEqual(prevRecord[key], nextRecord[key]),
+    );
+
+    return {
+      dropped: [...deleted, ...altered],
+      created: [...added, ...altered],
+    };
+  };
+
+  // indexes
+  const indexes = changed(prevIndexes, nextIndexes);
+
+  for (const name of indexes.dropped) {
+    dropConstraints.push({
+      type: "drop_index",
+      tableName,
+      data: prevIndexes[name],
+      schema,
+    });
+  }
+
+  createConstraints.push(
+    ...prepareCreateIndexesJson(
+      tableName,
+      schema,
+      Object.fromEntries(
+        indexes.created.map((name) => [name, nextIndexes[name]]),
+      ),
+      next.internal,
+    ),
+  );
+
+  // foreign keys
+  const foreignKeys = changed(
+    Object.fromEntries(
+      Object.entries(prevTable.foreignKeys).map(([name, fk]) => [
+        name,
+        { ...fk, tableFrom: tableName },
+      ]),
+    ),
+    nextTable.foreignKeys,
+  );
+
+  for (const name of foreignKeys.dropped) {
+    dropConstraints.push({
+      type: "delete_reference",
+      tableName,
+      data: MySqlSquasher.squashFK(prevTable.foreignKeys[name]),
+      schema,
+    });
+  }
+
+  createConstraints.push(
+    ...prepareCreateReferencesJson(
+      tableName,
+      schema,
+      Object.fromEntries(
+        foreignKeys.created.map((name) => [
+          name,
+          MySqlSquasher.squashFK(nextTable.foreignKeys[name]),
+        ]),
+      ),
+    ),
+  );
+
+  // unique constraints
+  const uniqueConstraints = changed(
+    prevTable.uniqueConstraints,
+    nextTable.uniqueConstraints,
+  );
+
+  for (const name of uniqueConstraints.dropped) {
+    dropConstraints.push({
+      type: "delete_unique_constraint",
+      tableName,
+      data: MySqlSquasher.squashUnique(prevTable.uniqueConstraints[name]),
+      schema,
+    });
+  }
+
+  for (const name of uniqueConstraints.created) {
+    createConstraints.push({
+      type: "create_unique_constraint",
+      tableName,
+      data: MySqlSquasher.squashUnique(nextTable.uniqueConstraints[name]),
+      schema,
+    });
+  }
+
+  // check constraints
+  const checkConstraints = changed(
+    prevTable.checkConstraints,
+    nextTable.checkConstraints,
+  );
+
+  for (const name of checkConstraints.dropped) {
+    dropConstraints.push({
+      type: "delete_check_constraint",
+      tableName,
+      constraintName: prevTable.checkConstraints[name].name,
+      schema,
+    });
+  }
+
+  for (const name of checkConstraints.created) {
+    createConstraints.push({
+      type: "create_check_constraint",
+      tableName,
+      data: MySqlSquasher.squashCheck(nextTable.checkConstraints[name]),
+      schema,
+    });
+  }
+
+  // composite primary keys (mysql names them all `PRIMARY`, only the columns matter)
+  const primaryKeyColumns = (table: Table) =>
+    Object.values(table.compositePrimaryKeys).map((pk) => pk.columns);
+
+  if (isDeepEqual(primaryKeyColumns(prevTable), primaryKeyColumns(nextTable))) {
+    return;
+  }
+
+  const compositePrimaryKeys = changed(
+    prevTable.compositePrimaryKeys,
+    nextTable.compositePrimaryKeys,
+  );
+
+  for (const name of compositePrimaryKeys.dropped) {
+    const pk = prevTable.compositePrimaryKeys[name];
+
+    dropConstraints.push({
+      type: "delete_composite_pk",
+      tableName,
+      data: MySqlSquasher.squashPK(pk),
+      schema,
+      constraintName: pk.name,
+    });
+  }
+
+  for (const name of compositePrimaryKeys.created) {
+    const pk = nextTable.compositePrimaryKeys[name];
+
+    createConstraints.push({
+      type: "create_composite_pk",
+      tableName,
+      data: MySqlSquasher.squashPK(pk),
+      schema,
+      constraintName: pk.name,
+    });
+  }
+}
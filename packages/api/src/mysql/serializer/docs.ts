@@ -0,0 +1,94 @@
+import {
+  dataDictionaryToHtml,
+  dataDictionaryToMarkdown,
+  formatDefault,
+  type DataDictionary,
+  type DataDictionaryEntity,
+} from "../../internal/docs";
+import type { Column, Snapshot } from "../schema";
+
+type DocsOptions = {
+  /** Title of the document, defaults to "Data dictionary" */
+  title?: string;
+};
+
+/**
+ * Convert snapshot to a Markdown data dictionary
+ * @param snapshot - Snapshot
+ * @param options - Docs options
+ * @returns Markdown
+ */
+export function snapshotToMarkdown(
+  snapshot: Snapshot,
+  options: DocsOptions = {},
+) {
+  return dataDictionaryToMarkdown(snapshotToDataDictionary(snapshot, options));
+}
+
+/**
+ * Convert snapshot to a standalone HTML data dictionary
+ * @param snapshot - Snapshot
+ * @param options - Docs options
+ * @returns HTML page
+ */
+export function snapshotToHtml(snapshot: Snapshot, options: DocsOptions = {}) {
+  return dataDictionaryToHtml(snapshotToDataDictionary(snapshot, options));
+}
+
+function toColumns(
+  columns: Record<string, Column>,
+): DataDictionaryEntity["columns"] {
+  return Object.values(columns).map((column) => ({
+    name: column.name,
+    type: column.type,
+    notNull: column.notNull,
+    primaryKey: column.primaryKey,
+    default: formatDefault(column),
+    generated: column.generated
+      ? `generated always as (${column.generated.as}) ${column.generated.type}`
+      : [
+          column.autoincrement ? "auto_increment" : "",
+          column.onUpdate ? "on update now()" : "",
+        ]
+          .filter(Boolean)
+          .join(", ") || undefined,
+    description: column.description,
+    jsonShape: column.jsonShape,
+    enumValues: column.enumValues,
+  }));
+}
+
+/**
+ * Dialect agnostic model of the snapshot, shared by the docs and diagram exporters
+ */
+export function snapshotToDataDictionary(
+  snapshot: Snapshot,
+  options: DocsOptions,
+): DataDictionary {
+  return {
+    title: options.title ?? "Data dictionary",
+    dialect: snapshot.dialect,
+    tables: Object.values(snapshot.tables).map((table) => ({
+      name: table.name,
+      schema: table.schema,
+      kind: "table",
+      description: table.description,
+      columns: toColumns(table.columns),
+      primaryKeys: Object.values(table.compositePrimaryKeys),
+      indexes: Object.values(table.indexes),
+      foreignKeys: Object.values(table.foreignKeys),
+      uniqueConstraints: Object.values(table.uniqueConstraints),
+      checkConstraints: Object.values(table.checkConstraints),
+      relations: table.relations,
+    })),
+    views: Object.values(snapshot.views).map((view) => ({
+      name: view.name,
+      schema: view.schema,
+      kind: "view",
+      description: view.description,
+      columns: toColumns(view.columns),
+      definition: view.definition,
+    })),
+    enums: [],
+  };
+}
@@ -0,0 +1,37 @@
+import { expect, test } from "vitest";
+
+import { prismaToSnapshot } from "./prisma";
+
+test("Convert a Prisma schema to a snapshot", () => {
+  const snapshot = prismaToSnapshot(`
+    enum Role {
+      ADMIN
+      MEMBER
+    }
+
+    model User {
+      id        Int      @id @default(autoincrement())
+      email     String   @unique @db.VarChar(191)
+      role      Role     @default(MEMBER)
+      active    Boolean  @default(true)
+      createdAt DateTime @default(now())
+    }
+  `);
+  const users = snapshot.tables.User;
+
+  expect(
+    Object.values(users.columns).map(({ name, type, default: value }) => ({
+      name,
+      type,
+      default: value,
+    })),
+  ).toEqual([
+    { name: "id", type: "int", default: undefined },
+    { name: "email", type: "varchar(191)", default: undefined },
+    { name: "role", type: "enum('ADMIN','MEMBER')", default: "'MEMBER'" },
+    { name: "active", type: "boolean", default: true },
+    { name: "createdAt", type: "datetime(3)", default: "now()" },
+  ]);
+  expect(users.columns.id.autoincrement).toBe(true);
+  expect(Object.keys(users.indexes)).toEqual(["User_email_key"]);
+});
@@ -0,0 +1,235 @@
+import {
+  parsePrisma,
+  type PrismaColumn,
+  type PrismaDefault,
+} from "../../internal/prisma-parser";
+import { relationsToTypeScript } from "../../relations/typescript";
+import type { MySqlKitInternals, Snapshot, Table } from "../schema";
+import { snapshotToTypeScript } from "./typescript";
+
+/**
+ * Types created by Prisma Migrate for the Prisma scalar types
+ */
+const scalarTypes: Record<string, string> = {
+  String: "varchar(191)",
+  Boolean: "boolean",
+  Int: "int",
+  BigInt: "bigint",
+  Float: "double",
+  Decimal: "decimal(65,30)",
+  DateTime: "datetime(3)",
+  Json: "json",
+  Bytes: "longblob",
+};
+
+const nativeTypes: Record<string, string> = {
+  UnsignedTinyInt: "tinyint unsigned",
+  UnsignedSmallInt: "smallint unsigned",
+  UnsignedMediumInt: "mediumint unsigned",
+  UnsignedInt: "int unsigned",
+  UnsignedBigInt: "bigint unsigned",
+};
+
+/**
+ * Map Prisma types to the names returned by the introspection, e.g. `@db.VarChar(255)` -> `varchar(255)`
+ */
+function toType(column: PrismaColumn) {
+  if (column.kind === "unsupported") {
+    return column.type;
+  }
+
+  if (!column.nativeType) {
+    return scalarTypes[column.type];
+  }
+
+  const { name, args } = column.nativeType;
+  const [base, ...suffix] = (nativeTypes[name] ?? name.toLowerCase()).split(
+    " ",
+  );
+
+  return [
+    `${base}${args.length > 0 ? `(${args.join(",")})` : ""}`,
+    ...suffix,
+  ].join(" ");
+}
+
+/**
+ * @returns The default and whether it is an expression, `undefined` for defaults handled by Prisma Client (e.g. `cuid()`)
+ */
+function toDefault(
+  value: PrismaDefault,
+  type: string,
+): [value: string | number | boolean, isExpression: boolean] | undefined {
+  switch (value.kind) {
+    case "string":
+      return [`'${value.value.replaceAll("'", "''")}'`, false];
+    case "number":
+      return [
+        ["decimal", "char", "varchar"].some((it) => type.startsWith(it))
+          ? `'${value.value}'`
+          : Number(value.value),
+        false,
+      ];
+    case "boolean":
+      return [value.value === "true", false];
+    case "list":
+      return undefined;
+  }
+
+  switch (value.value) {
+    case "now":
+      return ["now()", false];
+    case "uuid":
+      return ["(uuid())", true];
+    case "dbgenerated":
+      return value.args[0] ? [`(${value.args[0]})`, true] : undefined;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Convert a Prisma schema to a Drizzle snapshot, without a database
+ *
+ * Supports models, enums (inlined in the columns), native types, `@default` values, `@relation`s, implicit many-to-many relations, `@@id`, `@@unique` and `@@index`.
+ * Defaults handled by Prisma Client (`cuid()`, `nanoid()`, `@updatedAt`, ...) are dropped.
+ *
+ * @param prisma - Prisma schema (`schema.prisma`)
+ * @returns Drizzle snapshot
+ * @throws If the schema is not valid or uses scalar lists
+ */
+export function prismaToSnapshot(prisma: string): Snapshot {
+  const { enums, models, references } = parsePrisma(prisma);
+  const internal: NonNullable<MySqlKitInternals> = {
+    tables: {},
+    indexes: {},
+  };
+  const schemas = new Set<string>();
+  const result: Record<string, Table> = {};
+
+  for (const model of models) {
+    const schema = model.schema ?? "";
+    const table: Table = {
+      name: model.name,
+      schema,
+      columns: {},
+      indexes: {},
+      foreignKeys: {},
+      compositePrimaryKeys: {},
+      uniqueConstraints: {},
+      checkConstraints: {},
+      relations: [],
+      description: model.documentation,
+    };
+
+    if (schema) {
+      schemas.add(schema);
+    }
+
+    for (const column of model.columns) {
+      const enumType =
+        column.kind === "enum"
+          ? enums.find((it) => it.name === column.type)
+          : undefined;
+      const type = enumType
+        ? `enum(${enumType.values.map((it) => `'${it.replaceAll("'", "''")}'`).join(",")})`
+        : toType(column);
+      const defaultValue = column.default
+        ? toDefault(column.default, type)
+        : undefined;
+
+      if (column.isList) {
+        throw new Error(
+          `Invalid Prisma schema: scalar lists are not supported by mysql (\`${table.name}.${column.name}\`)`,
+        );
+      }
+
+      if (defaultValue?.[1]) {
+        internal.tables![table.name] ??= { columns: {} };
+        internal.tables![table.name]!.columns[column.name] = {
+          isDefaultAnExpression: true,
+        };
+      }
+
+      table.columns[column.name] = {
+        name: column.name,
+        type,
+        primaryKey: column.primaryKey,
+        notNull: column.notNull,
+        autoincrement: column.default?.value === "autoincrement",
+        default: defaultValue?.[0],
+        enumValues: enumType?.values,
+        description: column.documentation,
+      };
+    }
+
+    if (model.primaryKey) {
+      table.compositePrimaryKeys[model.primaryKey.name] = model.primaryKey;
+    }
+
+    for (const index of model.indexes) {
+      table.indexes[index.name] = {
+        name: index.name,
+        columns: index.columns.map((it) => it.name),
+        isUnique: index.unique,
+        using: index.type === "Hash" ? "hash" : undefined,
+      };
+    }
+
+    result[schema ? `${schema}.${table.name}` : table.name] = table;
+  }
+
+  for (const reference of references) {
+    const table =
+      result[
+        reference.schemaFrom
+          ? `${reference.schemaFrom}.${reference.tableFrom}`
+          : reference.tableFrom
+      ];
+
+    table.foreignKeys[reference.name] = {
+      name: reference.name,
+      tableFrom: reference.tableFrom,
+      columnsFrom: reference.columnsFrom,
+      tableTo: reference.tableTo,
+      schemaTo: reference.schemaTo,
+      columnsTo: reference.columnsTo,
+      onDelete: reference.onDelete,
+      onUpdate: reference.onUpdate,
+    };
+  }
+
+  return {
+    version: "5",
+    dialect: "mysql",
+    tables: result,
+    views: {},
+    _meta: {
+      tables: {},
+      columns: {},
+    },
+    internal,
+    schemas: Object.fromEntries([...schemas].map((it) => [it, it])),
+    projectId: "drizzle-lab",
+  };
+}
+
+/**
+ * Convert a Prisma schema to a Drizzle schema and its relations
+ * @param prisma - Prisma schema (`schema.prisma`)
+ * @returns The TypeScript files, `relations` is empty if there are no relations
+ */
+export function prismaToTypescript(prisma: string) {
+  const snapshot = prismaToSnapshot(prisma);
+  const { file } = snapshotToTypeScript(snapshot, "preserve");
+  const hasReferences = Object.values(snapshot.tables).some(
+    (table) => Object.keys(table.foreignKeys).length > 0,
+  );
+
+  return {
+    schema: file,
+    relations: hasReferences
+      ? relationsToTypeScript(snapshot, "preserve").file
+      : "",
+  };
+}
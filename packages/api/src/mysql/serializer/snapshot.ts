@@ -11,10 +11,16 @@ import {
 import { schemaToDrizzleObjects, type DrizzleObjects } from "./drizzle-objects";
 import type { PartialConfig } from "../../config/loader.node";
 import { DrizzleLab } from "../../extensions/symbols";
+import {
+  explainColumn,
+  explainIndex,
+  pickExplainMetadata,
+} from "../../internal/explain";
 import type { DrizzleSchema } from "../../internal/global";
 import { getColumnCasing, sqlToStr } from "../../internal/helpers";
 import type { Relation } from "../../internal/relations";
 import { escapeSingleQuotes } from "../../sql/utils";
+import { importFromSql } from "../loader/sql";
 import type {
   CheckConstraint,
   Column,
@@ -104,7 +110,9 @@ export function drizzleObjectsToSnapshot(
       const enumValues = column.enumValues;
       const defaultFn = column.defaultFn?.toString();
       const onUpdateFn = column.onUpdateFn?.toString();
-      const description = table[DrizzleLab]?.explain?.columns?.[name];
+      const { description, ...metadata } = explainColumn(
+        table[DrizzleLab]?.explain?.columns?.[name],
+      );
       const jsonShape = JSON.stringify(
         table[DrizzleLab]?.explain?.jsonShapes?.[name],
         null,
@@ -132,6 +140,7 @@ export function drizzleObjectsToSnapshot(
           : undefined,
         /* lab extension */
         description,
+        ...metadata,
         enumValues,
         defaultFn,
         onUpdateFn,
@@ -354,6 +363,8 @@ export function drizzleObjectsToSnapshot(
         using: value.config.using,
         algorithm: value.config.algorythm,
         lock: value.config.lock,
+        /* lab extension */
+        description: explainIndex(value)?.description,
       };
     });
 
@@ -391,6 +402,7 @@ export function drizzleObjectsToSnapshot(
     // }
     /* lab extension */
     const description = table[DrizzleLab]?.explain?.description;
+    const metadata = pickExplainMetadata(table[DrizzleLab]?.explain);
     const tableKey = schema ? `${schema}.${tableName}` : tableName;
 
     for (const config of relations.filter((r) => r.dbName === tableName)) {
@@ -400,6 +412,8 @@ export function drizzleObjectsToSnapshot(
           fieldName: relation.fieldName,
           relationName: relation.relationName || relation.fieldName,
           referencedTableName: relation.referencedTableName,
+          /* lab extension */
+          description: config.explain[relation.fieldName],
         });
       }
     }
@@ -415,6 +429,7 @@ export function drizzleObjectsToSnapshot(
       checkConstraints: checkConstraintObject,
       /* lab extension */
       description,
+      ...metadata,
       relations: tableRelations,
     };
   }
@@ -465,7 +480,9 @@ export function drizzleObjectsToSnapshot(
         const enumValues = column.enumValues;
         const defaultFn = column.defaultFn?.toString();
         const onUpdateFn = column.onUpdateFn?.toString();
-        const description = view[DrizzleLab]?.explain?.columns?.[column.name];
+        const { description, ...metadata } = explainColumn(
+          view[DrizzleLab]?.explain?.columns?.[column.name],
+        );
 
         const columnToSet: Column = {
           name: column.name,
@@ -491,6 +508,7 @@ export function drizzleObjectsToSnapshot(
           defaultFn,
           onUpdateFn,
           description,
+          ...metadata,
         };
 
         if (column.default !== undefined) {
@@ -529,6 +547,7 @@ export function drizzleObjectsToSnapshot(
 
     /* lab extension */
     const description = view[DrizzleLab]?.explain?.description;
+    const metadata = pickExplainMetadata(view[DrizzleLab]?.explain);
 
     resultViews[name] = {
       columns: columnsObject,
@@ -541,6 +560,7 @@ export function drizzleObjectsToSnapshot(
       /* lab extension */
       schema: schema ?? "",
       description,
+      ...metadata,
     };
   }
 
@@ -568,3 +588,15 @@ const handleEnumType = (type: string) => {
     .map((v) => `'${escapeSingleQuotes(v.substring(1, v.length - 1))}'`);
   return `enum(${values.join(",")})`;
 };
+
+/**
+ * Convert the schema SQL dump to a Drizzle snapshot
+ *
+ * Unlike the other dialects, it does not require a database: the statements are parsed in TypeScript (see {@link importFromSql})
+ *
+ * @param sqlDump - SQL dump
+ * @returns Drizzle snapshot
+ */
+export async function sqlToSnapshot(sqlDump: string): Promise<Snapshot> {
+  return importFromSql(sqlDump);
+}
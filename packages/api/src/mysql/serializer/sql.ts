@@ -1,6 +1,7 @@
 import type { PartialConfig } from "../../config/loader.node";
 import type { DrizzleSchema } from "../../internal/global";
 import {
+  prepareCommentsJson,
   prepareCreateIndexesJson,
   prepareCreateReferencesJson,
   prepareCreateSchemasJson,
@@ -13,7 +14,7 @@ import {
   type JsonCreateTableStatement,
   type JsonStatement,
 } from "../../sql/create-statements";
-import { generateSql } from "../../sql/generator";
+import { generateSql, type SqlOptions } from "../../sql/generator";
 import { squashSnapshot } from "../schema";
 import type { Snapshot } from "../schema";
 import type { DrizzleObjects } from "./drizzle-objects";
@@ -40,10 +41,14 @@ export function drizzleObjectsToSql(
 /**
  * Convert snapshot to SQL statements
  * @param snapshot - Snapshot
+ * @param options - SQL output options, e.g. `{ ifNotExists: true, wrapInTransaction: true }` to get a script that can be re-run safely, `{ comments: true }` to keep the `explain` descriptions
  * @returns SQL statements
  */
-export function snapshotToSqlStatements(snapshot: Snapshot) {
-  const { sqlStatements } = generateMysqlSql(snapshot);
+export function snapshotToSqlStatements(
+  snapshot: Snapshot,
+  options: SqlOptions = {},
+) {
+  const { sqlStatements } = generateMysqlSql(snapshot, options);
 
   return sqlStatements;
 }
@@ -51,10 +56,11 @@ export function snapshotToSqlStatements(snapshot: Snapshot) {
 /**
  * Convert snapshot to SQL
  * @param snapshot - Snapshot
+ * @param options - SQL output options
  * @returns SQL
  */
-export function snapshotToSql(snapshot: Snapshot) {
-  const sqlStatements = snapshotToSqlStatements(snapshot);
+export function snapshotToSql(snapshot: Snapshot, options: SqlOptions = {}) {
+  const sqlStatements = snapshotToSqlStatements(snapshot, options);
 
   return sqlStatements.join("\n");
 }
@@ -94,6 +100,7 @@ export function schemaToSql(schema: DrizzleSchema, config: PartialConfig = {}) {
 
 export const generateMysqlSql = (
   snapshot: Snapshot,
+  options: SqlOptions,
 ): {
   statements: JsonStatement[];
   sqlStatements: string[];
@@ -117,9 +124,17 @@ export const generateMysqlSql = (
   // const addUniqueConstraints: JsonCreateUniqueConstraint[] = [];
 
   for (const table of tables) {
-    createTables.push(
-      prepareMySqlCreateTableJson(table, snapshot, snapshot.internal),
-    );
+    createTables.push({
+      ...prepareMySqlCreateTableJson(table, snapshot, snapshot.internal),
+      /* lab extension */
+      comments: options.comments
+        ? prepareCommentsJson(
+            snapshot.tables[
+              table.schema ? `${table.schema}.${table.name}` : table.name
+            ],
+          )
+        : undefined,
+    });
 
     // composite primary keys
     // addCompositePKs.push(
@@ -184,7 +199,7 @@ export const generateMysqlSql = (
 
   /* -------------------------------- Compose; -------------------------------- */
 
-  const sqlStatements = [...new Set(generateSql(statements, "mysql"))];
+  const sqlStatements = [...new Set(generateSql(statements, "mysql", options))];
 
   return {
     statements,
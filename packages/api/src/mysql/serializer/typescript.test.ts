@@ -0,0 +1,36 @@
+import { int, mysqlTable, text } from "drizzle-orm/mysql-core";
+import { expect, test } from "vitest";
+
+import { schemaToSnapshot, sqlToSnapshot } from "./snapshot";
+import { snapshotToSql } from "./sql";
+import { snapshotToTypeScript } from "./typescript";
+import { explain } from "../../extensions/explain";
+
+const description = `It's a \\path\\ with "quotes"\nand a second line`;
+
+test("Round-trip descriptions through COMMENT clauses and explain()", async () => {
+  const users = mysqlTable("users", { id: int().primaryKey(), bio: text() });
+
+  explain(users, { description, columns: { bio: description } });
+
+  const sql = snapshotToSql(schemaToSnapshot({ users }), { comments: true });
+
+  expect(sql).toContain(
+    `\`bio\` text COMMENT 'It''s a \\\\path\\\\ with "quotes"\nand a second line',`,
+  );
+  expect(sql).toContain(
+    `) COMMENT='It''s a \\\\path\\\\ with "quotes"\nand a second line';`,
+  );
+
+  const imported = await sqlToSnapshot(sql);
+
+  expect(imported.tables.users.description).toBe(description);
+  expect(imported.tables.users.columns.bio.description).toBe(description);
+
+  const { file } = snapshotToTypeScript(imported, "camel");
+  const literals = [...file.matchAll(/(?:description|bio): (".*"),\n/g)].map(
+    ([, literal]) => JSON.parse(literal),
+  );
+
+  expect(literals).toEqual([description, description]);
+});
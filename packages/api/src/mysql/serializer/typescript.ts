@@ -1,6 +1,7 @@
 import { toCamelCase } from "drizzle-orm/casing";
 
 import { assertUnreachable, type Casing } from "../../internal/global";
+import { explainToTypeScript } from "../../internal/helpers";
 import type {
   CheckConstraint,
   Column,
@@ -11,6 +12,7 @@ import type {
   Snapshot,
   UniqueConstraint,
 } from "../schema";
+import { sqlToSnapshot } from "./snapshot";
 
 // time precision to fsp
 // {mode: "string"} for timestamp by default
@@ -297,6 +299,18 @@ export function snapshotToTypeScript(snapshot: Snapshot, casing: Casing) {
     }
 
     statement += ");";
+
+    /* lab extension */
+    const explain = explainToTypeScript(
+      withCasing(table.name),
+      table,
+      withCasing,
+    );
+
+    if (explain) {
+      statement += `\n${explain}`;
+    }
+
     return statement;
   });
 
@@ -335,6 +349,13 @@ export function snapshotToTypeScript(snapshot: Snapshot, casing: Casing) {
       : "";
     statement += `.as(sql\`${definition?.replaceAll("`", "\\`")}\`);`;
 
+    /* lab extension */
+    const explain = explainToTypeScript(withCasing(name), view, withCasing);
+
+    if (explain) {
+      statement += `\n${explain}`;
+    }
+
     return statement;
   });
 
@@ -344,9 +365,17 @@ export function snapshotToTypeScript(snapshot: Snapshot, casing: Casing) {
     "AnyMySqlColumn",
     ...new Set(imports.mysql),
   ];
+
+  /* lab extension */
+  const explainImport = [...tableStatements, ...viewsStatements].some((it) =>
+    it.includes("\nexplain("),
+  )
+    ? `import { explain } from "@drizzle-lab/api/extensions"\n`
+    : "";
+
   const importsTs = `import { ${uniqueMySqlImports.join(
     ", ",
-  )} } from "drizzle-orm/mysql-core"\nimport { sql } from "drizzle-orm"\n\n`;
+  )} } from "drizzle-orm/mysql-core"\nimport { sql } from "drizzle-orm"\n${explainImport}\n`;
 
   let decalrations = "";
   decalrations += tableStatements.join("\n\n");
@@ -1084,3 +1113,15 @@ const createTableFKs = (
 
   return statement;
 };
+
+/**
+ * Convert the schema SQL dump to a Drizzle TypeScript file
+ *
+ * @param sqlDump - The SQL dump
+ * @returns The TypeScript file
+ */
+export async function sqlToTypescript(sqlDump: string) {
+  const snapshot = await sqlToSnapshot(sqlDump);
+  const { file } = snapshotToTypeScript(snapshot, "preserve");
+  return file;
+}
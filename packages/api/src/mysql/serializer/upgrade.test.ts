@@ -0,0 +1,121 @@
+import { sql } from "drizzle-orm";
+import {
+  check,
+  index,
+  int,
+  mysqlEnum,
+  mysqlTable,
+  varchar,
+} from "drizzle-orm/mysql-core";
+import { expect, test } from "vitest";
+
+import { diffSnapshots } from "./diff";
+import { schemaToSnapshot } from "./snapshot";
+import { upgradeSnapshot } from "./upgrade";
+
+/**
+ * A drizzle-kit 0.28 snapshot, tables have no schema and check constraints are named `checkConstraint`
+ */
+const v5 = {
+  version: "5",
+  dialect: "mysql",
+  id: "5b0a9c1e-8f3d-4f61-9e2b-3c7d1a2b4c5d",
+  prevId: "00000000-0000-0000-0000-000000000000",
+  tables: {
+    users: {
+      name: "users",
+      columns: {
+        id: {
+          name: "id",
+          type: "int",
+          primaryKey: false,
+          notNull: true,
+          autoincrement: true,
+        },
+        name: {
+          name: "name",
+          type: "varchar(255)",
+          primaryKey: false,
+          notNull: false,
+          autoincrement: false,
+        },
+        role: {
+          name: "role",
+          type: "enum('admin','member')",
+          primaryKey: false,
+          notNull: true,
+          autoincrement: false,
+          default: "'member'",
+        },
+      },
+      indexes: {
+        users_name_idx: {
+          name: "users_name_idx",
+          columns: ["name"],
+          isUnique: false,
+        },
+      },
+      foreignKeys: {},
+      compositePrimaryKeys: { users_id: { name: "users_id", columns: ["id"] } },
+      uniqueConstraints: {},
+      checkConstraint: {
+        users_role_check: {
+          name: "users_role_check",
+          value: "`role` <> 'x'",
+        },
+      },
+    },
+  },
+  views: {},
+  _meta: { schemas: {}, tables: {}, columns: {} },
+  internal: { tables: {}, indexes: {} },
+};
+
+test("Read a version 5 snapshot", () => {
+  const snapshot = upgradeSnapshot(v5);
+  const code = schemaToSnapshot({
+    users: mysqlTable(
+      "users",
+      {
+        id: int().autoincrement().primaryKey(),
+        name: varchar({ length: 255 }),
+        role: mysqlEnum(["admin", "member"]).notNull().default("member"),
+      },
+      (table) => ({
+        nameIdx: index("users_name_idx").on(table.name),
+        roleCheck: check("users_role_check", sql`\`role\` <> 'x'`),
+      }),
+    ),
+  });
+
+  expect(snapshot.tables.users.schema).toBe("");
+  expect(snapshot.tables.users.checkConstraints).toEqual(
+    v5.tables.users.checkConstraint,
+  );
+  expect(diffSnapshots(snapshot, code).sqlStatements).toEqual([]);
+});
+
+test("Upgrade a version 4 snapshot", () => {
+  const { name, columns, indexes } = v5.tables.users;
+  const snapshot = upgradeSnapshot({
+    version: "4",
+    dialect: "mysql",
+    tables: {
+      users: {
+        name,
+        schema: "",
+        columns,
+        indexes,
+        foreignKeys: {},
+      },
+    },
+    schemas: {},
+  });
+
+  expect(snapshot.version).toBe("5");
+  expect(snapshot.tables.users).toMatchObject({
+    compositePrimaryKeys: {},
+    uniqueConstraints: {},
+    checkConstraints: {},
+  });
+});
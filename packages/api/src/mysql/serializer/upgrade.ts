@@ -0,0 +1,80 @@
+/* lab extension */
+
+import { mapValues } from "../../internal/global";
+import {
+  applyUpgrades,
+  parseSnapshot,
+  readRawSnapshot,
+  type RawSnapshot,
+} from "../../internal/upgrade";
+import {
+  schemaInternal,
+  schemaInternalV3,
+  schemaInternalV4,
+  type Snapshot,
+} from "../schema";
+
+const upgrades: Record<string, (snapshot: RawSnapshot) => RawSnapshot> = {
+  // tables belong to a schema
+  "3": (json) => {
+    const snapshot = parseSnapshot(schemaInternalV3, json, "3");
+
+    return { ...snapshot, version: "4", schemas: {} };
+  },
+  // composite primary keys, unique constraints and rename metadata
+  "4": (json) => {
+    const snapshot = parseSnapshot(schemaInternalV4, json, "4");
+
+    return {
+      ...snapshot,
+      version: "5",
+      tables: mapValues(snapshot.tables, (table) => ({
+        ...table,
+        compositePrimaryKeys: {},
+        uniqueConstraints: {},
+      })),
+      _meta: { schemas: {}, tables: {}, columns: {} },
+    };
+  },
+};
+
+/**
+ * Upgrade a snapshot of any version (e.g. an old drizzle-kit `meta/*_snapshot.json`) to the current Drizzle Lab snapshot
+ *
+ * Supports versions 3 to 5. Drizzle Lab fields (relations, descriptions, ...) are left empty.
+ *
+ * @param json - Parsed snapshot JSON
+ * @returns Drizzle Lab snapshot
+ * @throws If the snapshot is not a valid mysql snapshot or its version is not supported
+ */
+export function upgradeSnapshot(json: unknown): Snapshot {
+  const snapshot = readRawSnapshot(json, ["mysql"]);
+  const { _meta, ...upgraded } = applyUpgrades(snapshot, upgrades, "5");
+
+  // drizzle-kit tables and views have no schema when they are in the default database
+  return parseSnapshot(
+    schemaInternal,
+    {
+      ...upgraded,
+      tables: mapValues<Record<string, unknown>, unknown>(
+        upgraded.tables ?? {},
+        ({ checkConstraint, ...table }) => ({
+          ...table,
+          schema: table.schema ?? "",
+          // drizzle-kit names it `checkConstraint`
+          checkConstraints: table.checkConstraints ?? checkConstraint,
+        }),
+      ),
+      views: mapValues<Record<string, unknown>, unknown>(
+        upgraded.views ?? {},
+        (view) => ({
+          ...view,
+          schema: view.schema ?? "",
+        }),
+      ),
+      schemas: upgraded.schemas ?? {},
+      _meta: _meta && { tables: _meta.tables, columns: _meta.columns },
+    },
+    snapshot.version,
+  );
+}
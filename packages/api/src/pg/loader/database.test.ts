@@ -0,0 +1,179 @@
+import { PGlite } from "@electric-sql/pglite";
+import { expect, test } from "vitest";
+
+import { importFromDatabase } from "./database";
+
+const schemas = [`it's "quoted"`, "ünïcødé_表", "select"];
+const table = `user's "table"`;
+const view = `active 'users'`;
+
+function ident(name: string) {
+  return `"${name.replaceAll('"', '""')}"`;
+}
+
+async function createDatabase() {
+  const client = new PGlite();
+
+  for (const schema of schemas) {
+    const s = ident(schema);
+
+    await client.exec(`
+      CREATE SCHEMA ${s};
+      CREATE TYPE ${s}."order" AS ENUM ('it''s', 'ünï');
+      CREATE TABLE ${s}.${ident(table)} (
+        "id" serial PRIMARY KEY,
+        "group" ${s}."order" NOT NULL,
+        "naïve 'name'" text DEFAULT 'it''s',
+        "parent" integer REFERENCES ${s}.${ident(table)} ("id"),
+        CONSTRAINT "check 'id'" CHECK ("id" > 0)
+      );
+      CREATE INDEX "index ""parent""" ON ${s}.${ident(table)} ("parent");
+      ALTER TABLE ${s}.${ident(table)} ENABLE ROW LEVEL SECURITY;
+      CREATE POLICY "policy 'all'" ON ${s}.${ident(table)} USING (true);
+      CREATE VIEW ${s}.${ident(view)} AS SELECT "id" FROM ${s}.${ident(table)};
+    `);
+  }
+
+  return {
+    client,
+    db: {
+      query: async (sql: string, params?: unknown[]) =>
+        (await client.query<any>(sql, params)).rows,
+    },
+  };
+}
+
+test("Introspect schemas with quotes, unicode and reserved words in their names", async () => {
+  const { db } = await createDatabase();
+  const snapshot = await importFromDatabase(db, schemas);
+
+  for (const schema of schemas) {
+    const imported = snapshot.tables[`${schema}.${table}`];
+
+    expect(imported.columns.id.type).toBe("serial");
+    expect(imported.columns.group).toMatchObject({
+      type: "order",
+      typeSchema: schema,
+      notNull: true,
+    });
+    expect(imported.columns["naïve 'name'"].default).toBe("'it''s'");
+    expect(Object.keys(imported.indexes)).toEqual(['index "parent"']);
+    expect(Object.values(imported.foreignKeys)).toMatchObject([
+      { tableTo: table, schemaTo: schema, columnsFrom: ["parent"] },
+    ]);
+    expect(Object.keys(imported.checkConstraints)).toEqual(["check 'id'"]);
+    expect(Object.keys(imported.policies)).toEqual(["policy 'all'"]);
+    expect(snapshot.enums[`${schema}.order`].values).toEqual(["it's", "ünï"]);
+    expect(snapshot.views[`${schema}.${view}`].definition).toContain("id");
+  }
+});
+
+test("Schema filters are not injected in the introspection queries", async () => {
+  const { client, db } = await createDatabase();
+
+  const injected = await importFromDatabase(db, [
+    "public' OR '1'='1",
+    `x'); DROP TABLE ${ident(schemas[0])}.${ident(table)}; --`,
+  ]);
+
+  expect(injected.tables).toEqual({});
+  expect(injected.enums).toEqual({});
+  expect(injected.views).toEqual({});
+
+  const { rows } = await client.query(
+    `SELECT count(*)::int AS count FROM ${ident(schemas[0])}.${ident(table)}`,
+  );
+
+  expect(rows).toEqual([{ count: 0 }]);
+});
+
+test("Introspect comments, triggers, functions, domains and composite types", async () => {
+  const client = new PGlite();
+
+  await client.exec(`
+    CREATE DOMAIN "email" AS text NOT NULL CHECK (VALUE LIKE '%@%');
+    COMMENT ON DOMAIN "email" IS 'Valid email';
+    CREATE TYPE "address" AS ("street" text, "city" varchar(50));
+    COMMENT ON TYPE "address" IS 'Postal address';
+    COMMENT ON COLUMN "address"."city" IS 'City name';
+    CREATE TYPE "mood" AS ENUM ('sad', 'ok');
+    COMMENT ON TYPE "mood" IS 'How they feel';
+    CREATE TABLE "users" (
+      "id" serial PRIMARY KEY,
+      "email" "email",
+      "home" "address",
+      "mood" "mood",
+      "updated_at" timestamp
+    );
+    COMMENT ON TABLE "users" IS 'Users of the app';
+    COMMENT ON COLUMN "users"."email" IS 'Login email';
+    CREATE VIEW "active_users" AS SELECT "id" FROM "users";
+    COMMENT ON VIEW "active_users" IS 'Users active this month';
+    CREATE FUNCTION "touch"() RETURNS trigger LANGUAGE plpgsql AS $$
+      BEGIN NEW."updated_at" = now(); RETURN NEW; END
+    $$;
+    COMMENT ON FUNCTION "touch"() IS 'Set updated_at';
+    CREATE FUNCTION "add"(a int, b int) RETURNS int LANGUAGE sql AS 'SELECT a + b';
+    CREATE TRIGGER "users_touch" BEFORE INSERT OR UPDATE ON "users"
+      FOR EACH ROW EXECUTE FUNCTION "touch"();
+    COMMENT ON TRIGGER "users_touch" ON "users" IS 'Keep updated_at fresh';
+  `);
+
+  const snapshot = await importFromDatabase(
+    {
+      query: async (sql: string, params?: unknown[]) =>
+        (await client.query<any>(sql, params)).rows,
+    },
+    ["public"],
+  );
+  const users = snapshot.tables["public.users"];
+
+  expect(users.description).toBe("Users of the app");
+  expect(users.columns.email.description).toBe("Login email");
+  expect(snapshot.views["public.active_users"].description).toBe(
+    "Users active this month",
+  );
+  expect(snapshot.enums["public.mood"].description).toBe("How they feel");
+  expect(users.triggers).toMatchObject({
+    users_touch: {
+      timing: "before",
+      events: ["insert", "update"],
+      forEach: "row",
+      function: "public.touch",
+      description: "Keep updated_at fresh",
+    },
+  });
+  expect(snapshot.functions).toMatchObject({
+    "public.touch()": {
+      kind: "function",
+      returns: "trigger",
+      language: "plpgsql",
+      description: "Set updated_at",
+    },
+    "public.add(a integer, b integer)": {
+      returns: "integer",
+      language: "sql",
+    },
+  });
+  expect(snapshot.domains["public.email"]).toMatchObject({
+    type: "text",
+    notNull: true,
+    checkConstraints: {
+      email_check: { name: "email_check", value: "VALUE ~~ '%@%'::text" },
+    },
+    description: "Valid email",
+  });
+  expect(snapshot.compositeTypes["public.address"]).toEqual({
+    name: "address",
+    schema: "public",
+    attributes: [
+      { name: "street", type: "text", description: undefined },
+      {
+        name: "city",
+        type: "character varying(50)",
+        description: "City name",
+      },
+    ],
+    description: "Postal address",
+  });
+});
@@ -1,9 +1,13 @@
 import type {
   CheckConstraint,
   Column as Column,
+  CompositeType,
+  Domain,
   Enum,
+  Extension,
   ForeignKey,
   Index,
+  PgFunction,
   PgKitInternals,
   Policy,
   PrimaryKey,
@@ -11,6 +15,7 @@ import type {
   Sequence,
   Snapshot,
   Table,
+  Trigger,
   UniqueConstraint,
   View,
 } from "../schema";
@@ -109,6 +114,19 @@ type DB = {
   query: <T = any>(sql: string, params?: any[]) => Promise<T[]>;
 };
 
+/* lab extension */
+/**
+ * Filter a column on a list of values bound as parameters (`$1`, `$2`, ...), never interpolated in the SQL
+ * @returns An empty string when there is no value, to not filter at all
+ */
+function inList(column: string, values: string[]) {
+  if (values.length === 0) {
+    return "";
+  }
+
+  return `${column} IN (${values.map((_, i) => `$${i + 1}`).join(", ")})`;
+}
+
 /**
  * Import the Drizzle schema from a PostgreSQL database.
  * @param db - The database to import from.
@@ -132,13 +150,14 @@ export async function importFromDatabase(
   const views: Record<string, View> = {};
   const internals: PgKitInternals = { tables: {} };
 
-  const where = schemaFilters.map((t) => `n.nspname = '${t}'`).join(" or ");
+  const where = inList("n.nspname", schemaFilters);
 
   const allTables = await db.query<{
     table_schema: string;
     table_name: string;
     type: string;
     rls_enabled: boolean;
+    description: string | null;
   }>(
     `SELECT 
     n.nspname AS table_schema, 
@@ -148,7 +167,8 @@ export async function importFromDatabase(
         WHEN c.relkind = 'v' THEN 'view'
         WHEN c.relkind = 'm' THEN 'materialized_view'
     END AS type,
-	  c.relrowsecurity AS rls_enabled
+	  c.relrowsecurity AS rls_enabled,
+    obj_description(c.oid, 'pg_class') AS description
 FROM 
     pg_catalog.pg_class c
 JOIN 
@@ -156,6 +176,7 @@ JOIN
 WHERE 
 	c.relkind IN ('r', 'v', 'm') 
     ${where === "" ? "" : ` AND ${where}`};`,
+    schemaFilters,
   );
 
   const schemas = new Set(allTables.map((it) => it.table_schema));
@@ -179,10 +200,11 @@ WHERE
 
   const sequencesToReturn: Record<string, Sequence> = {};
 
-  const seqWhere = schemaFilters.map((t) => `schemaname = '${t}'`).join(" or ");
+  const seqWhere = inList("schemaname", schemaFilters);
 
   const allSequences = await db.query(
     `select schemaname, sequencename, start_value, min_value, max_value, increment_by, cycle, cache_size from pg_sequences as seq${seqWhere === "" ? "" : ` WHERE ${seqWhere}`};`,
+    schemaFilters,
   );
 
   for (const dbSeq of allSequences) {
@@ -208,20 +230,20 @@ WHERE
     };
   }
 
-  const whereEnums = schemaFilters
-    .map((t) => `n.nspname = '${t}'`)
-    .join(" or ");
+  const whereEnums = inList("n.nspname", schemaFilters);
 
   const allEnums = await db.query(
     `select n.nspname as enum_schema,
   t.typname as enum_name,
   e.enumlabel as enum_value,
-  e.enumsortorder as sort_order
+  e.enumsortorder as sort_order,
+  obj_description(t.oid, 'pg_type') as description
   from pg_type t
   join pg_enum e on t.oid = e.enumtypid
   join pg_catalog.pg_namespace n ON n.oid = t.typnamespace
   ${whereEnums === "" ? "" : ` WHERE ${whereEnums}`}
   order by enum_schema, enum_name, sort_order;`,
+    schemaFilters,
   );
 
   const enumsToReturn: Record<string, Enum> = {};
@@ -239,6 +261,8 @@ WHERE
         name: enumName,
         values: [enumValue],
         schema: enumSchema,
+        /* lab extension */
+        description: dbEnum.description ?? undefined,
       };
     }
   }
@@ -292,9 +316,7 @@ WHERE
     }
   }
 
-  const wherePolicies = schemaFilters
-    .map((t) => `schemaname = '${t}'`)
-    .join(" or ");
+  const wherePolicies = inList("schemaname", schemaFilters);
 
   const policiesByTable: Record<string, Record<string, Policy>> = {};
 
@@ -309,6 +331,7 @@ WHERE
     withCheck: string;
   }>(
     `SELECT schemaname, tablename, policyname as name, permissive as "as", roles as to, cmd as for, qual as using, with_check as "withCheck" FROM pg_policies${wherePolicies === "" ? "" : ` WHERE ${wherePolicies}`};`,
+    schemaFilters,
   );
 
   for (const dbPolicy of allPolicies) {
@@ -334,6 +357,292 @@ WHERE
     }
   }
 
+  /* lab extension */
+  const triggersByTable: Record<string, Record<string, Trigger>> = {};
+
+  const whereTriggers = inList("n.nspname", schemaFilters);
+
+  const allTriggers = await db.query<{
+    table_schema: string;
+    table_name: string;
+    name: string;
+    type: number;
+    function_schema: string;
+    function_name: string;
+    definition: string;
+    description: string | null;
+  }>(
+    `SELECT
+    n.nspname AS table_schema,
+    c.relname AS table_name,
+    t.tgname AS name,
+    t.tgtype::int AS type,
+    fn.nspname AS function_schema,
+    p.proname AS function_name,
+    pg_get_triggerdef(t.oid) AS definition,
+    obj_description(t.oid, 'pg_trigger') AS description
+FROM
+    pg_catalog.pg_trigger t
+JOIN
+    pg_catalog.pg_class c ON c.oid = t.tgrelid
+JOIN
+    pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+JOIN
+    pg_catalog.pg_proc p ON p.oid = t.tgfoid
+JOIN
+    pg_catalog.pg_namespace fn ON fn.oid = p.pronamespace
+WHERE
+    NOT t.tgisinternal
+    ${whereTriggers === "" ? "" : ` AND ${whereTriggers}`}
+ORDER BY table_schema, table_name, name;`,
+    schemaFilters,
+  );
+
+  for (const dbTrigger of allTriggers) {
+    const key = `${dbTrigger.table_schema}.${dbTrigger.table_name}`;
+    // see TRIGGER_TYPE_* in postgres src/include/catalog/pg_trigger.h
+    const events = (
+      [
+        [4, "insert"],
+        [8, "delete"],
+        [16, "update"],
+        [32, "truncate"],
+      ] as const
+    )
+      .filter(([bit]) => dbTrigger.type & bit)
+      .map(([, event]) => event);
+
+    triggersByTable[key] ??= {};
+    triggersByTable[key][dbTrigger.name] = {
+      name: dbTrigger.name,
+      timing:
+        dbTrigger.type & 2
+          ? "before"
+          : dbTrigger.type & 64
+            ? "instead of"
+            : "after",
+      events,
+      forEach: dbTrigger.type & 1 ? "row" : "statement",
+      function: `${dbTrigger.function_schema}.${dbTrigger.function_name}`,
+      when: dbTrigger.definition.match(/ WHEN \((.*)\) EXECUTE /)?.[1],
+      definition: dbTrigger.definition,
+      description: dbTrigger.description ?? undefined,
+    };
+  }
+
+  /* lab extension */
+  // objects created by an extension (e.g. postgis functions) belong to the extension, not to the schema
+  const notFromExtension = (oid: string) =>
+    `NOT EXISTS (SELECT 1 FROM pg_catalog.pg_depend d WHERE d.objid = ${oid} AND d.deptype = 'e')`;
+
+  const whereFunctions = inList("n.nspname", schemaFilters);
+
+  const allFunctions = await db.query<{
+    schema: string;
+    name: string;
+    kind: string;
+    arguments: string;
+    returns: string | null;
+    language: string;
+    definition: string | null;
+    description: string | null;
+  }>(
+    `SELECT
+    n.nspname AS schema,
+    p.proname AS name,
+    p.prokind AS kind,
+    pg_get_function_identity_arguments(p.oid) AS arguments,
+    pg_get_function_result(p.oid) AS returns,
+    l.lanname AS language,
+    CASE WHEN p.prokind IN ('f', 'p') THEN pg_get_functiondef(p.oid) END AS definition,
+    obj_description(p.oid, 'pg_proc') AS description
+FROM
+    pg_catalog.pg_proc p
+JOIN
+    pg_catalog.pg_namespace n ON n.oid = p.pronamespace
+JOIN
+    pg_catalog.pg_language l ON l.oid = p.prolang
+WHERE
+    n.nspname NOT IN ('pg_catalog', 'information_schema')
+    AND ${notFromExtension("p.oid")}
+    ${whereFunctions === "" ? "" : ` AND ${whereFunctions}`}
+ORDER BY schema, name, arguments;`,
+    schemaFilters,
+  );
+
+  const functionsToReturn: Record<string, PgFunction> = {};
+
+  for (const dbFunction of allFunctions) {
+    // functions can be overloaded, the arguments are part of the key
+    const key = `${dbFunction.schema}.${dbFunction.name}(${dbFunction.arguments})`;
+
+    functionsToReturn[key] = {
+      name: dbFunction.name,
+      schema: dbFunction.schema,
+      kind:
+        dbFunction.kind === "p"
+          ? "procedure"
+          : dbFunction.kind === "a"
+            ? "aggregate"
+            : dbFunction.kind === "w"
+              ? "window"
+              : "function",
+      arguments: dbFunction.arguments,
+      returns: dbFunction.returns ?? undefined,
+      language: dbFunction.language,
+      definition: dbFunction.definition?.trim(),
+      description: dbFunction.description ?? undefined,
+    };
+  }
+
+  const whereExtensions = inList("n.nspname", schemaFilters);
+
+  const allExtensions = await db.query<{
+    name: string;
+    schema: string;
+    version: string;
+    description: string | null;
+  }>(
+    `SELECT
+    e.extname AS name,
+    n.nspname AS schema,
+    e.extversion AS version,
+    obj_description(e.oid, 'pg_extension') AS description
+FROM
+    pg_catalog.pg_extension e
+JOIN
+    pg_catalog.pg_namespace n ON n.oid = e.extnamespace
+${whereExtensions === "" ? "" : ` WHERE ${whereExtensions}`}
+ORDER BY name;`,
+    schemaFilters,
+  );
+
+  const extensionsToReturn: Record<string, Extension> = {};
+
+  for (const dbExtension of allExtensions) {
+    extensionsToReturn[dbExtension.name] = {
+      name: dbExtension.name,
+      schema: dbExtension.schema,
+      version: dbExtension.version,
+      description: dbExtension.description ?? undefined,
+    };
+  }
+
+  const whereDomains = inList("n.nspname", schemaFilters);
+
+  const allDomains = await db.query<{
+    schema: string;
+    name: string;
+    type: string;
+    not_null: boolean;
+    default: string | null;
+    description: string | null;
+    check_name: string | null;
+    check_definition: string | null;
+  }>(
+    `SELECT
+    n.nspname AS schema,
+    t.typname AS name,
+    format_type(t.typbasetype, t.typtypmod) AS type,
+    t.typnotnull AS not_null,
+    t.typdefault AS default,
+    obj_description(t.oid, 'pg_type') AS description,
+    con.conname AS check_name,
+    pg_get_constraintdef(con.oid) AS check_definition
+FROM
+    pg_catalog.pg_type t
+JOIN
+    pg_catalog.pg_namespace n ON n.oid = t.typnamespace
+LEFT JOIN
+    pg_catalog.pg_constraint con ON con.contypid = t.oid AND con.contype = 'c'
+WHERE
+    t.typtype = 'd'
+    AND n.nspname NOT IN ('pg_catalog', 'information_schema')
+    AND ${notFromExtension("t.oid")}
+    ${whereDomains === "" ? "" : ` AND ${whereDomains}`}
+ORDER BY schema, name, check_name;`,
+    schemaFilters,
+  );
+
+  const domainsToReturn: Record<string, Domain> = {};
+
+  for (const dbDomain of allDomains) {
+    const key = `${dbDomain.schema}.${dbDomain.name}`;
+
+    domainsToReturn[key] ??= {
+      name: dbDomain.name,
+      schema: dbDomain.schema,
+      type: dbDomain.type,
+      notNull: dbDomain.not_null,
+      default: dbDomain.default ?? undefined,
+      checkConstraints: {},
+      description: dbDomain.description ?? undefined,
+    };
+
+    if (dbDomain.check_name && dbDomain.check_definition) {
+      domainsToReturn[key].checkConstraints[dbDomain.check_name] = {
+        name: dbDomain.check_name,
+        // same format as the table checks
+        value: dbDomain.check_definition
+          .replace(/^CHECK\s*\(\(/, "")
+          .replace(/\)\)\s*$/, ""),
+      };
+    }
+  }
+
+  const whereCompositeTypes = inList("n.nspname", schemaFilters);
+
+  const allCompositeTypes = await db.query<{
+    schema: string;
+    name: string;
+    description: string | null;
+    attribute_name: string;
+    attribute_type: string;
+    attribute_description: string | null;
+  }>(
+    `SELECT
+    n.nspname AS schema,
+    t.typname AS name,
+    obj_description(t.oid, 'pg_type') AS description,
+    a.attname AS attribute_name,
+    format_type(a.atttypid, a.atttypmod) AS attribute_type,
+    col_description(c.oid, a.attnum) AS attribute_description
+FROM
+    pg_catalog.pg_type t
+JOIN
+    pg_catalog.pg_namespace n ON n.oid = t.typnamespace
+JOIN
+    pg_catalog.pg_class c ON c.oid = t.typrelid AND c.relkind = 'c'
+JOIN
+    pg_catalog.pg_attribute a ON a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped
+WHERE
+    t.typtype = 'c'
+    AND n.nspname NOT IN ('pg_catalog', 'information_schema')
+    AND ${notFromExtension("t.oid")}
+    ${whereCompositeTypes === "" ? "" : ` AND ${whereCompositeTypes}`}
+ORDER BY schema, name, a.attnum;`,
+    schemaFilters,
+  );
+
+  const compositeTypesToReturn: Record<string, CompositeType> = {};
+
+  for (const dbCompositeType of allCompositeTypes) {
+    const key = `${dbCompositeType.schema}.${dbCompositeType.name}`;
+
+    compositeTypesToReturn[key] ??= {
+      name: dbCompositeType.name,
+      schema: dbCompositeType.schema,
+      attributes: [],
+      description: dbCompositeType.description ?? undefined,
+    };
+
+    compositeTypesToReturn[key].attributes.push({
+      name: dbCompositeType.attribute_name,
+      type: dbCompositeType.attribute_type,
+      description: dbCompositeType.attribute_description ?? undefined,
+    });
+  }
+
   const all = allTables
     .filter((it) => it.type === "table")
     .map((row) => {
@@ -362,10 +671,12 @@ WHERE
       JOIN information_schema.constraint_column_usage AS ccu USING (constraint_schema, constraint_name)
       JOIN information_schema.columns AS c ON c.table_schema = tc.constraint_schema
         AND tc.table_name = c.table_name AND ccu.column_name = c.column_name
-      WHERE tc.table_name = '${tableName}' and constraint_schema = '${tableSchema}';`,
+      WHERE tc.table_name = $1 and constraint_schema = $2;`,
+            [tableName, tableSchema],
           );
 
-          const tableChecks = await db.query(`SELECT 
+          const tableChecks = await db.query(
+            `SELECT 
 						tc.constraint_name,
 						tc.constraint_type,
 						pg_get_constraintdef(con.oid) AS constraint_definition
@@ -384,9 +695,11 @@ WHERE
 								)
 							)
 					WHERE 
-						tc.table_name = '${tableName}'
-						AND tc.constraint_schema = '${tableSchema}'
-						AND tc.constraint_type = 'CHECK';`);
+						tc.table_name = $1
+						AND tc.constraint_schema = $2
+						AND tc.constraint_type = 'CHECK';`,
+            [tableName, tableSchema],
+          );
 
           const tableForeignKeys = await db.query(
             `SELECT
@@ -423,9 +736,10 @@ WHERE
             LEFT JOIN pg_catalog.pg_attribute fatt ON fatt.attnum = ANY (con.confkey)
               AND fatt.attrelid = con.confrelid
           WHERE
-            nsp.nspname = '${tableSchema}'
-            AND rel.relname = '${tableName}'
+            nsp.nspname = $1
+            AND rel.relname = $2
             AND con.contype IN ('f');`,
+            [tableSchema, tableName],
           );
 
           for (const fk of tableForeignKeys) {
@@ -677,6 +991,8 @@ WHERE
                     schema: tableSchema,
                   }
                 : undefined,
+              /* lab extension */
+              description: columnResponse.description ?? undefined,
             };
 
             if (identityName && typeof identityName === "string") {
@@ -731,8 +1047,9 @@ WHERE
         LEFT JOIN pg_am AS am ON ic.relam = am.oid
         JOIN pg_opclass opc ON opc.oid = ANY(i.indclass)
       WHERE
-      c.nspname = '${tableSchema}' AND
-      t.relname = '${tableName}';`,
+      c.nspname = $1 AND
+      t.relname = $2;`,
+            [tableSchema, tableName],
           );
 
           const dbIndexFromConstraint = await db.query(
@@ -745,8 +1062,9 @@ WHERE
           pg_stat_user_indexes idx
         LEFT JOIN
           pg_constraint con ON con.conindid = idx.indexrelid
-        WHERE idx.relname = '${tableName}' and schemaname = '${tableSchema}'
+        WHERE idx.relname = $1 and schemaname = $2
         group by index_name, table_name,schemaname, generated_by_constraint;`,
+            [tableName, tableSchema],
           );
 
           const idxsInConsteraint = dbIndexFromConstraint
@@ -822,6 +1140,9 @@ WHERE
             policies: policiesByTable[`${tableSchema}.${tableName}`] ?? {},
             isRLSEnabled: row.rls_enabled,
             relations: [],
+            /* lab extension */
+            description: row.description ?? undefined,
+            triggers: triggersByTable[`${tableSchema}.${tableName}`] ?? {},
           };
         } catch (e) {
           rej(e);
@@ -1002,6 +1323,8 @@ WHERE
                     schema: viewSchema,
                   }
                 : undefined,
+              /* lab extension */
+              description: viewResponse.description ?? undefined,
             };
 
             if (identityName) {
@@ -1028,7 +1351,8 @@ WHERE
             tablespace_name: string | null;
             options: string[] | null;
             location: string | null;
-          }>(`
+          }>(
+            `
 					SELECT
     c.relname AS view_name,
     n.nspname AS schema_name,
@@ -1044,8 +1368,10 @@ LEFT JOIN
     pg_tablespace ts ON c.reltablespace = ts.oid 
 WHERE
     (c.relkind = 'm' OR c.relkind = 'v')
-    AND n.nspname = '${viewSchema}'
-    AND c.relname = '${viewName}';`);
+    AND n.nspname = $1
+    AND c.relname = $2;`,
+            [viewSchema, viewName],
+          );
 
           const resultWith: { [key: string]: string | boolean | number } = {};
           if (viewInfo.options) {
@@ -1091,6 +1417,8 @@ WHERE
             materialized: materialized,
             with: withOption,
             tablespace: viewInfo.tablespace_name ?? undefined,
+            /* lab extension */
+            description: row.description ?? undefined,
           };
         } catch (e) {
           rej(e);
@@ -1121,6 +1449,11 @@ WHERE
     },
     internal: internals,
     projectId: "drizzle-lab",
+    /* lab extension */
+    functions: functionsToReturn,
+    extensions: extensionsToReturn,
+    domains: domainsToReturn,
+    compositeTypes: compositeTypesToReturn,
   };
 }
 
@@ -1158,6 +1491,12 @@ const defaultForColumn = (
 
   const columnDefaultAsString: string = column.column_default.toString();
 
+  /* lab extension */
+  // an empty array is not an array of one empty string
+  if (isArray && columnDefaultAsString === "'{}'") {
+    return columnDefaultAsString;
+  }
+
   if (isArray) {
     return `'{${columnDefaultAsString
       .slice(2, -2)
@@ -1274,8 +1613,8 @@ const getColumnsInfoQuery = ({
             SELECT FROM pg_attrdef ad
             WHERE ad.adrelid = a.attrelid 
             AND ad.adnum = a.attnum 
-            AND pg_get_expr(ad.adbin, ad.adrelid) = 'nextval(''' 
-                || pg_get_serial_sequence(a.attrelid::regclass::text, a.attname)::regclass || '''::regclass)'
+            AND pg_get_expr(ad.adbin, ad.adrelid) = 'nextval('
+                || quote_literal(pg_get_serial_sequence(a.attrelid::regclass::text, a.attname)::regclass::text) || '::regclass)'
         )
         THEN CASE a.atttypid
             WHEN 'int'::regtype THEN 'serial'
@@ -1285,7 +1624,7 @@ const getColumnsInfoQuery = ({
         ELSE format_type(a.atttypid, a.atttypmod)
     END AS data_type,  -- Column data type
 --    ns.nspname AS type_schema,  -- Schema name
-    pg_get_serial_sequence('"${schema}"."${table}"', a.attname)::regclass AS seq_name,  -- Serial sequence (if any)
+    pg_get_serial_sequence(quote_ident($1::text) || '.' || quote_ident($2::text), a.attname)::regclass AS seq_name,  -- Serial sequence (if any)
     c.column_default,  -- Column default value
     c.data_type AS additional_dt,  -- Data type from information_schema
     c.udt_name AS enum_name,  -- Enum type (if applicable)
@@ -1298,7 +1637,8 @@ const getColumnsInfoQuery = ({
     c.identity_maximum,  -- Maximum value for identity column
     c.identity_minimum,  -- Minimum value for identity column
     c.identity_cycle,  -- Does the identity column cycle?
-    enum_ns.nspname AS type_schema  -- Schema of the enum type
+    enum_ns.nspname AS type_schema,  -- Schema of the enum type
+    col_description(a.attrelid, a.attnum) AS description  -- Column comment
 FROM 
     pg_attribute a
 JOIN 
@@ -1317,9 +1657,10 @@ WHERE
     a.attnum > 0  -- Valid column numbers only
     AND NOT a.attisdropped  -- Skip dropped columns
     AND cls.relkind IN ('r', 'v', 'm')  -- Include regular tables ('r'), views ('v'), and materialized views ('m')
-    AND ns.nspname = '${schema}'  -- Filter by schema
-    AND cls.relname = '${table}'  -- Filter by table name
+    AND ns.nspname = $1::text  -- Filter by schema
+    AND cls.relname = $2::text  -- Filter by table name
 ORDER BY 
     a.attnum;  -- Order by column number`,
+    [schema, table],
   );
 };
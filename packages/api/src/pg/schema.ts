@@ -13,6 +13,7 @@ import {
 } from "zod";
 
 import { provider, projectId } from "../config/schema";
+import { explainMetadata } from "../internal/explain";
 import { mapValues, originUUID, snapshotVersion } from "../internal/global";
 import { relation } from "../internal/relations";
 
@@ -53,6 +54,9 @@ const enumSchema = object({
   name: string(),
   schema: string(),
   values: string().array(),
+  /* lab extension */
+  description: string().optional(),
+  valueDescriptions: record(string(), string()).optional(),
 }).strict();
 
 export const pgSchemaV2 = object({
@@ -109,6 +113,8 @@ const index = object({
   method: string().default("btree"),
   where: string().optional(),
   concurrently: boolean().default(false),
+  /* lab extension */
+  description: string().optional(),
 }).strict();
 
 const indexV4 = object({
@@ -210,6 +216,7 @@ const column = object({
   defaultFn: string().optional(),
   onUpdateFn: string().optional(),
   description: string().optional(),
+  ...explainMetadata.shape,
   jsonShape: string().optional(),
 }).strict();
 
@@ -264,6 +271,66 @@ export const policy = object({
   withCheck: string().optional(),
   on: string().optional(),
   schema: string().optional(),
+  /* lab extension */
+  description: string().optional(),
+}).strict();
+
+/* lab extension */
+export const trigger = object({
+  name: string(),
+  timing: enumType(["before", "after", "instead of"]),
+  events: enumType(["insert", "update", "delete", "truncate"]).array(),
+  forEach: enumType(["row", "statement"]),
+  /** Schema qualified name of the trigger function */
+  function: string(),
+  when: string().optional(),
+  definition: string(),
+  description: string().optional(),
+}).strict();
+
+/* lab extension */
+export const pgFunction = object({
+  name: string(),
+  schema: string(),
+  kind: enumType(["function", "procedure", "aggregate", "window"]),
+  arguments: string(),
+  returns: string().optional(),
+  language: string(),
+  definition: string().optional(),
+  description: string().optional(),
+}).strict();
+
+/* lab extension */
+export const extension = object({
+  name: string(),
+  schema: string(),
+  version: string(),
+  description: string().optional(),
+}).strict();
+
+/* lab extension */
+export const domain = object({
+  name: string(),
+  schema: string(),
+  type: string(),
+  notNull: boolean(),
+  default: string().optional(),
+  checkConstraints: record(string(), checkConstraint).default({}),
+  description: string().optional(),
+}).strict();
+
+/* lab extension */
+export const compositeType = object({
+  name: string(),
+  schema: string(),
+  attributes: object({
+    name: string(),
+    type: string(),
+    description: string().optional(),
+  })
+    .strict()
+    .array(),
+  description: string().optional(),
 }).strict();
 
 export const policySquashed = object({
@@ -315,6 +382,7 @@ export const view = object({
   tablespace: string().optional(),
   /* lab extension */
   description: string().optional(),
+  ...explainMetadata.shape,
 }).strict();
 
 const tableV4 = object({
@@ -369,6 +437,8 @@ const table = object({
   /* lab extension */
   relations: array(relation).default([]),
   description: string().optional(),
+  ...explainMetadata.shape,
+  triggers: record(string(), trigger).default({}),
 }).strict();
 
 const schemaHash = object({
@@ -484,6 +554,10 @@ export const pgSchemaInternal = object({
   /* lab extension */
   provider: provider.optional(),
   projectId,
+  functions: record(string(), pgFunction).default({}),
+  extensions: record(string(), extension).default({}),
+  domains: record(string(), domain).default({}),
+  compositeTypes: record(string(), compositeType).default({}),
 }).strict();
 
 const tableSquashed = object({
@@ -571,6 +645,12 @@ export type PrimaryKey = TypeOf<typeof compositePK>;
 export type UniqueConstraint = TypeOf<typeof uniqueConstraint>;
 export type Policy = TypeOf<typeof policy>;
 export type View = TypeOf<typeof view>;
+/* lab extension */
+export type Trigger = TypeOf<typeof trigger>;
+export type PgFunction = TypeOf<typeof pgFunction>;
+export type Extension = TypeOf<typeof extension>;
+export type Domain = TypeOf<typeof domain>;
+export type CompositeType = TypeOf<typeof compositeType>;
 export type MatViewWithOption = TypeOf<typeof matViewWithOption>;
 export type ViewWithOption = TypeOf<typeof viewWithOption>;
 
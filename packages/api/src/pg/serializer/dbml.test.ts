@@ -0,0 +1,213 @@
+import {
+  index,
+  integer,
+  pgEnum,
+  pgTable,
+  serial,
+  text,
+  varchar,
+} from "drizzle-orm/pg-core";
+import { expect, test } from "vitest";
+
+import { dbmlToSnapshot, dbmlToTypescript } from "./dbml";
+import { snapshotToDbml } from "./diagram";
+import { schemaToSnapshot } from "./snapshot";
+import type { Table } from "../schema";
+
+const dbml = `
+  Enum auth.role {
+    admin
+    member
+  }
+
+  Table auth.users as U {
+    id int [pk, increment]
+    email "character varying" [not null, unique, note: 'Login']
+    role auth.role [default: 'member']
+    tags text[]
+    created_at timestamptz [default: \`now()\`]
+    Note: 'Accounts'
+  }
+
+  Table posts {
+    id bigint [pk, increment]
+    author_id int [ref: > U.id]
+    price decimal(10, 2) [default: 0]
+
+    Indexes {
+      (author_id, id) [unique, name: 'posts_author_idx']
+      \`lower(title)\` [type: hash]
+    }
+  }
+
+  Table post_tags {
+    post_id bigint
+    tag varchar
+
+    Indexes {
+      (post_id, tag) [pk]
+    }
+  }
+
+  Ref: post_tags.post_id > posts.id [delete: cascade]
+`;
+
+test("Convert DBML to a snapshot", () => {
+  const snapshot = dbmlToSnapshot(dbml);
+  const users = snapshot.tables["auth.users"];
+  const posts = snapshot.tables["public.posts"];
+  const postTags = snapshot.tables["public.post_tags"];
+
+  expect(Object.keys(snapshot.tables)).toEqual([
+    "auth.users",
+    "public.posts",
+    "public.post_tags",
+  ]);
+  expect(snapshot.schemas).toEqual({ auth: "auth" });
+  expect(snapshot.enums).toEqual({
+    "auth.role": { name: "role", schema: "auth", values: ["admin", "member"] },
+  });
+  expect(users.description).toBe("Accounts");
+  expect(users.columns).toEqual({
+    id: { name: "id", type: "serial", primaryKey: true, notNull: true },
+    email: {
+      name: "email",
+      type: "varchar",
+      primaryKey: false,
+      notNull: true,
+      description: "Login",
+    },
+    role: {
+      name: "role",
+      type: "role",
+      typeSchema: "auth",
+      primaryKey: false,
+      notNull: false,
+      default: "'member'",
+    },
+    tags: { name: "tags", type: "text[]", primaryKey: false, notNull: false },
+    created_at: {
+      name: "created_at",
+      type: "timestamp with time zone",
+      primaryKey: false,
+      notNull: false,
+      default: "now()",
+    },
+  });
+  expect(Object.keys(users.uniqueConstraints)).toEqual(["users_email_unique"]);
+  expect(snapshot.internal?.tables.users?.columns).toEqual({
+    tags: { isArray: true, dimensions: 1, rawType: "text" },
+    created_at: { isDefaultAnExpression: true },
+  });
+
+  expect(posts.columns.id.type).toBe("bigserial");
+  expect(posts.columns.price).toMatchObject({
+    type: "numeric(10,2)",
+    default: "'0'",
+  });
+  expect(posts.indexes.posts_author_idx).toMatchObject({
+    isUnique: true,
+    method: "btree",
+  });
+  expect(posts.indexes.posts_lower_title_index).toMatchObject({
+    columns: [{ expression: "lower(title)", isExpression: true }],
+    method: "hash",
+  });
+  expect(posts.foreignKeys).toEqual({
+    posts_author_id_users_id_fk: {
+      name: "posts_author_id_users_id_fk",
+      tableFrom: "posts",
+      columnsFrom: ["author_id"],
+      tableTo: "users",
+      schemaTo: "auth",
+      columnsTo: ["id"],
+      onDelete: "no action",
+      onUpdate: "no action",
+    },
+  });
+
+  expect(postTags.compositePrimaryKeys).toEqual({
+    post_tags_post_id_tag_pk: {
+      name: "post_tags_post_id_tag_pk",
+      columns: ["post_id", "tag"],
+    },
+  });
+  expect(postTags.foreignKeys.post_tags_post_id_posts_id_fk.onDelete).toBe(
+    "cascade",
+  );
+});
+
+test("Reject references to unknown tables", () => {
+  expect(() => dbmlToSnapshot("Ref: a.id > b.id")).toThrow(
+    "Invalid DBML: reference to unknown table `a`",
+  );
+});
+
+test("Convert DBML to a Drizzle schema and its relations", () => {
+  const { schema, relations } = dbmlToTypescript(dbml);
+
+  expect(schema).toContain('export const auth = pgSchema("auth");');
+  expect(schema).toContain(
+    "export const roleInAuth = auth.enum(\"role\", ['admin', 'member'])",
+  );
+  expect(schema).toContain("role: roleInAuth().default('member'),");
+  expect(schema).toContain("tags: text().array(),");
+  expect(schema).toContain(
+    'lower_title_idx: index("posts_lower_title_index").using("hash", sql`lower(title)`),',
+  );
+  expect(relations).toContain(
+    "export const postsRelations = relations(posts, ({one, many}) => ({",
+  );
+  expect(dbmlToTypescript("Table users {\n  id int [pk]\n}").relations).toBe(
+    "",
+  );
+});
+
+function columnsOf(table: Table) {
+  return Object.values(table.columns).map(
+    ({ name, type, typeSchema, primaryKey, notNull, default: value }) => ({
+      name,
+      type,
+      typeSchema,
+      primaryKey,
+      notNull,
+      default: value,
+    }),
+  );
+}
+
+test("Import the DBML export of a snapshot", () => {
+  const role = pgEnum("role", ["admin", "member"]);
+  const users = pgTable(
+    "users",
+    {
+      id: serial().primaryKey(),
+      email: varchar({ length: 255 }).notNull(),
+      role: role().default("member"),
+      tags: text().array(),
+    },
+    (table) => [index("users_email_idx").on(table.email)],
+  );
+  const posts = pgTable("posts", {
+    id: integer().primaryKey(),
+    authorId: integer()
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+  });
+  const snapshot = schemaToSnapshot({ role, users, posts });
+  const imported = dbmlToSnapshot(snapshotToDbml(snapshot));
+
+  expect(imported.enums).toEqual(snapshot.enums);
+  expect(columnsOf(imported.tables["public.users"])).toEqual(
+    columnsOf(snapshot.tables["public.users"]),
+  );
+  expect(imported.tables["public.users"].indexes).toEqual(
+    snapshot.tables["public.users"].indexes,
+  );
+  expect(imported.tables["public.posts"].foreignKeys).toEqual({
+    posts_authorId_users_id_fk: {
+      ...snapshot.tables["public.posts"].foreignKeys.posts_authorId_users_id_fk,
+      schemaTo: "public",
+    },
+  });
+});
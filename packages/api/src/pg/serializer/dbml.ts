@@ -0,0 +1,263 @@
+import { parseDbml, type DbmlValue } from "../../internal/dbml-parser";
+import { relationsToTypeScript } from "../../relations/typescript";
+import type { PgKitInternals, Snapshot, Table } from "../schema";
+import { snapshotToTypeScript } from "./typescript";
+
+const typeAliases: Record<string, string> = {
+  int: "integer",
+  int4: "integer",
+  int2: "smallint",
+  int8: "bigint",
+  bool: "boolean",
+  float4: "real",
+  float: "double precision",
+  float8: "double precision",
+  double: "double precision",
+  decimal: "numeric",
+  "character varying": "varchar",
+  datetime: "timestamp",
+  timestamptz: "timestamp with time zone",
+  timetz: "time with time zone",
+};
+
+const serialTypes: Record<string, string> = {
+  integer: "serial",
+  smallint: "smallserial",
+  bigint: "bigserial",
+};
+
+/**
+ * Map DBML types to the names returned by the introspection, e.g. `int4` -> `integer`
+ */
+function normalizeType(type: string) {
+  const [, base = type, args = "", array = ""] =
+    type.trim().match(/^(.+?)\s*(\(.*\))?((?:\[\d*\])*)$/) ?? [];
+
+  return `${typeAliases[base.toLowerCase()] ?? base}${args.replace(/\s+/g, "")}${array.replace(/\d/g, "")}`;
+}
+
+function toDefault(value: DbmlValue, type: string) {
+  switch (value.kind) {
+    case "string":
+      return `'${value.value.replaceAll("'", "''")}'`;
+    case "number":
+      return type.startsWith("numeric")
+        ? `'${value.value}'`
+        : Number(value.value);
+    case "boolean":
+      return value.value === "true";
+    case "null":
+      return "NULL";
+    default:
+      return value.value;
+  }
+}
+
+/**
+ * Convert a DBML document to a Drizzle snapshot, without a database
+ *
+ * Supports tables, enums, indexes, composite primary keys, notes and references.
+ *
+ * @param dbml - DBML document
+ * @returns Drizzle snapshot
+ * @throws If the document is not valid DBML
+ */
+export function dbmlToSnapshot(dbml: string): Snapshot {
+  const { enums, tables, references } = parseDbml(dbml);
+  const internal: NonNullable<PgKitInternals> = { tables: {} };
+  const schemas = new Set<string>();
+  const result: Record<string, Table> = {};
+
+  const setInternal = (
+    table: string,
+    column: string,
+    values: NonNullable<(typeof internal.tables)[string]>["columns"][string],
+  ) => {
+    internal.tables[table] ??= { columns: {} };
+    internal.tables[table]!.columns[column] = {
+      ...internal.tables[table]!.columns[column],
+      ...values,
+    };
+  };
+
+  for (const dbmlEnum of enums) {
+    if (dbmlEnum.schema && dbmlEnum.schema !== "public") {
+      schemas.add(dbmlEnum.schema);
+    }
+  }
+
+  for (const dbmlTable of tables) {
+    const schema = dbmlTable.schema || "public";
+    const table: Table = {
+      name: dbmlTable.name,
+      schema,
+      columns: {},
+      indexes: {},
+      foreignKeys: {},
+      compositePrimaryKeys: {},
+      uniqueConstraints: {},
+      policies: {},
+      checkConstraints: {},
+      isRLSEnabled: false,
+      relations: [],
+      description: dbmlTable.note,
+      triggers: {},
+    };
+
+    if (schema !== "public") {
+      schemas.add(schema);
+    }
+
+    for (const column of dbmlTable.columns) {
+      let type = normalizeType(column.type);
+      const dimensions = type.split("[]").length - 1;
+      const baseType = type.replace(/(\[\])+$/, "");
+      const enumType = enums.find((it) =>
+        [it.name, `${it.schema || "public"}.${it.name}`].includes(baseType),
+      );
+
+      if (column.increment && serialTypes[type.toLowerCase()]) {
+        type = serialTypes[type.toLowerCase()];
+      }
+
+      if (dimensions > 0) {
+        setInternal(table.name, column.name, {
+          isArray: true,
+          dimensions,
+          rawType: baseType,
+        });
+      }
+
+      if (
+        column.default?.kind === "expression" ||
+        column.default?.kind === "null"
+      ) {
+        setInternal(table.name, column.name, { isDefaultAnExpression: true });
+      }
+
+      table.columns[column.name] = {
+        name: column.name,
+        type: enumType ? `${enumType.name}${"[]".repeat(dimensions)}` : type,
+        typeSchema: enumType ? enumType.schema || "public" : undefined,
+        primaryKey: column.primaryKey,
+        notNull: column.notNull,
+        default: column.default
+          ? toDefault(column.default, type.toLowerCase())
+          : undefined,
+        description: column.note,
+      };
+
+      if (column.unique) {
+        const name = `${table.name}_${column.name}_unique`;
+        table.uniqueConstraints[name] = {
+          name,
+          columns: [column.name],
+          nullsNotDistinct: false,
+        };
+      }
+    }
+
+    for (const index of dbmlTable.indexes) {
+      const columns = index.columns.map((it) => it.value);
+
+      if (index.primaryKey) {
+        const name = index.name ?? `${table.name}_${columns.join("_")}_pk`;
+        table.compositePrimaryKeys[name] = { name, columns };
+        continue;
+      }
+
+      const name =
+        index.name ??
+        `${table.name}_${columns.join("_").replace(/\W+/g, "_").replace(/_$/, "")}_index`;
+      table.indexes[name] = {
+        name,
+        columns: index.columns.map((it) => ({
+          expression: it.value,
+          isExpression: it.isExpression,
+          asc: true,
+          nulls: "last",
+        })),
+        isUnique: index.unique,
+        with: {},
+        method: index.type ?? "btree",
+        concurrently: false,
+      };
+    }
+
+    result[`${schema}.${table.name}`] = table;
+  }
+
+  for (const reference of references) {
+    const table =
+      result[`${reference.schemaFrom || "public"}.${reference.tableFrom}`];
+
+    if (!table) {
+      throw new Error(
+        `Invalid DBML: reference to unknown table \`${reference.tableFrom}\``,
+      );
+    }
+
+    const name =
+      reference.name ??
+      `${reference.tableFrom}_${reference.columnsFrom.join("_")}_${reference.tableTo}_${reference.columnsTo.join("_")}_fk`;
+
+    table.foreignKeys[name] = {
+      name,
+      tableFrom: reference.tableFrom,
+      columnsFrom: reference.columnsFrom,
+      tableTo: reference.tableTo,
+      schemaTo: reference.schemaTo || "public",
+      columnsTo: reference.columnsTo,
+      onDelete: reference.onDelete ?? "no action",
+      onUpdate: reference.onUpdate ?? "no action",
+    };
+  }
+
+  return {
+    version: "7",
+    dialect: "postgresql",
+    tables: result,
+    enums: Object.fromEntries(
+      enums.map((it) => [
+        `${it.schema || "public"}.${it.name}`,
+        { name: it.name, schema: it.schema || "public", values: it.values },
+      ]),
+    ),
+    schemas: Object.fromEntries([...schemas].map((it) => [it, it])),
+    views: {},
+    sequences: {},
+    roles: {},
+    policies: {},
+    functions: {},
+    extensions: {},
+    domains: {},
+    compositeTypes: {},
+    _meta: {
+      schemas: {},
+      tables: {},
+      columns: {},
+    },
+    internal,
+    projectId: "drizzle-lab",
+  };
+}
+
+/**
+ * Convert a DBML document to a Drizzle schema and its relations
+ * @param dbml - DBML document
+ * @returns The TypeScript files, `relations` is empty if there are no references
+ */
+export function dbmlToTypescript(dbml: string) {
+  const snapshot = dbmlToSnapshot(dbml);
+  const { file } = snapshotToTypeScript(snapshot, "preserve");
+  const hasReferences = Object.values(snapshot.tables).some(
+    (table) => Object.keys(table.foreignKeys).length > 0,
+  );
+
+  return {
+    schema: file,
+    relations: hasReferences
+      ? relationsToTypeScript(snapshot, "preserve").file
+      : "",
+  };
+}
@@ -0,0 +1,140 @@
+import {
+  index,
+  integer,
+  pgEnum,
+  pgTable,
+  primaryKey,
+  text,
+  varchar,
+} from "drizzle-orm/pg-core";
+import { expect, test } from "vitest";
+
+import { snapshotToDbml, snapshotToMermaid } from "./diagram";
+import { schemaToSnapshot } from "./snapshot";
+import { explain } from "../../extensions/explain";
+
+const role = pgEnum("role", ["admin", "member"]);
+const users = pgTable(
+  "users",
+  {
+    id: integer().primaryKey(),
+    email: varchar({ length: 255 }).notNull().unique(),
+    role: role().default("member"),
+  },
+  (table) => [index("users_email_idx").on(table.email)],
+);
+const posts = pgTable("posts", {
+  id: integer().primaryKey(),
+  authorId: integer()
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  body: text(),
+});
+const postTags = pgTable(
+  "post_tags",
+  {
+    postId: integer()
+      .notNull()
+      .references(() => posts.id),
+    tag: text().notNull(),
+  },
+  (table) => [primaryKey({ columns: [table.postId, table.tag] })],
+);
+const profiles = pgTable("user profiles", {
+  userId: integer()
+    .unique()
+    .references(() => users.id),
+  bio: text(),
+});
+
+explain(users, {
+  description: `Users's "accounts"`,
+  columns: { email: "Login" },
+});
+
+const snapshot = schemaToSnapshot({ role, users, posts, postTags, profiles });
+
+test("Convert a snapshot to a Mermaid entity relationship diagram", () => {
+  expect(snapshotToMermaid(snapshot)).toBe(
+    [
+      "erDiagram",
+      "  users {",
+      "    integer id PK",
+      '    varchar(255) email "Login"',
+      "    role role",
+      "  }",
+      "  posts {",
+      "    integer id PK",
+      "    integer authorId FK",
+      "    text body",
+      "  }",
+      "  post_tags {",
+      "    integer postId PK, FK",
+      "    text tag PK",
+      "  }",
+      "  user_profiles {",
+      "    integer userId FK",
+      "    text bio",
+      "  }",
+      '  users ||--o{ posts : "authorId"',
+      '  posts ||--o{ post_tags : "postId"',
+      // nullable and unique foreign keys are optional one-to-one relations
+      '  users |o--o| user_profiles : "userId"',
+      "",
+    ].join("\n"),
+  );
+});
+
+test("Convert a snapshot to DBML", () => {
+  expect(snapshotToDbml(snapshot)).toBe(
+    [
+      "Enum role {",
+      "  admin",
+      "  member",
+      "}",
+      "",
+      "Table users {",
+      "  id integer [pk]",
+      "  email varchar(255) [not null, note: 'Login']",
+      "  role role [default: 'member']",
+      "",
+      "  Indexes {",
+      "    email [unique, name: 'users_email_unique']",
+      "    email [name: 'users_email_idx']",
+      "  }",
+      "",
+      `  Note: 'Users\\'s "accounts"'`,
+      "}",
+      "",
+      "Table posts {",
+      "  id integer [pk]",
+      "  authorId integer [not null]",
+      "  body text",
+      "}",
+      "",
+      "Table post_tags {",
+      "  postId integer [not null]",
+      "  tag text [not null]",
+      "",
+      "  Indexes {",
+      "    (postId, tag) [pk, name: 'post_tags_postId_tag_pk']",
+      "  }",
+      "}",
+      "",
+      'Table "user profiles" {',
+      "  userId integer",
+      "  bio text",
+      "",
+      "  Indexes {",
+      "    userId [unique, name: 'user profiles_userId_unique']",
+      "  }",
+      "}",
+      "",
+      "Ref posts_authorId_users_id_fk: posts.authorId > users.id [delete: cascade, update: no action]",
+      "Ref post_tags_postId_posts_id_fk: post_tags.postId > posts.id [delete: no action, update: no action]",
+      // names with spaces can not be written as ref names
+      'Ref: "user profiles".userId > users.id [delete: no action, update: no action]',
+      "",
+    ].join("\n"),
+  );
+});
@@ -0,0 +1,22 @@
+import { snapshotToDataDictionary } from "./docs";
+import { dataDictionaryToDbml } from "../../internal/dbml";
+import { dataDictionaryToMermaid } from "../../internal/mermaid";
+import type { Snapshot } from "../schema";
+
+/**
+ * Convert snapshot to a Mermaid entity relationship diagram
+ * @param snapshot - Snapshot
+ * @returns Mermaid `erDiagram`
+ */
+export function snapshotToMermaid(snapshot: Snapshot) {
+  return dataDictionaryToMermaid(snapshotToDataDictionary(snapshot, {}));
+}
+
+/**
+ * Convert snapshot to DBML, to be imported in dbdiagram.io or dbdocs.io
+ * @param snapshot - Snapshot
+ * @returns DBML
+ */
+export function snapshotToDbml(snapshot: Snapshot) {
+  return dataDictionaryToDbml(snapshotToDataDictionary(snapshot, {}));
+}
@@ -0,0 +1,269 @@
+import { PGlite } from "@electric-sql/pglite";
+import { eq, sql } from "drizzle-orm";
+import {
+  index,
+  integer,
+  pgEnum,
+  pgPolicy,
+  pgTable,
+  pgView,
+  text,
+  varchar,
+} from "drizzle-orm/pg-core";
+import { expect, test } from "vitest";
+
+import { diffSnapshots, generateRollback } from "./diff";
+import { schemaToSnapshot } from "./snapshot";
+import { snapshotToSql } from "./sql";
+import type { ExplainMetadata } from "../../extensions/drizzle.lab";
+import { explain } from "../../extensions/explain";
+import { importFromDatabase } from "../loader/database";
+
+const empty = schemaToSnapshot({});
+const v1 = schemaToSnapshot({
+  users: pgTable(
+    "users",
+    { id: integer().primaryKey(), name: text() },
+    (table) => [index("users_name_idx").on(table.name)],
+  ),
+});
+const v2 = schemaToSnapshot({
+  users: pgTable("users", {
+    id: integer().primaryKey(),
+    name: varchar({ length: 100 }).notNull(),
+    email: text(),
+  }),
+});
+
+test("Identical snapshots produce no statements", () => {
+  expect(diffSnapshots(v1, v1).sqlStatements).toEqual([]);
+});
+
+test("Create tables and their indexes", () => {
+  expect(diffSnapshots(empty, v1).sqlStatements).toEqual([
+    'CREATE TABLE IF NOT EXISTS "users" (\n\t"id" integer PRIMARY KEY NOT NULL,\n\t"name" text\n);\n',
+    'CREATE INDEX IF NOT EXISTS "users_name_idx" ON "users" USING btree ("name");',
+  ]);
+});
+
+test("Alter columns, add columns and drop indexes", () => {
+  expect(diffSnapshots(v1, v2).sqlStatements).toEqual([
+    'DROP INDEX IF EXISTS "users_name_idx";',
+    'ALTER TABLE "users" ADD COLUMN "email" text;',
+    'ALTER TABLE "users" ALTER COLUMN "name" SET DATA TYPE varchar(100) USING "name"::varchar(100);',
+    'ALTER TABLE "users" ALTER COLUMN "name" SET NOT NULL;',
+  ]);
+});
+
+test("Toggle identity columns together with their not null constraint", () => {
+  const identity = schemaToSnapshot({
+    counters: pgTable("counters", {
+      id: integer().generatedAlwaysAsIdentity(),
+    }),
+  });
+  const plain = schemaToSnapshot({
+    counters: pgTable("counters", { id: integer() }),
+  });
+
+  expect(diffSnapshots(identity, plain).sqlStatements).toEqual([
+    'ALTER TABLE "counters" ALTER COLUMN "id" DROP IDENTITY;',
+    'ALTER TABLE "counters" ALTER COLUMN "id" DROP NOT NULL;',
+  ]);
+  expect(diffSnapshots(plain, identity).sqlStatements).toEqual([
+    'ALTER TABLE "counters" ALTER COLUMN "id" SET NOT NULL;',
+    'ALTER TABLE "counters" ALTER COLUMN "id" ADD GENERATED ALWAYS AS IDENTITY (sequence name "counters_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1);',
+  ]);
+});
+
+test("Rename tables and columns with rename hints", () => {
+  const next = schemaToSnapshot({
+    customers: pgTable("customers", {
+      id: integer().primaryKey(),
+      fullName: text(),
+    }),
+  });
+
+  expect(
+    diffSnapshots(v1, next, {
+      renames: [
+        "public.users->public.customers",
+        "public.customers.name->public.customers.fullName",
+      ],
+    }).sqlStatements,
+  ).toEqual([
+    'ALTER TABLE "users" RENAME TO "customers";',
+    'DROP INDEX IF EXISTS "users_name_idx";',
+    'ALTER TABLE "customers" RENAME COLUMN "name" TO "fullName";',
+  ]);
+  // without hints, the table is dropped and re-created
+  expect(diffSnapshots(v1, next).sqlStatements).toContain(
+    'DROP TABLE "users" CASCADE;',
+  );
+});
+
+test("Drop tables", () => {
+  expect(diffSnapshots(v1, empty).sqlStatements).toEqual([
+    'DROP TABLE "users" CASCADE;',
+  ]);
+});
+
+test("Add enum values", () => {
+  const prev = schemaToSnapshot({ mood: pgEnum("mood", ["sad", "ok"]) });
+  const next = schemaToSnapshot({
+    mood: pgEnum("mood", ["sad", "ok", "happy"]),
+  });
+
+  expect(diffSnapshots(prev, next).sqlStatements).toEqual([
+    `ALTER TYPE "public"."mood" ADD VALUE 'happy';`,
+  ]);
+});
+
+function usersSchema(metadata: ExplainMetadata = {}) {
+  const users = pgTable("users", {
+    id: integer().primaryKey(),
+    email: text().notNull(),
+  });
+  const activeUsers = pgView("active_users").as((qb) =>
+    qb.select().from(users).where(eq(users.id, 1)),
+  );
+
+  explain(users, {
+    ...metadata,
+    description: "Users of the app",
+    columns: { email: { description: "Login email", ...metadata } },
+  });
+  explain(activeUsers, { ...metadata, description: "Active users" });
+
+  return { users, activeUsers };
+}
+
+test("Explain metadata only changes produce no statements", () => {
+  const prev = schemaToSnapshot(usersSchema());
+  const next = schemaToSnapshot(
+    usersSchema({
+      tags: ["auth"],
+      owner: "team-identity",
+      sensitivity: "pii",
+      deprecated: "Use accounts",
+      examples: ["jane@example.com"],
+    }),
+  );
+
+  expect(next.tables["public.users"].columns.email.sensitivity).toBe("pii");
+  expect(next.views["public.active_users"].tags).toEqual(["auth"]);
+  expect(diffSnapshots(prev, next).sqlStatements).toEqual([]);
+});
+
+function postsSchema(description?: string) {
+  const posts = pgTable(
+    "posts",
+    {
+      id: integer().primaryKey(),
+      authorId: integer().notNull(),
+    },
+    (table) => [
+      explain(index("posts_author_idx").on(table.authorId), { description }),
+      explain(pgPolicy("posts_read", { for: "select", using: sql`true` }), {
+        description,
+      }),
+    ],
+  );
+
+  return { posts };
+}
+
+test("Index and policy description only changes produce no statements", () => {
+  const prev = schemaToSnapshot(postsSchema());
+  const next = schemaToSnapshot(postsSchema("Posts of an author"));
+  const posts = next.tables["public.posts"];
+
+  expect(posts.indexes.posts_author_idx.description).toBe("Posts of an author");
+  expect(posts.policies.posts_read.description).toBe("Posts of an author");
+  expect(diffSnapshots(prev, next).sqlStatements).toEqual([]);
+});
+
+const moodBefore = pgEnum("mood", ["sad", "ok", "happy"]);
+const moodAfter = pgEnum("mood", ["sad", "ok"]);
+const beforeMigration = schemaToSnapshot({
+  mood: moodBefore,
+  users: pgTable(
+    "users",
+    {
+      id: integer().primaryKey(),
+      name: text(),
+      status: varchar({ length: 20 }).notNull().default("active"),
+      mood: moodBefore(),
+    },
+    () => [pgPolicy("users_read", { for: "select", using: sql`true` })],
+  ).enableRLS(),
+});
+const afterMigration = schemaToSnapshot({
+  mood: moodAfter,
+  users: pgTable(
+    "users",
+    { id: integer().primaryKey(), name: text(), mood: moodAfter() },
+    (table) => [index("users_name_idx").on(table.name)],
+  ).enableRLS(),
+});
+
+test("Roll back created, dropped and altered objects", () => {
+  expect(
+    generateRollback(beforeMigration, afterMigration).sqlStatements,
+  ).toEqual([
+    `ALTER TYPE "public"."mood" ADD VALUE 'happy';`,
+    'DROP INDEX IF EXISTS "users_name_idx";',
+    `ALTER TABLE "users" ADD COLUMN "status" varchar(20) DEFAULT 'active' NOT NULL;`,
+    'CREATE POLICY "users_read" ON "users" AS PERMISSIVE FOR SELECT TO public USING (true);',
+  ]);
+});
+
+test("Roll back renames with the inverted rename hints", () => {
+  const next = schemaToSnapshot({
+    customers: pgTable("customers", {
+      id: integer().primaryKey(),
+      fullName: text(),
+    }),
+  });
+
+  expect(
+    generateRollback(v1, next, {
+      renames: [
+        "public.users->public.customers",
+        "public.customers.name->public.customers.fullName",
+      ],
+    }).sqlStatements,
+  ).toEqual([
+    'ALTER TABLE "customers" RENAME TO "users";',
+    'ALTER TABLE "users" RENAME COLUMN "fullName" TO "name";',
+    'CREATE INDEX IF NOT EXISTS "users_name_idx" ON "users" USING btree ("name");',
+  ]);
+});
+
+test("Apply a migration and its rollback to get the original pg database back", async () => {
+  const client = new PGlite();
+  const introspect = () =>
+    importFromDatabase(
+      {
+        query: async (query: string, params?: unknown[]) =>
+          (await client.query<any>(query, params)).rows,
+      },
+      ["public"],
+    );
+
+  await client.exec(snapshotToSql(beforeMigration));
+  const original = await introspect();
+
+  for (const statement of diffSnapshots(beforeMigration, afterMigration)
+    .sqlStatements) {
+    await client.exec(statement);
+  }
+
+  expect(await introspect()).not.toEqual(original);
+
+  for (const statement of generateRollback(beforeMigration, afterMigration)
+    .sqlStatements) {
+    await client.exec(statement);
+  }
+
+  expect(await introspect()).toEqual(original);
+});
@@ -0,0 +1,746 @@
+import {
+  diffRecords,
+  invertRenames,
+  isDeepEqual,
+  omitDescription,
+  omitLabColumnFields,
+  parseRenames,
+  scopeRenames,
+  type DiffOptions,
+} from "../../internal/diff";
+import { omitExplainMetadata } from "../../internal/explain";
+import {
+  prepareAlterColumnsJson,
+  prepareAlterEnumJson,
+  prepareDropTableJson,
+  prepareRenameTableJson,
+} from "../../sql/alter-statements";
+import {
+  prepareCreateEnumJson,
+  prepareCreateIndPolicyJsons,
+  prepareCreatePolicyJsons,
+  prepareCreateReferencesJson,
+  prepareCreateRoleJson,
+  prepareCreateSchemasJson,
+  prepareCreateSequenceJson,
+  preparePgCreateIndexesJson,
+  preparePgCreateTableJson,
+  preparePgCreateViewJson,
+  type JsonStatement,
+} from "../../sql/create-statements";
+import { generateSql } from "../../sql/generator";
+import {
+  PgSquasher,
+  squashSnapshot,
+  type Snapshot,
+  type Table,
+  type View,
+} from "../schema";
+
+/**
+ * Compare two snapshots and generate the statements to migrate the database from `prev` to `next`
+ * @param prev - Snapshot of the current database
+ * @param next - Snapshot of the desired database
+ * @param options - Diff options
+ * @returns JSON statements and SQL statements
+ */
+export function diffSnapshots(
+  prev: Snapshot,
+  next: Snapshot,
+  options: DiffOptions = {},
+) {
+  return generatePgMigration(prev, next, options);
+}
+
+/**
+ * Generate the statements to roll back a migration from `prev` to `next`, i.e. to migrate the database from `next` back to `prev`
+ *
+ * Created objects are dropped, dropped objects are re-created from `prev` (columns keep their original type and default) and altered objects are restored.
+ * Data of dropped tables and columns can't be restored.
+ *
+ * @param prev - Snapshot of the database before the migration
+ * @param next - Snapshot of the database after the migration
+ * @param options - Diff options of the forward migration, renames are inverted
+ * @returns JSON statements and SQL statements
+ */
+export function generateRollback(
+  prev: Snapshot,
+  next: Snapshot,
+  options: DiffOptions = {},
+) {
+  return generatePgMigration(next, prev, {
+    ...options,
+    renames: invertRenames(options.renames),
+  });
+}
+
+const generatePgMigration = (
+  prev: Snapshot,
+  next: Snapshot,
+  options: DiffOptions,
+): {
+  statements: JsonStatement[];
+  sqlStatements: string[];
+} => {
+  const renames = parseRenames(options.renames);
+  const squashedNext = squashSnapshot(next);
+  const statements: JsonStatement[] = [];
+
+  /* -------------------------------- Schemas; -------------------------------- */
+  const schemasDiff = diffRecords(prev.schemas, next.schemas, renames);
+
+  statements.push(...prepareCreateSchemasJson(schemasDiff.added));
+
+  for (const { from, to } of schemasDiff.renamed) {
+    statements.push({ type: "rename_schema", from, to });
+  }
+
+  /* --------------------------------- Roles; --------------------------------- */
+  const rolesDiff = diffRecords(prev.roles, next.roles);
+
+  for (const name of rolesDiff.added) {
+    statements.push(prepareCreateRoleJson(next.roles[name]));
+  }
+
+  for (const name of rolesDiff.common) {
+    const { name: _, ...values } = next.roles[name];
+
+    if (!isDeepEqual(prev.roles[name], next.roles[name])) {
+      statements.push({ type: "alter_role", name, values });
+    }
+  }
+
+  /* --------------------------------- Enums; --------------------------------- */
+  const enumsDiff = diffRecords(prev.enums, next.enums, renames);
+  const columnsWithEnum = (name: string, schema: string) =>
+    Object.values(next.tables).flatMap((table) =>
+      Object.values(table.columns)
+        .filter(
+          (column) =>
+            column.type === name && (column.typeSchema ?? "public") === schema,
+        )
+        .map((column) => ({
+          schema: table.schema || "public",
+          table: table.name,
+          column: column.name,
+        })),
+    );
+
+  for (const key of enumsDiff.added) {
+    const { name, schema, values } = next.enums[key];
+    statements.push(prepareCreateEnumJson(name, schema, values));
+  }
+
+  for (const { from, to } of enumsDiff.renamed) {
+    const prevEnum = prev.enums[from];
+    const nextEnum = next.enums[to];
+
+    if (prevEnum.schema !== nextEnum.schema) {
+      statements.push({
+        type: "move_type_enum",
+        name: prevEnum.name,
+        schemaFrom: prevEnum.schema,
+        schemaTo: nextEnum.schema,
+      });
+    }
+
+    if (prevEnum.name !== nextEnum.name) {
+      statements.push({
+        type: "rename_type_enum",
+        nameFrom: prevEnum.name,
+        nameTo: nextEnum.name,
+        schema: nextEnum.schema,
+      });
+    }
+  }
+
+  const alterEnums = [
+    ...enumsDiff.common.map((key) => ({ from: key, to: key })),
+    ...enumsDiff.renamed,
+  ].flatMap(({ from, to }) => {
+    const { name, schema, values } = next.enums[to];
+
+    return prepareAlterEnumJson(
+      name,
+      schema,
+      prev.enums[from].values,
+      values,
+      columnsWithEnum(name, schema),
+    );
+  });
+
+  // adding values can't be done in the same transaction as using them, but there is no way around it
+  statements.push(
+    ...alterEnums.filter((it) => it.type === "alter_type_add_value"),
+  );
+
+  /* ------------------------------- Sequences; ------------------------------- */
+  const sequencesDiff = diffRecords(prev.sequences, next.sequences);
+
+  for (const key of sequencesDiff.added) {
+    statements.push(prepareCreateSequenceJson(squashedNext.sequences[key]));
+  }
+
+  for (const key of sequencesDiff.common) {
+    const { name, schema, ...values } = next.sequences[key];
+
+    if (!isDeepEqual(prev.sequences[key], next.sequences[key])) {
+      statements.push({ type: "alter_sequence", name, schema, values });
+    }
+  }
+
+  /* ------------------------------ Drop views; ------------------------------- */
+  const viewsDiff = diffRecords(prev.views, next.views, renames);
+  const isViewChanged = (prevView: View, nextView: View) =>
+    !isDeepEqual(
+      {
+        ...omitExplainMetadata(prevView),
+        name: "",
+        columns: {},
+        description: undefined,
+      },
+      {
+        ...omitExplainMetadata(nextView),
+        name: "",
+        columns: {},
+        description: undefined,
+      },
+    );
+
+  // views depend on tables, they are dropped before and created after the tables are altered
+  const droppedViews = [
+    ...viewsDiff.deleted,
+    ...viewsDiff.common.filter((key) =>
+      isViewChanged(prev.views[key], next.views[key]),
+    ),
+    ...viewsDiff.renamed
+      .filter(({ from, to }) => isViewChanged(prev.views[from], next.views[to]))
+      .map(({ from }) => from),
+  ].filter((key) => !prev.views[key].isExisting);
+
+  for (const key of droppedViews) {
+    const { name, schema, materialized } = prev.views[key];
+    statements.push({ type: "drop_view", name, schema, materialized });
+  }
+
+  /* --------------------------------- Tables; -------------------------------- */
+  const tablesDiff = diffRecords(prev.tables, next.tables, renames);
+  const alteredTables = [
+    ...tablesDiff.renamed,
+    ...tablesDiff.common.map((key) => ({ from: key, to: key })),
+  ];
+
+  for (const { from, to } of tablesDiff.renamed) {
+    statements.push(prepareRenameTableJson(prev.tables[from], next.tables[to]));
+  }
+
+  const dropConstraints: JsonStatement[] = [];
+  const alterColumns: JsonStatement[] = [];
+  const createConstraints: JsonStatement[] = [];
+  const alterPolicies: JsonStatement[] = [];
+
+  for (const { from, to } of alteredTables) {
+    const prevTable = prev.tables[from];
+    const nextTable = next.tables[to];
+    const { name: tableName, schema } = nextTable;
+
+    /* ------------------------------- Columns; ------------------------------- */
+    const columnsDiff = diffRecords(
+      prevTable.columns,
+      nextTable.columns,
+      scopeRenames(renames, to),
+    );
+
+    for (const {
+      from: oldColumnName,
+      to: newColumnName,
+    } of columnsDiff.renamed) {
+      alterColumns.push({
+        type: "alter_table_rename_column",
+        tableName,
+        oldColumnName,
+        newColumnName,
+        schema,
+      });
+    }
+
+    for (const name of columnsDiff.deleted) {
+      alterColumns.push({
+        type: "alter_table_drop_column",
+        tableName,
+        columnName: name,
+        schema,
+      });
+    }
+
+    const addColumn = (name: string) =>
+      alterColumns.push({
+        type: "alter_table_add_column",
+        tableName,
+        schema,
+        column: squashedNext.tables[to].columns[name],
+      });
+
+    for (const name of columnsDiff.added) {
+      addColumn(name);
+    }
+
+    for (const { from: prevName, to: nextName } of [
+      ...columnsDiff.renamed,
+      ...columnsDiff.common.map((it) => ({ from: it, to: it })),
+    ]) {
+      const prevColumn = omitLabColumnFields({
+        ...prevTable.columns[prevName],
+        name: nextName,
+      });
+      const nextColumn = omitLabColumnFields(nextTable.columns[nextName]);
+
+      if (isDeepEqual(prevColumn, nextColumn)) {
+        continue;
+      }
+
+      // generated columns can't be altered
+      if (!isDeepEqual(prevColumn.generated, nextColumn.generated)) {
+        alterColumns.push({
+          type: "alter_table_drop_column",
+          tableName,
+          columnName: nextName,
+          schema,
+        });
+        addColumn(nextName);
+        continue;
+      }
+
+      alterColumns.push(
+        ...prepareAlterColumnsJson(
+          tableName,
+          schema,
+          {
+            ...prevColumn,
+            identity: prevColumn.identity
+              ? PgSquasher.squashIdentity(prevColumn.identity)
+              : undefined,
+          },
+          squashedNext.tables[to].columns[nextName],
+        ),
+      );
+    }
+
+    /* ----------------------------- Constraints; ----------------------------- */
+    diffTableConstraints(prevTable, nextTable, next, {
+      dropConstraints,
+      createConstraints,
+    });
+
+    /* ------------------------------- Policies; ------------------------------ */
+    const policiesDiff = diffRecords(
+      prevTable.policies,
+      nextTable.policies,
+      scopeRenames(renames, to),
+    );
+
+    for (const name of policiesDiff.deleted) {
+      dropConstraints.push({
+        type: "drop_policy",
+        tableName,
+        data: prevTable.policies[name],
+        schema,
+      });
+    }
+
+    for (const { from: oldName, to: newName } of policiesDiff.renamed) {
+      alterPolicies.push({
+        type: "rename_policy",
+        tableName,
+        oldName,
+        newName,
+        schema,
+      });
+    }
+
+    for (const { from: prevName, to: nextName } of [
+      ...policiesDiff.renamed,
+      ...policiesDiff.common.map((it) => ({ from: it, to: it })),
+    ]) {
+      const prevPolicy = { ...prevTable.policies[prevName], name: nextName };
+      const nextPolicy = nextTable.policies[nextName];
+
+      if (
+        isDeepEqual(omitDescription(prevPolicy), omitDescription(nextPolicy))
+      ) {
+        continue;
+      }
+
+      // `as` and `for` can't be altered
+      if (
+        prevPolicy.as !== nextPolicy.as ||
+        prevPolicy.for !== nextPolicy.for
+      ) {
+        alterPolicies.push(
+          { type: "drop_policy", tableName, data: prevPolicy, schema },
+          ...prepareCreatePolicyJsons(tableName, schema, [nextPolicy]),
+        );
+        continue;
+      }
+
+      alterPolicies.push({
+        type: "alter_policy",
+        tableName,
+        oldData: prevPolicy,
+        newData: nextPolicy,
+        schema,
+      });
+    }
+
+    alterPolicies.push(
+      ...prepareCreatePolicyJsons(
+        tableName,
+        schema,
+        policiesDiff.added.map((name) => nextTable.policies[name]),
+      ),
+    );
+
+    const isRLSEnabled = (table: Table) =>
+      table.isRLSEnabled || Object.keys(table.policies).length > 0;
+
+    if (isRLSEnabled(prevTable) !== isRLSEnabled(nextTable)) {
+      alterPolicies.push({
+        type: isRLSEnabled(nextTable) ? "enable_rls" : "disable_rls",
+        tableName,
+        schema,
+      });
+    }
+  }
+
+  statements.push(...dropConstraints);
+
+  for (const key of tablesDiff.added) {
+    const table = squashedNext.tables[key];
+
+    statements.push(preparePgCreateTableJson(table, next));
+    createConstraints.push(
+      ...prepareCreateReferencesJson(
+        table.name,
+        table.schema,
+        table.foreignKeys,
+      ),
+      ...preparePgCreateIndexesJson(
+        table.name,
+        table.schema,
+        table.indexes,
+        next,
+      ),
+    );
+    alterPolicies.push(
+      ...prepareCreatePolicyJsons(
+        table.name,
+        table.schema,
+        Object.values(next.tables[key].policies),
+      ),
+    );
+  }
+
+  statements.push(...alterColumns);
+  statements.push(
+    ...alterEnums.filter((it) => it.type === "alter_type_drop_value"),
+  );
+  statements.push(...createConstraints);
+  statements.push(...alterPolicies);
+
+  for (const key of tablesDiff.deleted) {
+    statements.push(prepareDropTableJson(prev.tables[key]));
+  }
+
+  /* ------------------------------- Views; ------------------------------- */
+  for (const { from, to } of viewsDiff.renamed) {
+    const prevView = prev.views[from];
+    const nextView = next.views[to];
+
+    if (
+      prevView.isExisting ||
+      nextView.isExisting ||
+      isViewChanged(prevView, nextView)
+    ) {
+      continue;
+    }
+
+    statements.push({
+      type: "rename_view",
+      nameFrom: prevView.name,
+      nameTo: nextView.name,
+      schema: prevView.schema,
+      materialized: prevView.materialized,
+    });
+  }
+
+  const createdViews = [
+    ...viewsDiff.added,
+    ...viewsDiff.common.filter((key) =>
+      isViewChanged(prev.views[key], next.views[key]),
+    ),
+    ...viewsDiff.renamed
+      .filter(({ from, to }) => isViewChanged(prev.views[from], next.views[to]))
+      .map(({ to }) => to),
+  ].filter((key) => !next.views[key].isExisting);
+
+  for (const key of createdViews) {
+    const view = next.views[key];
+
+    statements.push(
+      preparePgCreateViewJson(
+        view.name,
+        view.schema,
+        view.definition!,
+        view.materialized,
+        view.withNoData,
+        view.with,
+        view.using,
+        view.tablespace,
+      ),
+    );
+  }
+
+  /* -------------------------------- Policies; ------------------------------- */
+  const individualPoliciesDiff = diffRecords(prev.policies, next.policies);
+  const changedIndividualPolicies = individualPoliciesDiff.common.filter(
+    (key) =>
+      !isDeepEqual(
+        omitDescription(prev.policies[key]),
+        omitDescription(next.policies[key]),
+      ),
+  );
+
+  for (const key of [
+    ...individualPoliciesDiff.deleted,
+    ...changedIndividualPolicies,
+  ]) {
+    const policy = prev.policies[key];
+    statements.push({
+      type: "drop_ind_policy",
+      tableName: policy.on!,
+      data: policy,
+    });
+  }
+
+  statements.push(
+    ...prepareCreateIndPolicyJsons(
+      [...individualPoliciesDiff.added, ...changedIndividualPolicies].map(
+        (key) => next.policies[key],
+      ),
+    ),
+  );
+
+  /* ------------------------------ Drop objects; ----------------------------- */
+  for (const key of enumsDiff.deleted) {
+    const { name, schema } = prev.enums[key];
+    statements.push({ type: "drop_type_enum", name, schema });
+  }
+
+  for (const key of sequencesDiff.deleted) {
+    const { name, schema } = prev.sequences[key];
+    statements.push({ type: "drop_sequence", name, schema });
+  }
+
+  for (const name of rolesDiff.deleted) {
+    statements.push({ type: "drop_role", name });
+  }
+
+  for (const name of schemasDiff.deleted) {
+    statements.push({ type: "drop_schema", name });
+  }
+
+  /* -------------------------------- Compose; -------------------------------- */
+
+  const sqlStatements = [...new Set(generateSql(statements, "postgresql"))];
+
+  return {
+    statements,
+    sqlStatements,
+  };
+};
+
+/**
+ * Changed indexes, foreign keys and constraints are dropped and re-created
+ */
+function diffTableConstraints(
+  prevTable: Table,
+  nextTable: Table,
+  next: Snapshot,
+  output: {
+    dropConstraints: JsonStatement[];
+    createConstraints: JsonStatement[];
+  },
+) {
+  const { name: tableName, schema } = nextTable;
+  const { dropConstraints, createConstraints } = output;
+  const changed = <T extends object>(
+    prevRecord: Record<string, T>,
+    nextRecord: Record<string, T>,
+  ) => {
+    const { added, deleted, common } = diffRecords(prevRecord, nextRecord);
+    // descriptions (e.g. of indexes) only document the schema
+    const altered = common.filter(
+      (key) =>
+        !isDeepEqual(
+          omitDescription(prevRecord[key]),
+          omitDescription(nextRecord[key]),
+        ),
+    );
+
+    return {
+      dropped: [...deleted, ...altered],
+      created: [...added, ...altered],
+    };
+  };
+
+  // indexes
+  const indexes = changed(prevTable.indexes, nextTable.indexes);
+
+  for (const name of indexes.dropped) {
+    dropConstraints.push({
+      type: "drop_index",
+      tableName,
+      data: PgSquasher.squashIdx(prevTable.indexes[name]),
+      schema,
+    });
+  }
+
+  createConstraints.push(
+    ...preparePgCreateIndexesJson(
+      tableName,
+      schema,
+      Object.fromEntries(
+        indexes.created.map((name) => [
+          name,
+          PgSquasher.squashIdxPush(nextTable.indexes[name]),
+        ]),
+      ),
+      next,
+    ),
+  );
+
+  // foreign keys
+  const foreignKeys = changed(
+    mapForeignKeys(prevTable, tableName),
+    nextTable.foreignKeys,
+  );
+
+  for (const name of foreignKeys.dropped) {
+    dropConstraints.push({
+      type: "delete_reference",
+      tableName,
+      data: PgSquasher.squashFK({
+        ...prevTable.foreignKeys[name],
+        tableFrom: tableName,
+      }),
+      schema,
+    });
+  }
+
+  createConstraints.push(
+    ...prepareCreateReferencesJson(
+      tableName,
+      schema,
+      Object.fromEntries(
+        foreignKeys.created.map((name) => [
+          name,
+          PgSquasher.squashFK(nextTable.foreignKeys[name]),
+        ]),
+      ),
+    ),
+  );
+
+  // unique constraints
+  const uniqueConstraints = changed(
+    prevTable.uniqueConstraints,
+    nextTable.uniqueConstraints,
+  );
+
+  for (const name of uniqueConstraints.dropped) {
+    dropConstraints.push({
+      type: "delete_unique_constraint",
+      tableName,
+      data: PgSquasher.squashUnique(prevTable.uniqueConstraints[name]),
+      schema,
+    });
+  }
+
+  for (const name of uniqueConstraints.created) {
+    createConstraints.push({
+      type: "create_unique_constraint",
+      tableName,
+      data: PgSquasher.squashUnique(nextTable.uniqueConstraints[name]),
+      schema,
+    });
+  }
+
+  // check constraints
+  const checkConstraints = changed(
+    prevTable.checkConstraints,
+    nextTable.checkConstraints,
+  );
+
+  for (const name of checkConstraints.dropped) {
+    dropConstraints.push({
+      type: "delete_check_constraint",
+      tableName,
+      constraintName: prevTable.checkConstraints[name].name,
+      schema,
+    });
+  }
+
+  for (const name of checkConstraints.created) {
+    createConstraints.push({
+      type: "create_check_constraint",
+      tableName,
+      data: PgSquasher.squashCheck(nextTable.checkConstraints[name]),
+      schema,
+    });
+  }
+
+  // composite primary keys
+  const compositePrimaryKeys = changed(
+    prevTable.compositePrimaryKeys,
+    nextTable.compositePrimaryKeys,
+  );
+
+  for (const name of compositePrimaryKeys.dropped) {
+    const pk = prevTable.compositePrimaryKeys[name];
+
+    dropConstraints.push({
+      type: "delete_composite_pk",
+      tableName,
+      data: PgSquasher.squashPK(pk),
+      schema,
+      constraintName: pk.name,
+    });
+  }
+
+  for (const name of compositePrimaryKeys.created) {
+    const pk = nextTable.compositePrimaryKeys[name];
+
+    createConstraints.push({
+      type: "create_composite_pk",
+      tableName,
+      data: PgSquasher.squashPK(pk),
+      schema,
+      constraintName: pk.name,
+    });
+  }
+}
+
+/**
+ * A renamed table keeps its foreign keys, they now belong to the new table name
+ */
+function mapForeignKeys(table: Table, tableName: string) {
+  return Object.fromEntries(
+    Object.entries(table.foreignKeys).map(([name, fk]) => [
+      name,
+      {
+        ...fk,
+        tableFrom: tableName,
+        tableTo: fk.tableTo === table.name ? tableName : fk.tableTo,
+      },
+    ]),
+  );
+}
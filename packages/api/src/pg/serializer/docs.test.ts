@@ -0,0 +1,132 @@
+import { sql } from "drizzle-orm";
+import {
+  index,
+  integer,
+  pgEnum,
+  pgPolicy,
+  pgTable,
+  text,
+} from "drizzle-orm/pg-core";
+import { expect, test } from "vitest";
+
+import { snapshotToHtml, snapshotToMarkdown } from "./docs";
+import { schemaToSnapshot } from "./snapshot";
+import { explain } from "../../extensions/explain";
+
+const role = explain(pgEnum("role", ["admin", "member"]), {
+  description: "Role of a user",
+  values: { admin: "Can do anything" },
+});
+const users = pgTable(
+  "users",
+  {
+    id: integer().primaryKey(),
+    name: text().notNull().default("anonymous"),
+    role: role(),
+  },
+  (table) => [
+    explain(index("users_name_idx").on(table.name), {
+      description: "Search by name",
+    }),
+    explain(pgPolicy("users_read", { for: "select", using: sql`true` }), {
+      description: "Anyone | can read",
+    }),
+  ],
+).enableRLS();
+const posts = pgTable("posts", {
+  id: integer().primaryKey(),
+  authorId: integer()
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+});
+
+explain(users, {
+  description: "Users <of> the app",
+  columns: { name: "Display name" },
+});
+
+const snapshot = schemaToSnapshot({ role, users, posts });
+
+test("Convert a snapshot to a Markdown data dictionary", () => {
+  expect(snapshotToMarkdown(snapshot, { title: "App" })).toBe(
+    [
+      "# App",
+      "",
+      "- Tables",
+      "  - [`users`](#table-users)",
+      "  - [`posts`](#table-posts)",
+      "- [Enums](#enums)",
+      "",
+      "## Tables",
+      "",
+      '<a id="table-users"></a>',
+      "",
+      "### `users`",
+      "",
+      "Users <of> the app",
+      "",
+      "| Column | Type | Nullable | Default | Description |",
+      "| --- | --- | --- | --- | --- |",
+      "| `id` 🔑 | `integer` | no |  |  |",
+      "| `name` | `text` | no | `'anonymous'` | Display name |",
+      "| `role` | `role` (admin, member) | yes |  |  |",
+      "",
+      "**Indexes**",
+      "",
+      "- `users_name_idx`: (`name`) — Search by name",
+      "",
+      "**Row level security**",
+      "",
+      "Enabled: yes",
+      "",
+      "| Policy | As | For | To | Using | With check | Description |",
+      "| --- | --- | --- | --- | --- | --- | --- |",
+      "| `users_read` | PERMISSIVE | SELECT | public | `true` |  | Anyone \\| can read |",
+      "",
+      '<a id="table-posts"></a>',
+      "",
+      "### `posts`",
+      "",
+      "| Column | Type | Nullable | Default | Description |",
+      "| --- | --- | --- | --- | --- |",
+      "| `id` 🔑 | `integer` | no |  |  |",
+      "| `authorId` | `integer` | no |  |  |",
+      "",
+      "**Foreign keys**",
+      "",
+      "- `posts_authorId_users_id_fk`: (`authorId`) → [`users`](#table-users) (`id`), on delete cascade, on update no action",
+      "",
+      '<a id="enums"></a>',
+      "",
+      "## Enums",
+      "",
+      "| Enum | Values | Description |",
+      "| --- | --- | --- |",
+      "| `role` | `admin`: Can do anything<br>`member` | Role of a user |",
+      "",
+    ].join("\n"),
+  );
+});
+
+test("Convert a snapshot to a standalone HTML data dictionary", () => {
+  const html = snapshotToHtml(snapshot);
+
+  expect(html).toMatch(/^<!DOCTYPE html>/);
+  expect(html).toContain("<title>Data dictionary</title>");
+  expect(html).toContain(
+    '<li><a href="#table-users">users</a></li><li><a href="#table-posts">posts</a></li>',
+  );
+  expect(html).toContain("<p>Users &lt;of&gt; the app</p>");
+  expect(html).toContain(
+    "<td><code>name</code></td><td><code>text</code></td><td>no</td><td><code>&#39;anonymous&#39;</code></td><td>Display name</td>",
+  );
+  expect(html).toContain(
+    "<li><code>users_name_idx</code>: (<code>name</code>) — Search by name</li>",
+  );
+  expect(html).toContain(
+    '(<code>authorId</code>) → <a href="#table-users"><code>users</code></a> (<code>id</code>)',
+  );
+  expect(html).toContain(
+    "<td><code>admin</code>: Can do anything<br><code>member</code></td>",
+  );
+});
@@ -0,0 +1,116 @@
+import {
+  dataDictionaryToHtml,
+  dataDictionaryToMarkdown,
+  formatDefault,
+  type DataDictionary,
+  type DataDictionaryEntity,
+} from "../../internal/docs";
+import type { Column, Snapshot } from "../schema";
+
+type DocsOptions = {
+  /** Title of the document, defaults to "Data dictionary" */
+  title?: string;
+};
+
+/**
+ * Convert snapshot to a Markdown data dictionary
+ * @param snapshot - Snapshot
+ * @param options - Docs options
+ * @returns Markdown
+ */
+export function snapshotToMarkdown(
+  snapshot: Snapshot,
+  options: DocsOptions = {},
+) {
+  return dataDictionaryToMarkdown(snapshotToDataDictionary(snapshot, options));
+}
+
+/**
+ * Convert snapshot to a standalone HTML data dictionary
+ * @param snapshot - Snapshot
+ * @param options - Docs options
+ * @returns HTML page
+ */
+export function snapshotToHtml(snapshot: Snapshot, options: DocsOptions = {}) {
+  return dataDictionaryToHtml(snapshotToDataDictionary(snapshot, options));
+}
+
+function qualify(schema: string | undefined, name: string) {
+  return schema && schema !== "public" ? `${schema}.${name}` : name;
+}
+
+function toColumns(
+  columns: Record<string, Column>,
+): DataDictionaryEntity["columns"] {
+  return Object.values(columns).map((column) => ({
+    name: column.name,
+    type: column.typeSchema
+      ? qualify(column.typeSchema, column.type)
+      : column.type,
+    notNull: column.notNull,
+    primaryKey: column.primaryKey,
+    isUnique: Boolean(column.isUnique),
+    default: formatDefault(column),
+    generated: column.generated
+      ? `generated always as (${column.generated.as}) stored`
+      : column.identity
+        ? `generated ${column.identity.type === "always" ? "always" : "by default"} as identity`
+        : undefined,
+    description: column.description,
+    jsonShape: column.jsonShape,
+    enumValues: column.enumValues,
+  }));
+}
+
+/**
+ * Dialect agnostic model of the snapshot, shared by the docs and diagram exporters
+ */
+export function snapshotToDataDictionary(
+  snapshot: Snapshot,
+  options: DocsOptions,
+): DataDictionary {
+  const individualPolicies = Object.values(snapshot.policies);
+
+  return {
+    title: options.title ?? "Data dictionary",
+    dialect: snapshot.dialect,
+    tables: Object.values(snapshot.tables).map((table) => ({
+      name: table.name,
+      schema: table.schema,
+      kind: "table",
+      description: table.description,
+      columns: toColumns(table.columns),
+      primaryKeys: Object.values(table.compositePrimaryKeys),
+      indexes: Object.values(table.indexes).map((index) => ({
+        ...index,
+        columns: index.columns.map((it) => it.expression),
+      })),
+      foreignKeys: Object.values(table.foreignKeys),
+      uniqueConstraints: Object.values(table.uniqueConstraints),
+      checkConstraints: Object.values(table.checkConstraints),
+      relations: table.relations,
+      isRLSEnabled: table.isRLSEnabled,
+      policies: [
+        ...Object.values(table.policies),
+        // policies linked to the table with `.link()`
+        ...individualPolicies.filter((policy) => {
+          const on = policy.on?.replaceAll('"', "");
+
+          return (
+            on === table.name ||
+            on === `${table.schema || "public"}.${table.name}`
+          );
+        }),
+      ],
+    })),
+    views: Object.values(snapshot.views).map((view) => ({
+      name: view.name,
+      schema: view.schema,
+      kind: view.materialized ? "materialized view" : "view",
+      description: view.description,
+      columns: toColumns(view.columns),
+      definition: view.definition,
+    })),
+    enums: Object.values(snapshot.enums),
+  };
+}
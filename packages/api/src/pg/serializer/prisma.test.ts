@@ -0,0 +1,149 @@
+import { expect, test } from "vitest";
+
+import { prismaToSnapshot, prismaToTypescript } from "./prisma";
+
+const schema = `
+  datasource db {
+    provider = "postgresql"
+    url      = env("DATABASE_URL")
+  }
+
+  enum Role {
+    ADMIN
+    MEMBER @map("member")
+  }
+
+  /// Accounts of the shop
+  model User {
+    id        Int      @id @default(autoincrement())
+    /// Login
+    email     String   @unique @db.VarChar(255)
+    role      Role     @default(MEMBER)
+    tags      String[] @default(["a", "b"])
+    createdAt DateTime @default(now()) @map("created_at") @db.Timestamptz(6)
+    updatedAt DateTime @updatedAt
+    publicId  String   @default(cuid())
+    posts     Post[]
+
+    @@map("users")
+  }
+
+  model Post {
+    id       BigInt  @id @default(autoincrement())
+    authorId Int     @map("author_id")
+    author   User    @relation(fields: [authorId], references: [id], onDelete: Cascade)
+    price    Decimal @default(0) @db.Decimal(10, 2)
+    score    Float   @default(1.5)
+    uuid     String  @default(uuid()) @db.Uuid
+
+    @@index([authorId], type: Hash)
+  }
+`;
+
+test("Convert a Prisma schema to a snapshot", () => {
+  const snapshot = prismaToSnapshot(schema);
+  const users = snapshot.tables["public.users"];
+  const posts = snapshot.tables["public.Post"];
+
+  expect(snapshot.enums).toEqual({
+    "public.Role": {
+      name: "Role",
+      schema: "public",
+      values: ["ADMIN", "member"],
+    },
+  });
+  expect(users.description).toBe("Accounts of the shop");
+  expect(users.columns).toEqual({
+    id: { name: "id", type: "serial", primaryKey: true, notNull: true },
+    email: {
+      name: "email",
+      type: "varchar(255)",
+      primaryKey: false,
+      notNull: true,
+      description: "Login",
+    },
+    role: {
+      name: "role",
+      type: "Role",
+      typeSchema: "public",
+      primaryKey: false,
+      notNull: true,
+      default: "'member'",
+    },
+    tags: {
+      name: "tags",
+      type: "text[]",
+      primaryKey: false,
+      notNull: false,
+      default: `'{"a","b"}'`,
+    },
+    created_at: {
+      name: "created_at",
+      type: "timestamp(6) with time zone",
+      primaryKey: false,
+      notNull: true,
+      default: "now()",
+    },
+    // `@updatedAt` and `cuid()` are handled by Prisma Client
+    updatedAt: {
+      name: "updatedAt",
+      type: "timestamp(3)",
+      primaryKey: false,
+      notNull: true,
+    },
+    publicId: {
+      name: "publicId",
+      type: "text",
+      primaryKey: false,
+      notNull: true,
+    },
+  });
+  expect(Object.keys(users.indexes)).toEqual(["users_email_key"]);
+  expect(snapshot.internal?.tables.users?.columns).toEqual({
+    tags: { isArray: true, dimensions: 1, rawType: "text" },
+    created_at: { isDefaultAnExpression: true },
+  });
+
+  expect(posts.columns).toMatchObject({
+    id: { type: "bigserial" },
+    author_id: { type: "integer" },
+    price: { type: "numeric(10,2)", default: "'0'" },
+    score: { type: "double precision", default: 1.5 },
+    uuid: { type: "uuid", default: "gen_random_uuid()" },
+  });
+  expect(posts.indexes.Post_author_id_idx).toMatchObject({
+    isUnique: false,
+    method: "hash",
+  });
+  expect(posts.foreignKeys).toEqual({
+    Post_author_id_fkey: {
+      name: "Post_author_id_fkey",
+      tableFrom: "Post",
+      columnsFrom: ["author_id"],
+      tableTo: "users",
+      schemaTo: "public",
+      columnsTo: ["id"],
+      onDelete: "cascade",
+      onUpdate: "cascade",
+    },
+  });
+});
+
+test("Convert a Prisma schema to a Drizzle schema and its relations", () => {
+  const { schema: file, relations } = prismaToTypescript(schema);
+
+  expect(file).toContain(
+    "export const Role = pgEnum(\"Role\", ['ADMIN', 'member'])",
+  );
+  expect(file).toContain('export const users = pgTable("users", {');
+  expect(file).toContain("email: varchar({ length: 255 }).notNull(),");
+  expect(file).toContain(
+    "created_at: timestamp({ precision: 6, withTimezone: true, mode: 'string' }).defaultNow().notNull(),",
+  );
+  expect(relations).toContain(
+    "export const PostRelations = relations(Post, ({one}) => ({",
+  );
+  expect(prismaToTypescript("model User {\n  id Int @id\n}").relations).toBe(
+    "",
+  );
+});
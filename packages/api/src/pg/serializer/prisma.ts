@@ -0,0 +1,307 @@
+import {
+  parsePrisma,
+  type PrismaColumn,
+  type PrismaDefault,
+} from "../../internal/prisma-parser";
+import { relationsToTypeScript } from "../../relations/typescript";
+import type { PgKitInternals, Snapshot, Table } from "../schema";
+import { snapshotToTypeScript } from "./typescript";
+
+/**
+ * Types created by Prisma Migrate for the Prisma scalar types
+ */
+const scalarTypes: Record<string, string> = {
+  String: "text",
+  Boolean: "boolean",
+  Int: "integer",
+  BigInt: "bigint",
+  Float: "double precision",
+  Decimal: "numeric(65,30)",
+  DateTime: "timestamp(3)",
+  Json: "jsonb",
+  Bytes: "bytea",
+};
+
+const nativeTypes: Record<string, string> = {
+  Text: "text",
+  VarChar: "varchar",
+  Char: "char",
+  Bit: "bit",
+  VarBit: "varbit",
+  Uuid: "uuid",
+  Xml: "xml",
+  Inet: "inet",
+  Citext: "citext",
+  Boolean: "boolean",
+  Integer: "integer",
+  SmallInt: "smallint",
+  BigInt: "bigint",
+  Oid: "oid",
+  Real: "real",
+  DoublePrecision: "double precision",
+  Decimal: "numeric",
+  Money: "money",
+  Timestamp: "timestamp",
+  Timestamptz: "timestamp with time zone",
+  Date: "date",
+  Time: "time",
+  Timetz: "time with time zone",
+  Json: "json",
+  JsonB: "jsonb",
+  ByteA: "bytea",
+};
+
+const serialTypes: Record<string, string> = {
+  integer: "serial",
+  smallint: "smallserial",
+  bigint: "bigserial",
+};
+
+/**
+ * Map Prisma types to the names returned by the introspection, e.g. `@db.Timestamptz(6)` -> `timestamp(6) with time zone`
+ */
+function toType(column: PrismaColumn) {
+  if (column.kind === "unsupported") {
+    return column.type;
+  }
+
+  if (!column.nativeType) {
+    return scalarTypes[column.type];
+  }
+
+  const { name, args } = column.nativeType;
+  const [base, ...suffix] = (nativeTypes[name] ?? name.toLowerCase()).split(
+    " ",
+  );
+
+  return [
+    `${base}${args.length > 0 ? `(${args.join(",")})` : ""}`,
+    ...suffix,
+  ].join(" ");
+}
+
+/**
+ * @returns The default and whether it is an expression, `undefined` for defaults handled by Prisma Client (e.g. `cuid()`)
+ */
+function toDefault(
+  value: PrismaDefault,
+  type: string,
+): [value: string | number | boolean, isExpression: boolean] | undefined {
+  const quote = (it: string) => `'${it.replaceAll("'", "''")}'`;
+
+  switch (value.kind) {
+    case "string":
+      return [quote(value.value), false];
+    case "number":
+      return [
+        type.startsWith("numeric") ? quote(value.value) : Number(value.value),
+        false,
+      ];
+    case "boolean":
+      return [value.value === "true", false];
+    case "list": {
+      const isText =
+        !/^(integer|smallint|bigint|real|double|numeric|boolean)/.test(type);
+      const items = value.args.map((it) =>
+        isText ? `"${it.replaceAll('"', '\\"')}"` : it,
+      );
+
+      return [quote(`{${items.join(",")}}`), false];
+    }
+  }
+
+  switch (value.value) {
+    case "now":
+      return ["now()", true];
+    case "uuid":
+      return ["gen_random_uuid()", true];
+    case "dbgenerated":
+      return value.args[0] ? [value.args[0], true] : undefined;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Convert a Prisma schema to a Drizzle snapshot, without a database
+ *
+ * Supports models, enums, native types, `@default` values, `@relation`s, implicit many-to-many relations, `@@id`, `@@unique` and `@@index`.
+ * Defaults handled by Prisma Client (`cuid()`, `nanoid()`, `@updatedAt`, ...) are dropped.
+ *
+ * @param prisma - Prisma schema (`schema.prisma`)
+ * @returns Drizzle snapshot
+ * @throws If the schema is not valid
+ */
+export function prismaToSnapshot(prisma: string): Snapshot {
+  const { enums, models, references } = parsePrisma(prisma);
+  const internal: NonNullable<PgKitInternals> = { tables: {} };
+  const schemas = new Set<string>();
+  const result: Record<string, Table> = {};
+
+  const setInternal = (
+    table: string,
+    column: string,
+    values: NonNullable<(typeof internal.tables)[string]>["columns"][string],
+  ) => {
+    internal.tables[table] ??= { columns: {} };
+    internal.tables[table]!.columns[column] = {
+      ...internal.tables[table]!.columns[column],
+      ...values,
+    };
+  };
+
+  for (const prismaEnum of enums) {
+    if (prismaEnum.schema && prismaEnum.schema !== "public") {
+      schemas.add(prismaEnum.schema);
+    }
+  }
+
+  for (const model of models) {
+    const schema = model.schema || "public";
+    const table: Table = {
+      name: model.name,
+      schema,
+      columns: {},
+      indexes: {},
+      foreignKeys: {},
+      compositePrimaryKeys: {},
+      uniqueConstraints: {},
+      policies: {},
+      checkConstraints: {},
+      isRLSEnabled: false,
+      relations: [],
+      description: model.documentation,
+      triggers: {},
+    };
+
+    if (schema !== "public") {
+      schemas.add(schema);
+    }
+
+    for (const column of model.columns) {
+      const enumType =
+        column.kind === "enum"
+          ? enums.find((it) => it.name === column.type)
+          : undefined;
+      let type = enumType ? enumType.name : toType(column);
+      const defaultValue = column.default
+        ? toDefault(column.default, type.toLowerCase())
+        : undefined;
+
+      if (
+        column.default?.value === "autoincrement" &&
+        serialTypes[type.toLowerCase()]
+      ) {
+        type = serialTypes[type.toLowerCase()];
+      }
+
+      if (column.isList) {
+        setInternal(table.name, column.name, {
+          isArray: true,
+          dimensions: 1,
+          rawType: type,
+        });
+      }
+
+      if (defaultValue?.[1]) {
+        setInternal(table.name, column.name, { isDefaultAnExpression: true });
+      }
+
+      table.columns[column.name] = {
+        name: column.name,
+        type: column.isList ? `${type}[]` : type,
+        typeSchema: enumType ? enumType.schema || "public" : undefined,
+        primaryKey: column.primaryKey,
+        notNull: column.notNull,
+        default: defaultValue?.[0],
+        description: column.documentation,
+      };
+    }
+
+    if (model.primaryKey) {
+      table.compositePrimaryKeys[model.primaryKey.name] = model.primaryKey;
+    }
+
+    for (const index of model.indexes) {
+      table.indexes[index.name] = {
+        name: index.name,
+        columns: index.columns.map((it) => ({
+          expression: it.name,
+          isExpression: false,
+          asc: it.asc,
+          nulls: "last",
+        })),
+        isUnique: index.unique,
+        with: {},
+        method: index.type?.toLowerCase() ?? "btree",
+        concurrently: false,
+      };
+    }
+
+    result[`${schema}.${table.name}`] = table;
+  }
+
+  for (const reference of references) {
+    const table =
+      result[`${reference.schemaFrom || "public"}.${reference.tableFrom}`];
+
+    table.foreignKeys[reference.name] = {
+      name: reference.name,
+      tableFrom: reference.tableFrom,
+      columnsFrom: reference.columnsFrom,
+      tableTo: reference.tableTo,
+      schemaTo: reference.schemaTo || "public",
+      columnsTo: reference.columnsTo,
+      onDelete: reference.onDelete,
+      onUpdate: reference.onUpdate,
+    };
+  }
+
+  return {
+    version: "7",
+    dialect: "postgresql",
+    tables: result,
+    enums: Object.fromEntries(
+      enums.map((it) => [
+        `${it.schema || "public"}.${it.name}`,
+        { name: it.name, schema: it.schema || "public", values: it.values },
+      ]),
+    ),
+    schemas: Object.fromEntries([...schemas].map((it) => [it, it])),
+    views: {},
+    sequences: {},
+    roles: {},
+    policies: {},
+    functions: {},
+    extensions: {},
+    domains: {},
+    compositeTypes: {},
+    _meta: {
+      schemas: {},
+      tables: {},
+      columns: {},
+    },
+    internal,
+    projectId: "drizzle-lab",
+  };
+}
+
+/**
+ * Convert a Prisma schema to a Drizzle schema and its relations
+ * @param prisma - Prisma schema (`schema.prisma`)
+ * @returns The TypeScript files, `relations` is empty if there are no relations
+ */
+export function prismaToTypescript(prisma: string) {
+  const snapshot = prismaToSnapshot(prisma);
+  const { file } = snapshotToTypeScript(snapshot, "preserve");
+  const hasReferences = Object.values(snapshot.tables).some(
+    (table) => Object.keys(table.foreignKeys).length > 0,
+  );
+
+  return {
+    schema: file,
+    relations: hasReferences
+      ? relationsToTypeScript(snapshot, "preserve").file
+      : "",
+  };
+}
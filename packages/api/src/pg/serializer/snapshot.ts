@@ -16,6 +16,11 @@ import {
 import { schemaToDrizzleObjects, type DrizzleObjects } from "./drizzle-objects";
 import type { PartialConfig } from "../../config/loader.node";
 import { DrizzleLab } from "../../extensions/symbols";
+import {
+  explainColumn,
+  explainIndex,
+  pickExplainMetadata,
+} from "../../internal/explain";
 import type { DrizzleSchema } from "../../internal/global";
 import { getColumnCasing, sqlToStr } from "../../internal/helpers";
 import type { Relation } from "../../internal/relations";
@@ -217,7 +222,9 @@ export function drizzleObjectsToSnapshot(
       const enumValues = column.enumValues;
       const defaultFn = column.defaultFn?.toString();
       const onUpdateFn = column.onUpdateFn?.toString();
-      const description = table[DrizzleLab]?.explain?.columns?.[name];
+      const { description, ...metadata } = explainColumn(
+        table[DrizzleLab]?.explain?.columns?.[name],
+      );
       const jsonShape = JSON.stringify(
         table[DrizzleLab]?.explain?.jsonShapes?.[name],
         null,
@@ -255,6 +262,7 @@ export function drizzleObjectsToSnapshot(
           : undefined,
         /* lab extension */
         description,
+        ...metadata,
         enumValues,
         defaultFn,
         onUpdateFn,
@@ -525,6 +533,8 @@ export function drizzleObjectsToSnapshot(
         concurrently: value.config.concurrently ?? false,
         method: value.config.method ?? "btree",
         with: value.config.with ?? {},
+        /* lab extension */
+        description: explainIndex(value)?.description,
       };
     });
 
@@ -575,6 +585,8 @@ export function drizzleObjectsToSnapshot(
         withCheck: is(policy.withCheck, SQL)
           ? dialect.sqlToQuery(policy.withCheck).sql
           : undefined,
+        /* lab extension */
+        description: policy[DrizzleLab]?.explain?.description,
       };
     });
 
@@ -622,6 +634,7 @@ export function drizzleObjectsToSnapshot(
 
     /* lab extension */
     const description = table[DrizzleLab]?.explain?.description;
+    const metadata = pickExplainMetadata(table[DrizzleLab]?.explain);
 
     for (const config of relations.filter((r) => r.dbName === tableName)) {
       for (const relation of Object.values(config.relations)) {
@@ -630,6 +643,8 @@ export function drizzleObjectsToSnapshot(
           fieldName: relation.fieldName,
           relationName: relation.relationName || relation.fieldName,
           referencedTableName: relation.referencedTableName,
+          /* lab extension */
+          description: config.explain[relation.fieldName],
         });
       }
     }
@@ -647,7 +662,9 @@ export function drizzleObjectsToSnapshot(
       isRLSEnabled: enableRLS,
       /* lab extension */
       description,
+      ...metadata,
       relations: tableRelations,
+      triggers: {},
     };
   }
 
@@ -719,6 +736,8 @@ export function drizzleObjectsToSnapshot(
       withCheck: is(policy.withCheck, SQL)
         ? dialect.sqlToQuery(policy.withCheck).sql
         : undefined,
+      /* lab extension */
+      description: policy[DrizzleLab]?.explain?.description,
     };
 
     if (result[tableKey]) {
@@ -878,7 +897,9 @@ export function drizzleObjectsToSnapshot(
         const enumValues = column.enumValues;
         const defaultFn = column.defaultFn?.toString();
         const onUpdateFn = column.onUpdateFn?.toString();
-        const description = view[DrizzleLab]?.explain?.columns?.[column.name];
+        const { description, ...metadata } = explainColumn(
+          view[DrizzleLab]?.explain?.columns?.[column.name],
+        );
 
         const columnToSet: Column = {
           name: column.name,
@@ -914,6 +935,7 @@ export function drizzleObjectsToSnapshot(
           defaultFn,
           onUpdateFn,
           description,
+          ...metadata,
         };
 
         if (column.isUnique) {
@@ -979,6 +1001,7 @@ export function drizzleObjectsToSnapshot(
 
     /* lab extension */
     const description = view[DrizzleLab]?.explain?.description;
+    const metadata = pickExplainMetadata(view[DrizzleLab]?.explain);
 
     resultViews[viewKey] = {
       columns: columnsObject,
@@ -993,6 +1016,7 @@ export function drizzleObjectsToSnapshot(
       using,
       /* lab extension */
       description,
+      ...metadata,
     };
   }
 
@@ -1005,6 +1029,11 @@ export function drizzleObjectsToSnapshot(
       name: obj.enumName,
       schema: enumSchema,
       values: obj.enumValues,
+      /* lab extension */
+      description: obj[DrizzleLab]?.explain?.description,
+      valueDescriptions: obj[DrizzleLab]?.explain?.values as
+        | Record<string, string>
+        | undefined,
     };
     return map;
   }, {});
@@ -1047,6 +1076,10 @@ export function drizzleObjectsToSnapshot(
     /* lab extension */
     provider,
     projectId,
+    functions: {},
+    extensions: {},
+    domains: {},
+    compositeTypes: {},
   };
 }
 
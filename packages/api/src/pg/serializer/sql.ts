@@ -1,6 +1,7 @@
 import type { DrizzleObjects } from "./drizzle-objects";
 import type { DrizzleSchema } from "../../internal/global";
 import {
+  prepareCommentsJson,
   prepareCreateEnumJson,
   prepareCreateIndPolicyJsons,
   prepareCreatePolicyJsons,
@@ -10,6 +11,7 @@ import {
   prepareCreateSequenceJson,
   preparePgCreateIndexesJson,
   preparePgCreateTableJson,
+  preparePgCommentOnJsons,
   preparePgCreateViewJson,
   type JsonCreateEnumStatement,
   type JsonCreatePgViewStatement,
@@ -22,8 +24,8 @@ import {
   type JsonPgCreateIndexStatement,
   type JsonStatement,
 } from "../../sql/create-statements";
-import { generateSql } from "../../sql/generator";
-import { PgSquasher, squashSnapshot, type Snapshot } from "../schema";
+import { generateSql, type SqlOptions } from "../../sql/generator";
+import { squashSnapshot, type Snapshot } from "../schema";
 import { drizzleObjectsToSnapshot, schemaToSnapshot } from "./snapshot";
 import type { PartialConfig } from "../../config/loader.node";
 
@@ -48,10 +50,14 @@ export function drizzleObjectsToSql(
 /**
  * Convert snapshot to SQL statements
  * @param snapshot - Snapshot
+ * @param options - SQL output options, e.g. `{ ifNotExists: true, wrapInTransaction: true }` to get a script that can be re-run safely, `{ comments: true }` to keep the `explain` descriptions
  * @returns SQL statements
  */
-export function snapshotToSqlStatements(snapshot: Snapshot) {
-  const { sqlStatements } = generatePgSql(snapshot);
+export function snapshotToSqlStatements(
+  snapshot: Snapshot,
+  options: SqlOptions = {},
+) {
+  const { sqlStatements } = generatePgSql(snapshot, options);
 
   return sqlStatements;
 }
@@ -59,10 +65,11 @@ export function snapshotToSqlStatements(snapshot: Snapshot) {
 /**
  * Convert snapshot to SQL
  * @param snapshot - Snapshot
+ * @param options - SQL output options
  * @returns SQL
  */
-export function snapshotToSql(snapshot: Snapshot) {
-  const sqlStatements = snapshotToSqlStatements(snapshot);
+export function snapshotToSql(snapshot: Snapshot, options: SqlOptions = {}) {
+  const sqlStatements = snapshotToSqlStatements(snapshot, options);
 
   return sqlStatements.join("\n");
 }
@@ -102,6 +109,7 @@ export function schemaToSql(schema: DrizzleSchema, config: PartialConfig = {}) {
 
 const generatePgSql = (
   snapshot: Snapshot,
+  options: SqlOptions,
 ): {
   statements: JsonStatement[];
   sqlStatements: string[];
@@ -110,10 +118,11 @@ const generatePgSql = (
   const schemas = Object.values(squashedSnapshot.schemas);
   const enums = Object.values(squashedSnapshot.enums);
   const sequences = Object.values(squashedSnapshot.sequences);
-  const tables = Object.values(squashedSnapshot.tables);
+  const tables = Object.entries(squashedSnapshot.tables);
   const views = Object.values(squashedSnapshot.views);
   const roles = Object.values(squashedSnapshot.roles);
-  const individualPolicies = Object.values(squashedSnapshot.policies);
+  // policies are squashed without their expressions, they are read from the snapshot
+  const individualPolicies = Object.values(snapshot.policies);
   const statements: JsonStatement[] = [];
 
   /* -------------------------------- Schemas; -------------------------------- */
@@ -157,7 +166,7 @@ const generatePgSql = (
   const createPolicies: JsonCreatePolicyStatement[] = [];
   // const addUniqueConstraints: JsonCreateUniqueConstraint[] = [];
 
-  for (const table of tables) {
+  for (const [key, table] of tables) {
     createTables.push(preparePgCreateTableJson(table, snapshot));
 
     // @rphlmr: I think this is not needed. Keeping just in case.
@@ -195,7 +204,7 @@ const generatePgSql = (
       ...prepareCreatePolicyJsons(
         table.name,
         table.schema,
-        Object.values(table.policies).map(PgSquasher.unsquashPolicy),
+        Object.values(snapshot.tables[key].policies),
       ),
     );
 
@@ -240,17 +249,39 @@ const generatePgSql = (
   statements.push(...createViews);
 
   /* -------------------------------- Policies; ------------------------------- */
-  statements.push(
-    ...prepareCreateIndPolicyJsons(
-      individualPolicies.map(({ values }) =>
-        PgSquasher.unsquashPolicyPush(values),
-      ),
-    ),
-  );
+  statements.push(...prepareCreateIndPolicyJsons(individualPolicies));
+
+  /* lab extension */
+  /* -------------------------------- Comments; ------------------------------- */
+  if (options.comments) {
+    for (const table of Object.values(snapshot.tables)) {
+      statements.push(
+        ...preparePgCommentOnJsons(
+          "table",
+          table.name,
+          table.schema,
+          prepareCommentsJson(table),
+        ),
+      );
+    }
+
+    for (const view of Object.values(snapshot.views)) {
+      statements.push(
+        ...preparePgCommentOnJsons(
+          view.materialized ? "materialized view" : "view",
+          view.name,
+          view.schema,
+          prepareCommentsJson(view),
+        ),
+      );
+    }
+  }
 
   /* -------------------------------- Compose; -------------------------------- */
 
-  const sqlStatements = [...new Set(generateSql(statements, "postgresql"))];
+  const sqlStatements = [
+    ...new Set(generateSql(statements, "postgresql", options)),
+  ];
 
   return {
     statements,
@@ -0,0 +1,49 @@
+import { PGlite } from "@electric-sql/pglite";
+import { integer, pgTable, text } from "drizzle-orm/pg-core";
+import { expect, test } from "vitest";
+
+import { schemaToSnapshot } from "./snapshot";
+import { snapshotToSql } from "./sql";
+import { snapshotToTypeScript } from "./typescript";
+import { explain } from "../../extensions/explain";
+import { importFromDatabase } from "../loader/database";
+
+const description = `It's a \\path\\ with "quotes"\nand a second line`;
+
+test("Round-trip descriptions through COMMENT ON, introspection and explain()", async () => {
+  const users = pgTable("users", { id: integer().primaryKey(), bio: text() });
+
+  explain(users, { description, columns: { bio: description } });
+
+  const sql = snapshotToSql(schemaToSnapshot({ users }), { comments: true });
+
+  expect(sql).toContain(
+    `COMMENT ON TABLE "users" IS 'It''s a \\path\\ with "quotes"\nand a second line';`,
+  );
+  expect(sql).toContain(
+    `COMMENT ON COLUMN "users"."bio" IS 'It''s a \\path\\ with "quotes"\nand a second line';`,
+  );
+
+  const client = new PGlite();
+  await client.exec(sql);
+
+  const imported = await importFromDatabase(
+    {
+      query: async (query: string, params?: unknown[]) =>
+        (await client.query<any>(query, params)).rows,
+    },
+    ["public"],
+  );
+
+  expect(imported.tables["public.users"].description).toBe(description);
+  expect(imported.tables["public.users"].columns.bio.description).toBe(
+    description,
+  );
+
+  const { file } = snapshotToTypeScript(imported, "camel");
+  const literals = [...file.matchAll(/(?:description|bio): (".*"),\n/g)].map(
+    ([, literal]) => JSON.parse(literal),
+  );
+
+  expect(literals).toEqual([description, description]);
+});
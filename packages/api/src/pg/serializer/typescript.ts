@@ -1,6 +1,7 @@
 import { toCamelCase } from "drizzle-orm/casing";
 
 import type { Casing } from "../../internal/global";
+import { explainToTypeScript } from "../../internal/helpers";
 import type {
   CheckConstraint,
   PrimaryKey,
@@ -489,6 +490,18 @@ export function snapshotToTypeScript(snapshot: Snapshot, casing: Casing) {
     }
 
     statement += ");";
+
+    /* lab extension */
+    const explain = explainToTypeScript(
+      withCasing(paramName, casing),
+      table,
+      (name) => withCasing(name, casing),
+    );
+
+    if (explain) {
+      statement += `\n${explain}`;
+    }
+
     return statement;
   });
 
@@ -527,15 +540,35 @@ export function snapshotToTypeScript(snapshot: Snapshot, casing: Casing) {
       statement += withOption ? `.with(${JSON.stringify(withOption)})` : "";
       statement += `.as(${as});`;
 
+      /* lab extension */
+      const explain = explainToTypeScript(
+        withCasing(paramName, casing),
+        it,
+        (name) => withCasing(name, casing),
+      );
+
+      if (explain) {
+        statement += `\n${explain}`;
+      }
+
       return statement;
     })
     .join("\n\n");
 
   const uniquePgImports = ["pgTable", ...new Set(imports.pg)];
 
-  const importsTs = `import { ${uniquePgImports.join(", ")} } from "drizzle-orm/pg-core"
+  let importsTs = `import { ${uniquePgImports.join(", ")} } from "drizzle-orm/pg-core"
 import { sql } from "drizzle-orm"`;
 
+  /* lab extension */
+  if (
+    [...tableStatements, viewsStatements].some((it) =>
+      it.includes("\nexplain("),
+    )
+  ) {
+    importsTs += `\nimport { explain } from "@drizzle-lab/api/extensions"`;
+  }
+
   let decalrations = schemaStatements;
   decalrations += rolesStatements;
   decalrations += enumStatements;
@@ -545,7 +578,7 @@ import { sql } from "drizzle-orm"`;
   decalrations += "\n";
   decalrations += viewsStatements;
 
-  const file = importsTs + decalrations;
+  const file = `${importsTs}\n${decalrations}`;
 
   // for drizzle studio query runner
   const schemaEntry = `
@@ -0,0 +1,182 @@
+import {
+  index,
+  jsonb,
+  pgEnum,
+  pgTable,
+  serial,
+  text,
+  timestamp,
+} from "drizzle-orm/pg-core";
+import { expect, test } from "vitest";
+
+import { diffSnapshots } from "./diff";
+import { schemaToSnapshot } from "./snapshot";
+import { upgradeSnapshot } from "./upgrade";
+
+const mood = pgEnum("mood", ["sad", "ok"]);
+const code = schemaToSnapshot({
+  mood,
+  users: pgTable(
+    "users",
+    {
+      id: serial().primaryKey(),
+      name: text(),
+      mood: mood().default("ok"),
+    },
+    (table) => [index("users_name_idx").on(table.name)],
+  ),
+});
+
+/**
+ * A drizzle-kit 0.17 snapshot of `code`
+ */
+const v5 = {
+  version: "5",
+  dialect: "pg",
+  id: "4e1cb1bb-5c4a-4d4c-9f2c-0a4f3c0c5a01",
+  prevId: "00000000-0000-0000-0000-000000000000",
+  tables: {
+    users: {
+      name: "users",
+      schema: "",
+      columns: {
+        id: { name: "id", type: "serial", primaryKey: true, notNull: true },
+        name: { name: "name", type: "text", primaryKey: false, notNull: false },
+        mood: {
+          name: "mood",
+          type: "mood",
+          primaryKey: false,
+          notNull: false,
+          default: "'ok'",
+        },
+      },
+      indexes: {
+        users_name_idx: {
+          name: "users_name_idx",
+          columns: ["name"],
+          isUnique: false,
+        },
+      },
+      foreignKeys: {},
+      compositePrimaryKeys: {},
+      uniqueConstraints: {},
+    },
+  },
+  enums: { mood: { name: "mood", values: { sad: "sad", ok: "ok" } } },
+  schemas: {},
+  _meta: { schemas: {}, tables: {}, columns: {} },
+};
+
+test("Upgrade a version 5 snapshot", () => {
+  const snapshot = upgradeSnapshot(v5);
+
+  expect(snapshot.version).toBe("7");
+  expect(snapshot.dialect).toBe("postgresql");
+  expect(Object.keys(snapshot.tables)).toEqual(["public.users"]);
+  expect(snapshot.enums).toEqual({
+    "public.mood": { name: "mood", schema: "public", values: ["sad", "ok"] },
+  });
+  expect(snapshot.tables["public.users"].columns.mood.typeSchema).toBe(
+    "public",
+  );
+  expect(snapshot.tables["public.users"].indexes.users_name_idx).toEqual({
+    name: "users_name_idx",
+    columns: [
+      { expression: "name", isExpression: false, asc: true, nulls: "last" },
+    ],
+    isUnique: false,
+    with: {},
+    method: "btree",
+    concurrently: false,
+  });
+  expect(snapshot.tables["public.users"]).toMatchObject({
+    policies: {},
+    checkConstraints: {},
+    isRLSEnabled: false,
+    relations: [],
+  });
+  expect(diffSnapshots(snapshot, code).sqlStatements).toEqual([]);
+});
+
+test("Upgrade a version 7 snapshot without the latest fields", () => {
+  // drizzle-kit 0.22 snapshots have no policies, check constraints nor views
+  const snapshot = upgradeSnapshot({
+    version: "7",
+    dialect: "postgresql",
+    id: "d5f6ad3a-75f8-49b0-b4b2-89d033fe84de",
+    prevId: "00000000-0000-0000-0000-000000000000",
+    tables: {
+      "public.playground": {
+        name: "playground",
+        schema: "",
+        columns: {
+          id: { name: "id", type: "text", primaryKey: true, notNull: true },
+          content: {
+            name: "content",
+            type: "jsonb",
+            primaryKey: false,
+            notNull: true,
+          },
+          created_at: {
+            name: "created_at",
+            type: "timestamp",
+            primaryKey: false,
+            notNull: true,
+            default: "now()",
+          },
+        },
+        indexes: {},
+        foreignKeys: {},
+        compositePrimaryKeys: {},
+        uniqueConstraints: {},
+      },
+    },
+    enums: {},
+    schemas: {},
+    sequences: {},
+    _meta: { schemas: {}, tables: {}, columns: {} },
+  });
+
+  expect(snapshot.views).toEqual({});
+  expect(snapshot.policies).toEqual({});
+  expect(snapshot.tables["public.playground"]).toMatchObject({
+    policies: {},
+    checkConstraints: {},
+    isRLSEnabled: false,
+  });
+  expect(
+    diffSnapshots(
+      snapshot,
+      schemaToSnapshot({
+        playground: pgTable("playground", {
+          id: text().primaryKey(),
+          content: jsonb().notNull(),
+          created_at: timestamp().notNull().defaultNow(),
+        }),
+      }),
+    ).sqlStatements,
+  ).toEqual([]);
+});
+
+test("Reject invalid and unsupported snapshots", () => {
+  expect(() => upgradeSnapshot([])).toThrow(
+    "Invalid snapshot: expected a JSON object",
+  );
+  expect(() => upgradeSnapshot({ dialect: "postgresql" })).toThrow(
+    "Invalid snapshot: `version` is missing",
+  );
+  expect(() => upgradeSnapshot({ version: "7", dialect: "sqlite" })).toThrow(
+    "Invalid snapshot: expected a postgresql snapshot, got sqlite",
+  );
+  expect(() => upgradeSnapshot({ version: "2", dialect: "pg" })).toThrow(
+    'Unsupported snapshot version "2". Supported versions are "3", "4", "5", "6", "7"',
+  );
+  expect(() =>
+    upgradeSnapshot({
+      ...v5,
+      tables: { users: { ...v5.tables.users, columns: undefined } },
+    }),
+  ).toThrow(
+    'Invalid snapshot (version "5"):\n  - tables.users.columns: Required',
+  );
+});
@@ -0,0 +1,136 @@
+/* lab extension */
+
+import { mapValues, snapshotVersion } from "../../internal/global";
+import {
+  applyUpgrades,
+  parseSnapshot,
+  readRawSnapshot,
+  type RawSnapshot,
+} from "../../internal/upgrade";
+import {
+  pgSchemaInternal,
+  pgSchemaInternalV3,
+  pgSchemaInternalV4,
+  pgSchemaInternalV5,
+  pgSchemaInternalV6,
+  type Snapshot,
+} from "../schema";
+
+// fork: drizzle-kit/src/cli/commands/pgUp.ts
+
+const upgrades: Record<string, (snapshot: RawSnapshot) => RawSnapshot> = {
+  // tables belong to a schema
+  "3": (json) => {
+    const snapshot = parseSnapshot(pgSchemaInternalV3, json, "3");
+
+    return {
+      ...snapshot,
+      version: "4",
+      tables: mapValues(snapshot.tables, (table) => ({
+        ...table,
+        schema: "",
+        indexes: mapValues(table.indexes, (index) => ({
+          ...index,
+          columns: index.columns.map((it) => it.expression),
+        })),
+      })),
+      schemas: {},
+    };
+  },
+  // composite primary keys, unique constraints and rename metadata
+  "4": (json) => {
+    const snapshot = parseSnapshot(pgSchemaInternalV4, json, "4");
+
+    return {
+      ...snapshot,
+      version: "5",
+      tables: mapValues(snapshot.tables, (table) => ({
+        ...table,
+        compositePrimaryKeys: {},
+        uniqueConstraints: {},
+      })),
+      _meta: { schemas: {}, tables: {}, columns: {} },
+    };
+  },
+  // "table" -> "schema.table" keys, enums belong to a schema
+  "5": (json) => {
+    const snapshot = parseSnapshot(pgSchemaInternalV5, json, "5");
+    const enumNames = new Set(
+      Object.values(snapshot.enums).map((it) => it.name),
+    );
+
+    return {
+      ...snapshot,
+      version: "6",
+      dialect: "postgresql",
+      tables: Object.fromEntries(
+        Object.values(snapshot.tables).map((table) => [
+          `${table.schema || "public"}.${table.name}`,
+          {
+            ...table,
+            // enum columns reference the schema of their enum
+            columns: mapValues(table.columns, (column) =>
+              enumNames.has(column.type.replace(/(\[\])+$/, ""))
+                ? { ...column, typeSchema: "public" }
+                : column,
+            ),
+          },
+        ]),
+      ),
+      enums: Object.fromEntries(
+        Object.values(snapshot.enums).map((it) => [
+          `public.${it.name}`,
+          { name: it.name, schema: "public", values: Object.values(it.values) },
+        ]),
+      ),
+    };
+  },
+  // index columns can be expressions, sequences, policies, views and roles
+  "6": (json) => {
+    const snapshot = parseSnapshot(pgSchemaInternalV6, json, "6");
+
+    return {
+      ...snapshot,
+      version: "7",
+      tables: mapValues(snapshot.tables, (table) => ({
+        ...table,
+        indexes: mapValues(table.indexes, ({ columns, ...index }) => ({
+          columns: columns.map((it) => ({
+            expression: it,
+            isExpression: false,
+            asc: true,
+            nulls: "last",
+          })),
+          with: {},
+          ...index,
+        })),
+        policies: {},
+        isRLSEnabled: false,
+        checkConstraints: {},
+      })),
+      sequences: {},
+      policies: {},
+      views: {},
+      roles: {},
+    };
+  },
+};
+
+/**
+ * Upgrade a snapshot of any version (e.g. an old drizzle-kit `meta/*_snapshot.json`) to the current Drizzle Lab snapshot
+ *
+ * Supports versions 3 to 7. Drizzle Lab fields (relations, descriptions, ...) are left empty.
+ *
+ * @param json - Parsed snapshot JSON
+ * @returns Drizzle Lab snapshot
+ * @throws If the snapshot is not a valid pg snapshot or its version is not supported
+ */
+export function upgradeSnapshot(json: unknown): Snapshot {
+  const snapshot = readRawSnapshot(json, ["postgresql", "pg"]);
+
+  return parseSnapshot(
+    pgSchemaInternal,
+    applyUpgrades(snapshot, upgrades, snapshotVersion),
+    snapshot.version,
+  );
+}
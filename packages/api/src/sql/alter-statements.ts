@@ -0,0 +1,556 @@
+import type { Column, JsonReferenceStatement } from "./create-statements";
+import type { Policy, Role, Sequence } from "../pg/schema";
+import type { Column as SQLiteColumn } from "../sqlite/schema";
+
+// fork: drizzle-kit/src/jsonStatements.ts
+
+/* lab extension */
+// Statements used to migrate a snapshot to another one (see `diffSnapshots`).
+
+export interface JsonDropTableStatement {
+  type: "drop_table";
+  tableName: string;
+  schema: string;
+}
+
+export interface JsonRenameTableStatement {
+  type: "rename_table";
+  fromSchema: string;
+  toSchema: string;
+  tableNameFrom: string;
+  tableNameTo: string;
+}
+
+export interface JsonAlterTableSetSchema {
+  type: "alter_table_set_schema";
+  tableName: string;
+  schemaFrom: string;
+  schemaTo: string;
+}
+
+export interface JsonRecreateTableStatement {
+  type: "recreate_table";
+  tableName: string;
+  columns: SQLiteColumn[];
+  referenceData: JsonSqliteReferenceData[];
+  compositePKs: string[][];
+  uniqueConstraints?: string[];
+  checkConstraints?: string[];
+  /** Columns existing in both the old and the new table, copied to the new table */
+  copiedColumns: string[];
+  /** Columns of the old table that are not copied to the new table */
+  droppedColumns: string[];
+  /** Old definition of the copied columns, under their new name */
+  previousColumns: SQLiteColumn[];
+}
+
+type JsonSqliteReferenceData = {
+  name: string;
+  tableFrom: string;
+  columnsFrom: string[];
+  tableTo: string;
+  columnsTo: string[];
+  onUpdate?: string | undefined;
+  onDelete?: string | undefined;
+};
+
+export interface JsonDropSchema {
+  type: "drop_schema";
+  name: string;
+}
+
+export interface JsonRenameSchema {
+  type: "rename_schema";
+  from: string;
+  to: string;
+}
+
+export interface JsonAddColumnStatement {
+  type: "alter_table_add_column";
+  tableName: string;
+  schema: string;
+  column: Column;
+}
+
+export interface JsonSqliteAddColumnStatement {
+  type: "sqlite_alter_table_add_column";
+  tableName: string;
+  column: SQLiteColumn;
+}
+
+export interface JsonDropColumnStatement {
+  type: "alter_table_drop_column";
+  tableName: string;
+  columnName: string;
+  schema: string;
+}
+
+export interface JsonRenameColumnStatement {
+  type: "alter_table_rename_column";
+  tableName: string;
+  oldColumnName: string;
+  newColumnName: string;
+  schema: string;
+}
+
+interface JsonAlterColumnBase {
+  tableName: string;
+  columnName: string;
+  schema: string;
+  /** The column after the change */
+  column: Column;
+  /** The column before the change */
+  oldColumn: Column;
+}
+
+export interface JsonAlterColumnTypeStatement extends JsonAlterColumnBase {
+  type: "alter_table_alter_column_set_type";
+  oldDataType: string;
+  newDataType: string;
+}
+
+export interface JsonAlterColumnSetDefaultStatement
+  extends JsonAlterColumnBase {
+  type: "alter_table_alter_column_set_default";
+  newDefaultValue: any;
+  oldDefaultValue?: any;
+}
+
+export interface JsonAlterColumnDropDefaultStatement
+  extends JsonAlterColumnBase {
+  type: "alter_table_alter_column_drop_default";
+  oldDefaultValue: any;
+}
+
+export interface JsonAlterColumnSetNotNullStatement
+  extends JsonAlterColumnBase {
+  type: "alter_table_alter_column_set_notnull";
+}
+
+export interface JsonAlterColumnDropNotNullStatement
+  extends JsonAlterColumnBase {
+  type: "alter_table_alter_column_drop_notnull";
+}
+
+export interface JsonAlterColumnSetPrimaryKeyStatement
+  extends JsonAlterColumnBase {
+  type: "alter_table_alter_column_set_pk";
+}
+
+export interface JsonAlterColumnDropPrimaryKeyStatement
+  extends JsonAlterColumnBase {
+  type: "alter_table_alter_column_drop_pk";
+}
+
+export interface JsonAlterColumnSetIdentityStatement
+  extends JsonAlterColumnBase {
+  type: "alter_table_alter_column_set_identity";
+  identity: string;
+}
+
+export interface JsonAlterColumnDropIdentityStatement
+  extends JsonAlterColumnBase {
+  type: "alter_table_alter_column_drop_identity";
+}
+
+export interface JsonAlterColumnSetAutoincrementStatement
+  extends JsonAlterColumnBase {
+  type: "alter_table_alter_column_set_autoincrement";
+}
+
+export interface JsonAlterColumnDropAutoincrementStatement
+  extends JsonAlterColumnBase {
+  type: "alter_table_alter_column_drop_autoincrement";
+}
+
+export interface JsonAlterColumnSetOnUpdateStatement
+  extends JsonAlterColumnBase {
+  type: "alter_table_alter_column_set_on_update";
+}
+
+export interface JsonAlterColumnDropOnUpdateStatement
+  extends JsonAlterColumnBase {
+  type: "alter_table_alter_column_drop_on_update";
+}
+
+export type JsonAlterColumnStatement =
+  | JsonAlterColumnTypeStatement
+  | JsonAlterColumnSetDefaultStatement
+  | JsonAlterColumnDropDefaultStatement
+  | JsonAlterColumnSetNotNullStatement
+  | JsonAlterColumnDropNotNullStatement
+  | JsonAlterColumnSetPrimaryKeyStatement
+  | JsonAlterColumnDropPrimaryKeyStatement
+  | JsonAlterColumnSetIdentityStatement
+  | JsonAlterColumnDropIdentityStatement
+  | JsonAlterColumnSetAutoincrementStatement
+  | JsonAlterColumnDropAutoincrementStatement
+  | JsonAlterColumnSetOnUpdateStatement
+  | JsonAlterColumnDropOnUpdateStatement;
+
+export interface JsonDropIndexStatement {
+  type: "drop_index";
+  tableName: string;
+  /** Squashed index */
+  data: string;
+  schema: string;
+}
+
+export interface JsonDeleteReferenceStatement extends JsonReferenceStatement {
+  type: "delete_reference";
+}
+
+export interface JsonDeleteUniqueConstraint {
+  type: "delete_unique_constraint";
+  tableName: string;
+  data: string;
+  schema?: string;
+}
+
+export interface JsonCreateCheckConstraint {
+  type: "create_check_constraint";
+  tableName: string;
+  data: string;
+  schema?: string;
+}
+
+export interface JsonDeleteCheckConstraint {
+  type: "delete_check_constraint";
+  tableName: string;
+  constraintName: string;
+  schema?: string;
+}
+
+export interface JsonDeleteCompositePK {
+  type: "delete_composite_pk";
+  tableName: string;
+  data: string;
+  schema?: string;
+  constraintName?: string;
+}
+
+export interface JsonDropEnumStatement {
+  type: "drop_type_enum";
+  name: string;
+  schema: string;
+}
+
+export interface JsonRenameEnumStatement {
+  type: "rename_type_enum";
+  nameFrom: string;
+  nameTo: string;
+  schema: string;
+}
+
+export interface JsonMoveEnumStatement {
+  type: "move_type_enum";
+  name: string;
+  schemaFrom: string;
+  schemaTo: string;
+}
+
+export interface JsonAddValueToEnumStatement {
+  type: "alter_type_add_value";
+  name: string;
+  schema: string;
+  value: string;
+  /** Existing value to insert before. Appended when empty. */
+  before: string;
+}
+
+export interface JsonDropValueFromEnumStatement {
+  type: "alter_type_drop_value";
+  name: string;
+  schema: string;
+  deletedValues: string[];
+  newValues: string[];
+  columnsWithEnum: { schema: string; table: string; column: string }[];
+}
+
+export interface JsonDropSequenceStatement {
+  type: "drop_sequence";
+  name: string;
+  schema: string;
+}
+
+export interface JsonAlterSequenceStatement {
+  type: "alter_sequence";
+  name: string;
+  schema: string;
+  values: Omit<Sequence, "name" | "schema">;
+}
+
+export interface JsonDropRoleStatement {
+  type: "drop_role";
+  name: string;
+}
+
+export interface JsonAlterRoleStatement {
+  type: "alter_role";
+  name: string;
+  values: Omit<Role, "name">;
+}
+
+export interface JsonDropPolicyStatement {
+  type: "drop_policy";
+  tableName: string;
+  data: Policy;
+  schema: string;
+}
+
+export interface JsonRenamePolicyStatement {
+  type: "rename_policy";
+  tableName: string;
+  oldName: string;
+  newName: string;
+  schema: string;
+}
+
+export interface JsonAlterPolicyStatement {
+  type: "alter_policy";
+  tableName: string;
+  oldData: Policy;
+  newData: Policy;
+  schema: string;
+}
+
+export interface JsonDropIndPolicyStatement {
+  type: "drop_ind_policy";
+  tableName: string;
+  data: Policy;
+}
+
+export interface JsonDisableRLSStatement {
+  type: "disable_rls";
+  tableName: string;
+  schema: string;
+}
+
+export interface JsonDropViewStatement {
+  type: "drop_view";
+  name: string;
+  schema?: string;
+  materialized?: boolean;
+}
+
+export interface JsonRenameViewStatement {
+  type: "rename_view";
+  nameFrom: string;
+  nameTo: string;
+  schema?: string;
+  materialized?: boolean;
+}
+
+export type JsonAlterStatement =
+  | JsonDropTableStatement
+  | JsonRenameTableStatement
+  | JsonAlterTableSetSchema
+  | JsonRecreateTableStatement
+  | JsonDropSchema
+  | JsonRenameSchema
+  | JsonAddColumnStatement
+  | JsonSqliteAddColumnStatement
+  | JsonDropColumnStatement
+  | JsonRenameColumnStatement
+  | JsonAlterColumnStatement
+  | JsonDropIndexStatement
+  | JsonDeleteReferenceStatement
+  | JsonDeleteUniqueConstraint
+  | JsonCreateCheckConstraint
+  | JsonDeleteCheckConstraint
+  | JsonDeleteCompositePK
+  | JsonDropEnumStatement
+  | JsonRenameEnumStatement
+  | JsonMoveEnumStatement
+  | JsonAddValueToEnumStatement
+  | JsonDropValueFromEnumStatement
+  | JsonDropSequenceStatement
+  | JsonAlterSequenceStatement
+  | JsonDropRoleStatement
+  | JsonAlterRoleStatement
+  | JsonDropPolicyStatement
+  | JsonRenamePolicyStatement
+  | JsonAlterPolicyStatement
+  | JsonDropIndPolicyStatement
+  | JsonDisableRLSStatement
+  | JsonDropViewStatement
+  | JsonRenameViewStatement;
+
+export const prepareRenameTableJson = (
+  tableFrom: { name: string; schema: string },
+  tableTo: { name: string; schema: string },
+): JsonRenameTableStatement | JsonAlterTableSetSchema => {
+  if (tableFrom.schema !== tableTo.schema && tableFrom.name === tableTo.name) {
+    return {
+      type: "alter_table_set_schema",
+      tableName: tableFrom.name,
+      schemaFrom: tableFrom.schema,
+      schemaTo: tableTo.schema,
+    };
+  }
+
+  return {
+    type: "rename_table",
+    fromSchema: tableFrom.schema,
+    toSchema: tableTo.schema,
+    tableNameFrom: tableFrom.name,
+    tableNameTo: tableTo.name,
+  };
+};
+
+export const prepareDropTableJson = (table: {
+  name: string;
+  schema?: string;
+}): JsonDropTableStatement => {
+  return {
+    type: "drop_table",
+    tableName: table.name,
+    schema: table.schema ?? "",
+  };
+};
+
+export const prepareAlterColumnsJson = (
+  tableName: string,
+  schema: string,
+  oldColumn: Column,
+  column: Column,
+): JsonAlterColumnStatement[] => {
+  const base = {
+    tableName,
+    columnName: column.name,
+    schema,
+    column,
+    oldColumn,
+  };
+  const statements: JsonAlterColumnStatement[] = [];
+
+  if (
+    oldColumn.type !== column.type ||
+    oldColumn.typeSchema !== column.typeSchema
+  ) {
+    statements.push({
+      ...base,
+      type: "alter_table_alter_column_set_type",
+      oldDataType: oldColumn.type,
+      newDataType: column.type,
+    });
+  }
+
+  if (oldColumn.default !== column.default) {
+    statements.push(
+      column.default === undefined
+        ? {
+            ...base,
+            type: "alter_table_alter_column_drop_default",
+            oldDefaultValue: oldColumn.default,
+          }
+        : {
+            ...base,
+            type: "alter_table_alter_column_set_default",
+            newDefaultValue: column.default,
+            oldDefaultValue: oldColumn.default,
+          },
+    );
+  }
+
+  // the identity has to go before its not null constraint can be dropped
+  if (oldColumn.identity && oldColumn.identity !== column.identity) {
+    statements.push({
+      ...base,
+      type: "alter_table_alter_column_drop_identity",
+    });
+  }
+
+  // identity columns are always not null, so a new identity needs the
+  // constraint set before it is added below
+  if (Boolean(oldColumn.notNull) !== Boolean(column.notNull)) {
+    statements.push({
+      ...base,
+      type: column.notNull
+        ? "alter_table_alter_column_set_notnull"
+        : "alter_table_alter_column_drop_notnull",
+    });
+  }
+
+  if (Boolean(oldColumn.primaryKey) !== Boolean(column.primaryKey)) {
+    statements.push({
+      ...base,
+      type: column.primaryKey
+        ? "alter_table_alter_column_set_pk"
+        : "alter_table_alter_column_drop_pk",
+    });
+  }
+
+  if (column.identity && oldColumn.identity !== column.identity) {
+    statements.push({
+      ...base,
+      type: "alter_table_alter_column_set_identity",
+      identity: column.identity,
+    });
+  }
+
+  if (Boolean(oldColumn.autoincrement) !== Boolean(column.autoincrement)) {
+    statements.push({
+      ...base,
+      type: column.autoincrement
+        ? "alter_table_alter_column_set_autoincrement"
+        : "alter_table_alter_column_drop_autoincrement",
+    });
+  }
+
+  if (Boolean(oldColumn.onUpdate) !== Boolean(column.onUpdate)) {
+    statements.push({
+      ...base,
+      type: column.onUpdate
+        ? "alter_table_alter_column_set_on_update"
+        : "alter_table_alter_column_drop_on_update",
+    });
+  }
+
+  return statements;
+};
+
+export const prepareAlterEnumJson = (
+  name: string,
+  schema: string,
+  oldValues: string[],
+  newValues: string[],
+  columnsWithEnum: JsonDropValueFromEnumStatement["columnsWithEnum"],
+): (JsonAddValueToEnumStatement | JsonDropValueFromEnumStatement)[] => {
+  const deletedValues = oldValues.filter((it) => !newValues.includes(it));
+  const keptValues = newValues.filter((it) => oldValues.includes(it));
+  const isReordered = keptValues.some((it, index) => oldValues[index] !== it);
+
+  // values can't be removed or reordered, the type has to be re-created
+  if (deletedValues.length > 0 || isReordered) {
+    return [
+      {
+        type: "alter_type_drop_value",
+        name,
+        schema,
+        deletedValues,
+        newValues,
+        columnsWithEnum,
+      },
+    ];
+  }
+
+  return newValues
+    .map((value, index): JsonAddValueToEnumStatement | undefined => {
+      if (oldValues.includes(value)) {
+        return undefined;
+      }
+
+      const before =
+        newValues.slice(index + 1).find((it) => oldValues.includes(it)) ?? "";
+
+      return {
+        type: "alter_type_add_value",
+        name,
+        schema,
+        value,
+        before,
+      };
+    })
+    .filter((it) => it !== undefined);
+};
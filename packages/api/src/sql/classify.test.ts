@@ -0,0 +1,246 @@
+import type { MySqlColumnBuilderBase } from "drizzle-orm/mysql-core";
+import {
+  bigint as mysqlBigint,
+  int as mysqlInt,
+  mysqlTable,
+  text as mysqlText,
+  varchar as mysqlVarchar,
+} from "drizzle-orm/mysql-core";
+import type { PgColumnBuilderBase } from "drizzle-orm/pg-core";
+import { bigint, integer, pgTable, text, varchar } from "drizzle-orm/pg-core";
+import type { SQLiteColumnBuilderBase } from "drizzle-orm/sqlite-core";
+import {
+  integer as sqliteInteger,
+  sqliteTable,
+  text as sqliteText,
+} from "drizzle-orm/sqlite-core";
+import { expect, test } from "vitest";
+
+import { classifyChanges, hasChangesAtLeast } from "./classify";
+import { diffSnapshots as mysqlDiffSnapshots } from "../mysql/serializer/diff";
+import { schemaToSnapshot as mysqlSchemaToSnapshot } from "../mysql/serializer/snapshot";
+import { diffSnapshots } from "../pg/serializer/diff";
+import { schemaToSnapshot } from "../pg/serializer/snapshot";
+import { diffSnapshots as sqliteDiffSnapshots } from "../sqlite/serializer/diff";
+import { schemaToSnapshot as sqliteSchemaToSnapshot } from "../sqlite/serializer/snapshot";
+
+function classifyColumnChange(
+  prev: PgColumnBuilderBase,
+  next: PgColumnBuilderBase,
+) {
+  const { statements } = diffSnapshots(
+    schemaToSnapshot({ users: pgTable("users", { value: prev }) }),
+    schemaToSnapshot({ users: pgTable("users", { value: next }) }),
+  );
+
+  return classifyChanges(statements).map(({ severity, reason }) => ({
+    severity,
+    reason,
+  }));
+}
+
+test("Widening type changes are warnings", () => {
+  expect(classifyColumnChange(integer(), bigint({ mode: "number" }))).toEqual([
+    {
+      severity: "warning",
+      reason: "the table can be rewritten and locked during the change",
+    },
+  ]);
+  expect(
+    classifyColumnChange(varchar({ length: 50 }), varchar({ length: 100 })),
+  ).toMatchObject([{ severity: "warning" }]);
+  expect(classifyColumnChange(varchar({ length: 50 }), text())).toMatchObject([
+    { severity: "warning" },
+  ]);
+});
+
+test("Narrowing type changes are destructive", () => {
+  const narrower = {
+    severity: "destructive",
+    reason:
+      "the new type is narrower, existing values can be truncated or rejected",
+  };
+
+  expect(classifyColumnChange(bigint({ mode: "number" }), integer())).toEqual([
+    narrower,
+  ]);
+  expect(
+    classifyColumnChange(varchar({ length: 100 }), varchar({ length: 50 })),
+  ).toEqual([narrower]);
+  expect(classifyColumnChange(text(), varchar({ length: 50 }))).toEqual([
+    narrower,
+  ]);
+});
+
+test("Incompatible type changes are destructive with their own reason", () => {
+  const incompatible = {
+    severity: "destructive",
+    reason:
+      "the types are incompatible, existing values can fail to convert or change meaning",
+  };
+
+  expect(classifyColumnChange(integer(), text())).toEqual([incompatible]);
+  expect(classifyColumnChange(text(), integer())).toEqual([incompatible]);
+  expect(classifyColumnChange(integer(), varchar({ length: 10 }))).toEqual([
+    incompatible,
+  ]);
+});
+
+test("Classify added and dropped columns", () => {
+  const prev = schemaToSnapshot({
+    users: pgTable("users", { id: integer(), name: text() }),
+  });
+  const next = schemaToSnapshot({
+    users: pgTable("users", {
+      id: integer(),
+      email: text(),
+      role: text().notNull(),
+    }),
+  });
+  const changes = classifyChanges(diffSnapshots(prev, next).statements);
+
+  expect(changes.map((it) => it.severity)).toEqual([
+    "destructive",
+    "safe",
+    "destructive",
+  ]);
+  expect(changes.map((it) => it.reason)).toEqual([
+    "the values of the column are lost",
+    undefined,
+    "the column is NOT NULL without default, the change fails if the table has rows",
+  ]);
+  expect(hasChangesAtLeast(changes, "destructive")).toBe(true);
+  expect(hasChangesAtLeast(changes.slice(1, 2), "warning")).toBe(false);
+});
+
+test("Classify mysql column changes like pg ones", () => {
+  const classify = (
+    prev: Record<string, MySqlColumnBuilderBase>,
+    next: Record<string, MySqlColumnBuilderBase>,
+  ) =>
+    classifyChanges(
+      mysqlDiffSnapshots(
+        mysqlSchemaToSnapshot({ users: mysqlTable("users", prev) }),
+        mysqlSchemaToSnapshot({ users: mysqlTable("users", next) }),
+      ).statements,
+    ).map(({ severity, reason }) => ({ severity, reason }));
+
+  expect(
+    classify({ value: mysqlInt() }, { value: mysqlBigint({ mode: "number" }) }),
+  ).toEqual([
+    {
+      severity: "warning",
+      reason: "the table can be rewritten and locked during the change",
+    },
+  ]);
+  expect(
+    classify({ value: mysqlText() }, { value: mysqlVarchar({ length: 20 }) }),
+  ).toEqual([
+    {
+      severity: "destructive",
+      reason:
+        "the new type is narrower, existing values can be truncated or rejected",
+    },
+  ]);
+  expect(classify({ value: mysqlInt() }, { value: mysqlText() })).toEqual([
+    {
+      severity: "destructive",
+      reason:
+        "the types are incompatible, existing values can fail to convert or change meaning",
+    },
+  ]);
+  expect(
+    classify(
+      { value: mysqlInt() },
+      { value: mysqlInt(), required: mysqlInt().notNull() },
+    ),
+  ).toEqual([
+    {
+      severity: "destructive",
+      reason:
+        "the column is NOT NULL without default, the change fails if the table has rows",
+    },
+  ]);
+});
+
+test("Classify sqlite table rebuilds by the column changes they apply", () => {
+  const classify = (
+    prev: Record<string, SQLiteColumnBuilderBase>,
+    next: Record<string, SQLiteColumnBuilderBase>,
+  ) =>
+    classifyChanges(
+      sqliteDiffSnapshots(
+        sqliteSchemaToSnapshot({ users: sqliteTable("users", prev) }),
+        sqliteSchemaToSnapshot({ users: sqliteTable("users", next) }),
+      ).statements,
+    ).map(({ statement, severity, reason }) => ({
+      type: statement.type,
+      severity,
+      reason,
+    }));
+
+  expect(
+    classify(
+      { id: sqliteInteger(), name: sqliteText() },
+      { id: sqliteInteger(), name: sqliteText().notNull().default("") },
+    ),
+  ).toEqual([
+    {
+      type: "recreate_table",
+      severity: "warning",
+      reason: "the database is locked while the data is copied",
+    },
+  ]);
+  expect(
+    classify(
+      { id: sqliteInteger(), name: sqliteText() },
+      { id: sqliteInteger(), name: sqliteText().notNull() },
+    ),
+  ).toEqual([
+    {
+      type: "recreate_table",
+      severity: "destructive",
+      reason:
+        "the column `name` has no default, the copy fails if some rows are NULL",
+    },
+  ]);
+  expect(
+    classify(
+      { id: sqliteInteger(), name: sqliteText() },
+      { id: sqliteInteger(), name: sqliteInteger() },
+    ),
+  ).toEqual([
+    {
+      type: "recreate_table",
+      severity: "destructive",
+      reason:
+        "the types of `name` are incompatible, existing values can fail to convert or change meaning",
+    },
+  ]);
+  expect(
+    classify(
+      { id: sqliteInteger() },
+      { id: sqliteInteger(), name: sqliteText().notNull() },
+    ),
+  ).toEqual([
+    {
+      type: "recreate_table",
+      severity: "destructive",
+      reason:
+        "the added column is NOT NULL without default, the copy fails if the table has rows",
+    },
+  ]);
+  expect(
+    classify(
+      { id: sqliteInteger(), name: sqliteText() },
+      { id: sqliteInteger().notNull().default(0) },
+    ),
+  ).toEqual([
+    {
+      type: "recreate_table",
+      severity: "destructive",
+      reason:
+        "the values of the dropped columns are lost and the database is locked while the data is copied",
+    },
+  ]);
+});
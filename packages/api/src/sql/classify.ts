@@ -0,0 +1,353 @@
+/* lab extension */
+import type { JsonRecreateTableStatement } from "./alter-statements";
+import type { JsonStatement } from "./create-statements";
+import { describeStatement } from "./describe";
+
+export type ChangeSeverity = "safe" | "warning" | "destructive";
+
+export type ClassifiedChange = {
+  statement: JsonStatement;
+  /** Human readable description of the change */
+  description: string;
+  /**
+   * - `safe`: can be applied without risk
+   * - `warning`: can lock tables or fail on existing data
+   * - `destructive`: loses data or access rules
+   */
+  severity: ChangeSeverity;
+  /** Why the change is not safe */
+  reason?: string;
+};
+
+const severityLevel: Record<ChangeSeverity, number> = {
+  safe: 0,
+  warning: 1,
+  destructive: 2,
+};
+
+/**
+ * Flag the changes that lose data or lock tables
+ *
+ * @example
+ * ```ts
+ * const { statements } = diffSnapshots(prev, next);
+ * const changes = classifyChanges(statements);
+ *
+ * if (hasChangesAtLeast(changes, "destructive")) {
+ *   process.exit(1);
+ * }
+ * ```
+ *
+ * @param statements - JSON statements returned by `diffSnapshots`
+ * @returns The changes with their severity and the reason
+ */
+export function classifyChanges(
+  statements: JsonStatement[],
+): ClassifiedChange[] {
+  return statements.map((statement) => ({
+    statement,
+    description: describeStatement(statement),
+    ...classifyStatement(statement),
+  }));
+}
+
+/**
+ * Check if some changes reach a severity
+ * @param changes - Changes returned by `classifyChanges`
+ * @param severity - Minimum severity
+ * @returns `true` if at least one change is as or more severe than `severity`
+ */
+export function hasChangesAtLeast(
+  changes: ClassifiedChange[],
+  severity: ChangeSeverity,
+) {
+  return changes.some(
+    (change) => severityLevel[change.severity] >= severityLevel[severity],
+  );
+}
+
+function destructive(reason: string) {
+  return { severity: "destructive" as const, reason };
+}
+
+function warning(reason: string) {
+  return { severity: "warning" as const, reason };
+}
+
+function classifyStatement(
+  statement: JsonStatement,
+): Pick<ClassifiedChange, "severity" | "reason"> {
+  switch (statement.type) {
+    /* ----------------------------- Data loss; ------------------------------ */
+    case "drop_table":
+      return destructive("all the rows of the table are lost");
+    case "drop_schema":
+      return destructive("all the objects of the schema are dropped");
+    case "alter_table_drop_column":
+      return destructive("the values of the column are lost");
+    case "recreate_table":
+      return classifyRecreateTable(statement);
+    case "alter_table_alter_column_set_type":
+      switch (compareTypes(statement.oldDataType, statement.newDataType)) {
+        case "narrowing":
+          return destructive(
+            "the new type is narrower, existing values can be truncated or rejected",
+          );
+        case "incompatible":
+          return destructive(
+            "the types are incompatible, existing values can fail to convert or change meaning",
+          );
+        default:
+          return warning(
+            "the table can be rewritten and locked during the change",
+          );
+      }
+    case "alter_type_drop_value":
+      return destructive(
+        "the enum is re-created, rows using the removed values are rejected",
+      );
+    case "drop_type_enum":
+      return destructive("columns using the enum lose their type");
+    case "drop_sequence":
+      return destructive("the current value of the sequence is lost");
+
+    /* ---------------------------- Access rules; ---------------------------- */
+    case "drop_policy":
+    case "drop_ind_policy":
+      return destructive("the rows protected by the policy are exposed");
+    case "disable_rls":
+      return destructive(
+        "all the rows of the table are exposed to roles with access to the table",
+      );
+    case "drop_role":
+      return destructive("the privileges of the role are lost");
+
+    /* ------------------------ Fails on existing data; ----------------------- */
+    case "alter_table_add_column":
+    case "sqlite_alter_table_add_column":
+      return isRequiredWithoutDefault(statement.column)
+        ? destructive(
+            "the column is NOT NULL without default, the change fails if the table has rows",
+          )
+        : { severity: "safe" };
+    case "alter_table_alter_column_set_notnull":
+      return statement.column.default === undefined
+        ? destructive(
+            "the column has no default, the change fails if some rows are NULL",
+          )
+        : warning(
+            "the table is scanned and the change fails if some rows are NULL",
+          );
+    case "alter_table_alter_column_set_pk":
+    case "create_composite_pk":
+    case "create_unique_constraint":
+      return warning(
+        "the table is locked while it is scanned, the change fails on duplicated values",
+      );
+    case "create_check_constraint":
+      return warning(
+        "the table is locked while it is scanned, the change fails if some rows violate the check",
+      );
+    case "create_reference":
+    case "alter_reference":
+      return warning(
+        "both tables are locked while the existing rows are validated",
+      );
+
+    /* -------------------------------- Locks; -------------------------------- */
+    case "create_index_pg":
+      return statement.data.concurrently
+        ? { severity: "safe" }
+        : warning(
+            "writes to the table are blocked while the index is built, consider `.concurrently()`",
+          );
+    case "create_index":
+      return warning(
+        "writes to the table are blocked while the index is built",
+      );
+    case "alter_type_add_value":
+      return warning(
+        "the new value can't be used in the same transaction it is added",
+      );
+    case "alter_table_alter_column_set_identity":
+    case "alter_table_alter_column_set_autoincrement":
+      return warning("the table can be rewritten and locked during the change");
+
+    /* ------------------------ Breaks running queries; ----------------------- */
+    case "rename_table":
+    case "alter_table_set_schema":
+    case "alter_table_rename_column":
+    case "rename_schema":
+    case "rename_type_enum":
+    case "move_type_enum":
+    case "rename_view":
+      return warning(
+        "queries using the old name fail until the code is updated",
+      );
+
+    default:
+      return { severity: "safe" };
+  }
+}
+
+/**
+ * A sqlite table rebuild is as risky as the column changes it applies
+ */
+function classifyRecreateTable(
+  statement: JsonRecreateTableStatement,
+): Pick<ClassifiedChange, "severity" | "reason"> {
+  if (statement.droppedColumns.length > 0) {
+    return destructive(
+      "the values of the dropped columns are lost and the database is locked while the data is copied",
+    );
+  }
+
+  for (const column of statement.columns) {
+    const previous = statement.previousColumns.find(
+      (it) => it.name === column.name,
+    );
+
+    if (!previous) {
+      if (isRequiredWithoutDefault(column)) {
+        return destructive(
+          "the added column is NOT NULL without default, the copy fails if the table has rows",
+        );
+      }
+
+      continue;
+    }
+
+    if (!previous.notNull && isRequiredWithoutDefault(column)) {
+      return destructive(
+        `the column \`${column.name}\` has no default, the copy fails if some rows are NULL`,
+      );
+    }
+
+    if (previous.type !== column.type) {
+      switch (compareTypes(previous.type, column.type)) {
+        case "narrowing":
+          return destructive(
+            `the type of \`${column.name}\` is narrower, existing values can be truncated or rejected`,
+          );
+        case "incompatible":
+          return destructive(
+            `the types of \`${column.name}\` are incompatible, existing values can fail to convert or change meaning`,
+          );
+      }
+    }
+  }
+
+  return warning("the database is locked while the data is copied");
+}
+
+function isRequiredWithoutDefault(column: {
+  type: string;
+  notNull?: boolean;
+  default?: unknown;
+  autoincrement?: boolean;
+  generated?: unknown;
+  identity?: string;
+}) {
+  return (
+    Boolean(column.notNull) &&
+    column.default === undefined &&
+    !column.generated &&
+    !column.identity &&
+    !column.autoincrement &&
+    !column.type.toLowerCase().includes("serial")
+  );
+}
+
+const integerTypes = [
+  ["tinyint"],
+  ["smallint", "int2"],
+  ["mediumint"],
+  ["integer", "int", "int4"],
+  ["bigint", "int8"],
+];
+
+/**
+ * Best effort detection of types that can't hold all the values of the previous type:
+ * - `widening`: the new type holds all the values of the previous one
+ * - `narrowing`: same kind of type with a smaller range, precision or length
+ * - `incompatible`: unrelated types (text -> integer, integer -> text, timestamp -> date, ...)
+ */
+function compareTypes(
+  oldType: string,
+  newType: string,
+): "widening" | "narrowing" | "incompatible" {
+  const parse = (type: string) => {
+    const normalized = type.toLowerCase().trim();
+    const isArray = normalized.endsWith("[]");
+    const scalar = normalized.replace(/(\[\d*\])+$/, "");
+    const [, base = scalar, args] =
+      scalar.match(/^([^(]+?)\s*(?:\((.*)\))?(?: unsigned)?$/) ?? [];
+
+    return {
+      base,
+      args: args?.split(",").map((it) => Number(it.trim())) ?? [],
+      isArray,
+    };
+  };
+
+  const from = parse(oldType);
+  const to = parse(newType);
+
+  if (from.isArray !== to.isArray) {
+    return "incompatible";
+  }
+
+  const fromIntegerRank = integerTypes.findIndex((it) =>
+    it.includes(from.base),
+  );
+  const toIntegerRank = integerTypes.findIndex((it) => it.includes(to.base));
+
+  if (fromIntegerRank !== -1 && toIntegerRank !== -1) {
+    return toIntegerRank < fromIntegerRank ? "narrowing" : "widening";
+  }
+
+  // precision, scale or length reduced
+  if (from.base === to.base) {
+    return to.args.some(
+      (arg, index) => from.args[index] === undefined || arg < from.args[index],
+    )
+      ? "narrowing"
+      : "widening";
+  }
+
+  // unbounded text to bounded text
+  const textTypes = ["text", ...boundedTypes];
+
+  if (
+    textTypes.includes(from.base) &&
+    boundedTypes.includes(to.base) &&
+    to.args.length > 0
+  ) {
+    return "narrowing";
+  }
+
+  // any other change can lose data
+  return isWideningType(from.base, to.base) ? "widening" : "incompatible";
+}
+
+const boundedTypes = ["varchar", "character varying", "char", "character"];
+
+const wideningTypes: Record<string, string[]> = {
+  varchar: ["text"],
+  "character varying": ["text"],
+  char: ["varchar", "character varying", "text"],
+  character: ["varchar", "character varying", "text"],
+  real: ["double precision", "double"],
+  float: ["double precision", "double"],
+  date: ["timestamp", "timestamptz"],
+  timestamp: ["timestamptz"],
+  json: ["jsonb"],
+};
+
+function isWideningType(from: string, to: string) {
+  return (
+    wideningTypes[from]?.includes(to) ||
+    (integerTypes.some((it) => it.includes(from)) &&
+      ["numeric", "decimal", "real", "double precision", "double"].includes(to))
+  );
+}
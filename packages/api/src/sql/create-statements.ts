@@ -7,6 +7,7 @@ import {
   type TypeOf,
 } from "zod";
 
+import type { JsonAlterStatement } from "./alter-statements";
 import {
   type MySqlKitInternals,
   MySqlSquasher,
@@ -54,7 +55,7 @@ const columnSchema = object({
   identity: string().optional(),
 }).strict();
 
-type Column = TypeOf<typeof columnSchema>;
+export type Column = TypeOf<typeof columnSchema>;
 
 export interface JsonSqliteCreateTableStatement {
   type: "sqlite_create_table";
@@ -72,6 +73,8 @@ export interface JsonSqliteCreateTableStatement {
   compositePKs: string[][];
   uniqueConstraints?: string[];
   checkConstraints?: string[];
+  /* lab extension */
+  comments?: JsonComments;
 }
 
 export interface JsonCreateTableStatement {
@@ -86,6 +89,25 @@ export interface JsonCreateTableStatement {
   checkConstraints?: string[];
   internals?: MySqlKitInternals;
   isRLSEnabled?: boolean;
+  /* lab extension */
+  comments?: JsonComments;
+}
+
+/* lab extension */
+export interface JsonComments {
+  table?: string;
+  /** Description by column name */
+  columns: Record<string, string>;
+}
+
+/* lab extension */
+export interface JsonPgCommentOnStatement {
+  type: "pg_comment_on";
+  on: "table" | "view" | "materialized view" | "column";
+  schema: string;
+  name: string;
+  column?: string;
+  description: string;
 }
 
 export interface JsonCreateEnumStatement {
@@ -224,7 +246,10 @@ export type JsonStatement =
   | JsonCreateSequenceStatement
   | JsonCreatePgViewStatement
   | JsonCreateMySqlViewStatement
-  | JsonCreateSqliteViewStatement;
+  | JsonCreateSqliteViewStatement
+  /* lab extension */
+  | JsonAlterStatement
+  | JsonPgCommentOnStatement;
 
 export const preparePgCreateTableJson = (
   table: PgTable,
@@ -516,3 +541,55 @@ export const prepareCreateIndPolicyJsons = (
     };
   });
 };
+
+/* lab extension */
+export const prepareCommentsJson = (entity: {
+  description?: string;
+  columns: Record<string, { name: string; description?: string }>;
+}): JsonComments | undefined => {
+  const columns = Object.fromEntries(
+    Object.values(entity.columns)
+      .filter((it) => it.description)
+      .map((it) => [it.name, it.description!]),
+  );
+
+  if (!entity.description && Object.keys(columns).length === 0) {
+    return undefined;
+  }
+
+  return { table: entity.description, columns };
+};
+
+/* lab extension */
+export const preparePgCommentOnJsons = (
+  on: "table" | "view" | "materialized view",
+  name: string,
+  schema: string,
+  comments: JsonComments | undefined,
+): JsonPgCommentOnStatement[] => {
+  if (!comments) {
+    return [];
+  }
+
+  return [
+    ...(comments.table
+      ? [
+          {
+            type: "pg_comment_on" as const,
+            on,
+            schema,
+            name,
+            description: comments.table,
+          },
+        ]
+      : []),
+    ...Object.entries(comments.columns).map(([column, description]) => ({
+      type: "pg_comment_on" as const,
+      on: "column" as const,
+      schema,
+      name,
+      column,
+      description,
+    })),
+  ];
+};
@@ -0,0 +1,190 @@
+/* lab extension */
+import type { JsonStatement } from "./create-statements";
+
+/**
+ * Describe JSON statements in a human readable way
+ *
+ * @example
+ * ```ts
+ * const { statements } = diffSnapshots(prev, next);
+ * describeStatements(statements);
+ * // ["column `users.email` became NOT NULL", "index `users_email_idx` dropped on `users`"]
+ * ```
+ *
+ * @param statements - JSON statements returned by `diffSnapshots`
+ * @returns One sentence per statement
+ */
+export function describeStatements(statements: JsonStatement[]) {
+  return statements.map(describeStatement);
+}
+
+function qualify(schema: string | undefined, name: string) {
+  return schema && schema !== "public" ? `${schema}.${name}` : name;
+}
+
+/**
+ * Squashed indexes, foreign keys, uniques and checks start with their name
+ */
+function squashedName(data: string) {
+  return data.split(";")[0];
+}
+
+export function describeStatement(statement: JsonStatement): string {
+  switch (statement.type) {
+    /* -------------------------------- Schemas; ------------------------------- */
+    case "create_schema":
+      return `schema \`${statement.name}\` created`;
+    case "rename_schema":
+      return `schema \`${statement.from}\` renamed to \`${statement.to}\``;
+    case "drop_schema":
+      return `schema \`${statement.name}\` dropped`;
+
+    /* -------------------------------- Tables; -------------------------------- */
+    case "create_table":
+      return `table \`${qualify(statement.schema, statement.tableName)}\` created`;
+    case "sqlite_create_table":
+      return `table \`${statement.tableName}\` created`;
+    case "rename_table":
+      return `table \`${qualify(statement.fromSchema, statement.tableNameFrom)}\` renamed to \`${qualify(statement.toSchema, statement.tableNameTo)}\``;
+    case "alter_table_set_schema":
+      return `table \`${statement.tableName}\` moved from schema \`${statement.schemaFrom}\` to \`${statement.schemaTo}\``;
+    case "recreate_table":
+      return statement.droppedColumns.length > 0
+        ? `table \`${statement.tableName}\` re-created without columns ${statement.droppedColumns.map((it) => `\`${it}\``).join(", ")}, its data is copied`
+        : `table \`${statement.tableName}\` re-created, its data is copied`;
+    case "drop_table":
+      return `table \`${qualify(statement.schema, statement.tableName)}\` dropped`;
+
+    /* -------------------------------- Columns; ------------------------------- */
+    case "alter_table_add_column":
+      return `column \`${qualify(statement.schema, statement.tableName)}.${statement.column.name}\` added`;
+    case "sqlite_alter_table_add_column":
+      return `column \`${statement.tableName}.${statement.column.name}\` added`;
+    case "alter_table_rename_column":
+      return `column \`${qualify(statement.schema, statement.tableName)}.${statement.oldColumnName}\` renamed to \`${statement.newColumnName}\``;
+    case "alter_table_drop_column":
+      return `column \`${qualify(statement.schema, statement.tableName)}.${statement.columnName}\` dropped`;
+    case "alter_table_alter_column_set_type":
+      return `column \`${qualify(statement.schema, statement.tableName)}.${statement.columnName}\` type changed from \`${statement.oldDataType}\` to \`${statement.newDataType}\``;
+    case "alter_table_alter_column_set_default":
+      return `column \`${qualify(statement.schema, statement.tableName)}.${statement.columnName}\` default set to \`${statement.newDefaultValue}\``;
+    case "alter_table_alter_column_drop_default":
+      return `column \`${qualify(statement.schema, statement.tableName)}.${statement.columnName}\` default dropped`;
+    case "alter_table_alter_column_set_notnull":
+      return `column \`${qualify(statement.schema, statement.tableName)}.${statement.columnName}\` became NOT NULL`;
+    case "alter_table_alter_column_drop_notnull":
+      return `column \`${qualify(statement.schema, statement.tableName)}.${statement.columnName}\` became nullable`;
+    case "alter_table_alter_column_set_pk":
+      return `column \`${qualify(statement.schema, statement.tableName)}.${statement.columnName}\` became the primary key`;
+    case "alter_table_alter_column_drop_pk":
+      return `column \`${qualify(statement.schema, statement.tableName)}.${statement.columnName}\` is no longer the primary key`;
+    case "alter_table_alter_column_set_identity":
+      return `column \`${qualify(statement.schema, statement.tableName)}.${statement.columnName}\` became an identity`;
+    case "alter_table_alter_column_drop_identity":
+      return `column \`${qualify(statement.schema, statement.tableName)}.${statement.columnName}\` is no longer an identity`;
+    case "alter_table_alter_column_set_autoincrement":
+      return `column \`${qualify(statement.schema, statement.tableName)}.${statement.columnName}\` became auto increment`;
+    case "alter_table_alter_column_drop_autoincrement":
+      return `column \`${qualify(statement.schema, statement.tableName)}.${statement.columnName}\` is no longer auto increment`;
+    case "alter_table_alter_column_set_on_update":
+      return `column \`${qualify(statement.schema, statement.tableName)}.${statement.columnName}\` is now updated on update`;
+    case "alter_table_alter_column_drop_on_update":
+      return `column \`${qualify(statement.schema, statement.tableName)}.${statement.columnName}\` is no longer updated on update`;
+
+    /* ------------------------------ Constraints; ----------------------------- */
+    case "create_index":
+      return `index \`${squashedName(statement.data)}\` created on \`${qualify(statement.schema, statement.tableName)}\``;
+    case "create_index_pg":
+      return `index \`${statement.data.name}\` created on \`${qualify(statement.schema, statement.tableName)}\``;
+    case "drop_index":
+      return `index \`${squashedName(statement.data)}\` dropped on \`${qualify(statement.schema, statement.tableName)}\``;
+    case "create_reference":
+      return `foreign key \`${squashedName(statement.data)}\` created on \`${qualify(statement.schema, statement.tableName)}\``;
+    case "alter_reference":
+      return `foreign key \`${squashedName(statement.data)}\` altered on \`${qualify(statement.schema, statement.tableName)}\``;
+    case "delete_reference":
+      return `foreign key \`${squashedName(statement.data)}\` dropped on \`${qualify(statement.schema, statement.tableName)}\``;
+    case "create_unique_constraint":
+      return `unique constraint \`${squashedName(statement.data)}\` created on \`${qualify(statement.schema, statement.tableName)}\``;
+    case "delete_unique_constraint":
+      return `unique constraint \`${squashedName(statement.data)}\` dropped on \`${qualify(statement.schema, statement.tableName)}\``;
+    case "create_check_constraint":
+      return `check constraint \`${squashedName(statement.data)}\` created on \`${qualify(statement.schema, statement.tableName)}\``;
+    case "delete_check_constraint":
+      return `check constraint \`${statement.constraintName}\` dropped on \`${qualify(statement.schema, statement.tableName)}\``;
+    case "create_composite_pk":
+      return `composite primary key created on \`${qualify(statement.schema, statement.tableName)}\``;
+    case "delete_composite_pk":
+      return `composite primary key dropped on \`${qualify(statement.schema, statement.tableName)}\``;
+
+    /* --------------------------------- Enums; -------------------------------- */
+    case "create_type_enum":
+      return `enum \`${qualify(statement.schema, statement.name)}\` created`;
+    case "rename_type_enum":
+      return `enum \`${qualify(statement.schema, statement.nameFrom)}\` renamed to \`${statement.nameTo}\``;
+    case "move_type_enum":
+      return `enum \`${statement.name}\` moved from schema \`${statement.schemaFrom}\` to \`${statement.schemaTo}\``;
+    case "alter_type_add_value":
+      return `enum \`${qualify(statement.schema, statement.name)}\` value \`${statement.value}\` added`;
+    case "alter_type_drop_value":
+      return statement.deletedValues.length > 0
+        ? `enum \`${qualify(statement.schema, statement.name)}\` values ${statement.deletedValues.map((it) => `\`${it}\``).join(", ")} dropped`
+        : `enum \`${qualify(statement.schema, statement.name)}\` values reordered`;
+    case "drop_type_enum":
+      return `enum \`${qualify(statement.schema, statement.name)}\` dropped`;
+
+    /* ------------------------------- Sequences; ------------------------------ */
+    case "create_sequence":
+      return `sequence \`${qualify(statement.schema, statement.name)}\` created`;
+    case "alter_sequence":
+      return `sequence \`${qualify(statement.schema, statement.name)}\` altered`;
+    case "drop_sequence":
+      return `sequence \`${qualify(statement.schema, statement.name)}\` dropped`;
+
+    /* --------------------------------- Roles; -------------------------------- */
+    case "create_role":
+      return `role \`${statement.name}\` created`;
+    case "alter_role":
+      return `role \`${statement.name}\` altered`;
+    case "drop_role":
+      return `role \`${statement.name}\` dropped`;
+
+    /* ------------------------------- Policies; ------------------------------- */
+    case "enable_rls":
+      return `row level security enabled on \`${qualify(statement.schema, statement.tableName)}\``;
+    case "disable_rls":
+      return `row level security disabled on \`${qualify(statement.schema, statement.tableName)}\``;
+    case "create_policy":
+      return `policy \`${statement.data.name}\` created on \`${qualify(statement.schema, statement.tableName)}\``;
+    case "create_ind_policy":
+      return `policy \`${statement.data.name}\` created on \`${statement.tableName}\``;
+    case "rename_policy":
+      return `policy \`${statement.oldName}\` renamed to \`${statement.newName}\` on \`${qualify(statement.schema, statement.tableName)}\``;
+    case "alter_policy":
+      return `policy \`${statement.newData.name}\` altered on \`${qualify(statement.schema, statement.tableName)}\``;
+    case "drop_policy":
+      return `policy \`${statement.data.name}\` dropped on \`${qualify(statement.schema, statement.tableName)}\``;
+    case "drop_ind_policy":
+      return `policy \`${statement.data.name}\` dropped on \`${statement.tableName}\``;
+
+    /* --------------------------------- Views; -------------------------------- */
+    case "create_view":
+      return `${statement.materialized ? "materialized view" : "view"} \`${qualify(statement.schema, statement.name)}\` created`;
+    case "mysql_create_view":
+      return statement.replace
+        ? `view \`${statement.name}\` replaced`
+        : `view \`${statement.name}\` created`;
+    case "sqlite_create_view":
+      return `view \`${statement.name}\` created`;
+    case "rename_view":
+      return `${statement.materialized ? "materialized view" : "view"} \`${qualify(statement.schema, statement.nameFrom)}\` renamed to \`${statement.nameTo}\``;
+    case "drop_view":
+      return `${statement.materialized ? "materialized view" : "view"} \`${qualify(statement.schema, statement.name)}\` dropped`;
+
+    /* -------------------------------- Comments; ------------------------------ */
+    case "pg_comment_on":
+      return statement.column
+        ? `comment set on column \`${qualify(statement.schema, statement.name)}.${statement.column}\``
+        : `comment set on ${statement.on} \`${qualify(statement.schema, statement.name)}\``;
+  }
+}
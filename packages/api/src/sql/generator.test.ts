@@ -0,0 +1,130 @@
+import { PGlite } from "@electric-sql/pglite";
+import { createClient } from "@libsql/client-wasm";
+import { sql } from "drizzle-orm";
+import {
+  index as mysqlIndex,
+  int,
+  mysqlTable,
+  varchar as mysqlVarchar,
+} from "drizzle-orm/mysql-core";
+import {
+  index,
+  integer,
+  pgEnum,
+  pgPolicy,
+  pgSchema,
+  pgTable,
+  pgView,
+  text,
+} from "drizzle-orm/pg-core";
+import {
+  index as sqliteIndex,
+  integer as sqliteInteger,
+  sqliteTable,
+  sqliteView,
+  text as sqliteText,
+} from "drizzle-orm/sqlite-core";
+import { expect, test } from "vitest";
+
+import { schemaToSnapshot as mysqlSchemaToSnapshot } from "../mysql/serializer/snapshot";
+import { snapshotToSqlStatements as mysqlSnapshotToSqlStatements } from "../mysql/serializer/sql";
+import { schemaToSnapshot } from "../pg/serializer/snapshot";
+import { snapshotToSqlStatements } from "../pg/serializer/sql";
+import { schemaToSnapshot as sqliteSchemaToSnapshot } from "../sqlite/serializer/snapshot";
+import { snapshotToSql as sqliteSnapshotToSql } from "../sqlite/serializer/sql";
+
+const guarded = { ifNotExists: true, wrapInTransaction: true };
+
+test("Re-run the guarded pg SQL against an existing database", async () => {
+  const app = pgSchema("app");
+  const mood = pgEnum("mood", ["sad", "ok"]);
+  const users = app.table(
+    "users",
+    { id: integer().primaryKey(), name: text(), mood: mood() },
+    (table) => [
+      index("users_name_idx").on(table.name),
+      pgPolicy("users_read", { for: "select", using: sql`true` }),
+    ],
+  );
+  const posts = pgTable("posts", {
+    id: integer().primaryKey(),
+    authorId: integer().references(() => users.id),
+  });
+  const authors = pgView("authors").as((qb) => qb.select().from(users));
+  const statements = snapshotToSqlStatements(
+    schemaToSnapshot({ app, mood, users, posts, authors }),
+    guarded,
+  );
+
+  expect(statements[0]).toBe("BEGIN;");
+  expect(statements.at(-1)).toBe(
+    'CREATE INDEX CONCURRENTLY IF NOT EXISTS "users_name_idx" ON "app"."users" USING btree ("name");',
+  );
+
+  const client = new PGlite();
+
+  for (let run = 0; run < 2; run++) {
+    // indexes created concurrently can't run in a multi-statement query
+    for (const statement of statements) {
+      await client.exec(statement);
+    }
+  }
+
+  const { rows } = await client.query<{ name: string }>(
+    "SELECT indexname AS name FROM pg_indexes WHERE schemaname = 'app' ORDER BY name",
+  );
+
+  expect(rows.map((it) => it.name)).toEqual(["users_name_idx", "users_pkey"]);
+});
+
+test("Re-run the guarded sqlite SQL against an existing database", async () => {
+  const users = sqliteTable(
+    "users",
+    { id: sqliteInteger().primaryKey(), name: sqliteText() },
+    (table) => ({ nameIdx: sqliteIndex("users_name_idx").on(table.name) }),
+  );
+  const names = sqliteView("names").as((qb) =>
+    qb.select({ name: users.name }).from(users),
+  );
+  const script = sqliteSnapshotToSql(
+    sqliteSchemaToSnapshot({ users, names }),
+    guarded,
+  );
+
+  expect(script.startsWith("BEGIN;")).toBe(true);
+
+  const client = createClient({ url: ":memory:" });
+
+  await client.executeMultiple(script);
+  await client.executeMultiple(script);
+
+  const { rows } = await client.execute(
+    "SELECT type, name FROM sqlite_master WHERE name NOT LIKE 'sqlite_%' ORDER BY name",
+  );
+
+  expect(rows.map(({ type, name }) => ({ type, name }))).toEqual([
+    { type: "view", name: "names" },
+    { type: "table", name: "users" },
+    { type: "index", name: "users_name_idx" },
+  ]);
+});
+
+test("Escape the statements and names of the guarded mysql SQL", () => {
+  const users = mysqlTable(
+    "user's\\data",
+    { id: int().primaryKey(), name: mysqlVarchar({ length: 20 }) },
+    (table) => ({ nameIdx: mysqlIndex("users_name_idx").on(table.name) }),
+  );
+  const statements = mysqlSnapshotToSqlStatements(
+    mysqlSchemaToSnapshot({ users }),
+    guarded,
+  );
+
+  expect(statements[0]).toMatch(/^CREATE TABLE IF NOT EXISTS /);
+  expect(statements[1].split("\n")).toEqual([
+    "SET @drizzle_lab_sql = IF((SELECT COUNT(*) FROM information_schema.statistics WHERE table_schema = DATABASE() AND table_name = 'user''s\\\\data' AND index_name = 'users_name_idx') = 0, 'CREATE INDEX users_name_idx ON `user''s\\\\data` (`name`)', 'DO 0');",
+    "PREPARE drizzle_lab_stmt FROM @drizzle_lab_sql;",
+    "EXECUTE drizzle_lab_stmt;",
+    "DEALLOCATE PREPARE drizzle_lab_stmt;",
+  ]);
+});
@@ -1,4 +1,48 @@
 /* eslint-disable no-useless-escape */
+import type {
+  JsonAddColumnStatement,
+  JsonAddValueToEnumStatement,
+  JsonAlterColumnDropDefaultStatement,
+  JsonAlterColumnDropIdentityStatement,
+  JsonAlterColumnDropNotNullStatement,
+  JsonAlterColumnDropPrimaryKeyStatement,
+  JsonAlterColumnSetDefaultStatement,
+  JsonAlterColumnSetIdentityStatement,
+  JsonAlterColumnSetNotNullStatement,
+  JsonAlterColumnSetPrimaryKeyStatement,
+  JsonAlterColumnStatement,
+  JsonAlterColumnTypeStatement,
+  JsonAlterPolicyStatement,
+  JsonAlterRoleStatement,
+  JsonAlterSequenceStatement,
+  JsonAlterTableSetSchema,
+  JsonCreateCheckConstraint,
+  JsonDeleteCheckConstraint,
+  JsonDeleteCompositePK,
+  JsonDeleteReferenceStatement,
+  JsonDeleteUniqueConstraint,
+  JsonDisableRLSStatement,
+  JsonDropColumnStatement,
+  JsonDropEnumStatement,
+  JsonDropIndPolicyStatement,
+  JsonDropIndexStatement,
+  JsonDropPolicyStatement,
+  JsonDropRoleStatement,
+  JsonDropSchema,
+  JsonDropSequenceStatement,
+  JsonDropTableStatement,
+  JsonDropValueFromEnumStatement,
+  JsonDropViewStatement,
+  JsonMoveEnumStatement,
+  JsonRecreateTableStatement,
+  JsonRenameColumnStatement,
+  JsonRenameEnumStatement,
+  JsonRenamePolicyStatement,
+  JsonRenameSchema,
+  JsonRenameTableStatement,
+  JsonRenameViewStatement,
+  JsonSqliteAddColumnStatement,
+} from "./alter-statements";
 import type {
   JsonCreateMySqlViewStatement,
   JsonCreatePgViewStatement,
@@ -18,6 +62,7 @@ import type {
   JsonCreatePolicyStatement,
   JsonCreateIndPolicyStatement,
   JsonEnableRLSStatement,
+  JsonPgCommentOnStatement,
 } from "./create-statements";
 import { escapeSingleQuotes } from "./utils";
 import { MySqlSquasher } from "../mysql/schema";
@@ -319,6 +364,7 @@ class MySqlCreateTableConvertor extends Convertor {
       internals,
       /* lab extension */
       schema,
+      comments,
     } = st;
 
     let statement = "";
@@ -345,9 +391,14 @@ class MySqlCreateTableConvertor extends Convertor {
         ? ` GENERATED ALWAYS AS (${column.generated?.as}) ${column.generated?.type.toUpperCase()}`
         : "";
 
+      /* lab extension */
+      const commentStatement = comments?.columns[column.name]
+        ? ` COMMENT ${mysqlString(comments.columns[column.name])}`
+        : "";
+
       statement +=
         "\t" +
-        `\`${column.name}\` ${column.type}${autoincrementStatement}${primaryKeyStatement}${generatedStatement}${notNullStatement}${defaultStatement}${onUpdateStatement}`;
+        `\`${column.name}\` ${column.type}${autoincrementStatement}${primaryKeyStatement}${generatedStatement}${notNullStatement}${defaultStatement}${onUpdateStatement}${commentStatement}`;
       statement += i === columns.length - 1 ? "" : ",\n";
     }
 
@@ -392,7 +443,12 @@ class MySqlCreateTableConvertor extends Convertor {
       }
     }
 
-    statement += `\n);`;
+    /* lab extension */
+    const tableCommentStatement = comments?.table
+      ? ` COMMENT=${mysqlString(comments.table)}`
+      : "";
+
+    statement += `\n)${tableCommentStatement};`;
     statement += `\n`;
     return statement;
   }
@@ -414,13 +470,28 @@ export class SQLiteCreateTableConvertor extends Convertor {
       compositePKs,
       uniqueConstraints,
       checkConstraints,
+      /* lab extension */
+      comments,
     } = st;
 
     let statement = "";
-    statement += `CREATE TABLE \`${tableName}\` (\n`;
+    /* lab extension */
+    const tableCommentStatement = comments?.table
+      ? ` -- ${comments.table.replace(/\s*\n\s*/g, " ")}`
+      : "";
+    statement += `CREATE TABLE \`${tableName}\` (${tableCommentStatement}\n`;
     for (let i = 0; i < columns.length; i++) {
       const column = columns[i];
 
+      /* lab extension */
+      const columnComment = comments?.columns[column.name];
+      if (columnComment) {
+        statement += columnComment
+          .split("\n")
+          .map((line) => `\t-- ${line}\n`)
+          .join("");
+      }
+
       const primaryKeyStatement = column.primaryKey ? " PRIMARY KEY" : "";
       const notNullStatement = column.notNull ? " NOT NULL" : "";
       const defaultStatement =
@@ -922,71 +993,1632 @@ class SqliteCreateViewConvertor extends Convertor {
   }
 }
 
-const convertors: Convertor[] = [];
+/* lab extension */
+class PgCommentOnConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return statement.type === "pg_comment_on" && dialect === "postgresql";
+  }
 
-// table
-convertors.push(new PgCreateTableConvertor());
-convertors.push(new MySqlCreateTableConvertor());
-convertors.push(new SQLiteCreateTableConvertor());
+  convert(st: JsonPgCommentOnStatement) {
+    const { on, schema, name, column, description } = st;
 
-// enum
-convertors.push(new CreateTypeEnumConvertor());
+    const nameWithSchema = schema ? `"${schema}"."${name}"` : `"${name}"`;
+    const target = column ? `${nameWithSchema}."${column}"` : nameWithSchema;
 
-// sequence
-convertors.push(new CreatePgSequenceConvertor());
+    return `COMMENT ON ${on.toUpperCase()} ${target} IS '${escapeSingleQuotes(description)}';`;
+  }
+}
 
-// index
-convertors.push(new CreatePgIndexConvertor());
-convertors.push(new CreateMySqlIndexConvertor());
-convertors.push(new CreateSqliteIndexConvertor());
+/* lab extension */
+// Convertors used to migrate a snapshot to another one (see `diffSnapshots`).
 
-// foreign key
-convertors.push(new PgCreateForeignKeyConvertor());
-convertors.push(new MySqlCreateForeignKeyConvertor());
+class PgDropTableConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return statement.type === "drop_table" && dialect === "postgresql";
+  }
 
-// schema
-convertors.push(new PgCreateSchemaConvertor());
-convertors.push(new MySqlCreateSchemaConvertor());
+  convert(statement: JsonDropTableStatement) {
+    const { tableName, schema } = statement;
 
-// unique constraint
-convertors.push(new PgAlterTableAddUniqueConstraintConvertor());
-convertors.push(new MySQLAlterTableAddUniqueConstraintConvertor());
+    const tableNameWithSchema = schema
+      ? `"${schema}"."${tableName}"`
+      : `"${tableName}"`;
 
-// composite primary key
-convertors.push(new PgAlterTableCreateCompositePrimaryKeyConvertor());
-convertors.push(new MySqlAlterTableCreateCompositePrimaryKeyConvertor());
+    return `DROP TABLE ${tableNameWithSchema} CASCADE;`;
+  }
+}
 
-// view
-convertors.push(new PgCreateViewConvertor());
-convertors.push(new MySqlCreateViewConvertor());
-convertors.push(new SqliteCreateViewConvertor());
+class MySQLDropTableConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return statement.type === "drop_table" && dialect === "mysql";
+  }
 
-// enable rls
-convertors.push(new PgEnableRlsConvertor());
+  convert(statement: JsonDropTableStatement) {
+    const { tableName, schema } = statement;
 
-// roles
-convertors.push(new PgCreateRoleConvertor());
+    const tableNameWithSchema = schema
+      ? `\`${schema}\`.\`${tableName}\``
+      : `\`${tableName}\``;
 
-// policies
-convertors.push(new PgCreatePolicyConvertor());
-convertors.push(new PgCreateIndPolicyConvertor());
+    return `DROP TABLE ${tableNameWithSchema};`;
+  }
+}
 
-export const generateSql = (statements: JsonStatement[], dialect: Dialect) => {
-  const result = statements
-    .flatMap((statement) => {
-      const filtered = convertors.filter((it) => {
-        return it.can(statement, dialect);
-      });
+class SQLiteDropTableConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return (
+      statement.type === "drop_table" &&
+      (dialect === "sqlite" || dialect === "turso")
+    );
+  }
 
-      const convertor = filtered.length === 1 ? filtered[0] : undefined;
+  convert(statement: JsonDropTableStatement) {
+    return `DROP TABLE \`${statement.tableName}\`;`;
+  }
+}
 
-      if (!convertor) {
-        return "";
-      }
+class PgRenameTableConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return statement.type === "rename_table" && dialect === "postgresql";
+  }
 
-      return convertor.convert(statement);
-    })
-    .filter((it) => it !== "");
+  convert(statement: JsonRenameTableStatement) {
+    const { tableNameFrom, tableNameTo, toSchema, fromSchema } = statement;
 
-  return result;
-};
+    const from = fromSchema
+      ? `"${fromSchema}"."${tableNameFrom}"`
+      : `"${tableNameFrom}"`;
+
+    const statements = [`ALTER TABLE ${from} RENAME TO "${tableNameTo}";`];
+
+    if (fromSchema !== toSchema) {
+      const renamed = fromSchema
+        ? `"${fromSchema}"."${tableNameTo}"`
+        : `"${tableNameTo}"`;
+
+      statements.push(
+        `ALTER TABLE ${renamed} SET SCHEMA "${toSchema || "public"}";`,
+      );
+    }
+
+    return statements;
+  }
+}
+
+class MySqlRenameTableConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return statement.type === "rename_table" && dialect === "mysql";
+  }
+
+  convert(statement: JsonRenameTableStatement) {
+    const { tableNameFrom, tableNameTo, fromSchema, toSchema } = statement;
+
+    const from = fromSchema
+      ? `\`${fromSchema}\`.\`${tableNameFrom}\``
+      : `\`${tableNameFrom}\``;
+    const to = toSchema
+      ? `\`${toSchema}\`.\`${tableNameTo}\``
+      : `\`${tableNameTo}\``;
+
+    return `RENAME TABLE ${from} TO ${to};`;
+  }
+}
+
+class SqliteRenameTableConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return (
+      statement.type === "rename_table" &&
+      (dialect === "sqlite" || dialect === "turso")
+    );
+  }
+
+  convert(statement: JsonRenameTableStatement) {
+    const { tableNameFrom, tableNameTo } = statement;
+
+    return `ALTER TABLE \`${tableNameFrom}\` RENAME TO \`${tableNameTo}\`;`;
+  }
+}
+
+class PgAlterTableSetSchemaConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return (
+      statement.type === "alter_table_set_schema" && dialect === "postgresql"
+    );
+  }
+
+  convert(statement: JsonAlterTableSetSchema) {
+    const { tableName, schemaFrom, schemaTo } = statement;
+
+    const tableNameWithSchema = schemaFrom
+      ? `"${schemaFrom}"."${tableName}"`
+      : `"${tableName}"`;
+
+    return `ALTER TABLE ${tableNameWithSchema} SET SCHEMA "${schemaTo || "public"}";`;
+  }
+}
+
+class MySqlAlterTableSetSchemaConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return statement.type === "alter_table_set_schema" && dialect === "mysql";
+  }
+
+  convert(statement: JsonAlterTableSetSchema) {
+    const { tableName, schemaFrom, schemaTo } = statement;
+
+    const from = schemaFrom
+      ? `\`${schemaFrom}\`.\`${tableName}\``
+      : `\`${tableName}\``;
+    const to = schemaTo
+      ? `\`${schemaTo}\`.\`${tableName}\``
+      : `\`${tableName}\``;
+
+    return `RENAME TABLE ${from} TO ${to};`;
+  }
+}
+
+class SQLiteRecreateTableConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return (
+      statement.type === "recreate_table" &&
+      (dialect === "sqlite" || dialect === "turso")
+    );
+  }
+
+  convert(statement: JsonRecreateTableStatement) {
+    const {
+      tableName,
+      columns,
+      compositePKs,
+      referenceData,
+      uniqueConstraints,
+      checkConstraints,
+      copiedColumns,
+    } = statement;
+
+    const newTableName = `__new_${tableName}`;
+    const columnNames = copiedColumns.map((it) => `"${it}"`).join(", ");
+
+    const sqlStatements: string[] = [];
+
+    sqlStatements.push(`PRAGMA foreign_keys=OFF;`);
+
+    sqlStatements.push(
+      new SQLiteCreateTableConvertor().convert({
+        type: "sqlite_create_table",
+        tableName: newTableName,
+        columns,
+        referenceData,
+        compositePKs,
+        uniqueConstraints,
+        checkConstraints: checkConstraints?.map((it) =>
+          it
+            .replaceAll(`"${tableName}".`, `"${newTableName}".`)
+            .replaceAll(`\`${tableName}\`.`, `\`${newTableName}\`.`),
+        ),
+      }),
+    );
+
+    if (copiedColumns.length > 0) {
+      sqlStatements.push(
+        `INSERT INTO \`${newTableName}\`(${columnNames}) SELECT ${columnNames} FROM \`${tableName}\`;`,
+      );
+    }
+
+    sqlStatements.push(
+      new SQLiteDropTableConvertor().convert({
+        type: "drop_table",
+        tableName,
+        schema: "",
+      }),
+    );
+
+    sqlStatements.push(
+      new SqliteRenameTableConvertor().convert({
+        type: "rename_table",
+        fromSchema: "",
+        tableNameFrom: newTableName,
+        tableNameTo: tableName,
+        toSchema: "",
+      }),
+    );
+
+    sqlStatements.push(`PRAGMA foreign_keys=ON;`);
+
+    return sqlStatements;
+  }
+}
+
+class PgAlterTableAddColumnConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return (
+      statement.type === "alter_table_add_column" && dialect === "postgresql"
+    );
+  }
+
+  convert(statement: JsonAddColumnStatement) {
+    const { tableName, column, schema } = statement;
+    const { name, type, notNull, generated, primaryKey, identity } = column;
+
+    const tableNameWithSchema = schema
+      ? `"${schema}"."${tableName}"`
+      : `"${tableName}"`;
+
+    const primaryKeyStatement = primaryKey ? " PRIMARY KEY" : "";
+
+    const defaultStatement =
+      column.default !== undefined ? ` DEFAULT ${column.default}` : "";
+
+    const schemaPrefix =
+      column.typeSchema && column.typeSchema !== "public"
+        ? `"${column.typeSchema}".`
+        : "";
+
+    const fixedType = parseType(schemaPrefix, type);
+
+    const notNullStatement = notNull && !identity ? " NOT NULL" : "";
+
+    const unsquashedIdentity = identity
+      ? PgSquasher.unsquashIdentity(identity)
+      : undefined;
+
+    const identityWithSchema = schema
+      ? `"${schema}"."${unsquashedIdentity?.name}"`
+      : `"${unsquashedIdentity?.name}"`;
+
+    const identityStatement = unsquashedIdentity
+      ? ` GENERATED ${
+          unsquashedIdentity.type === "always" ? "ALWAYS" : "BY DEFAULT"
+        } AS IDENTITY (sequence name ${identityWithSchema}${
+          unsquashedIdentity.increment
+            ? ` INCREMENT BY ${unsquashedIdentity.increment}`
+            : ""
+        }${
+          unsquashedIdentity.minValue
+            ? ` MINVALUE ${unsquashedIdentity.minValue}`
+            : ""
+        }${
+          unsquashedIdentity.maxValue
+            ? ` MAXVALUE ${unsquashedIdentity.maxValue}`
+            : ""
+        }${
+          unsquashedIdentity.startWith
+            ? ` START WITH ${unsquashedIdentity.startWith}`
+            : ""
+        }${unsquashedIdentity.cache ? ` CACHE ${unsquashedIdentity.cache}` : ""}${
+          unsquashedIdentity.cycle ? ` CYCLE` : ""
+        })`
+      : "";
+
+    const generatedStatement = generated
+      ? ` GENERATED ALWAYS AS (${generated?.as}) STORED`
+      : "";
+
+    return `ALTER TABLE ${tableNameWithSchema} ADD COLUMN "${name}" ${fixedType}${primaryKeyStatement}${defaultStatement}${generatedStatement}${notNullStatement}${identityStatement};`;
+  }
+}
+
+class MySqlAlterTableAddColumnConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return statement.type === "alter_table_add_column" && dialect === "mysql";
+  }
+
+  convert(statement: JsonAddColumnStatement) {
+    const { tableName, column, schema } = statement;
+
+    const tableNameWithSchema = schema
+      ? `\`${schema}\`.\`${tableName}\``
+      : `\`${tableName}\``;
+
+    return `ALTER TABLE ${tableNameWithSchema} ADD \`${column.name}\` ${mySqlColumnDefinition(column)};`;
+  }
+}
+
+class SQLiteAlterTableAddColumnConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return (
+      statement.type === "sqlite_alter_table_add_column" &&
+      (dialect === "sqlite" || dialect === "turso")
+    );
+  }
+
+  convert(statement: JsonSqliteAddColumnStatement) {
+    const { tableName, column } = statement;
+    const { name, type, notNull, primaryKey, generated } = column;
+
+    const defaultStatement =
+      column.default !== undefined ? ` DEFAULT ${column.default}` : "";
+    const notNullStatement = notNull ? " NOT NULL" : "";
+    const primaryKeyStatement = primaryKey ? " PRIMARY KEY" : "";
+
+    const generatedStatement = generated
+      ? ` GENERATED ALWAYS AS ${generated.as} ${generated.type.toUpperCase()}`
+      : "";
+
+    return `ALTER TABLE \`${tableName}\` ADD \`${name}\` ${type}${primaryKeyStatement}${defaultStatement}${generatedStatement}${notNullStatement};`;
+  }
+}
+
+class PgAlterTableDropColumnConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return (
+      statement.type === "alter_table_drop_column" && dialect === "postgresql"
+    );
+  }
+
+  convert(statement: JsonDropColumnStatement) {
+    const { tableName, columnName, schema } = statement;
+
+    const tableNameWithSchema = schema
+      ? `"${schema}"."${tableName}"`
+      : `"${tableName}"`;
+
+    return `ALTER TABLE ${tableNameWithSchema} DROP COLUMN IF EXISTS "${columnName}";`;
+  }
+}
+
+class MySqlAlterTableDropColumnConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return statement.type === "alter_table_drop_column" && dialect === "mysql";
+  }
+
+  convert(statement: JsonDropColumnStatement) {
+    const { tableName, columnName, schema } = statement;
+
+    const tableNameWithSchema = schema
+      ? `\`${schema}\`.\`${tableName}\``
+      : `\`${tableName}\``;
+
+    return `ALTER TABLE ${tableNameWithSchema} DROP COLUMN \`${columnName}\`;`;
+  }
+}
+
+class SQLiteAlterTableDropColumnConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return (
+      statement.type === "alter_table_drop_column" &&
+      (dialect === "sqlite" || dialect === "turso")
+    );
+  }
+
+  convert(statement: JsonDropColumnStatement) {
+    const { tableName, columnName } = statement;
+
+    return `ALTER TABLE \`${tableName}\` DROP COLUMN \`${columnName}\`;`;
+  }
+}
+
+class PgAlterTableRenameColumnConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return (
+      statement.type === "alter_table_rename_column" && dialect === "postgresql"
+    );
+  }
+
+  convert(statement: JsonRenameColumnStatement) {
+    const { tableName, oldColumnName, newColumnName, schema } = statement;
+
+    const tableNameWithSchema = schema
+      ? `"${schema}"."${tableName}"`
+      : `"${tableName}"`;
+
+    return `ALTER TABLE ${tableNameWithSchema} RENAME COLUMN "${oldColumnName}" TO "${newColumnName}";`;
+  }
+}
+
+class MySqlAlterTableRenameColumnConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return (
+      statement.type === "alter_table_rename_column" && dialect === "mysql"
+    );
+  }
+
+  convert(statement: JsonRenameColumnStatement) {
+    const { tableName, oldColumnName, newColumnName, schema } = statement;
+
+    const tableNameWithSchema = schema
+      ? `\`${schema}\`.\`${tableName}\``
+      : `\`${tableName}\``;
+
+    return `ALTER TABLE ${tableNameWithSchema} RENAME COLUMN \`${oldColumnName}\` TO \`${newColumnName}\`;`;
+  }
+}
+
+class SQLiteAlterTableRenameColumnConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return (
+      statement.type === "alter_table_rename_column" &&
+      (dialect === "sqlite" || dialect === "turso")
+    );
+  }
+
+  convert(statement: JsonRenameColumnStatement) {
+    const { tableName, oldColumnName, newColumnName } = statement;
+
+    return `ALTER TABLE \`${tableName}\` RENAME COLUMN \`${oldColumnName}\` TO \`${newColumnName}\`;`;
+  }
+}
+
+class PgAlterTableAlterColumnSetTypeConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return (
+      statement.type === "alter_table_alter_column_set_type" &&
+      dialect === "postgresql"
+    );
+  }
+
+  convert(statement: JsonAlterColumnTypeStatement) {
+    const { tableName, columnName, newDataType, schema, column } = statement;
+
+    const tableNameWithSchema = schema
+      ? `"${schema}"."${tableName}"`
+      : `"${tableName}"`;
+
+    const schemaPrefix =
+      column.typeSchema && column.typeSchema !== "public"
+        ? `"${column.typeSchema}".`
+        : "";
+
+    const type = parseType(schemaPrefix, newDataType);
+
+    return `ALTER TABLE ${tableNameWithSchema} ALTER COLUMN "${columnName}" SET DATA TYPE ${type} USING "${columnName}"::${type};`;
+  }
+}
+
+class PgAlterTableAlterColumnSetDefaultConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return (
+      statement.type === "alter_table_alter_column_set_default" &&
+      dialect === "postgresql"
+    );
+  }
+
+  convert(statement: JsonAlterColumnSetDefaultStatement) {
+    const { tableName, columnName, schema } = statement;
+
+    const tableNameWithSchema = schema
+      ? `"${schema}"."${tableName}"`
+      : `"${tableName}"`;
+
+    return `ALTER TABLE ${tableNameWithSchema} ALTER COLUMN "${columnName}" SET DEFAULT ${statement.newDefaultValue};`;
+  }
+}
+
+class PgAlterTableAlterColumnDropDefaultConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return (
+      statement.type === "alter_table_alter_column_drop_default" &&
+      dialect === "postgresql"
+    );
+  }
+
+  convert(statement: JsonAlterColumnDropDefaultStatement) {
+    const { tableName, columnName, schema } = statement;
+
+    const tableNameWithSchema = schema
+      ? `"${schema}"."${tableName}"`
+      : `"${tableName}"`;
+
+    return `ALTER TABLE ${tableNameWithSchema} ALTER COLUMN "${columnName}" DROP DEFAULT;`;
+  }
+}
+
+class PgAlterTableAlterColumnSetNotNullConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return (
+      statement.type === "alter_table_alter_column_set_notnull" &&
+      dialect === "postgresql"
+    );
+  }
+
+  convert(statement: JsonAlterColumnSetNotNullStatement) {
+    const { tableName, columnName, schema } = statement;
+
+    const tableNameWithSchema = schema
+      ? `"${schema}"."${tableName}"`
+      : `"${tableName}"`;
+
+    return `ALTER TABLE ${tableNameWithSchema} ALTER COLUMN "${columnName}" SET NOT NULL;`;
+  }
+}
+
+class PgAlterTableAlterColumnDropNotNullConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return (
+      statement.type === "alter_table_alter_column_drop_notnull" &&
+      dialect === "postgresql"
+    );
+  }
+
+  convert(statement: JsonAlterColumnDropNotNullStatement) {
+    const { tableName, columnName, schema } = statement;
+
+    const tableNameWithSchema = schema
+      ? `"${schema}"."${tableName}"`
+      : `"${tableName}"`;
+
+    return `ALTER TABLE ${tableNameWithSchema} ALTER COLUMN "${columnName}" DROP NOT NULL;`;
+  }
+}
+
+class PgAlterTableAlterColumnSetPrimaryKeyConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return (
+      statement.type === "alter_table_alter_column_set_pk" &&
+      dialect === "postgresql"
+    );
+  }
+
+  convert(statement: JsonAlterColumnSetPrimaryKeyStatement) {
+    const { tableName, columnName, schema } = statement;
+
+    const tableNameWithSchema = schema
+      ? `"${schema}"."${tableName}"`
+      : `"${tableName}"`;
+
+    return `ALTER TABLE ${tableNameWithSchema} ADD PRIMARY KEY ("${columnName}");`;
+  }
+}
+
+class PgAlterTableAlterColumnDropPrimaryKeyConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return (
+      statement.type === "alter_table_alter_column_drop_pk" &&
+      dialect === "postgresql"
+    );
+  }
+
+  convert(statement: JsonAlterColumnDropPrimaryKeyStatement) {
+    const { tableName, schema } = statement;
+
+    const tableNameWithSchema = schema
+      ? `"${schema}"."${tableName}"`
+      : `"${tableName}"`;
+
+    // postgres default name for a column primary key
+    return `ALTER TABLE ${tableNameWithSchema} DROP CONSTRAINT "${tableName}_pkey";`;
+  }
+}
+
+class PgAlterTableAlterColumnSetIdentityConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return (
+      statement.type === "alter_table_alter_column_set_identity" &&
+      dialect === "postgresql"
+    );
+  }
+
+  convert(statement: JsonAlterColumnSetIdentityStatement) {
+    const { identity, tableName, columnName, schema } = statement;
+
+    const tableNameWithSchema = schema
+      ? `"${schema}"."${tableName}"`
+      : `"${tableName}"`;
+
+    const unsquashedIdentity = PgSquasher.unsquashIdentity(identity);
+
+    const identityWithSchema = schema
+      ? `"${schema}"."${unsquashedIdentity.name}"`
+      : `"${unsquashedIdentity.name}"`;
+
+    const identityStatement = ` GENERATED ${
+      unsquashedIdentity.type === "always" ? "ALWAYS" : "BY DEFAULT"
+    } AS IDENTITY (sequence name ${identityWithSchema}${
+      unsquashedIdentity.increment
+        ? ` INCREMENT BY ${unsquashedIdentity.increment}`
+        : ""
+    }${
+      unsquashedIdentity.minValue
+        ? ` MINVALUE ${unsquashedIdentity.minValue}`
+        : ""
+    }${
+      unsquashedIdentity.maxValue
+        ? ` MAXVALUE ${unsquashedIdentity.maxValue}`
+        : ""
+    }${
+      unsquashedIdentity.startWith
+        ? ` START WITH ${unsquashedIdentity.startWith}`
+        : ""
+    }${unsquashedIdentity.cache ? ` CACHE ${unsquashedIdentity.cache}` : ""}${
+      unsquashedIdentity.cycle ? ` CYCLE` : ""
+    })`;
+
+    return `ALTER TABLE ${tableNameWithSchema} ALTER COLUMN "${columnName}" ADD${identityStatement};`;
+  }
+}
+
+class PgAlterTableAlterColumnDropIdentityConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return (
+      statement.type === "alter_table_alter_column_drop_identity" &&
+      dialect === "postgresql"
+    );
+  }
+
+  convert(statement: JsonAlterColumnDropIdentityStatement) {
+    const { tableName, columnName, schema } = statement;
+
+    const tableNameWithSchema = schema
+      ? `"${schema}"."${tableName}"`
+      : `"${tableName}"`;
+
+    return `ALTER TABLE ${tableNameWithSchema} ALTER COLUMN "${columnName}" DROP IDENTITY;`;
+  }
+}
+
+const mySqlColumnDefinition = (column: JsonAddColumnStatement["column"]) => {
+  const primaryKeyStatement = column.primaryKey ? " PRIMARY KEY" : "";
+  const notNullStatement = column.notNull ? " NOT NULL" : "";
+  const defaultStatement =
+    column.default !== undefined ? ` DEFAULT ${column.default}` : "";
+  const onUpdateStatement = column.onUpdate
+    ? ` ON UPDATE CURRENT_TIMESTAMP`
+    : "";
+  const autoincrementStatement = column.autoincrement ? " AUTO_INCREMENT" : "";
+  const generatedStatement = column.generated
+    ? ` GENERATED ALWAYS AS (${column.generated.as}) ${column.generated.type.toUpperCase()}`
+    : "";
+
+  return `${column.type}${autoincrementStatement}${primaryKeyStatement}${generatedStatement}${notNullStatement}${defaultStatement}${onUpdateStatement}`;
+};
+
+class MySqlModifyColumnConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return (
+      (statement.type === "alter_table_alter_column_set_type" ||
+        statement.type === "alter_table_alter_column_set_default" ||
+        statement.type === "alter_table_alter_column_drop_default" ||
+        statement.type === "alter_table_alter_column_set_notnull" ||
+        statement.type === "alter_table_alter_column_drop_notnull" ||
+        statement.type === "alter_table_alter_column_set_autoincrement" ||
+        statement.type === "alter_table_alter_column_drop_autoincrement" ||
+        statement.type === "alter_table_alter_column_set_on_update" ||
+        statement.type === "alter_table_alter_column_drop_on_update") &&
+      dialect === "mysql"
+    );
+  }
+
+  convert(statement: JsonAlterColumnStatement) {
+    const { tableName, columnName, schema, column } = statement;
+
+    const tableNameWithSchema = schema
+      ? `\`${schema}\`.\`${tableName}\``
+      : `\`${tableName}\``;
+
+    // primary key is handled by its own statement
+    return `ALTER TABLE ${tableNameWithSchema} MODIFY COLUMN \`${columnName}\` ${mySqlColumnDefinition(
+      { ...column, primaryKey: false },
+    )};`;
+  }
+}
+
+class MySqlAlterTableAlterColumnSetPrimaryKeyConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return (
+      statement.type === "alter_table_alter_column_set_pk" &&
+      dialect === "mysql"
+    );
+  }
+
+  convert(statement: JsonAlterColumnSetPrimaryKeyStatement) {
+    const { tableName, columnName, schema } = statement;
+
+    const tableNameWithSchema = schema
+      ? `\`${schema}\`.\`${tableName}\``
+      : `\`${tableName}\``;
+
+    return `ALTER TABLE ${tableNameWithSchema} ADD PRIMARY KEY (\`${columnName}\`);`;
+  }
+}
+
+class MySqlAlterTableAlterColumnDropPrimaryKeyConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return (
+      statement.type === "alter_table_alter_column_drop_pk" &&
+      dialect === "mysql"
+    );
+  }
+
+  convert(statement: JsonAlterColumnDropPrimaryKeyStatement) {
+    const { tableName, schema } = statement;
+
+    const tableNameWithSchema = schema
+      ? `\`${schema}\`.\`${tableName}\``
+      : `\`${tableName}\``;
+
+    return `ALTER TABLE ${tableNameWithSchema} DROP PRIMARY KEY;`;
+  }
+}
+
+class PgDropIndexConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return statement.type === "drop_index" && dialect === "postgresql";
+  }
+
+  convert(statement: JsonDropIndexStatement) {
+    const { name } = PgSquasher.unsquashIdx(statement.data);
+
+    const indexNameWithSchema = statement.schema
+      ? `"${statement.schema}"."${name}"`
+      : `"${name}"`;
+
+    return `DROP INDEX IF EXISTS ${indexNameWithSchema};`;
+  }
+}
+
+class MySqlDropIndexConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return statement.type === "drop_index" && dialect === "mysql";
+  }
+
+  convert(statement: JsonDropIndexStatement) {
+    const { name } = MySqlSquasher.unsquashIdx(statement.data);
+
+    const tableNameWithSchema = statement.schema
+      ? `\`${statement.schema}\`.\`${statement.tableName}\``
+      : `\`${statement.tableName}\``;
+
+    return `DROP INDEX \`${name}\` ON ${tableNameWithSchema};`;
+  }
+}
+
+class SqliteDropIndexConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return (
+      statement.type === "drop_index" &&
+      (dialect === "sqlite" || dialect === "turso")
+    );
+  }
+
+  convert(statement: JsonDropIndexStatement) {
+    const { name } = SQLiteSquasher.unsquashIdx(statement.data);
+
+    return `DROP INDEX IF EXISTS \`${name}\`;`;
+  }
+}
+
+class PgDeleteForeignKeyConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return statement.type === "delete_reference" && dialect === "postgresql";
+  }
+
+  convert(statement: JsonDeleteReferenceStatement) {
+    const { tableFrom, name } = PgSquasher.unsquashFK(statement.data);
+
+    const tableNameWithSchema = statement.schema
+      ? `"${statement.schema}"."${tableFrom}"`
+      : `"${tableFrom}"`;
+
+    return `ALTER TABLE ${tableNameWithSchema} DROP CONSTRAINT IF EXISTS "${name}";`;
+  }
+}
+
+class MySqlDeleteForeignKeyConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return statement.type === "delete_reference" && dialect === "mysql";
+  }
+
+  convert(statement: JsonDeleteReferenceStatement) {
+    const { name } = MySqlSquasher.unsquashFK(statement.data);
+
+    const tableNameWithSchema = statement.schema
+      ? `\`${statement.schema}\`.\`${statement.tableName}\``
+      : `\`${statement.tableName}\``;
+
+    return `ALTER TABLE ${tableNameWithSchema} DROP FOREIGN KEY \`${name}\`;`;
+  }
+}
+
+class PgAlterTableDropUniqueConstraintConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return (
+      statement.type === "delete_unique_constraint" && dialect === "postgresql"
+    );
+  }
+
+  convert(statement: JsonDeleteUniqueConstraint) {
+    const unsquashed = PgSquasher.unsquashUnique(statement.data);
+
+    const tableNameWithSchema = statement.schema
+      ? `"${statement.schema}"."${statement.tableName}"`
+      : `"${statement.tableName}"`;
+
+    return `ALTER TABLE ${tableNameWithSchema} DROP CONSTRAINT "${unsquashed.name}";`;
+  }
+}
+
+class MySQLAlterTableDropUniqueConstraintConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return statement.type === "delete_unique_constraint" && dialect === "mysql";
+  }
+
+  convert(statement: JsonDeleteUniqueConstraint) {
+    const unsquashed = MySqlSquasher.unsquashUnique(statement.data);
+
+    const tableNameWithSchema = statement.schema
+      ? `\`${statement.schema}\`.\`${statement.tableName}\``
+      : `\`${statement.tableName}\``;
+
+    return `ALTER TABLE ${tableNameWithSchema} DROP INDEX \`${unsquashed.name}\`;`;
+  }
+}
+
+class PgAlterTableAddCheckConstraintConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return (
+      statement.type === "create_check_constraint" && dialect === "postgresql"
+    );
+  }
+
+  convert(statement: JsonCreateCheckConstraint) {
+    const { name, value } = PgSquasher.unsquashCheck(statement.data);
+
+    const tableNameWithSchema = statement.schema
+      ? `"${statement.schema}"."${statement.tableName}"`
+      : `"${statement.tableName}"`;
+
+    return `ALTER TABLE ${tableNameWithSchema} ADD CONSTRAINT "${name}" CHECK (${value});`;
+  }
+}
+
+class MySqlAlterTableAddCheckConstraintConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return statement.type === "create_check_constraint" && dialect === "mysql";
+  }
+
+  convert(statement: JsonCreateCheckConstraint) {
+    const { name, value } = MySqlSquasher.unsquashCheck(statement.data);
+
+    const tableNameWithSchema = statement.schema
+      ? `\`${statement.schema}\`.\`${statement.tableName}\``
+      : `\`${statement.tableName}\``;
+
+    return `ALTER TABLE ${tableNameWithSchema} ADD CONSTRAINT \`${name}\` CHECK (${value});`;
+  }
+}
+
+class PgAlterTableDeleteCheckConstraintConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return (
+      statement.type === "delete_check_constraint" && dialect === "postgresql"
+    );
+  }
+
+  convert(statement: JsonDeleteCheckConstraint) {
+    const tableNameWithSchema = statement.schema
+      ? `"${statement.schema}"."${statement.tableName}"`
+      : `"${statement.tableName}"`;
+
+    return `ALTER TABLE ${tableNameWithSchema} DROP CONSTRAINT "${statement.constraintName}";`;
+  }
+}
+
+class MySqlAlterTableDeleteCheckConstraintConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return statement.type === "delete_check_constraint" && dialect === "mysql";
+  }
+
+  convert(statement: JsonDeleteCheckConstraint) {
+    const tableNameWithSchema = statement.schema
+      ? `\`${statement.schema}\`.\`${statement.tableName}\``
+      : `\`${statement.tableName}\``;
+
+    return `ALTER TABLE ${tableNameWithSchema} DROP CONSTRAINT \`${statement.constraintName}\`;`;
+  }
+}
+
+class PgAlterTableDeleteCompositePrimaryKeyConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return statement.type === "delete_composite_pk" && dialect === "postgresql";
+  }
+
+  convert(statement: JsonDeleteCompositePK) {
+    const tableNameWithSchema = statement.schema
+      ? `"${statement.schema}"."${statement.tableName}"`
+      : `"${statement.tableName}"`;
+
+    return `ALTER TABLE ${tableNameWithSchema} DROP CONSTRAINT "${statement.constraintName}";`;
+  }
+}
+
+class MySqlAlterTableDeleteCompositePrimaryKeyConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return statement.type === "delete_composite_pk" && dialect === "mysql";
+  }
+
+  convert(statement: JsonDeleteCompositePK) {
+    const tableNameWithSchema = statement.schema
+      ? `\`${statement.schema}\`.\`${statement.tableName}\``
+      : `\`${statement.tableName}\``;
+
+    return `ALTER TABLE ${tableNameWithSchema} DROP PRIMARY KEY;`;
+  }
+}
+
+class DropTypeEnumConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return statement.type === "drop_type_enum" && dialect === "postgresql";
+  }
+
+  convert(statement: JsonDropEnumStatement) {
+    const { name, schema } = statement;
+
+    const enumNameWithSchema = schema ? `"${schema}"."${name}"` : `"${name}"`;
+
+    return `DROP TYPE ${enumNameWithSchema};`;
+  }
+}
+
+class AlterRenameTypeConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return statement.type === "rename_type_enum" && dialect === "postgresql";
+  }
+
+  convert(statement: JsonRenameEnumStatement) {
+    const { nameFrom, nameTo, schema } = statement;
+
+    const enumNameWithSchema = schema
+      ? `"${schema}"."${nameFrom}"`
+      : `"${nameFrom}"`;
+
+    return `ALTER TYPE ${enumNameWithSchema} RENAME TO "${nameTo}";`;
+  }
+}
+
+class AlterTypeSetSchemaConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return statement.type === "move_type_enum" && dialect === "postgresql";
+  }
+
+  convert(statement: JsonMoveEnumStatement) {
+    const { name, schemaFrom, schemaTo } = statement;
+
+    const enumNameWithSchema = schemaFrom
+      ? `"${schemaFrom}"."${name}"`
+      : `"${name}"`;
+
+    return `ALTER TYPE ${enumNameWithSchema} SET SCHEMA "${schemaTo}";`;
+  }
+}
+
+class AlterTypeAddValueConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return (
+      statement.type === "alter_type_add_value" && dialect === "postgresql"
+    );
+  }
+
+  convert(statement: JsonAddValueToEnumStatement) {
+    const { name, schema, value, before } = statement;
+
+    const enumNameWithSchema = schema ? `"${schema}"."${name}"` : `"${name}"`;
+
+    return `ALTER TYPE ${enumNameWithSchema} ADD VALUE '${escapeSingleQuotes(value)}'${
+      before.length ? ` BEFORE '${escapeSingleQuotes(before)}'` : ""
+    };`;
+  }
+}
+
+class AlterTypeDropValueConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return (
+      statement.type === "alter_type_drop_value" && dialect === "postgresql"
+    );
+  }
+
+  convert(statement: JsonDropValueFromEnumStatement) {
+    const { columnsWithEnum, name, newValues, schema } = statement;
+
+    const enumNameWithSchema = schema ? `"${schema}"."${name}"` : `"${name}"`;
+
+    const statements: string[] = [];
+
+    // values can't be dropped, columns are moved to text while the type is re-created
+    for (const withEnum of columnsWithEnum) {
+      statements.push(
+        `ALTER TABLE "${withEnum.schema}"."${withEnum.table}" ALTER COLUMN "${withEnum.column}" SET DATA TYPE text;`,
+      );
+    }
+
+    statements.push(
+      new DropTypeEnumConvertor().convert({
+        type: "drop_type_enum",
+        name,
+        schema,
+      }),
+    );
+
+    statements.push(
+      `CREATE TYPE ${enumNameWithSchema} AS ENUM(${newValues
+        .map((it) => `'${escapeSingleQuotes(it)}'`)
+        .join(", ")});`,
+    );
+
+    for (const withEnum of columnsWithEnum) {
+      statements.push(
+        `ALTER TABLE "${withEnum.schema}"."${withEnum.table}" ALTER COLUMN "${withEnum.column}" SET DATA TYPE ${enumNameWithSchema} USING "${withEnum.column}"::${enumNameWithSchema};`,
+      );
+    }
+
+    return statements;
+  }
+}
+
+class DropPgSequenceConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return statement.type === "drop_sequence" && dialect === "postgresql";
+  }
+
+  convert(statement: JsonDropSequenceStatement) {
+    const { name, schema } = statement;
+
+    const sequenceWithSchema = schema ? `"${schema}"."${name}"` : `"${name}"`;
+
+    return `DROP SEQUENCE ${sequenceWithSchema};`;
+  }
+}
+
+class AlterPgSequenceConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return statement.type === "alter_sequence" && dialect === "postgresql";
+  }
+
+  convert(statement: JsonAlterSequenceStatement) {
+    const { name, schema, values } = statement;
+    const { increment, minValue, maxValue, startWith, cache, cycle } = values;
+
+    const sequenceWithSchema = schema ? `"${schema}"."${name}"` : `"${name}"`;
+
+    return `ALTER SEQUENCE ${sequenceWithSchema}${increment ? ` INCREMENT BY ${increment}` : ""}${
+      minValue ? ` MINVALUE ${minValue}` : ""
+    }${maxValue ? ` MAXVALUE ${maxValue}` : ""}${
+      startWith ? ` START WITH ${startWith}` : ""
+    }${cache ? ` CACHE ${cache}` : ""}${cycle ? ` CYCLE` : " NO CYCLE"};`;
+  }
+}
+
+class PgDropRoleConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return statement.type === "drop_role" && dialect === "postgresql";
+  }
+
+  convert(statement: JsonDropRoleStatement) {
+    return `DROP ROLE "${statement.name}";`;
+  }
+}
+
+class PgAlterRoleConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return statement.type === "alter_role" && dialect === "postgresql";
+  }
+
+  convert(statement: JsonAlterRoleStatement) {
+    const { name, values } = statement;
+
+    return `ALTER ROLE "${name}" WITH${values.createDb ? " CREATEDB" : " NOCREATEDB"}${
+      values.createRole ? " CREATEROLE" : " NOCREATEROLE"
+    }${values.inherit === false ? " NOINHERIT" : " INHERIT"};`;
+  }
+}
+
+class PgDropPolicyConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return statement.type === "drop_policy" && dialect === "postgresql";
+  }
+
+  convert(statement: JsonDropPolicyStatement) {
+    const tableNameWithSchema = statement.schema
+      ? `"${statement.schema}"."${statement.tableName}"`
+      : `"${statement.tableName}"`;
+
+    return `DROP POLICY "${statement.data.name}" ON ${tableNameWithSchema} CASCADE;`;
+  }
+}
+
+class PgRenamePolicyConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return statement.type === "rename_policy" && dialect === "postgresql";
+  }
+
+  convert(statement: JsonRenamePolicyStatement) {
+    const tableNameWithSchema = statement.schema
+      ? `"${statement.schema}"."${statement.tableName}"`
+      : `"${statement.tableName}"`;
+
+    return `ALTER POLICY "${statement.oldName}" ON ${tableNameWithSchema} RENAME TO "${statement.newName}";`;
+  }
+}
+
+class PgAlterPolicyConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return statement.type === "alter_policy" && dialect === "postgresql";
+  }
+
+  convert(statement: JsonAlterPolicyStatement) {
+    const { oldData, newData } = statement;
+
+    const tableNameWithSchema = statement.schema
+      ? `"${statement.schema}"."${statement.tableName}"`
+      : `"${statement.tableName}"`;
+
+    const usingPart = newData.using ? ` USING (${newData.using})` : "";
+
+    const withCheckPart = newData.withCheck
+      ? ` WITH CHECK (${newData.withCheck})`
+      : "";
+
+    const policyToPart = (newData.to ?? ["public"])
+      .map((v) =>
+        ["current_user", "current_role", "session_user", "public"].includes(v)
+          ? v
+          : `"${v}"`,
+      )
+      .join(", ");
+
+    return `ALTER POLICY "${oldData.name}" ON ${tableNameWithSchema} TO ${policyToPart}${usingPart}${withCheckPart};`;
+  }
+}
+
+class PgDropIndPolicyConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return statement.type === "drop_ind_policy" && dialect === "postgresql";
+  }
+
+  convert(statement: JsonDropIndPolicyStatement) {
+    const policy = statement.data;
+
+    return `DROP POLICY "${policy.name}" ON ${policy.on} CASCADE;`;
+  }
+}
+
+class PgDisableRlsConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return statement.type === "disable_rls" && dialect === "postgresql";
+  }
+
+  convert(statement: JsonDisableRLSStatement) {
+    const tableNameWithSchema = statement.schema
+      ? `"${statement.schema}"."${statement.tableName}"`
+      : `"${statement.tableName}"`;
+
+    return `ALTER TABLE ${tableNameWithSchema} DISABLE ROW LEVEL SECURITY;`;
+  }
+}
+
+class PgDropSchemaConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return statement.type === "drop_schema" && dialect === "postgresql";
+  }
+
+  convert(statement: JsonDropSchema) {
+    return `DROP SCHEMA "${statement.name}";\n`;
+  }
+}
+
+class MySqlDropSchemaConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return statement.type === "drop_schema" && dialect === "mysql";
+  }
+
+  convert(statement: JsonDropSchema) {
+    return `DROP SCHEMA \`${statement.name}\`;\n`;
+  }
+}
+
+class PgRenameSchemaConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return statement.type === "rename_schema" && dialect === "postgresql";
+  }
+
+  convert(statement: JsonRenameSchema) {
+    return `ALTER SCHEMA "${statement.from}" RENAME TO "${statement.to}";\n`;
+  }
+}
+
+class PgDropViewConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return statement.type === "drop_view" && dialect === "postgresql";
+  }
+
+  convert(statement: JsonDropViewStatement) {
+    const { name: viewName, schema, materialized } = statement;
+
+    const name = schema ? `"${schema}"."${viewName}"` : `"${viewName}"`;
+
+    return `DROP${materialized ? " MATERIALIZED" : ""} VIEW ${name};`;
+  }
+}
+
+class MySqlDropViewConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return statement.type === "drop_view" && dialect === "mysql";
+  }
+
+  convert(statement: JsonDropViewStatement) {
+    const { name: viewName, schema } = statement;
+
+    const name = schema ? `\`${schema}\`.\`${viewName}\`` : `\`${viewName}\``;
+
+    return `DROP VIEW ${name};`;
+  }
+}
+
+class SqliteDropViewConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return (
+      statement.type === "drop_view" &&
+      (dialect === "sqlite" || dialect === "turso")
+    );
+  }
+
+  convert(statement: JsonDropViewStatement) {
+    return `DROP VIEW \`${statement.name}\`;`;
+  }
+}
+
+class PgRenameViewConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return statement.type === "rename_view" && dialect === "postgresql";
+  }
+
+  convert(statement: JsonRenameViewStatement) {
+    const { nameFrom: from, nameTo: to, schema, materialized } = statement;
+
+    const nameFrom = schema ? `"${schema}"."${from}"` : `"${from}"`;
+
+    return `ALTER${materialized ? " MATERIALIZED" : ""} VIEW ${nameFrom} RENAME TO "${to}";`;
+  }
+}
+
+class MySqlRenameViewConvertor extends Convertor {
+  can(statement: JsonStatement, dialect: Dialect): boolean {
+    return statement.type === "rename_view" && dialect === "mysql";
+  }
+
+  convert(statement: JsonRenameViewStatement) {
+    const { nameFrom: from, nameTo: to, schema } = statement;
+
+    const nameFrom = schema ? `\`${schema}\`.\`${from}\`` : `\`${from}\``;
+    const nameTo = schema ? `\`${schema}\`.\`${to}\`` : `\`${to}\``;
+
+    return `RENAME TABLE ${nameFrom} TO ${nameTo};`;
+  }
+}
+
+const convertors: Convertor[] = [];
+
+// table
+convertors.push(new PgCreateTableConvertor());
+convertors.push(new MySqlCreateTableConvertor());
+convertors.push(new SQLiteCreateTableConvertor());
+
+// enum
+convertors.push(new CreateTypeEnumConvertor());
+
+// sequence
+convertors.push(new CreatePgSequenceConvertor());
+
+// index
+convertors.push(new CreatePgIndexConvertor());
+convertors.push(new CreateMySqlIndexConvertor());
+convertors.push(new CreateSqliteIndexConvertor());
+
+// foreign key
+convertors.push(new PgCreateForeignKeyConvertor());
+convertors.push(new MySqlCreateForeignKeyConvertor());
+
+// schema
+convertors.push(new PgCreateSchemaConvertor());
+convertors.push(new MySqlCreateSchemaConvertor());
+
+// unique constraint
+convertors.push(new PgAlterTableAddUniqueConstraintConvertor());
+convertors.push(new MySQLAlterTableAddUniqueConstraintConvertor());
+
+// composite primary key
+convertors.push(new PgAlterTableCreateCompositePrimaryKeyConvertor());
+convertors.push(new MySqlAlterTableCreateCompositePrimaryKeyConvertor());
+
+// view
+convertors.push(new PgCreateViewConvertor());
+convertors.push(new MySqlCreateViewConvertor());
+convertors.push(new SqliteCreateViewConvertor());
+
+// enable rls
+convertors.push(new PgEnableRlsConvertor());
+
+// roles
+convertors.push(new PgCreateRoleConvertor());
+
+// policies
+convertors.push(new PgCreatePolicyConvertor());
+convertors.push(new PgCreateIndPolicyConvertor());
+
+/* lab extension */
+// comments
+convertors.push(new PgCommentOnConvertor());
+
+/* lab extension */
+// drop / rename / alter table
+convertors.push(new PgDropTableConvertor());
+convertors.push(new MySQLDropTableConvertor());
+convertors.push(new SQLiteDropTableConvertor());
+convertors.push(new PgRenameTableConvertor());
+convertors.push(new MySqlRenameTableConvertor());
+convertors.push(new SqliteRenameTableConvertor());
+convertors.push(new PgAlterTableSetSchemaConvertor());
+convertors.push(new MySqlAlterTableSetSchemaConvertor());
+convertors.push(new SQLiteRecreateTableConvertor());
+
+// columns
+convertors.push(new PgAlterTableAddColumnConvertor());
+convertors.push(new MySqlAlterTableAddColumnConvertor());
+convertors.push(new SQLiteAlterTableAddColumnConvertor());
+convertors.push(new PgAlterTableDropColumnConvertor());
+convertors.push(new MySqlAlterTableDropColumnConvertor());
+convertors.push(new SQLiteAlterTableDropColumnConvertor());
+convertors.push(new PgAlterTableRenameColumnConvertor());
+convertors.push(new MySqlAlterTableRenameColumnConvertor());
+convertors.push(new SQLiteAlterTableRenameColumnConvertor());
+convertors.push(new PgAlterTableAlterColumnSetTypeConvertor());
+convertors.push(new PgAlterTableAlterColumnSetDefaultConvertor());
+convertors.push(new PgAlterTableAlterColumnDropDefaultConvertor());
+convertors.push(new PgAlterTableAlterColumnSetNotNullConvertor());
+convertors.push(new PgAlterTableAlterColumnDropNotNullConvertor());
+convertors.push(new PgAlterTableAlterColumnSetPrimaryKeyConvertor());
+convertors.push(new PgAlterTableAlterColumnDropPrimaryKeyConvertor());
+convertors.push(new PgAlterTableAlterColumnSetIdentityConvertor());
+convertors.push(new PgAlterTableAlterColumnDropIdentityConvertor());
+convertors.push(new MySqlModifyColumnConvertor());
+convertors.push(new MySqlAlterTableAlterColumnSetPrimaryKeyConvertor());
+convertors.push(new MySqlAlterTableAlterColumnDropPrimaryKeyConvertor());
+
+// drop index
+convertors.push(new PgDropIndexConvertor());
+convertors.push(new MySqlDropIndexConvertor());
+convertors.push(new SqliteDropIndexConvertor());
+
+// drop foreign key
+convertors.push(new PgDeleteForeignKeyConvertor());
+convertors.push(new MySqlDeleteForeignKeyConvertor());
+
+// drop unique constraint
+convertors.push(new PgAlterTableDropUniqueConstraintConvertor());
+convertors.push(new MySQLAlterTableDropUniqueConstraintConvertor());
+
+// check constraint
+convertors.push(new PgAlterTableAddCheckConstraintConvertor());
+convertors.push(new MySqlAlterTableAddCheckConstraintConvertor());
+convertors.push(new PgAlterTableDeleteCheckConstraintConvertor());
+convertors.push(new MySqlAlterTableDeleteCheckConstraintConvertor());
+
+// drop composite primary key
+convertors.push(new PgAlterTableDeleteCompositePrimaryKeyConvertor());
+convertors.push(new MySqlAlterTableDeleteCompositePrimaryKeyConvertor());
+
+// drop / rename / alter enum
+convertors.push(new DropTypeEnumConvertor());
+convertors.push(new AlterRenameTypeConvertor());
+convertors.push(new AlterTypeSetSchemaConvertor());
+convertors.push(new AlterTypeAddValueConvertor());
+convertors.push(new AlterTypeDropValueConvertor());
+
+// drop / alter sequence
+convertors.push(new DropPgSequenceConvertor());
+convertors.push(new AlterPgSequenceConvertor());
+
+// drop / alter roles
+convertors.push(new PgDropRoleConvertor());
+convertors.push(new PgAlterRoleConvertor());
+
+// drop / rename / alter policies
+convertors.push(new PgDropPolicyConvertor());
+convertors.push(new PgRenamePolicyConvertor());
+convertors.push(new PgAlterPolicyConvertor());
+convertors.push(new PgDropIndPolicyConvertor());
+
+// disable rls
+convertors.push(new PgDisableRlsConvertor());
+
+// drop / rename schema
+convertors.push(new PgDropSchemaConvertor());
+convertors.push(new MySqlDropSchemaConvertor());
+convertors.push(new PgRenameSchemaConvertor());
+
+// drop / rename view
+convertors.push(new PgDropViewConvertor());
+convertors.push(new MySqlDropViewConvertor());
+convertors.push(new SqliteDropViewConvertor());
+convertors.push(new PgRenameViewConvertor());
+convertors.push(new MySqlRenameViewConvertor());
+
+export const generateSql = (
+  statements: JsonStatement[],
+  dialect: Dialect,
+  /* lab extension */
+  options: SqlOptions = {},
+) => {
+  const result = statements
+    .flatMap((statement) => {
+      const filtered = convertors.filter((it) => {
+        return it.can(statement, dialect);
+      });
+
+      const convertor = filtered.length === 1 ? filtered[0] : undefined;
+
+      if (!convertor) {
+        return "";
+      }
+
+      /* lab extension */
+      if (options.ifNotExists) {
+        return [convertor.convert(statement)]
+          .flat()
+          .map((sql) => guardCreateStatement(statement, sql, dialect));
+      }
+
+      return convertor.convert(statement);
+    })
+    .filter((it) => it !== "");
+
+  /* lab extension */
+  if (options.wrapInTransaction) {
+    return wrapInTransaction(result, dialect);
+  }
+
+  return result;
+};
+
+/* lab extension */
+export type SqlOptions = {
+  /**
+   * Guard every create statement, so the SQL can be re-run against a database in an unknown state.
+   *
+   * - `IF NOT EXISTS` (or `OR REPLACE` for views) when the dialect supports it
+   * - pg: `DO $$ ... EXCEPTION` blocks for roles, policies, enums and foreign keys. Indexes are created `CONCURRENTLY` to not lock the existing tables.
+   * - mysql: foreign keys and indexes are only created if they are missing from `information_schema`
+   */
+  ifNotExists?: boolean;
+  /**
+   * Wrap the statements in a transaction.
+   *
+   * - pg: indexes created `CONCURRENTLY` can't run in a transaction, they are created after it
+   * - mysql: ignored, DDL statements are committed implicitly
+   */
+  wrapInTransaction?: boolean;
+  /**
+   * Emit the `explain` descriptions of tables, views and columns as SQL comments.
+   *
+   * - pg: `COMMENT ON TABLE/VIEW/COLUMN` statements
+   * - mysql: `COMMENT '...'` clauses of the tables and columns (views have no comment)
+   * - sqlite: `-- ` annotations in the `CREATE TABLE` statements, kept by SQLite in `sqlite_master`
+   */
+  comments?: boolean;
+};
+
+/* lab extension */
+function mysqlString(str: string) {
+  return `'${escapeSingleQuotes(str.replace(/\\/g, "\\\\"))}'`;
+}
+
+function pgDoBlock(sql: string) {
+  return `DO $$ BEGIN\n ${sql.trim()}\nEXCEPTION\n WHEN duplicate_object THEN null;\nEND $$;\n`;
+}
+
+function mysqlGuard(
+  sql: string,
+  exists: { table: string; where: Record<string, string | undefined> },
+) {
+  const conditions = Object.entries(exists.where)
+    .map(([column, value]) =>
+      value === undefined
+        ? `${column} = DATABASE()`
+        : `${column} = ${mysqlString(value)}`,
+    )
+    .join(" AND ");
+
+  return [
+    `SET @drizzle_lab_sql = IF((SELECT COUNT(*) FROM information_schema.${exists.table} WHERE ${conditions}) = 0, ${mysqlString(sql.trim().replace(/;$/, ""))}, 'DO 0');`,
+    "PREPARE drizzle_lab_stmt FROM @drizzle_lab_sql;",
+    "EXECUTE drizzle_lab_stmt;",
+    "DEALLOCATE PREPARE drizzle_lab_stmt;",
+  ].join("\n");
+}
+
+function guardCreateStatement(
+  statement: JsonStatement,
+  sql: string,
+  dialect: Dialect,
+) {
+  if (dialect === "postgresql") {
+    switch (statement.type) {
+      case "create_schema":
+        return sql.replace(/^CREATE SCHEMA /, "CREATE SCHEMA IF NOT EXISTS ");
+      case "create_sequence":
+        return sql.replace(
+          /^CREATE SEQUENCE /,
+          "CREATE SEQUENCE IF NOT EXISTS ",
+        );
+      case "create_role":
+      case "create_policy":
+      case "create_ind_policy":
+        return pgDoBlock(sql);
+      case "create_index_pg":
+        return sql.replace(
+          /^CREATE (UNIQUE )?INDEX IF NOT EXISTS /,
+          "CREATE $1INDEX CONCURRENTLY IF NOT EXISTS ",
+        );
+      case "create_view":
+        return sql
+          .replace(/^CREATE VIEW /, "CREATE OR REPLACE VIEW ")
+          .replace(
+            /^CREATE MATERIALIZED VIEW /,
+            "CREATE MATERIALIZED VIEW IF NOT EXISTS ",
+          );
+      // tables, enums and foreign keys are always guarded
+      default:
+        return sql;
+    }
+  }
+
+  if (dialect === "mysql") {
+    switch (statement.type) {
+      case "create_schema":
+        return sql.replace(/^CREATE SCHEMA /, "CREATE SCHEMA IF NOT EXISTS ");
+      case "create_table":
+        return sql.replace(/^CREATE TABLE /, "CREATE TABLE IF NOT EXISTS ");
+      case "create_reference":
+        return mysqlGuard(sql, {
+          table: "table_constraints",
+          where: {
+            constraint_schema: statement.schema || undefined,
+            table_name: statement.tableName,
+            constraint_name: MySqlSquasher.unsquashFK(statement.data).name,
+          },
+        });
+      case "create_index":
+        return mysqlGuard(sql, {
+          table: "statistics",
+          where: {
+            table_schema: statement.schema || undefined,
+            table_name: statement.tableName,
+            index_name: MySqlSquasher.unsquashIdx(statement.data).name,
+          },
+        });
+      case "mysql_create_view":
+        return sql.replace(/^CREATE (?!OR REPLACE )/, "CREATE OR REPLACE ");
+      default:
+        return sql;
+    }
+  }
+
+  switch (statement.type) {
+    case "sqlite_create_table":
+      return sql.replace(/^CREATE TABLE /, "CREATE TABLE IF NOT EXISTS ");
+    case "create_index":
+      return sql.replace(
+        /^CREATE (UNIQUE )?INDEX /,
+        "CREATE $1INDEX IF NOT EXISTS ",
+      );
+    case "sqlite_create_view":
+      return sql.replace(/^CREATE VIEW /, "CREATE VIEW IF NOT EXISTS ");
+    default:
+      return sql;
+  }
+}
+
+function wrapInTransaction(sqlStatements: string[], dialect: Dialect) {
+  if (dialect === "mysql" || sqlStatements.length === 0) {
+    return sqlStatements;
+  }
+
+  const concurrently = sqlStatements.filter(
+    (it) => dialect === "postgresql" && / INDEX CONCURRENTLY /.test(it),
+  );
+
+  return [
+    "BEGIN;",
+    ...sqlStatements.filter((it) => !concurrently.includes(it)),
+    "COMMIT;",
+    ...concurrently,
+  ];
+}
@@ -1 +1,8 @@
+export {
+  classifyChanges,
+  hasChangesAtLeast,
+  type ChangeSeverity,
+  type ClassifiedChange,
+} from "./classify";
+export { describeStatements } from "./describe";
 export { splitSqlStatements } from "./utils";
@@ -1,5 +1,10 @@
 export { importFromDatabase } from "./loader/database";
 export type { DrizzleObjects } from "./serializer/drizzle-objects";
+export { diffSnapshots, generateRollback } from "./serializer/diff";
+export { dbmlToSnapshot, dbmlToTypescript } from "./serializer/dbml";
+export { prismaToSnapshot, prismaToTypescript } from "./serializer/prisma";
+export { snapshotToDbml, snapshotToMermaid } from "./serializer/diagram";
+export { snapshotToHtml, snapshotToMarkdown } from "./serializer/docs";
 export { schemaToDrizzleObjects } from "./serializer/drizzle-objects";
 export {
   drizzleObjectsToSnapshot,
@@ -14,4 +19,7 @@ export {
   snapshotToSqlStatements,
 } from "./serializer/sql";
 export { snapshotToTypeScript, sqlToTypescript } from "./serializer/typescript";
+export { upgradeSnapshot } from "./serializer/upgrade";
 export type { Snapshot } from "./schema";
+export type { DiffOptions } from "../internal/diff";
+export type { SqlOptions } from "../sql/generator";
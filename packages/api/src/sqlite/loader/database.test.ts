@@ -0,0 +1,75 @@
+import { expect, test } from "vitest";
+
+import { sqlToSnapshot } from "../serializer/snapshot";
+import { snapshotToSql } from "../serializer/sql";
+import { snapshotToTypeScript } from "../serializer/typescript";
+
+const tables = [`user's "table"`, "ünïcødé_表", "select"];
+
+function ident(name: string) {
+  return `"${name.replaceAll('"', '""')}"`;
+}
+
+test("Introspect tables with quotes, unicode and reserved words in their names", async () => {
+  const snapshot = await sqlToSnapshot(
+    tables
+      .map(
+        (table) => `
+          CREATE TABLE ${ident(table)} (
+            "id" integer PRIMARY KEY AUTOINCREMENT,
+            "naïve 'name'" text DEFAULT 'it''s',
+            "parent" integer REFERENCES ${ident(table)} ("id"),
+            CONSTRAINT "check 'id'" CHECK ("id" > 0)
+          );
+          CREATE INDEX ${ident(`${table} "parent"`)} ON ${ident(table)} ("parent");
+          CREATE VIEW ${ident(`${table} view`)} AS SELECT "id" FROM ${ident(table)};
+        `,
+      )
+      .join("\n"),
+  );
+
+  for (const table of tables) {
+    const imported = snapshot.tables[table];
+
+    expect(imported.columns.id).toMatchObject({
+      primaryKey: true,
+      autoincrement: true,
+    });
+    expect(imported.columns["naïve 'name'"].default).toBe("'it''s'");
+    expect(Object.keys(imported.indexes)).toEqual([`${table} "parent"`]);
+    expect(Object.values(imported.foreignKeys)).toMatchObject([
+      { tableTo: table, columnsFrom: ["parent"] },
+    ]);
+    expect(Object.keys(imported.checkConstraints)).toEqual(["check 'id'"]);
+    expect(snapshot.views[`${table} view`]).toBeDefined();
+  }
+});
+
+test("Descriptions survive SQL → Drizzle → SQL conversions", async () => {
+  const snapshot = await sqlToSnapshot(`
+    CREATE TABLE "users" (
+      "id" integer PRIMARY KEY,
+      "name" text
+    );
+  `);
+  snapshot.tables.users.description = "Users of the app";
+  snapshot.tables.users.columns.name.description = "Full name,\nas typed";
+
+  const sql = snapshotToSql(snapshot, { comments: true });
+  const imported = await sqlToSnapshot(sql);
+
+  expect(sql).toContain("CREATE TABLE `users` ( -- Users of the app");
+  expect(imported.tables.users.description).toBe("Users of the app");
+  expect(imported.tables.users.columns.id.description).toBeUndefined();
+  expect(imported.tables.users.columns.name.description).toBe(
+    "Full name,\nas typed",
+  );
+  expect(snapshotToTypeScript(imported, "preserve").file).toContain(
+    `explain(users, {
+\tdescription: "Users of the app",
+\tcolumns: {
+\t\tname: "Full name,\\nas typed",
+\t},
+});`,
+  );
+});
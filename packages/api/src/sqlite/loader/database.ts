@@ -69,7 +69,11 @@ function extractGeneratedColumns(input: string): Record<string, ColumnInfo> {
   const columns: Record<string, ColumnInfo> = {};
   const lines = input.split(/,\s*(?![^()]*\))/); // Split by commas outside parentheses
 
-  for (const line of lines) {
+  for (let line of lines) {
+    /* lab extension */
+    // `-- ` annotations of the column (see `extractComments`)
+    line = line.replace(/^\s*--.*$/gm, "");
+
     if (line.includes("GENERATED ALWAYS AS")) {
       const parts = line.trim().split(/\s+/);
       const columnName = parts[0].replace(/[`'"]/g, ""); // Remove quotes around the column name
@@ -98,6 +102,40 @@ function extractGeneratedColumns(input: string): Record<string, ColumnInfo> {
   return columns;
 }
 
+/* lab extension */
+/**
+ * Extract the `-- ` annotations written by `snapshotToSql` with the `comments` option:
+ * the table description follows `CREATE TABLE ... (` and column descriptions precede their column.
+ */
+function extractComments(sql: string) {
+  const [header, ...lines] = sql.split("\n");
+  const columns: Record<string, string> = {};
+  let pending: string[] = [];
+
+  for (const line of lines) {
+    const comment = line.match(/^\s*--\s?(.*)$/);
+
+    if (comment) {
+      pending.push(comment[1]);
+      continue;
+    }
+
+    const columnName = line.match(
+      /^\s*(?:`([^`]+)`|"((?:[^"]|"")+)"|\[([^\]]+)\]|(\w+))/,
+    );
+
+    if (pending.length > 0 && columnName) {
+      const [, backtick, double, bracket, bare] = columnName;
+      columns[backtick ?? double?.replaceAll('""', '"') ?? bracket ?? bare] =
+        pending.join("\n");
+    }
+
+    pending = [];
+  }
+
+  return { table: header.match(/\(\s*--\s?(.*)$/)?.[1], columns };
+}
+
 type SQLiteDB = {
   query: <T = any>(sql: string, params?: any[]) => Promise<T[]>;
 };
@@ -417,8 +455,10 @@ WHERE
     };
   }
 
+  /* lab extension */
+  // quoted constraint names can contain anything, with doubled quotes
   const namedCheckPattern =
-    /CONSTRAINT\s*["']?(\w+)["']?\s*CHECK\s*\((.*?)\)/gi;
+    /CONSTRAINT\s*(?:"((?:[^"]|"")+)"|'((?:[^']|'')+)'|`([^`]+)`|(\w+))\s*CHECK\s*\((.*?)\)/gi;
   const unnamedCheckPattern = /CHECK\s*\((.*?)\)/gi;
   let checkCounter = 0;
   const checkConstraints: Record<string, CheckConstraint> = {};
@@ -434,7 +474,12 @@ WHERE
     // Find named CHECK constraints
     let namedChecks = [...sql.matchAll(namedCheckPattern)];
     if (namedChecks.length > 0) {
-      namedChecks.forEach(([_, checkName, checkValue]) => {
+      namedChecks.forEach(([_, double, single, backtick, bare, checkValue]) => {
+        const checkName =
+          double?.replaceAll('""', '"') ??
+          single?.replaceAll("''", "'") ??
+          backtick ??
+          bare;
         checkConstraints[checkName] = {
           name: checkName,
           value: checkValue.trim(),
@@ -470,6 +515,25 @@ WHERE
     }
   }
 
+  /* lab extension */
+  for (const { tableName, sql } of checks) {
+    const table = result[tableName];
+
+    if (!table) continue;
+
+    const comments = extractComments(sql);
+
+    if (comments.table) {
+      table.description = comments.table;
+    }
+
+    for (const [columnName, description] of Object.entries(comments.columns)) {
+      if (table.columns[columnName]) {
+        table.columns[columnName].description = description;
+      }
+    }
+  }
+
   return {
     version: "6",
     dialect: "sqlite",
@@ -12,6 +12,7 @@ import {
 } from "zod";
 
 import { projectId } from "../config/schema";
+import { explainMetadata } from "../internal/explain";
 import { customMapEntries, mapValues, originUUID } from "../internal/global";
 import { relation } from "../internal/relations";
 
@@ -23,6 +24,8 @@ const index = object({
   columns: string().array(),
   where: string().optional(),
   isUnique: boolean(),
+  /* lab extension */
+  description: string().optional(),
 }).strict();
 
 const fk = object({
@@ -56,6 +59,7 @@ const column = object({
   defaultFn: string().optional(),
   onUpdateFn: string().optional(),
   description: string().optional(),
+  ...explainMetadata.shape,
   jsonShape: string().optional(),
 }).strict();
 
@@ -87,6 +91,7 @@ const table = object({
   /* lab extension */
   relations: array(relation).default([]),
   description: string().optional(),
+  ...explainMetadata.shape,
 }).strict();
 
 export const view = object({
@@ -96,6 +101,7 @@ export const view = object({
   isExisting: boolean(),
   /* lab extension */
   description: string().optional(),
+  ...explainMetadata.shape,
 }).strict();
 
 // use main dialect
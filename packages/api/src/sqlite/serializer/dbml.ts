@@ -0,0 +1,183 @@
+import { parseDbml, type DbmlValue } from "../../internal/dbml-parser";
+import { relationsToTypeScript } from "../../relations/typescript";
+import type { SQLiteKitInternals, Snapshot, Table } from "../schema";
+import { snapshotToTypeScript } from "./typescript";
+
+/**
+ * Map DBML types to SQLite type affinities (https://www.sqlite.org/datatype3.html#determination_of_column_affinity)
+ */
+function toAffinity(type: string) {
+  const lowered = type.toLowerCase();
+
+  if (lowered.includes("int")) {
+    return "integer";
+  }
+
+  if (["char", "clob", "text"].some((it) => lowered.includes(it))) {
+    return "text";
+  }
+
+  if (lowered.includes("blob")) {
+    return "blob";
+  }
+
+  if (["real", "floa", "doub"].some((it) => lowered.includes(it))) {
+    return "real";
+  }
+
+  return "numeric";
+}
+
+function toDefault(value: DbmlValue) {
+  switch (value.kind) {
+    case "string":
+      return `'${value.value.replaceAll("'", "''")}'`;
+    case "number":
+      return Number(value.value);
+    case "boolean":
+      return value.value === "true";
+    case "null":
+      return "NULL";
+    default:
+      return `(${value.value})`;
+  }
+}
+
+/**
+ * Convert a DBML document to a Drizzle snapshot, without a database
+ *
+ * Supports tables, enums (as `text`), indexes, composite primary keys, notes and references.
+ *
+ * @param dbml - DBML document
+ * @returns Drizzle snapshot
+ * @throws If the document is not valid DBML
+ */
+export function dbmlToSnapshot(dbml: string): Snapshot {
+  const { enums, tables, references } = parseDbml(dbml);
+  const internal: NonNullable<SQLiteKitInternals> = { indexes: {} };
+  const result: Record<string, Table> = {};
+
+  for (const dbmlTable of tables) {
+    const table: Table = {
+      name: dbmlTable.name,
+      columns: {},
+      indexes: {},
+      foreignKeys: {},
+      compositePrimaryKeys: {},
+      uniqueConstraints: {},
+      checkConstraints: {},
+      relations: [],
+      description: dbmlTable.note,
+    };
+
+    for (const column of dbmlTable.columns) {
+      const enumType = enums.find((it) =>
+        [it.name, `${it.schema}.${it.name}`].includes(column.type),
+      );
+
+      table.columns[column.name] = {
+        name: column.name,
+        type: enumType ? "text" : toAffinity(column.type),
+        primaryKey: column.primaryKey,
+        notNull: column.notNull,
+        autoincrement: column.increment,
+        default: column.default ? toDefault(column.default) : undefined,
+        enumValues: enumType?.values,
+        description: column.note,
+      };
+
+      if (column.unique) {
+        const name = `${table.name}_${column.name}_unique`;
+        table.uniqueConstraints[name] = { name, columns: [column.name] };
+      }
+    }
+
+    for (const index of dbmlTable.indexes) {
+      const columns = index.columns.map((it) => it.value);
+
+      if (index.primaryKey) {
+        table.compositePrimaryKeys[`${table.name}_${columns.join("_")}_pk`] = {
+          name: index.name,
+          columns,
+        };
+        continue;
+      }
+
+      const name =
+        index.name ??
+        `${table.name}_${columns.join("_").replace(/\W+/g, "_").replace(/_$/, "")}_index`;
+      table.indexes[name] = { name, columns, isUnique: index.unique };
+
+      if (index.columns.some((it) => it.isExpression)) {
+        internal.indexes![name] = {
+          columns: Object.fromEntries(
+            index.columns.map((it) => [
+              it.value,
+              { isExpression: it.isExpression },
+            ]),
+          ),
+        };
+      }
+    }
+
+    result[table.name] = table;
+  }
+
+  for (const reference of references) {
+    const table = result[reference.tableFrom];
+
+    if (!table) {
+      throw new Error(
+        `Invalid DBML: reference to unknown table \`${reference.tableFrom}\``,
+      );
+    }
+
+    const name =
+      reference.name ??
+      `${reference.tableFrom}_${reference.columnsFrom.join("_")}_${reference.tableTo}_${reference.columnsTo.join("_")}_fk`;
+
+    table.foreignKeys[name] = {
+      name,
+      tableFrom: reference.tableFrom,
+      columnsFrom: reference.columnsFrom,
+      tableTo: reference.tableTo,
+      columnsTo: reference.columnsTo,
+      onDelete: reference.onDelete ?? "no action",
+      onUpdate: reference.onUpdate ?? "no action",
+    };
+  }
+
+  return {
+    version: "6",
+    dialect: "sqlite",
+    tables: result,
+    views: {},
+    enums: {},
+    _meta: {
+      tables: {},
+      columns: {},
+    },
+    internal,
+    projectId: "drizzle-lab",
+  };
+}
+
+/**
+ * Convert a DBML document to a Drizzle schema and its relations
+ * @param dbml - DBML document
+ * @returns The TypeScript files, `relations` is empty if there are no references
+ */
+export function dbmlToTypescript(dbml: string) {
+  const snapshot = dbmlToSnapshot(dbml);
+  const { file } = snapshotToTypeScript(snapshot, "preserve");
+  const hasReferences = Object.values(snapshot.tables).some(
+    (table) => Object.keys(table.foreignKeys).length > 0,
+  );
+
+  return {
+    schema: file,
+    relations: hasReferences
+      ? relationsToTypeScript(snapshot, "preserve").file
+      : "",
+  };
+}
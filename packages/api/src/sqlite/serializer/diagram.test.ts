@@ -0,0 +1,34 @@
+import { integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+import { expect, test } from "vitest";
+
+import { snapshotToDbml, snapshotToMermaid } from "./diagram";
+import { schemaToSnapshot } from "./snapshot";
+
+const snapshot = schemaToSnapshot({
+  users: sqliteTable("users", {
+    id: integer().primaryKey({ autoIncrement: true }),
+    name: text().notNull().default("anonymous"),
+  }),
+});
+
+test("Export auto increments and defaults", () => {
+  expect(snapshotToDbml(snapshot)).toBe(
+    [
+      "Table users {",
+      "  id integer [pk, increment]",
+      "  name text [not null, default: 'anonymous']",
+      "}",
+      "",
+    ].join("\n"),
+  );
+  expect(snapshotToMermaid(snapshot)).toBe(
+    [
+      "erDiagram",
+      "  users {",
+      "    integer id PK",
+      "    text name",
+      "  }",
+      "",
+    ].join("\n"),
+  );
+});
@@ -0,0 +1,233 @@
+import { createClient } from "@libsql/client-wasm";
+import { eq } from "drizzle-orm";
+import {
+  index,
+  integer,
+  sqliteTable,
+  sqliteView,
+  text,
+} from "drizzle-orm/sqlite-core";
+import { expect, test } from "vitest";
+
+import { diffSnapshots, generateRollback } from "./diff";
+import { schemaToSnapshot } from "./snapshot";
+import { snapshotToSql } from "./sql";
+import type { ExplainMetadata } from "../../extensions/drizzle.lab";
+import { explain } from "../../extensions/explain";
+import { importFromDatabase } from "../loader/database";
+
+const empty = schemaToSnapshot({});
+const v1 = schemaToSnapshot({
+  users: sqliteTable(
+    "users",
+    { id: integer().primaryKey(), name: text() },
+    (table) => ({ nameIdx: index("users_name_idx").on(table.name) }),
+  ),
+});
+const v2 = schemaToSnapshot({
+  users: sqliteTable("users", {
+    id: integer().primaryKey(),
+    name: text().notNull(),
+    email: text(),
+  }),
+});
+const renamed = schemaToSnapshot({
+  customers: sqliteTable("customers", {
+    id: integer().primaryKey(),
+    fullName: text(),
+  }),
+});
+
+test("Identical snapshots produce no statements", () => {
+  expect(diffSnapshots(v1, v1).sqlStatements).toEqual([]);
+});
+
+test("Create tables and their indexes", () => {
+  expect(diffSnapshots(empty, v1).sqlStatements).toEqual([
+    "CREATE TABLE `users` (\n\t`id` integer PRIMARY KEY NOT NULL,\n\t`name` text\n);\n",
+    "CREATE INDEX `users_name_idx` ON `users` (`name`);",
+  ]);
+});
+
+test("Re-create tables to alter their columns", () => {
+  expect(diffSnapshots(v1, v2).sqlStatements).toEqual([
+    "DROP INDEX IF EXISTS `users_name_idx`;",
+    "PRAGMA foreign_keys=OFF;",
+    "CREATE TABLE `__new_users` (\n\t`id` integer PRIMARY KEY NOT NULL,\n\t`name` text NOT NULL,\n\t`email` text\n);\n",
+    'INSERT INTO `__new_users`("id", "name") SELECT "id", "name" FROM `users`;',
+    "DROP TABLE `users`;",
+    "ALTER TABLE `__new_users` RENAME TO `users`;",
+    "PRAGMA foreign_keys=ON;",
+  ]);
+});
+
+test("Add nullable columns without re-creating tables", () => {
+  const next = schemaToSnapshot({
+    customers: sqliteTable("customers", {
+      id: integer().primaryKey(),
+      fullName: text(),
+      email: text(),
+    }),
+  });
+
+  expect(diffSnapshots(renamed, next).sqlStatements).toEqual([
+    "ALTER TABLE `customers` ADD `email` text;",
+  ]);
+});
+
+test("Rename tables and columns with rename hints", () => {
+  expect(
+    diffSnapshots(v1, renamed, {
+      renames: ["users->customers", "customers.name->customers.fullName"],
+    }).sqlStatements,
+  ).toEqual([
+    "ALTER TABLE `users` RENAME TO `customers`;",
+    "DROP INDEX IF EXISTS `users_name_idx`;",
+    "ALTER TABLE `customers` RENAME COLUMN `name` TO `fullName`;",
+  ]);
+  // without hints, the table is dropped and re-created
+  expect(diffSnapshots(v1, renamed).sqlStatements).toContain(
+    "DROP TABLE `users`;",
+  );
+});
+
+test("Drop tables", () => {
+  expect(diffSnapshots(v1, empty).sqlStatements).toEqual([
+    "DROP TABLE `users`;",
+  ]);
+});
+
+function usersSchema(metadata: ExplainMetadata = {}) {
+  const users = sqliteTable("users", {
+    id: integer().primaryKey(),
+    email: text().notNull(),
+  });
+  const activeUsers = sqliteView("active_users").as((qb) =>
+    qb.select().from(users).where(eq(users.id, 1)),
+  );
+
+  explain(users, {
+    ...metadata,
+    description: "Users of the app",
+    columns: { email: { description: "Login email", ...metadata } },
+  });
+  explain(activeUsers, { ...metadata, description: "Active users" });
+
+  return { users, activeUsers };
+}
+
+test("Explain metadata only changes produce no statements", () => {
+  const prev = schemaToSnapshot(usersSchema());
+  const next = schemaToSnapshot(
+    usersSchema({
+      tags: ["auth"],
+      owner: "team-identity",
+      sensitivity: "pii",
+      deprecated: "Use accounts",
+      examples: ["jane@example.com"],
+    }),
+  );
+
+  expect(next.tables["users"].columns.email.sensitivity).toBe("pii");
+  expect(next.views["active_users"].tags).toEqual(["auth"]);
+  expect(diffSnapshots(prev, next).sqlStatements).toEqual([]);
+});
+
+function postsSchema(description?: string) {
+  const posts = sqliteTable(
+    "posts",
+    {
+      id: integer().primaryKey(),
+      authorId: integer().notNull(),
+    },
+    (table) => ({
+      authorIdx: explain(index("posts_author_idx").on(table.authorId), {
+        description,
+      }),
+    }),
+  );
+
+  return { posts };
+}
+
+test("Index description only changes produce no statements", () => {
+  const prev = schemaToSnapshot(postsSchema());
+  const next = schemaToSnapshot(postsSchema("Posts of an author"));
+
+  expect(next.tables.posts.indexes.posts_author_idx.description).toBe(
+    "Posts of an author",
+  );
+  expect(diffSnapshots(prev, next).sqlStatements).toEqual([]);
+});
+
+const beforeMigration = schemaToSnapshot({
+  users: sqliteTable("users", {
+    id: integer().primaryKey(),
+    name: text(),
+    status: text().notNull().default("active"),
+  }),
+});
+const afterMigration = schemaToSnapshot({
+  users: sqliteTable(
+    "users",
+    { id: integer().primaryKey(), name: text() },
+    (table) => ({ nameIdx: index("users_name_idx").on(table.name) }),
+  ),
+});
+
+test("Roll back created indexes and dropped columns", () => {
+  expect(
+    generateRollback(beforeMigration, afterMigration).sqlStatements,
+  ).toEqual([
+    "DROP INDEX IF EXISTS `users_name_idx`;",
+    "ALTER TABLE `users` ADD `status` text DEFAULT 'active' NOT NULL;",
+  ]);
+});
+
+test("Roll back altered columns by re-creating the table", () => {
+  expect(generateRollback(v1, v2).sqlStatements).toEqual([
+    "PRAGMA foreign_keys=OFF;",
+    "CREATE TABLE `__new_users` (\n\t`id` integer PRIMARY KEY NOT NULL,\n\t`name` text\n);\n",
+    'INSERT INTO `__new_users`("id", "name") SELECT "id", "name" FROM `users`;',
+    "DROP TABLE `users`;",
+    "ALTER TABLE `__new_users` RENAME TO `users`;",
+    "PRAGMA foreign_keys=ON;",
+    "CREATE INDEX `users_name_idx` ON `users` (`name`);",
+  ]);
+});
+
+test("Roll back renames with the inverted rename hints", () => {
+  expect(
+    generateRollback(v1, renamed, {
+      renames: ["users->customers", "customers.name->customers.fullName"],
+    }).sqlStatements,
+  ).toEqual([
+    "ALTER TABLE `customers` RENAME TO `users`;",
+    "ALTER TABLE `users` RENAME COLUMN `fullName` TO `name`;",
+    "CREATE INDEX `users_name_idx` ON `users` (`name`);",
+  ]);
+});
+
+test("Apply a migration and its rollback to get the original sqlite database back", async () => {
+  const client = createClient({ url: ":memory:" });
+  const introspect = () =>
+    importFromDatabase({
+      query: async (query, args = []) =>
+        (await client.execute({ sql: query, args })).rows as any,
+    });
+
+  await client.executeMultiple(snapshotToSql(beforeMigration));
+  const original = await introspect();
+
+  await client.executeMultiple(
+    diffSnapshots(beforeMigration, afterMigration).sqlStatements.join("\n"),
+  );
+
+  expect(await introspect()).not.toEqual(original);
+
+  await client.executeMultiple(
+    generateRollback(beforeMigration, afterMigration).sqlStatements.join("\n"),
+  );
+
+  expect(await introspect()).toEqual(original);
+});
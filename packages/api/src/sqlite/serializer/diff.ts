@@ -0,0 +1,325 @@
+import {
+  diffRecords,
+  invertRenames,
+  isDeepEqual,
+  omitLabColumnFields,
+  parseRenames,
+  scopeRenames,
+  type DiffOptions,
+} from "../../internal/diff";
+import {
+  prepareDropTableJson,
+  prepareRenameTableJson,
+  type JsonRecreateTableStatement,
+} from "../../sql/alter-statements";
+import {
+  prepareCreateIndexesJson,
+  prepareSQLiteCreateTable,
+  prepareSqliteCreateViewJson,
+  type JsonStatement,
+} from "../../sql/create-statements";
+import { generateSql } from "../../sql/generator";
+import { squashSnapshot, type Snapshot } from "../schema";
+
+/**
+ * Compare two snapshots and generate the statements to migrate the database from `prev` to `next`
+ * @param prev - Snapshot of the current database
+ * @param next - Snapshot of the desired database
+ * @param options - Diff options
+ * @returns JSON statements and SQL statements
+ */
+export function diffSnapshots(
+  prev: Snapshot,
+  next: Snapshot,
+  options: DiffOptions = {},
+) {
+  return generateSqliteMigration(prev, next, options);
+}
+
+/**
+ * Generate the statements to roll back a migration from `prev` to `next`, i.e. to migrate the database from `next` back to `prev`
+ *
+ * Created objects are dropped, dropped objects are re-created from `prev` (columns keep their original type and default) and altered objects are restored.
+ * Data of dropped tables and columns can't be restored.
+ *
+ * @param prev - Snapshot of the database before the migration
+ * @param next - Snapshot of the database after the migration
+ * @param options - Diff options of the forward migration, renames are inverted
+ * @returns JSON statements and SQL statements
+ */
+export function generateRollback(
+  prev: Snapshot,
+  next: Snapshot,
+  options: DiffOptions = {},
+) {
+  return generateSqliteMigration(next, prev, {
+    ...options,
+    renames: invertRenames(options.renames),
+  });
+}
+
+const generateSqliteMigration = (
+  prev: Snapshot,
+  next: Snapshot,
+  options: DiffOptions,
+): {
+  statements: JsonStatement[];
+  sqlStatements: string[];
+} => {
+  const renames = parseRenames(options.renames);
+  const squashedPrev = squashSnapshot(prev);
+  const squashedNext = squashSnapshot(next);
+  const statements: JsonStatement[] = [];
+
+  /* ------------------------------ Drop views; ------------------------------- */
+  const viewsDiff = diffRecords(prev.views, next.views);
+  const changedViews = viewsDiff.common.filter(
+    (key) => prev.views[key].definition !== next.views[key].definition,
+  );
+
+  // views depend on tables, they are dropped before and created after the tables are altered
+  for (const key of [...viewsDiff.deleted, ...changedViews]) {
+    if (!prev.views[key].isExisting) {
+      statements.push({ type: "drop_view", name: prev.views[key].name });
+    }
+  }
+
+  /* --------------------------------- Tables; -------------------------------- */
+  const tablesDiff = diffRecords(prev.tables, next.tables, renames);
+
+  for (const { from, to } of tablesDiff.renamed) {
+    statements.push(
+      prepareRenameTableJson(
+        { name: prev.tables[from].name, schema: "" },
+        { name: next.tables[to].name, schema: "" },
+      ),
+    );
+  }
+
+  const dropIndexes: JsonStatement[] = [];
+  const alterColumns: JsonStatement[] = [];
+  const recreateTables: JsonRecreateTableStatement[] = [];
+  const createIndexes: JsonStatement[] = [];
+
+  for (const { from, to } of [
+    ...tablesDiff.renamed,
+    ...tablesDiff.common.map((key) => ({ from: key, to: key })),
+  ]) {
+    const prevTable = prev.tables[from];
+    const nextTable = next.tables[to];
+    const prevSquashedTable = squashedPrev.tables[from];
+    const nextSquashedTable = squashedNext.tables[to];
+    const tableName = nextTable.name;
+
+    const columnsDiff = diffRecords(
+      prevTable.columns,
+      nextTable.columns,
+      scopeRenames(renames, to),
+    );
+
+    const keptColumns = [
+      ...columnsDiff.renamed,
+      ...columnsDiff.common.map((it) => ({ from: it, to: it })),
+    ];
+
+    const isColumnChanged = keptColumns.some(
+      ({ from: prevName, to: nextName }) =>
+        !isDeepEqual(
+          omitLabColumnFields({
+            ...prevTable.columns[prevName],
+            name: nextName,
+          }),
+          omitLabColumnFields(nextTable.columns[nextName]),
+        ),
+    );
+
+    // sqlite can only add nullable (or defaulted) plain columns
+    const isAddedColumnUnsupported = columnsDiff.added.some((name) => {
+      const column = nextTable.columns[name];
+
+      return (
+        column.primaryKey ||
+        (column.notNull && column.default === undefined) ||
+        column.generated?.type === "stored"
+      );
+    });
+
+    const renamedColumns = new Map(
+      columnsDiff.renamed.map(({ from, to }) => [from, to]),
+    );
+    const withRenamedColumns = (columns: string[]) =>
+      columns.map((it) => renamedColumns.get(it) ?? it);
+
+    const isConstraintChanged =
+      !isDeepEqual(
+        Object.values(prevTable.foreignKeys).map((fk) => ({
+          ...fk,
+          tableFrom: tableName,
+          columnsFrom: withRenamedColumns(fk.columnsFrom),
+        })),
+        Object.values(nextTable.foreignKeys),
+      ) ||
+      !isDeepEqual(
+        Object.values(prevTable.compositePrimaryKeys).map((pk) => ({
+          ...pk,
+          columns: withRenamedColumns(pk.columns),
+        })),
+        Object.values(nextTable.compositePrimaryKeys),
+      ) ||
+      !isDeepEqual(
+        Object.values(prevTable.uniqueConstraints).map((unique) => ({
+          ...unique,
+          columns: withRenamedColumns(unique.columns),
+        })),
+        Object.values(nextTable.uniqueConstraints),
+      ) ||
+      !isDeepEqual(prevTable.checkConstraints, nextTable.checkConstraints);
+
+    for (const {
+      from: oldColumnName,
+      to: newColumnName,
+    } of columnsDiff.renamed) {
+      alterColumns.push({
+        type: "alter_table_rename_column",
+        tableName,
+        oldColumnName,
+        newColumnName,
+        schema: "",
+      });
+    }
+
+    const isRecreated =
+      isColumnChanged || isAddedColumnUnsupported || isConstraintChanged;
+
+    // sqlite can't alter columns or constraints, the table is re-created and its data copied
+    if (isRecreated) {
+      const { columns, referenceData, compositePKs, ...table } =
+        prepareSQLiteCreateTable(nextSquashedTable);
+
+      recreateTables.push({
+        type: "recreate_table",
+        tableName,
+        columns,
+        referenceData,
+        compositePKs,
+        uniqueConstraints: table.uniqueConstraints,
+        checkConstraints: table.checkConstraints,
+        copiedColumns: Object.keys(nextTable.columns).filter((name) =>
+          keptColumns.some(({ to }) => to === name),
+        ),
+        droppedColumns: columnsDiff.deleted,
+        previousColumns: keptColumns.map(({ from, to }) => ({
+          ...prevTable.columns[from],
+          name: to,
+        })),
+      });
+
+      // indexes are dropped with the old table, removed ones are dropped explicitly to be reported
+      for (const name of Object.keys(prevTable.indexes)) {
+        if (!nextTable.indexes[name]) {
+          dropIndexes.push({
+            type: "drop_index",
+            tableName,
+            data: prevSquashedTable.indexes[name],
+            schema: "",
+          });
+        }
+      }
+
+      createIndexes.push(
+        ...prepareCreateIndexesJson(
+          tableName,
+          "",
+          nextSquashedTable.indexes,
+          next.internal,
+        ),
+      );
+
+      continue;
+    }
+
+    for (const name of columnsDiff.deleted) {
+      alterColumns.push({
+        type: "alter_table_drop_column",
+        tableName,
+        columnName: name,
+        schema: "",
+      });
+    }
+
+    for (const name of columnsDiff.added) {
+      alterColumns.push({
+        type: "sqlite_alter_table_add_column",
+        tableName,
+        column: nextTable.columns[name],
+      });
+    }
+
+    const indexesDiff = diffRecords(prevTable.indexes, nextTable.indexes);
+    const changedIndexes = indexesDiff.common.filter(
+      (name) =>
+        prevSquashedTable.indexes[name] !== nextSquashedTable.indexes[name],
+    );
+
+    for (const name of [...indexesDiff.deleted, ...changedIndexes]) {
+      dropIndexes.push({
+        type: "drop_index",
+        tableName,
+        data: prevSquashedTable.indexes[name],
+        schema: "",
+      });
+    }
+
+    createIndexes.push(
+      ...prepareCreateIndexesJson(
+        tableName,
+        "",
+        Object.fromEntries(
+          [...indexesDiff.added, ...changedIndexes].map((name) => [
+            name,
+            nextSquashedTable.indexes[name],
+          ]),
+        ),
+        next.internal,
+      ),
+    );
+  }
+
+  statements.push(...dropIndexes);
+  statements.push(...alterColumns);
+
+  for (const key of tablesDiff.added) {
+    const table = squashedNext.tables[key];
+
+    statements.push(prepareSQLiteCreateTable(table));
+    createIndexes.push(
+      ...prepareCreateIndexesJson(table.name, "", table.indexes, next.internal),
+    );
+  }
+
+  statements.push(...recreateTables);
+  statements.push(...createIndexes);
+
+  for (const key of tablesDiff.deleted) {
+    statements.push(prepareDropTableJson(prev.tables[key]));
+  }
+
+  /* --------------------------------- Views; -------------------------------- */
+  for (const key of [...viewsDiff.added, ...changedViews]) {
+    const view = next.views[key];
+
+    if (!view.isExisting) {
+      statements.push(prepareSqliteCreateViewJson(view.name, view.definition!));
+    }
+  }
+
+  /* -------------------------------- Compose; -------------------------------- */
+
+  // not deduplicated, each re-created table toggles foreign keys
+  const sqlStatements = generateSql(statements, "sqlite");
+
+  return {
+    statements,
+    sqlStatements,
+  };
+};
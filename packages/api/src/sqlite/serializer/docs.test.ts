@@ -0,0 +1,33 @@
+import {
+  integer,
+  sqliteTable,
+  sqliteView,
+  text,
+} from "drizzle-orm/sqlite-core";
+import { expect, test } from "vitest";
+
+import { snapshotToMarkdown } from "./docs";
+import { schemaToSnapshot } from "./snapshot";
+
+test("Document auto increments, unique indexes and views", () => {
+  const users = sqliteTable("users", {
+    id: integer().primaryKey({ autoIncrement: true }),
+    email: text().notNull().unique(),
+  });
+  const emails = sqliteView("emails").as((qb) =>
+    qb.select({ email: users.email }).from(users),
+  );
+  const markdown = snapshotToMarkdown(schemaToSnapshot({ users, emails }));
+
+  expect(markdown).toContain("- Views\n  - [`emails`](#view-emails)");
+  expect(markdown).toContain(
+    "| `id` 🔑 | `integer` _autoincrement_ | no |  |  |",
+  );
+  expect(markdown).toContain("- `users_email_unique`: unique (`email`)");
+  expect(markdown).toContain(
+    ['<a id="view-emails"></a>', "", "### `emails`", "", "_view_"].join("\n"),
+  );
+  expect(markdown).toContain(
+    '**Definition**\n\n```sql\nselect "email" from "users"\n```',
+  );
+});
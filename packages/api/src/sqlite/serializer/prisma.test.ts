@@ -0,0 +1,77 @@
+import { expect, test } from "vitest";
+
+import { prismaToSnapshot } from "./prisma";
+
+test("Convert a Prisma schema to a snapshot", () => {
+  const snapshot = prismaToSnapshot(`
+    enum Role {
+      ADMIN
+      MEMBER
+    }
+
+    model User {
+      id        Int      @id @default(autoincrement())
+      role      Role     @default(MEMBER)
+      active    Boolean  @default(true)
+      createdAt DateTime @default(now())
+      posts     Post[]
+    }
+
+    model Post {
+      id       Int  @id @default(autoincrement())
+      authorId Int
+      author   User @relation(fields: [authorId], references: [id])
+    }
+  `);
+
+  // Prisma Migrate stores enums as text and uses numeric affinities for booleans and dates
+  expect(snapshot.tables.User.columns).toEqual({
+    id: {
+      name: "id",
+      type: "integer",
+      primaryKey: true,
+      notNull: true,
+      autoincrement: true,
+    },
+    role: {
+      name: "role",
+      type: "text",
+      primaryKey: false,
+      notNull: true,
+      autoincrement: false,
+      default: "'MEMBER'",
+      enumValues: ["ADMIN", "MEMBER"],
+    },
+    active: {
+      name: "active",
+      type: "numeric",
+      primaryKey: false,
+      notNull: true,
+      autoincrement: false,
+      default: true,
+    },
+    createdAt: {
+      name: "createdAt",
+      type: "numeric",
+      primaryKey: false,
+      notNull: true,
+      autoincrement: false,
+      default: "(CURRENT_TIMESTAMP)",
+    },
+  });
+  expect(snapshot.tables.Post.foreignKeys.Post_authorId_fkey).toMatchObject({
+    tableTo: "User",
+    columnsFrom: ["authorId"],
+    columnsTo: ["id"],
+    onDelete: "restrict",
+    onUpdate: "cascade",
+  });
+});
+
+test("Reject scalar lists", () => {
+  expect(() =>
+    prismaToSnapshot("model User {\n  id Int @id\n  tags String[]\n}"),
+  ).toThrow(
+    "Invalid Prisma schema: scalar lists are not supported by sqlite (`User.tags`)",
+  );
+});
@@ -0,0 +1,161 @@
+import { parsePrisma, type PrismaDefault } from "../../internal/prisma-parser";
+import { relationsToTypeScript } from "../../relations/typescript";
+import type { Snapshot, Table } from "../schema";
+import { snapshotToTypeScript } from "./typescript";
+
+/**
+ * Type affinities (https://www.sqlite.org/datatype3.html#determination_of_column_affinity) of the types created by Prisma Migrate
+ */
+const scalarTypes: Record<string, string> = {
+  String: "text",
+  Boolean: "numeric",
+  Int: "integer",
+  BigInt: "integer",
+  Float: "real",
+  Decimal: "numeric",
+  DateTime: "numeric",
+  Json: "text",
+  Bytes: "blob",
+};
+
+/**
+ * @returns The default, `undefined` for defaults handled by Prisma Client (e.g. `cuid()`)
+ */
+function toDefault(value: PrismaDefault) {
+  switch (value.kind) {
+    case "string":
+      return `'${value.value.replaceAll("'", "''")}'`;
+    case "number":
+      return Number(value.value);
+    case "boolean":
+      return value.value === "true";
+    case "list":
+      return undefined;
+  }
+
+  switch (value.value) {
+    case "now":
+      return "(CURRENT_TIMESTAMP)";
+    case "dbgenerated":
+      return value.args[0] ? `(${value.args[0]})` : undefined;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Convert a Prisma schema to a Drizzle snapshot, without a database
+ *
+ * Supports models, enums (as `text`), `@default` values, `@relation`s, implicit many-to-many relations, `@@id`, `@@unique` and `@@index`.
+ * Defaults handled by Prisma Client (`cuid()`, `uuid()`, `@updatedAt`, ...) are dropped.
+ *
+ * @param prisma - Prisma schema (`schema.prisma`)
+ * @returns Drizzle snapshot
+ * @throws If the schema is not valid or uses scalar lists
+ */
+export function prismaToSnapshot(prisma: string): Snapshot {
+  const { enums, models, references } = parsePrisma(prisma);
+  const result: Record<string, Table> = {};
+
+  for (const model of models) {
+    const table: Table = {
+      name: model.name,
+      columns: {},
+      indexes: {},
+      foreignKeys: {},
+      compositePrimaryKeys: {},
+      uniqueConstraints: {},
+      checkConstraints: {},
+      relations: [],
+      description: model.documentation,
+    };
+
+    for (const column of model.columns) {
+      const enumType =
+        column.kind === "enum"
+          ? enums.find((it) => it.name === column.type)
+          : undefined;
+
+      if (column.isList) {
+        throw new Error(
+          `Invalid Prisma schema: scalar lists are not supported by sqlite (\`${table.name}.${column.name}\`)`,
+        );
+      }
+
+      table.columns[column.name] = {
+        name: column.name,
+        type:
+          column.kind === "unsupported"
+            ? column.type
+            : enumType
+              ? "text"
+              : scalarTypes[column.type],
+        primaryKey: column.primaryKey,
+        notNull: column.notNull,
+        autoincrement: column.default?.value === "autoincrement",
+        default: column.default ? toDefault(column.default) : undefined,
+        enumValues: enumType?.values,
+        description: column.documentation,
+      };
+    }
+
+    if (model.primaryKey) {
+      table.compositePrimaryKeys[model.primaryKey.name] = model.primaryKey;
+    }
+
+    for (const index of model.indexes) {
+      table.indexes[index.name] = {
+        name: index.name,
+        columns: index.columns.map((it) => it.name),
+        isUnique: index.unique,
+      };
+    }
+
+    result[table.name] = table;
+  }
+
+  for (const reference of references) {
+    result[reference.tableFrom].foreignKeys[reference.name] = {
+      name: reference.name,
+      tableFrom: reference.tableFrom,
+      columnsFrom: reference.columnsFrom,
+      tableTo: reference.tableTo,
+      columnsTo: reference.columnsTo,
+      onDelete: reference.onDelete,
+      onUpdate: reference.onUpdate,
+    };
+  }
+
+  return {
+    version: "6",
+    dialect: "sqlite",
+    tables: result,
+    views: {},
+    enums: {},
+    _meta: {
+      tables: {},
+      columns: {},
+    },
+    projectId: "drizzle-lab",
+  };
+}
+
+/**
+ * Convert a Prisma schema to a Drizzle schema and its relations
+ * @param prisma - Prisma schema (`schema.prisma`)
+ * @returns The TypeScript files, `relations` is empty if there are no relations
+ */
+export function prismaToTypescript(prisma: string) {
+  const snapshot = prismaToSnapshot(prisma);
+  const { file } = snapshotToTypeScript(snapshot, "preserve");
+  const hasReferences = Object.values(snapshot.tables).some(
+    (table) => Object.keys(table.foreignKeys).length > 0,
+  );
+
+  return {
+    schema: file,
+    relations: hasReferences
+      ? relationsToTypeScript(snapshot, "preserve").file
+      : "",
+  };
+}
@@ -12,6 +12,11 @@ import {
 import { schemaToDrizzleObjects, type DrizzleObjects } from "./drizzle-objects";
 import type { PartialConfig } from "../../config/loader.node";
 import { DrizzleLab } from "../../extensions/symbols";
+import {
+  explainColumn,
+  explainIndex,
+  pickExplainMetadata,
+} from "../../internal/explain";
 import type { DrizzleSchema } from "../../internal/global";
 import { getColumnCasing, sqlToStr } from "../../internal/helpers";
 import type { Relation } from "../../internal/relations";
@@ -99,7 +104,9 @@ export function drizzleObjectsToSnapshot(
       const enumValues = column.enumValues;
       const defaultFn = column.defaultFn?.toString();
       const onUpdateFn = column.onUpdateFn?.toString();
-      const description = table[DrizzleLab]?.explain?.columns?.[name];
+      const { description, ...metadata } = explainColumn(
+        table[DrizzleLab]?.explain?.columns?.[name],
+      );
       const jsonShape = JSON.stringify(
         table[DrizzleLab]?.explain?.jsonShapes?.[name],
         null,
@@ -126,6 +133,7 @@ export function drizzleObjectsToSnapshot(
           : undefined,
         /* lab extension */
         description,
+        ...metadata,
         enumValues,
         defaultFn,
         onUpdateFn,
@@ -264,6 +272,8 @@ export function drizzleObjectsToSnapshot(
         columns: indexColumns,
         isUnique: value.config.unique ?? false,
         where,
+        /* lab extension */
+        description: explainIndex(value)?.description,
       };
     });
 
@@ -355,6 +365,7 @@ export function drizzleObjectsToSnapshot(
 
     /* lab extension */
     const description = table[DrizzleLab]?.explain?.description;
+    const metadata = pickExplainMetadata(table[DrizzleLab]?.explain);
 
     for (const config of relations.filter((r) => r.dbName === tableName)) {
       for (const relation of Object.values(config.relations)) {
@@ -363,6 +374,8 @@ export function drizzleObjectsToSnapshot(
           fieldName: relation.fieldName,
           relationName: relation.relationName || relation.fieldName,
           referencedTableName: relation.referencedTableName,
+          /* lab extension */
+          description: config.explain[relation.fieldName],
         });
       }
     }
@@ -377,6 +390,7 @@ export function drizzleObjectsToSnapshot(
       checkConstraints: checkConstraintObject,
       /* lab extension */
       description,
+      ...metadata,
       relations: tableRelations,
     };
   }
@@ -412,7 +426,9 @@ export function drizzleObjectsToSnapshot(
         const enumValues = column.enumValues;
         const defaultFn = column.defaultFn?.toString();
         const onUpdateFn = column.onUpdateFn?.toString();
-        const description = view[DrizzleLab]?.explain?.columns?.[column.name];
+        const { description, ...metadata } = explainColumn(
+          view[DrizzleLab]?.explain?.columns?.[column.name],
+        );
 
         const columnToSet: Column = {
           name: column.name,
@@ -437,6 +453,7 @@ export function drizzleObjectsToSnapshot(
           defaultFn,
           onUpdateFn,
           description,
+          ...metadata,
         };
 
         if (column.default !== undefined) {
@@ -458,6 +475,7 @@ export function drizzleObjectsToSnapshot(
 
     /* lab extension */
     const description = view[DrizzleLab]?.explain?.description;
+    const metadata = pickExplainMetadata(view[DrizzleLab]?.explain);
 
     resultViews[name] = {
       columns: columnsObject,
@@ -466,6 +484,7 @@ export function drizzleObjectsToSnapshot(
       definition: isExisting ? undefined : dialect.sqlToQuery(query!).sql,
       /* lab extension */
       description,
+      ...metadata,
     };
   }
 
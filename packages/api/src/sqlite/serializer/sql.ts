@@ -1,6 +1,7 @@
 import type { PartialConfig } from "../../config/loader.node";
 import type { DrizzleSchema } from "../../internal/global";
 import {
+  prepareCommentsJson,
   prepareCreateIndexesJson,
   prepareSQLiteCreateTable,
   prepareSqliteCreateViewJson,
@@ -9,9 +10,9 @@ import {
   type JsonSqliteCreateTableStatement,
   type JsonStatement,
 } from "../../sql/create-statements";
-import { generateSql } from "../../sql/generator";
+import { generateSql, type SqlOptions } from "../../sql/generator";
 import { squashSnapshot } from "../schema";
-import type { Snapshot, SnapshotSquashed } from "../schema";
+import type { Snapshot } from "../schema";
 import type { DrizzleObjects } from "./drizzle-objects";
 import { drizzleObjectsToSnapshot, schemaToSnapshot } from "./snapshot";
 
@@ -36,10 +37,14 @@ export function drizzleObjectsToSql(
 /**
  * Convert snapshot to SQL statements
  * @param snapshot - Snapshot
+ * @param options - SQL output options, e.g. `{ ifNotExists: true, wrapInTransaction: true }` to get a script that can be re-run safely, `{ comments: true }` to keep the `explain` descriptions
  * @returns SQL statements
  */
-export function snapshotToSqlStatements(snapshot: Snapshot) {
-  const { sqlStatements } = generateSqliteSql(squashSnapshot(snapshot));
+export function snapshotToSqlStatements(
+  snapshot: Snapshot,
+  options: SqlOptions = {},
+) {
+  const { sqlStatements } = generateSqliteSql(snapshot, options);
 
   return sqlStatements;
 }
@@ -47,10 +52,11 @@ export function snapshotToSqlStatements(snapshot: Snapshot) {
 /**
  * Convert snapshot to SQL
  * @param snapshot - Snapshot
+ * @param options - SQL output options
  * @returns SQL
  */
-export function snapshotToSql(snapshot: Snapshot) {
-  const sqlStatements = snapshotToSqlStatements(snapshot);
+export function snapshotToSql(snapshot: Snapshot, options: SqlOptions = {}) {
+  const sqlStatements = snapshotToSqlStatements(snapshot, options);
 
   return sqlStatements.join("\n");
 }
@@ -89,11 +95,14 @@ export function schemaToSql(schema: DrizzleSchema, config: PartialConfig = {}) {
 }
 
 const generateSqliteSql = (
-  squashedSnapshot: SnapshotSquashed,
+  /* lab extension */
+  snapshot: Snapshot,
+  options: SqlOptions,
 ): {
   statements: JsonStatement[];
   sqlStatements: string[];
 } => {
+  const squashedSnapshot = squashSnapshot(snapshot);
   const tables = Object.values(squashedSnapshot.tables);
   const views = Object.values(squashedSnapshot.views);
   const statements: JsonStatement[] = [];
@@ -103,7 +112,13 @@ const generateSqliteSql = (
   const createIndexes: JsonCreateIndexStatement[] = [];
 
   for (const table of tables) {
-    createTables.push(prepareSQLiteCreateTable(table));
+    createTables.push({
+      ...prepareSQLiteCreateTable(table),
+      /* lab extension */
+      comments: options.comments
+        ? prepareCommentsJson(snapshot.tables[table.name])
+        : undefined,
+    });
 
     // indexes
     createIndexes.push(
@@ -125,7 +140,9 @@ const generateSqliteSql = (
 
   /* -------------------------------- Compose; -------------------------------- */
 
-  const sqlStatements = [...new Set(generateSql(statements, "sqlite"))];
+  const sqlStatements = [
+    ...new Set(generateSql(statements, "sqlite", options)),
+  ];
 
   return {
     statements,
@@ -1,6 +1,7 @@
 import { toCamelCase } from "drizzle-orm/casing";
 
 import type { Casing } from "../../internal/global";
+import { explainToTypeScript } from "../../internal/helpers";
 import type {
   CheckConstraint,
   Column,
@@ -200,6 +201,18 @@ export function snapshotToTypeScript(snapshot: Snapshot, casing: Casing) {
     }
 
     statement += ");";
+
+    /* lab extension */
+    const explain = explainToTypeScript(
+      withCasing(table.name, casing),
+      table,
+      (name) => withCasing(name, casing),
+    );
+
+    if (explain) {
+      statement += `\n${explain}`;
+    }
+
     return statement;
   });
 
@@ -218,6 +231,17 @@ export function snapshotToTypeScript(snapshot: Snapshot, casing: Casing) {
     statement += "})";
     statement += `.as(sql\`${view.definition?.replaceAll("`", "\\`")}\`);`;
 
+    /* lab extension */
+    const explain = explainToTypeScript(
+      withCasing(view.name, casing),
+      view,
+      (name) => withCasing(name, casing),
+    );
+
+    if (explain) {
+      statement += `\n${explain}`;
+    }
+
     return statement;
   });
 
@@ -227,10 +251,17 @@ export function snapshotToTypeScript(snapshot: Snapshot, casing: Casing) {
     ...new Set(imports.sqlite),
   ];
 
+  /* lab extension */
+  const explainImport = [...tableStatements, ...viewsStatements].some((it) =>
+    it.includes("\nexplain("),
+  )
+    ? `import { explain } from "@drizzle-lab/api/extensions"\n`
+    : "";
+
   const importsTs = `import { ${uniqueSqliteImports.join(
     ", ",
   )} } from "drizzle-orm/sqlite-core"
-import { sql } from "drizzle-orm"\n\n`;
+import { sql } from "drizzle-orm"\n${explainImport}\n`;
 
   let decalrations = tableStatements.join("\n\n");
   decalrations += "\n\n";
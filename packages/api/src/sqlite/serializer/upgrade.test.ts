@@ -0,0 +1,102 @@
+import { index, integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+import { expect, test } from "vitest";
+
+import { diffSnapshots } from "./diff";
+import { schemaToSnapshot } from "./snapshot";
+import { upgradeSnapshot } from "./upgrade";
+
+const code = schemaToSnapshot({
+  users: sqliteTable(
+    "users",
+    {
+      id: integer().primaryKey({ autoIncrement: true }),
+      name: text(),
+      settings: text({ mode: "json" }).default({ theme: "dark" }),
+    },
+    (table) => ({ nameIdx: index("users_name_idx").on(table.name) }),
+  ),
+});
+
+function drizzleKitSnapshot(version: string, settingsDefault: unknown) {
+  return {
+    version,
+    dialect: "sqlite",
+    id: "0d4e2bb8-3a0c-4f0a-8a4f-6f0f8c2b9a11",
+    prevId: "00000000-0000-0000-0000-000000000000",
+    tables: {
+      users: {
+        name: "users",
+        columns: {
+          id: {
+            name: "id",
+            type: "integer",
+            primaryKey: true,
+            notNull: true,
+            autoincrement: true,
+          },
+          name: {
+            name: "name",
+            type: "text",
+            primaryKey: false,
+            notNull: false,
+            autoincrement: false,
+          },
+          settings: {
+            name: "settings",
+            type: "text",
+            primaryKey: false,
+            notNull: false,
+            autoincrement: false,
+            default: settingsDefault,
+          },
+        },
+        indexes: {
+          users_name_idx: {
+            name: "users_name_idx",
+            columns: ["name"],
+            isUnique: false,
+          },
+        },
+        foreignKeys: {},
+        compositePrimaryKeys: {},
+        uniqueConstraints: {},
+      },
+    },
+    enums: {},
+    _meta: { tables: {}, columns: {} },
+  };
+}
+
+test("Read a version 6 snapshot", () => {
+  const snapshot = upgradeSnapshot({
+    ...drizzleKitSnapshot("6", `'{"theme":"dark"}'`),
+    views: {},
+    internal: { indexes: {} },
+  });
+
+  expect(snapshot.version).toBe("6");
+  expect(snapshot.tables.users).toMatchObject({
+    checkConstraints: {},
+    relations: [],
+  });
+  expect(diffSnapshots(snapshot, code).sqlStatements).toEqual([]);
+});
+
+test("Upgrade the JSON defaults of a version 5 snapshot", () => {
+  const snapshot = upgradeSnapshot(drizzleKitSnapshot("5", { theme: "dark" }));
+
+  expect(snapshot.tables.users.columns.settings.default).toBe(
+    `'{"theme":"dark"}'`,
+  );
+  expect(snapshot.views).toEqual({});
+  expect(diffSnapshots(snapshot, code).sqlStatements).toEqual([]);
+});
+
+test("Reject snapshots of other dialects", () => {
+  expect(() =>
+    upgradeSnapshot({ version: "7", dialect: "postgresql" }),
+  ).toThrow("Invalid snapshot: expected a sqlite snapshot, got postgresql");
+  expect(() => upgradeSnapshot({ version: "7", dialect: "sqlite" })).toThrow(
+    'Unsupported snapshot version "7". Supported versions are "3", "4", "5", "6"',
+  );
+});
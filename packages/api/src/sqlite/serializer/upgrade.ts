@@ -0,0 +1,82 @@
+/* lab extension */
+
+import { mapValues } from "../../internal/global";
+import {
+  applyUpgrades,
+  parseSnapshot,
+  readRawSnapshot,
+  type RawSnapshot,
+} from "../../internal/upgrade";
+import {
+  schemaInternal,
+  schemaInternalV3,
+  schemaInternalV4,
+  schemaInternalV5,
+  type Snapshot,
+} from "../schema";
+
+// fork: drizzle-kit/src/cli/commands/sqliteUp.ts
+
+const upgrades: Record<string, (snapshot: RawSnapshot) => RawSnapshot> = {
+  // composite primary keys and views
+  "3": (json) => {
+    const snapshot = parseSnapshot(schemaInternalV3, json, "3");
+
+    return {
+      ...snapshot,
+      version: "4",
+      tables: mapValues(snapshot.tables, (table) => ({
+        ...table,
+        compositePrimaryKeys: {},
+      })),
+      views: {},
+    };
+  },
+  // rename metadata
+  "4": (json) => {
+    const snapshot = parseSnapshot(schemaInternalV4, json, "4");
+
+    return {
+      ...snapshot,
+      version: "5",
+      _meta: { tables: {}, columns: {} },
+    };
+  },
+  // JSON defaults are stored as SQL literals
+  "5": ({ views, ...json }) => {
+    const snapshot = parseSnapshot(schemaInternalV5, json, "5");
+
+    return {
+      ...snapshot,
+      version: "6",
+      tables: mapValues(snapshot.tables, (table) => ({
+        ...table,
+        columns: mapValues(table.columns, (column) =>
+          column.default !== null && typeof column.default === "object"
+            ? { ...column, default: `'${JSON.stringify(column.default)}'` }
+            : column,
+        ),
+      })),
+      views: views ?? {},
+    };
+  },
+};
+
+/**
+ * Upgrade a snapshot of any version (e.g. an old drizzle-kit `meta/*_snapshot.json`) to the current Drizzle Lab snapshot
+ *
+ * Supports versions 3 to 6. Drizzle Lab fields (relations, descriptions, ...) are left empty.
+ *
+ * @param json - Parsed snapshot JSON
+ * @returns Drizzle Lab snapshot
+ * @throws If the snapshot is not a valid sqlite snapshot or its version is not supported
+ */
+export function upgradeSnapshot(json: unknown): Snapshot {
+  const snapshot = readRawSnapshot(json, ["sqlite"]);
+
+  return parseSnapshot(
+    schemaInternal,
+    applyUpgrades(snapshot, upgrades, "6"),
+    snapshot.version,
+  );
+}
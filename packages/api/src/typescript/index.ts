@@ -0,0 +1 @@
+export { splitTypeScript, type TypeScriptSplit } from "./split";
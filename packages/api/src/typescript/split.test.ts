@@ -0,0 +1,138 @@
+import { integer, pgEnum, pgSchema, pgTable, text } from "drizzle-orm/pg-core";
+import { expect, test } from "vitest";
+
+import { splitTypeScript } from "./split";
+import { schemaToSnapshot } from "../pg/serializer/snapshot";
+import { snapshotToTypeScript } from "../pg/serializer/typescript";
+
+const auth = pgSchema("auth");
+const mood = pgEnum("mood", ["sad", "ok"]);
+const users = auth.table("users", { id: integer().primaryKey(), mood: mood() });
+const posts = pgTable("posts", {
+  id: integer().primaryKey(),
+  authorId: integer().references(() => users.id),
+  body: text(),
+});
+
+function generate(schema: Record<string, unknown>) {
+  return snapshotToTypeScript(schemaToSnapshot(schema), "camel").file;
+}
+
+test("Split a schema in one file per table", () => {
+  const files = splitTypeScript(
+    generate({ auth, mood, users, posts }),
+    "table",
+  );
+
+  expect(Object.keys(files)).toEqual([
+    "shared.ts",
+    "usersInAuth.ts",
+    "posts.ts",
+    "schema.ts",
+  ]);
+  expect(files["shared.ts"]).toBe(
+    [
+      'import { pgSchema, pgEnum } from "drizzle-orm/pg-core"',
+      "",
+      'export const auth = pgSchema("auth");',
+      "",
+      "export const mood = pgEnum(\"mood\", ['sad', 'ok'])",
+      "",
+    ].join("\n"),
+  );
+  expect(files["usersInAuth.ts"]).toBe(
+    [
+      'import { integer } from "drizzle-orm/pg-core"',
+      'import { auth, mood } from "./shared"',
+      "",
+      'export const usersInAuth = auth.table("users", {',
+      "\tid: integer().primaryKey().notNull(),",
+      "\tmood: mood(),",
+      "});",
+      "",
+    ].join("\n"),
+  );
+  expect(files["schema.ts"]).toBe(
+    [
+      'export * from "./shared";',
+      'export * from "./usersInAuth";',
+      'export * from "./posts";',
+      "",
+    ].join("\n"),
+  );
+});
+
+test("Only import what each file uses", () => {
+  const files = splitTypeScript(
+    generate({ auth, mood, users, posts }),
+    "table",
+  );
+  const [imports] = files["posts.ts"].split("\n\n");
+
+  expect(imports.split("\n")).toEqual([
+    'import { pgTable, integer, foreignKey, text } from "drizzle-orm/pg-core"',
+    'import { usersInAuth } from "./usersInAuth"',
+  ]);
+  // `sql` is imported by the generated file, but no declaration uses it
+  expect(Object.values(files).join("\n")).not.toContain(
+    'import { sql } from "drizzle-orm"',
+  );
+});
+
+test("Split a schema in one file per pg schema", () => {
+  const files = splitTypeScript(
+    generate({ auth, mood, users, posts }),
+    "schema",
+  );
+
+  expect(Object.keys(files)).toEqual(["auth.ts", "public.ts", "schema.ts"]);
+  expect(files["auth.ts"]).toContain('export const auth = pgSchema("auth");');
+  expect(files["auth.ts"]).toContain("export const usersInAuth = auth.table(");
+  expect(files["public.ts"]).toContain("export const mood = pgEnum(");
+  expect(files["public.ts"]).toContain("export const posts = pgTable(");
+  expect(files["schema.ts"]).toBe(
+    'export * from "./auth";\nexport * from "./public";\n',
+  );
+});
+
+test("Suffix the files named like the barrel, the shared and the relations files", () => {
+  const tables = generate({
+    mood,
+    schema: pgTable("schema", { id: integer(), mood: mood() }),
+    shared: pgTable("shared", { id: integer() }),
+    relations: pgTable("relations", { id: integer() }),
+  });
+  const files = splitTypeScript(tables, "table");
+
+  expect(Object.keys(files)).toEqual([
+    "shared.ts",
+    "schema.table.ts",
+    "shared.table.ts",
+    "relations.table.ts",
+    "schema.ts",
+  ]);
+  expect(files["schema.table.ts"]).toContain('import { mood } from "./shared"');
+  expect(files["shared.table.ts"]).toContain(
+    'export const shared = pgTable("shared", {',
+  );
+  expect(files["schema.ts"]).toBe(
+    [
+      'export * from "./shared";',
+      'export * from "./schema.table";',
+      'export * from "./shared.table";',
+      'export * from "./relations.table";',
+      "",
+    ].join("\n"),
+  );
+
+  const schemas = generate({
+    schema: pgSchema("schema"),
+    relations: pgSchema("relations"),
+  });
+
+  expect(Object.keys(splitTypeScript(schemas, "schema"))).toEqual([
+    "schema.schema.ts",
+    "relations.schema.ts",
+    "schema.ts",
+  ]);
+});
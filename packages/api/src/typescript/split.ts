@@ -0,0 +1,184 @@
+/* lab extension */
+
+/**
+ * How to split a generated Drizzle schema: one file per table (and view), or one file per pg schema
+ */
+export type TypeScriptSplit = "table" | "schema";
+
+type Declaration = {
+  /** The exported variable */
+  name: string;
+  /** The statements declaring it, followed by its `explain` call */
+  code: string;
+  /** The function that creates it, e.g. `pgTable`, `pgEnum` or `table` for `auth.table` */
+  factory: string;
+  /** The variable of the pg schema it belongs to, e.g. `auth` for `auth.table` */
+  schema?: string;
+  /** The database name */
+  dbName: string;
+};
+
+const declarationPattern =
+  /^export const ([\w$]+) = (?:([\w$]+)\.)?(\w+)\("([^"]*)"/;
+const entityFactories = new Set([
+  "pgTable",
+  "pgView",
+  "pgMaterializedView",
+  "mysqlTable",
+  "mysqlView",
+  "sqliteTable",
+  "sqliteView",
+  "table",
+  "view",
+  "materializedView",
+]);
+const schemaFactories = new Set(["pgSchema", "mysqlSchema"]);
+/** Files written next to the split ones: the barrel, the shared declarations and the relations (see the `generate typescript` command) */
+const reservedFileNames = new Set(["schema", "shared", "relations"]);
+
+/**
+ * Suffix the names that collide with a reserved file, e.g. `schema.table` for a table variable named `schema`
+ */
+function toFileName(name: string, kind: "table" | "schema") {
+  return reservedFileNames.has(name) ? `${name}.${kind}` : name;
+}
+
+/**
+ * The generated declarations start at the beginning of a line with `export const`, anything else belongs to the previous one
+ */
+function parseDeclarations(body: string) {
+  const declarations: Declaration[] = [];
+
+  for (const line of body.split("\n")) {
+    const match = line.match(declarationPattern);
+
+    if (match) {
+      const [, name, schema, factory, dbName] = match;
+      declarations.push({ name, code: line, factory, schema, dbName });
+      continue;
+    }
+
+    const current = declarations.at(-1);
+
+    if (current) {
+      current.code += `\n${line}`;
+    }
+  }
+
+  return declarations.map((it) => ({ ...it, code: it.code.trim() }));
+}
+
+/**
+ * Whether `name` is used as an identifier in `code` (not as a property, an object key or in a string)
+ */
+function uses(code: string, name: string) {
+  const escaped = name.replace(/\$/g, "\\$");
+
+  return new RegExp(`(?<![\\w$.'"])${escaped}(?![\\w$'":])`).test(code);
+}
+
+/**
+ * Keep the imported names that the code uses, and drop the imports left empty
+ */
+function filterImports(imports: string[], code: string) {
+  return imports.flatMap((line) => {
+    const match = line.match(/^import \{(.*)\} from (.*)$/);
+
+    if (!match) {
+      return [line];
+    }
+
+    const names = match[1]
+      .split(",")
+      .map((it) => it.trim())
+      .filter((it) => it && uses(code, it.replace(/^type /, "")));
+
+    return names.length > 0
+      ? [`import { ${names.join(", ")} } from ${match[2]}`]
+      : [];
+  });
+}
+
+/**
+ * Split a generated Drizzle schema (see `snapshotToTypeScript`) in one file per table and view, or one file per pg schema.
+ *
+ * Each file only imports what it uses, including the declarations of the other files.
+ * Enums, sequences, roles and schemas go to `shared.ts` when splitting per table.
+ * `schema.ts` re-exports every file, so it can be the `schema` of the drizzle config and be imported by the relations.
+ * Tables and schemas named like these files (or `relations`) get a suffix, e.g. `schema.table.ts`.
+ *
+ * @param file - The generated Drizzle schema
+ * @param split - How to split it
+ * @returns The content of each file, by file name
+ */
+export function splitTypeScript(file: string, split: TypeScriptSplit) {
+  const lines = file.split("\n");
+  const start = lines.findIndex((line) => declarationPattern.test(line));
+  const imports = lines
+    .slice(0, start === -1 ? lines.length : start)
+    .filter((line) => line.startsWith("import "));
+  const declarations = parseDeclarations(
+    start === -1 ? "" : lines.slice(start).join("\n"),
+  );
+
+  const schemaNames = new Map(
+    declarations
+      .filter((it) => schemaFactories.has(it.factory))
+      .map((it) => [it.name, it.dbName]),
+  );
+
+  const fileOf = (declaration: Declaration) => {
+    if (split === "table") {
+      return entityFactories.has(declaration.factory)
+        ? toFileName(declaration.name, "table")
+        : "shared";
+    }
+
+    if (schemaFactories.has(declaration.factory)) {
+      return toFileName(declaration.dbName, "schema");
+    }
+
+    const schema = declaration.schema && schemaNames.get(declaration.schema);
+
+    return schema ? toFileName(schema, "schema") : "public";
+  };
+
+  const files = new Map<string, Declaration[]>();
+
+  for (const declaration of declarations) {
+    const name = fileOf(declaration);
+    files.set(name, [...(files.get(name) ?? []), declaration]);
+  }
+
+  const result: Record<string, string> = {};
+
+  for (const [name, fileDeclarations] of files) {
+    const code = fileDeclarations.map((it) => it.code).join("\n\n");
+    const localImports = [...files]
+      .filter(([other]) => other !== name)
+      .flatMap(([other, otherDeclarations]) => {
+        const used = otherDeclarations
+          .map((it) => it.name)
+          .filter((it) => uses(code, it));
+
+        return used.length > 0
+          ? [`import { ${used.join(", ")} } from "./${other}"`]
+          : [];
+      });
+
+    result[`${name}.ts`] = [
+      [...filterImports(imports, code), ...localImports].join("\n"),
+      code,
+    ]
+      .filter(Boolean)
+      .join("\n\n")
+      .concat("\n");
+  }
+
+  result["schema.ts"] = [...files.keys()]
+    .map((name) => `export * from "./${name}";`)
+    .join("\n")
+    .concat("\n");
+
+  return result;
+}
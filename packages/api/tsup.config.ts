@@ -7,7 +7,9 @@ await fs.rm("dist", { recursive: true }).catch(() => {});
 const options: Options = {
   entry: [
     "src/config/index.node.ts",
+    "src/drift/index.ts",
     "src/extensions/index.ts",
+    "src/lint/index.ts",
     "src/pg/index.ts",
     "src/pg/index.node.ts",
     "src/sqlite/index.ts",
@@ -16,6 +18,7 @@ const options: Options = {
     "src/mysql/index.node.ts",
     "src/relations/index.ts",
     "src/sql/index.ts",
+    "src/typescript/index.ts",
   ],
   outDir: "dist",
   dts: true,
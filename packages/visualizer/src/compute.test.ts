@@ -0,0 +1,132 @@
+import { schemaToSnapshot } from "@drizzle-lab/api/pg";
+import { relations } from "drizzle-orm";
+import { integer, pgSchema, pgTable } from "drizzle-orm/pg-core";
+import { expect, test } from "vitest";
+
+import { computeWorkspace } from "./compute";
+
+const accountUsers = pgSchema("auth").table("users", {
+  id: integer().primaryKey(),
+});
+const billingUsers = pgTable("users", { id: integer().primaryKey() });
+const invoices = pgTable("invoices", {
+  id: integer().primaryKey(),
+  userId: integer().references(() => billingUsers.id),
+});
+const posts = pgTable("posts", {
+  id: integer().primaryKey(),
+  authorId: integer().references(() => accountUsers.id),
+  readerId: integer().references(() => billingUsers.id),
+});
+const postsRelations = relations(posts, ({ one }) => ({
+  author: one(accountUsers, {
+    fields: [posts.authorId],
+    references: [accountUsers.id],
+  }),
+}));
+
+const accounts = {
+  projectId: "accounts",
+  name: "Accounts",
+  snapshot: schemaToSnapshot({ accountUsers }),
+};
+const billing = {
+  projectId: "billing",
+  name: "Billing",
+  snapshot: schemaToSnapshot({ billingUsers, invoices }),
+};
+const blog = {
+  projectId: "blog",
+  name: "Blog",
+  snapshot: schemaToSnapshot({ posts, postsRelations }),
+};
+
+function summarize(
+  edges: Awaited<ReturnType<typeof computeWorkspace>>["edges"],
+) {
+  return edges.map(({ source, target, targetHandle }) => ({
+    source,
+    target,
+    targetHandle,
+  }));
+}
+
+test("Namespace the nodes of each project", async () => {
+  const { nodes } = await computeWorkspace([accounts, billing]);
+
+  expect(
+    nodes.map(({ id, data }) => ({ id, project: data.project?.name })),
+  ).toEqual([
+    { id: "accounts:users", project: "Accounts" },
+    { id: "billing:users", project: "Billing" },
+    { id: "billing:invoices", project: "Billing" },
+  ]);
+
+  const [accountsNode, ...billingNodes] = nodes;
+
+  billingNodes.forEach((node) => {
+    expect(node.position.x).toBeGreaterThan(accountsNode.position.x);
+  });
+});
+
+test("Draw references to the table with this schema and name in another project", async () => {
+  const { edges } = await computeWorkspace([accounts, billing, blog]);
+
+  expect(summarize(edges)).toEqual([
+    {
+      source: "billing:users",
+      target: "billing:invoices",
+      targetHandle: "userId-left",
+    },
+    {
+      source: "accounts:users",
+      target: "blog:posts",
+      targetHandle: "authorId-left",
+    },
+    {
+      source: "billing:users",
+      target: "blog:posts",
+      targetHandle: "readerId-left",
+    },
+  ]);
+  expect(edges.slice(1).map((edge) => edge.style?.stroke)).toEqual([
+    "#a3e635",
+    "#a3e635",
+  ]);
+  expect(edges[0].style?.stroke).toBeUndefined();
+});
+
+test("Drop the references matching tables of several projects", async () => {
+  const { edges } = await computeWorkspace([
+    accounts,
+    billing,
+    { ...billing, projectId: "billing-copy", name: "Billing copy" },
+    blog,
+  ]);
+
+  expect(
+    summarize(edges).filter((edge) => edge.target === "blog:posts"),
+  ).toEqual([
+    {
+      source: "accounts:users",
+      target: "blog:posts",
+      targetHandle: "authorId-left",
+    },
+  ]);
+});
+
+test("Resolve the relations by table name", async () => {
+  const { edges } = await computeWorkspace([accounts, blog]);
+
+  expect(
+    summarize(edges).filter((edge) => edge.targetHandle === "author"),
+  ).toEqual([
+    { source: "accounts:users", target: "blog:posts", targetHandle: "author" },
+  ]);
+  // `users` is also declared by the billing project
+  expect(
+    summarize((await computeWorkspace([accounts, billing, blog])).edges).filter(
+      (edge) => edge.targetHandle === "author",
+    ),
+  ).toEqual([]);
+});
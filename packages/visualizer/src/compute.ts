@@ -26,6 +26,7 @@ type CheckDefinition =
   | SQLiteSnapshot["tables"][number]["checkConstraints"][number]
   | MySqlSnapshot["tables"][number]["checkConstraints"][number];
 type PolicyDefinition = PgSnapshot["policies"][number];
+type TriggerDefinition = PgSnapshot["tables"][number]["triggers"][number];
 type UniqueConstraintDefinition =
   | PgSnapshot["tables"][number]["uniqueConstraints"][number]
   | SQLiteSnapshot["tables"][number]["uniqueConstraints"][number]
@@ -34,6 +35,42 @@ type IndexDefinition =
   | PgSnapshot["tables"][number]["indexes"][number]
   | SQLiteSnapshot["tables"][number]["indexes"][number]
   | MySqlSnapshot["tables"][number]["indexes"][number];
+/** Governance metadata documented with `explain` */
+export type ExplainMetadata = Pick<
+  PgSnapshot["tables"][number],
+  "tags" | "owner" | "sensitivity" | "deprecated" | "examples"
+>;
+
+function explainMetadata(entity: ExplainMetadata): ExplainMetadata {
+  return {
+    tags: entity.tags,
+    owner: entity.owner,
+    sensitivity: entity.sensitivity,
+    deprecated: entity.deprecated,
+    examples: entity.examples,
+  };
+}
+
+/** The project of a node, in a view combining several projects */
+export type NodeProject = {
+  id: string;
+  name: string;
+  color: string;
+};
+
+/** The snapshot of a project, e.g. a package of a monorepo, to combine with others (see `computeWorkspace`) */
+export type ProjectSnapshot = {
+  projectId: string;
+  name: string;
+  snapshot: Snapshot;
+};
+
+/** Highlight what has this tag or this sensitivity */
+export type MetadataFilter = {
+  kind: "tag" | "sensitivity";
+  value: string;
+};
+
 type ForeignKeyDefinition = {
   id: string;
   fkName: string;
@@ -41,77 +78,142 @@ type ForeignKeyDefinition = {
   columnFrom: string;
   columnTo: string;
   tableTo: string;
+  /** Schema of the referenced table, if not the default one */
+  schemaTo?: string;
   onDelete: string | undefined;
   onUpdate: string | undefined;
 };
 
 export type TableNodeDefinition = Node<
-  {
+  ExplainMetadata & {
     name: string;
     description?: string;
     schema?: string;
-    columns: Array<{
-      name: string;
-      description?: string;
-      dataType: string;
-      isPrimaryKey: boolean;
-      isForeignKey: boolean;
-      isNotNull: boolean;
-      isUnique: boolean;
-      default?: string;
-      defaultFn?: string;
-      enumValues?: string[];
-      jsonShape?: string;
-      onDelete: string | undefined;
-      onUpdate: string | undefined;
-    }>;
+    columns: Array<
+      ExplainMetadata & {
+        name: string;
+        description?: string;
+        dataType: string;
+        isPrimaryKey: boolean;
+        isForeignKey: boolean;
+        isNotNull: boolean;
+        isUnique: boolean;
+        default?: string;
+        defaultFn?: string;
+        enumValues?: string[];
+        jsonShape?: string;
+        onDelete: string | undefined;
+        onUpdate: string | undefined;
+      }
+    >;
     isRLSEnabled: boolean;
     provider: PgSnapshot["provider"];
     compositePrimaryKeys: Array<CompositePrimaryKeyDefinition>;
     relations: Array<RelationDefinition>;
     checks: Array<CheckDefinition>;
     policies: PolicyDefinition[];
+    triggers: TriggerDefinition[];
     foreignKeys: Array<ForeignKeyDefinition>;
     uniqueConstraints: Array<UniqueConstraintDefinition>;
     indexes: Array<IndexDefinition>;
     withExplain?: boolean;
+    filter?: MetadataFilter;
+    project?: NodeProject;
   },
   "table"
 >;
 
 export type ViewNodeDefinition = Node<
-  {
+  ExplainMetadata & {
     name: string;
     schema: string | undefined;
     definition: string | undefined;
     description: string | undefined;
-    columns: Array<{
-      name: string;
-      dataType: string;
-      isPrimaryKey: boolean;
-      isNotNull: boolean;
-      isUnique: boolean;
-      description: string | undefined;
-      enumValues?: string[];
-      default?: string;
-      defaultFn?: string;
-    }>;
+    columns: Array<
+      ExplainMetadata & {
+        name: string;
+        dataType: string;
+        isPrimaryKey: boolean;
+        isNotNull: boolean;
+        isUnique: boolean;
+        description: string | undefined;
+        enumValues?: string[];
+        default?: string;
+        defaultFn?: string;
+      }
+    >;
     withExplain?: boolean;
+    filter?: MetadataFilter;
     materialized: boolean;
     with: PgSnapshot["views"][number]["with"];
     isExisting: boolean;
     provider: PgSnapshot["provider"];
+    project?: NodeProject;
   },
   "view"
 >;
 
+export type FunctionNodeDefinition = Node<
+  {
+    name: string;
+    schema: string;
+    kind: PgSnapshot["functions"][number]["kind"];
+    arguments: string;
+    returns: string | undefined;
+    language: string;
+    definition: string | undefined;
+    description: string | undefined;
+    withExplain?: boolean;
+    project?: NodeProject;
+  },
+  "function"
+>;
+
+export type TypeNodeDefinition = Node<
+  {
+    name: string;
+    schema: string;
+    kind: "domain" | "composite";
+    /** Base type of a domain */
+    dataType: string | undefined;
+    isNotNull: boolean;
+    default: string | undefined;
+    /** Attributes of a composite type */
+    columns: Array<{
+      name: string;
+      dataType: string;
+      description: string | undefined;
+    }>;
+    checks: Array<CheckDefinition>;
+    description: string | undefined;
+    withExplain?: boolean;
+    project?: NodeProject;
+  },
+  "type"
+>;
+
+export type NodeDefinition =
+  | TableNodeDefinition
+  | ViewNodeDefinition
+  | FunctionNodeDefinition
+  | TypeNodeDefinition;
+
 // ReactFlow is scaling everything by the factor of 2
 const NODE_WIDTH = 600;
 const NODE_ROW_HEIGHT = 100;
 
 // Calculate the maximum width needed for a node based on its column names
-const getNodeWidth = (node: TableNodeDefinition | ViewNodeDefinition) => {
-  const columnWidths = node.data.columns.map(
+const getNodeWidth = (node: NodeDefinition) => {
+  if (node.type === "function") {
+    return Math.max(
+      NODE_WIDTH,
+      (node.data.name.length + node.data.arguments.length) * 8 + 40,
+    );
+  }
+
+  const { columns } = (node as Exclude<NodeDefinition, FunctionNodeDefinition>)
+    .data;
+  const columnWidths = columns.map(
     (col) => (col.name.length + col.dataType.length) * 8,
   );
   const headerWidth = node.data.name.length * 8;
@@ -121,10 +223,21 @@ const getNodeWidth = (node: TableNodeDefinition | ViewNodeDefinition) => {
 const ITEM_HEIGHT = 100;
 
 // Calculate the height needed for a node based on its content
-const getNodeHeight = (node: TableNodeDefinition | ViewNodeDefinition) => {
+const getNodeHeight = (node: NodeDefinition) => {
   // Base height for header
   const baseHeight = NODE_ROW_HEIGHT;
 
+  if (node.type === "function") {
+    // Functions, only have a signature
+    return baseHeight + NODE_ROW_HEIGHT;
+  }
+
+  if (node.type === "type") {
+    const rowsHeight =
+      (node.data.columns.length + node.data.checks.length) * ITEM_HEIGHT;
+    return baseHeight + Math.max(rowsHeight, NODE_ROW_HEIGHT);
+  }
+
   if (node.type === "view") {
     // Views, only have columns
     const columnsHeight = Math.max(
@@ -137,9 +250,10 @@ const getNodeHeight = (node: TableNodeDefinition | ViewNodeDefinition) => {
   const tableNode = node as TableNodeDefinition;
 
   // Calculate height for each component
-  const columnsHeight = node.data.columns.length * ITEM_HEIGHT;
+  const columnsHeight = tableNode.data.columns.length * ITEM_HEIGHT;
   const relationsHeight = tableNode.data.relations.length * ITEM_HEIGHT;
   const policiesHeight = tableNode.data.policies.length * ITEM_HEIGHT;
+  const triggersHeight = tableNode.data.triggers.length * ITEM_HEIGHT;
   const checksHeight = tableNode.data.checks.length * ITEM_HEIGHT;
   const indexesHeight = tableNode.data.indexes.length * ITEM_HEIGHT;
   const foreignKeysHeight = tableNode.data.foreignKeys.length * ITEM_HEIGHT;
@@ -153,6 +267,7 @@ const getNodeHeight = (node: TableNodeDefinition | ViewNodeDefinition) => {
     columnsHeight +
     relationsHeight +
     policiesHeight +
+    triggersHeight +
     checksHeight +
     indexesHeight +
     foreignKeysHeight +
@@ -214,10 +329,7 @@ const getNodeEdgePositions = (
 };
 
 // Supabase, thanks!
-const getLayoutedElements = (
-  nodes: (TableNodeDefinition | ViewNodeDefinition)[],
-  edges: Edge[],
-) => {
+const getLayoutedElements = (nodes: NodeDefinition[], edges: Edge[]) => {
   const dagreGraph = new dagre.graphlib.Graph();
   dagreGraph.setDefaultEdgeLabel(() => ({}));
 
@@ -309,7 +421,171 @@ export async function compute(snapshot: Snapshot) {
     return { nodes: [], edges: [] };
   }
 
-  const nodes: Array<TableNodeDefinition | ViewNodeDefinition> = [];
+  const { nodes, edges } = computeElements(snapshot);
+
+  return getLayoutedElements(nodes, edges);
+}
+
+// Colors of the projects, in a view combining several projects
+const PROJECT_COLORS = [
+  "#38bdf8",
+  "#f472b6",
+  "#a3e635",
+  "#fb923c",
+  "#c084fc",
+  "#facc15",
+  "#2dd4bf",
+  "#f87171",
+];
+
+// Space between the projects, laid out side by side
+const PROJECT_GAP = 400;
+
+// Key of a table by schema and name, the default schema being omitted
+function tableKey(schema: string | undefined, name: string) {
+  return `${schema && schema !== "public" ? schema : ""}.${name}`;
+}
+
+/**
+ * Compute the nodes of several projects (e.g. the packages of a monorepo) in a single view.
+ *
+ * Node ids are namespaced by project id (`<projectId>:<id>`), so tables of different projects can have the same name.
+ * Foreign keys and relations to a table that is not in the project are drawn to the table of another project
+ * with this schema and name (relations only know the name). They are dropped if several projects declare it.
+ * Each project is laid out on its own, next to the previous one.
+ */
+export async function computeWorkspace(projects: ProjectSnapshot[]) {
+  const elements = projects.map(({ projectId, name, snapshot }, index) => ({
+    project: {
+      id: projectId,
+      name,
+      color: PROJECT_COLORS[index % PROJECT_COLORS.length],
+    },
+    ...computeElements(snapshot),
+  }));
+
+  // namespaced ids of the tables, by schema and name and by name only
+  const tablesByKey = new Map<string, string[]>();
+  const tablesByName = new Map<string, string[]>();
+
+  elements.forEach(({ project, nodes }) => {
+    nodes.forEach((node) => {
+      if (node.type === "table") {
+        const id = `${project.id}:${node.id}`;
+        const key = tableKey(node.data.schema, node.data.name);
+
+        tablesByKey.set(key, [...(tablesByKey.get(key) ?? []), id]);
+        tablesByName.set(node.data.name, [
+          ...(tablesByName.get(node.data.name) ?? []),
+          id,
+        ]);
+      }
+    });
+  });
+
+  const nodes: Array<NodeDefinition> = [];
+  const edges: Array<Edge> = [];
+  let offsetX = 0;
+
+  elements.forEach(({ project, ...projectElements }) => {
+    const ids = new Set(projectElements.nodes.map((node) => node.id));
+    const keys = new Set(
+      projectElements.nodes.flatMap((node) =>
+        node.type === "table"
+          ? [tableKey(node.data.schema, node.data.name)]
+          : [],
+      ),
+    );
+    const namespace = (id: string) => `${project.id}:${id}`;
+    // the referenced table of a foreign key (with its schema) or a relation (without), in this project or another one
+    const resolve = (id: string, schema: string | undefined) => {
+      const key = schema === undefined ? undefined : tableKey(schema, id);
+
+      if (key === undefined ? ids.has(id) : keys.has(key)) {
+        return namespace(id);
+      }
+
+      const candidates = (
+        key === undefined ? tablesByName.get(id) : tablesByKey.get(key)
+      )?.filter((candidate) => !candidate.startsWith(`${project.id}:`));
+
+      if (candidates && candidates.length > 1) {
+        return undefined;
+      }
+
+      return candidates?.[0] ?? namespace(id);
+    };
+
+    const projectNodes = projectElements.nodes.map(
+      (node) =>
+        ({
+          ...node,
+          id: namespace(node.id),
+          data: { ...node.data, project },
+        }) as NodeDefinition,
+    );
+    const projectEdges = projectElements.edges.flatMap((edge) => {
+      const source = resolve(
+        edge.source,
+        edge.data?.sourceSchema as string | undefined,
+      );
+
+      if (source === undefined) {
+        return [];
+      }
+
+      const isCrossProject = !source.startsWith(`${project.id}:`);
+
+      return [
+        {
+          ...edge,
+          id: namespace(edge.id),
+          source,
+          target: namespace(edge.target),
+          style: isCrossProject
+            ? { ...edge.style, stroke: project.color }
+            : edge.style,
+        },
+      ];
+    });
+    const projectIds = new Set(projectNodes.map((node) => node.id));
+
+    // edges to other projects would add placeholder nodes to the layout
+    getLayoutedElements(
+      projectNodes,
+      projectEdges.filter(
+        (edge) => projectIds.has(edge.source) && projectIds.has(edge.target),
+      ),
+    );
+
+    const minX = Math.min(...projectNodes.map((node) => node.position.x));
+    const maxX = Math.max(
+      ...projectNodes.map((node) => node.position.x + getNodeWidth(node) / 2.5),
+    );
+
+    projectNodes.forEach((node) => {
+      node.position = {
+        x: node.position.x - minX + offsetX,
+        y: node.position.y,
+      };
+    });
+
+    if (projectNodes.length > 0) {
+      offsetX += maxX - minX + PROJECT_GAP;
+    }
+
+    nodes.push(...projectNodes);
+    edges.push(...projectEdges);
+  });
+
+  return { nodes, edges };
+}
+
+/**
+ * The nodes and edges of a snapshot, not laid out yet
+ */
+function computeElements(snapshot: Snapshot) {
+  const nodes: Array<NodeDefinition> = [];
   const edges: Array<Edge> = [];
 
   switch (snapshot.dialect) {
@@ -320,6 +596,7 @@ export async function compute(snapshot: Snapshot) {
         const foreignKeys = Object.values(table.foreignKeys).flatMap((fk) => {
           const fkName = fk.name;
           const tableTo = fk.tableTo;
+          const schemaTo = fk.schemaTo;
           const tableFrom = table.name;
           const onDelete = fk.onDelete;
           const onUpdate = fk.onUpdate;
@@ -334,6 +611,7 @@ export async function compute(snapshot: Snapshot) {
               columnFrom,
               columnTo,
               tableTo,
+              schemaTo,
               onDelete,
               onUpdate,
             };
@@ -349,6 +627,7 @@ export async function compute(snapshot: Snapshot) {
             targetHandle: `${foreignKey.columnFrom}-left`,
             style: { strokeWidth: 2 },
             type: "smoothstep",
+            data: { sourceSchema: foreignKey.schemaTo ?? "" },
           });
         });
 
@@ -382,12 +661,35 @@ export async function compute(snapshot: Snapshot) {
         /* Policies */
         const policies = Object.values(table.policies);
 
+        /* Triggers */
+        const triggers = Object.values(table.triggers);
+
+        triggers.forEach((trigger) => {
+          // trigger functions have no arguments
+          const functionKey = `${trigger.function}()`;
+
+          if (!snapshot.functions[functionKey]) {
+            return;
+          }
+
+          edges.push({
+            id: `${table.name}.${trigger.name}`,
+            source: functionKey,
+            sourceHandle: "trigger",
+            target: table.name,
+            targetHandle: `${trigger.name}-trigger`,
+            style: { strokeWidth: 2, strokeDasharray: "5" },
+            type: "smoothstep",
+          });
+        });
+
         /* Nodes */
         nodes.push({
           id: table.name,
           data: {
             name: table.name,
             description: table.description,
+            ...explainMetadata(table),
             schema: table.schema,
             columns: Object.values(table.columns).map((column) => {
               const foreignKey = foreignKeys.find(
@@ -398,6 +700,7 @@ export async function compute(snapshot: Snapshot) {
                 name: column.name,
                 dataType: column.type,
                 description: column.description,
+                ...explainMetadata(column),
                 isPrimaryKey:
                   column.primaryKey ||
                   compositePrimaryKeys.some((cpk) =>
@@ -419,6 +722,7 @@ export async function compute(snapshot: Snapshot) {
             checks,
             relations,
             policies,
+            triggers,
             compositePrimaryKeys,
             foreignKeys,
             uniqueConstraints,
@@ -438,6 +742,7 @@ export async function compute(snapshot: Snapshot) {
             schema: view.schema,
             definition: view.definition,
             description: view.description,
+            ...explainMetadata(view),
             columns: Object.values(view.columns).map((column) => {
               return {
                 name: column.name,
@@ -449,6 +754,7 @@ export async function compute(snapshot: Snapshot) {
                 defaultFn: column.defaultFn,
                 enumValues: column.enumValues,
                 description: column.description,
+                ...explainMetadata(column),
               };
             }),
             materialized: view.materialized,
@@ -460,6 +766,69 @@ export async function compute(snapshot: Snapshot) {
           type: "view",
         });
       });
+
+      /* Functions */
+      Object.entries(snapshot.functions).forEach(([key, fn]) => {
+        nodes.push({
+          id: key,
+          data: {
+            name: fn.name,
+            schema: fn.schema,
+            kind: fn.kind,
+            arguments: fn.arguments,
+            returns: fn.returns,
+            language: fn.language,
+            definition: fn.definition,
+            description: fn.description,
+          },
+          position: { x: 0, y: 0 },
+          type: "function",
+        });
+      });
+
+      /* Domains */
+      Object.entries(snapshot.domains).forEach(([key, domain]) => {
+        nodes.push({
+          id: key,
+          data: {
+            name: domain.name,
+            schema: domain.schema,
+            kind: "domain",
+            dataType: domain.type,
+            isNotNull: domain.notNull,
+            default: domain.default,
+            columns: [],
+            checks: Object.values(domain.checkConstraints),
+            description: domain.description,
+          },
+          position: { x: 0, y: 0 },
+          type: "type",
+        });
+      });
+
+      /* Composite types */
+      Object.entries(snapshot.compositeTypes).forEach(([key, type]) => {
+        nodes.push({
+          id: key,
+          data: {
+            name: type.name,
+            schema: type.schema,
+            kind: "composite",
+            dataType: undefined,
+            isNotNull: false,
+            default: undefined,
+            columns: type.attributes.map((attribute) => ({
+              name: attribute.name,
+              dataType: attribute.type,
+              description: attribute.description,
+            })),
+            checks: [],
+            description: type.description,
+          },
+          position: { x: 0, y: 0 },
+          type: "type",
+        });
+      });
       break;
     }
     case "sqlite": {
@@ -498,6 +867,7 @@ export async function compute(snapshot: Snapshot) {
             targetHandle: `${foreignKey.columnFrom}-left`,
             style: { strokeWidth: 2 },
             type: "smoothstep",
+            data: { sourceSchema: "" },
           });
         });
 
@@ -534,6 +904,7 @@ export async function compute(snapshot: Snapshot) {
           data: {
             name: table.name,
             description: table.description,
+            ...explainMetadata(table),
             columns: Object.values(table.columns).map((column) => {
               const foreignKey = foreignKeys.find(
                 (fk) => fk.columnFrom === column.name,
@@ -543,6 +914,7 @@ export async function compute(snapshot: Snapshot) {
                 name: column.name,
                 dataType: column.type,
                 description: column.description,
+                ...explainMetadata(column),
                 isPrimaryKey:
                   column.primaryKey ||
                   compositePrimaryKeys.some((cpk) =>
@@ -564,6 +936,7 @@ export async function compute(snapshot: Snapshot) {
             checks,
             relations,
             policies: [],
+            triggers: [],
             compositePrimaryKeys,
             foreignKeys,
             uniqueConstraints,
@@ -583,6 +956,7 @@ export async function compute(snapshot: Snapshot) {
             schema: undefined,
             definition: view.definition,
             description: view.description,
+            ...explainMetadata(view),
             columns: Object.values(view.columns).map((column) => {
               return {
                 name: column.name,
@@ -594,6 +968,7 @@ export async function compute(snapshot: Snapshot) {
                 defaultFn: column.defaultFn,
                 enumValues: column.enumValues,
                 description: column.description,
+                ...explainMetadata(column),
               };
             }),
             materialized: false,
@@ -615,6 +990,7 @@ export async function compute(snapshot: Snapshot) {
         const foreignKeys = Object.values(table.foreignKeys).flatMap((fk) => {
           const fkName = fk.name;
           const tableTo = fk.tableTo;
+          const schemaTo = fk.schemaTo;
           const tableFrom = table.name;
           const onDelete = fk.onDelete;
           const onUpdate = fk.onUpdate;
@@ -629,6 +1005,7 @@ export async function compute(snapshot: Snapshot) {
               columnFrom,
               columnTo,
               tableTo,
+              schemaTo,
               onDelete,
               onUpdate,
             };
@@ -644,6 +1021,7 @@ export async function compute(snapshot: Snapshot) {
             targetHandle: `${foreignKey.columnFrom}-left`,
             style: { strokeWidth: 2 },
             type: "smoothstep",
+            data: { sourceSchema: foreignKey.schemaTo ?? "" },
           });
         });
 
@@ -680,6 +1058,7 @@ export async function compute(snapshot: Snapshot) {
           data: {
             name: table.name,
             description: table.description,
+            ...explainMetadata(table),
             schema: table.schema,
             columns: Object.values(table.columns).map((column) => {
               const foreignKey = foreignKeys.find(
@@ -690,6 +1069,7 @@ export async function compute(snapshot: Snapshot) {
                 name: column.name,
                 dataType: column.type,
                 description: column.description,
+                ...explainMetadata(column),
                 isPrimaryKey:
                   column.primaryKey ||
                   compositePrimaryKeys.some((cpk) =>
@@ -711,6 +1091,7 @@ export async function compute(snapshot: Snapshot) {
             checks,
             relations,
             policies: [],
+            triggers: [],
             compositePrimaryKeys,
             foreignKeys,
             uniqueConstraints,
@@ -730,6 +1111,7 @@ export async function compute(snapshot: Snapshot) {
             schema: view.schema,
             definition: view.definition,
             description: view.description,
+            ...explainMetadata(view),
             columns: Object.values(view.columns).map((column) => {
               return {
                 name: column.name,
@@ -741,6 +1123,7 @@ export async function compute(snapshot: Snapshot) {
                 defaultFn: column.defaultFn,
                 enumValues: column.enumValues,
                 description: column.description,
+                ...explainMetadata(column),
               };
             }),
             materialized: false,
@@ -756,5 +1139,5 @@ export async function compute(snapshot: Snapshot) {
     }
   }
 
-  return getLayoutedElements(nodes, edges);
+  return { nodes, edges };
 }
@@ -27,6 +27,9 @@ export function DrizzleVisualizerLegend({ className }: { className?: string }) {
           RLS Policy
         </span>
       </Icon>
+      <Icon name="play" size="xs" className="text-green">
+        <span className="shrink-0 text-xs text-muted-foreground">Trigger</span>
+      </Icon>
       <Icon name="cable" size="xs" className="text-green">
         <span className="shrink-0 text-xs text-muted-foreground">
           Drizzle relation
@@ -45,6 +48,16 @@ export function DrizzleVisualizerLegend({ className }: { className?: string }) {
       <Icon name="diamond" size="xs" className="text-secondary-foreground">
         <span className="shrink-0 text-xs text-muted-foreground">Nullable</span>
       </Icon>
+      <Icon name="shield" size="xs" className="text-red-400">
+        <span className="shrink-0 text-xs text-muted-foreground">
+          Sensitive data
+        </span>
+      </Icon>
+      <Icon name="triangle-alert" size="xs" className="text-orange-400">
+        <span className="shrink-0 text-xs text-muted-foreground">
+          Deprecated
+        </span>
+      </Icon>
     </div>
   );
 }
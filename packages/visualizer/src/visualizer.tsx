@@ -43,11 +43,18 @@ import {
 } from "@xyflow/react";
 import { toPng } from "html-to-image";
 
-import { compute } from "./compute";
+import { compute, computeWorkspace } from "./compute";
 import type {
   Snapshot,
+  NodeProject,
+  ProjectSnapshot,
   ViewNodeDefinition,
   TableNodeDefinition,
+  FunctionNodeDefinition,
+  TypeNodeDefinition,
+  NodeDefinition,
+  ExplainMetadata,
+  MetadataFilter,
 } from "./compute";
 import { highlighter } from "./highlighter";
 
@@ -69,32 +76,100 @@ function getSavedNodesPositions(projectId: string) {
   ) as NodePosition[];
 }
 
-type NodeTypes = TableNodeDefinition | ViewNodeDefinition;
+type NodeTypes = NodeDefinition;
+
+/**
+ * Compute the nodes of a snapshot, or of several projects combined in a single view
+ */
+function computeNodes(
+  snapshot: Snapshot | undefined,
+  projects: ProjectSnapshot[] = [],
+) {
+  return snapshot ? compute(snapshot) : computeWorkspace(projects);
+}
 
 export function DrizzleVisualizer({
   loading,
   className,
   snapshot,
+  projects,
+  projectId = snapshot?.projectId ?? "workspace",
   initialNodesPositions,
   onNodesPositionsChange,
   showMiniMap = true,
 }: {
-  snapshot: Snapshot;
+  snapshot?: Snapshot;
+  /** Several projects (e.g. the packages of a monorepo) to show together, instead of a snapshot */
+  projects?: ProjectSnapshot[];
+  /** Identifies the saved nodes positions. Defaults to the snapshot project id */
+  projectId?: string;
   loading?: boolean;
   className?: string;
   initialNodesPositions?: NodePosition[];
   onNodesPositionsChange?: (nodesPositions: NodePosition[]) => void;
   showMiniMap?: boolean;
 }) {
-  const projectId = snapshot.projectId;
+  const snapshots = useMemo(
+    () => (snapshot ? [snapshot] : (projects ?? []).map((it) => it.snapshot)),
+    [snapshot, projects],
+  );
   const [withExplain, setWithExplain] = useState(false);
+  const [filter, setFilter] = useState<MetadataFilter>();
   const [nodes, setNodes] = useState([] as Array<NodeTypes>);
   const [edges, setEdges] = useEdgesState([] as Array<Edge>);
-  const nodeTypes = useMemo(() => ({ table: TableNode, view: ViewNode }), []);
+  const nodeTypes = useMemo(
+    () => ({
+      table: TableNode,
+      view: ViewNode,
+      function: FunctionNode,
+      type: TypeNode,
+    }),
+    [],
+  );
   const shiftPressed = useKeyPress("ShiftLeft");
-  const hasDescription =
-    Object.values(snapshot.tables).some((table) => table.description) ||
-    Object.values(snapshot.views).some((view) => view.description);
+  const hasDescription = snapshots.some(
+    (snapshot) =>
+      Object.values(snapshot.tables).some(
+        (table) =>
+          table.description ||
+          table.relations.some(
+            (relation: { description?: string }) => relation.description,
+          ),
+      ) ||
+      Object.values(snapshot.views).some((view) => view.description) ||
+      (snapshot.dialect === "postgresql" &&
+        [
+          ...Object.values(snapshot.tables).flatMap((table) =>
+            Object.values(table.policies),
+          ),
+          ...Object.values(snapshot.functions),
+          ...Object.values(snapshot.domains),
+          ...Object.values(snapshot.compositeTypes),
+        ].some((it) => it.description)),
+  );
+  // projects can share extensions
+  const extensions = [
+    ...new Map(
+      snapshots
+        .flatMap((snapshot) =>
+          snapshot.dialect === "postgresql"
+            ? Object.values(snapshot.extensions)
+            : [],
+        )
+        .map((extension) => [extension.name, extension]),
+    ).values(),
+  ];
+  const metadata = useMemo(() => collectMetadata(snapshots), [snapshots]);
+  const nodesProjects = useMemo(
+    () => [
+      ...new Map(
+        nodes.flatMap((node) =>
+          node.data.project ? [[node.data.project.id, node.data.project]] : [],
+        ),
+      ).values(),
+    ],
+    [nodes],
+  );
 
   const onNodesChange = useCallback(
     (changes: NodeChange<NodeTypes>[]) => {
@@ -129,14 +204,14 @@ export function DrizzleVisualizer({
   );
 
   useEffect(() => {
-    if (!snapshot) {
+    if (!snapshot && !projects) {
       return;
     }
 
-    compute(snapshot)
+    computeNodes(snapshot, projects)
       .then(({ nodes, edges }) => {
         const defaultPositions =
-          initialNodesPositions || getSavedNodesPositions(snapshot.projectId);
+          initialNodesPositions || getSavedNodesPositions(projectId);
 
         const updatedNodes = nodes.map((node) => {
           const defaultPosition = defaultPositions.find(
@@ -151,9 +226,17 @@ export function DrizzleVisualizer({
         });
         setNodes(updatedNodes);
         setEdges(edges);
+        setFilter(undefined);
       })
       .catch(console.error);
-  }, [snapshot, setEdges, setNodes, initialNodesPositions]);
+  }, [
+    snapshot,
+    projects,
+    projectId,
+    setEdges,
+    setNodes,
+    initialNodesPositions,
+  ]);
 
   return (
     <div className={cn("size-full", className)}>
@@ -180,12 +263,32 @@ export function DrizzleVisualizer({
             loading...
           </div>
         )}
+        {extensions.length > 0 && (
+          <Panel position="top-left">
+            <div className="flex flex-wrap items-center gap-1">
+              {extensions.map((extension) => (
+                <Badge
+                  key={extension.name}
+                  variant="outline"
+                  className="items-center gap-2"
+                  title={extension.description}
+                >
+                  <Icon name="box-plus" size="sm" />
+                  {extension.name}
+                  <span className="text-xs text-muted-foreground">
+                    {extension.version}
+                  </span>
+                </Badge>
+              ))}
+            </div>
+          </Panel>
+        )}
         <Panel position="top-right">
           <div className="flex items-center gap-4">
             <div className="flex items-center gap-1">
               <AutoLayoutButton
                 onClick={() => {
-                  compute(snapshot).then(({ nodes }) => {
+                  computeNodes(snapshot, projects).then(({ nodes }) => {
                     onNodesChange(
                       nodes.map((node) => ({
                         id: node.id,
@@ -199,6 +302,39 @@ export function DrizzleVisualizer({
               <FitViewButton />
             </div>
             <div className="flex items-center gap-1">
+              {(metadata.tags.length > 0 ||
+                metadata.sensitivities.length > 0) && (
+                <MetadataFilterButton
+                  tags={metadata.tags}
+                  sensitivities={metadata.sensitivities}
+                  filter={filter}
+                  onFilterChange={(filter) => {
+                    setNodes((prev) => {
+                      return prev.map((node) => {
+                        if (node.type !== "table" && node.type !== "view") {
+                          return node;
+                        }
+
+                        const { data } = node as
+                          | TableNodeDefinition
+                          | ViewNodeDefinition;
+                        const matches =
+                          !filter ||
+                          [data, ...data.columns].some((it) =>
+                            matchesFilter(it, filter),
+                          );
+
+                        return {
+                          ...node,
+                          data: { ...data, filter },
+                          style: { ...node.style, opacity: matches ? 1 : 0.3 },
+                        } as NodeTypes;
+                      });
+                    });
+                    setFilter(filter);
+                  }}
+                />
+              )}
               {hasDescription && (
                 <ExplainToggle
                   pressed={withExplain}
@@ -222,6 +358,11 @@ export function DrizzleVisualizer({
             <InfoButton />
           </div>
         </Panel>
+        {nodesProjects.length > 0 && (
+          <Panel position="bottom-left">
+            <ProjectsLegend projects={nodesProjects} />
+          </Panel>
+        )}
         <Background bgColor="#0f0f14" />
         {showMiniMap && (
           <MiniMap
@@ -244,15 +385,20 @@ function TableNode({ data }: NodeProps<TableNodeDefinition>) {
 
   return (
     <>
-      <div className="flex min-w-64 max-w-fit flex-col divide-y rounded-lg border-2 bg-background text-foreground shadow-md">
+      <div
+        className="flex min-w-64 max-w-fit flex-col divide-y rounded-lg border-2 bg-background text-foreground shadow-md"
+        style={projectBorder(data.project)}
+      >
         <div className="flex w-full p-2 text-base">
           <div className="flex w-full flex-col gap-4">
             <div className="flex w-full items-center justify-between gap-4 text-base">
               <div className="relative flex items-center gap-2">
                 <Icon name="sheet" size="md" />
-                <span>
+                <span className={cn(data.deprecated && "line-through")}>
                   {data.schema ? `${data.schema}.${data.name}` : data.name}
                 </span>
+                <MetadataIcons metadata={data} />
+                <ProjectBadge project={data.project} />
               </div>
               {data.provider && (
                 <Badge
@@ -274,6 +420,7 @@ function TableNode({ data }: NodeProps<TableNodeDefinition>) {
             {data.withExplain && data.description && (
               <Description description={data.description} />
             )}
+            {data.withExplain && <Metadata metadata={data} />}
           </div>
         </div>
         <div className="relative cursor-default divide-y">
@@ -281,7 +428,12 @@ function TableNode({ data }: NodeProps<TableNodeDefinition>) {
             return (
               <div
                 key={column.name}
-                className="relative flex w-full flex-col gap-4 p-2 text-sm"
+                className={cn(
+                  "relative flex w-full flex-col gap-4 p-2 text-sm",
+                  data.filter &&
+                    matchesFilter(column, data.filter) &&
+                    "bg-yellow-500/10",
+                )}
               >
                 <div className="flex w-full items-center justify-between gap-2">
                   <div className="relative flex items-center gap-2">
@@ -334,7 +486,10 @@ function TableNode({ data }: NodeProps<TableNodeDefinition>) {
                         column.isNotNull && "fill-secondary-foreground",
                       )}
                     />
-                    {column.name}
+                    <span className={cn(column.deprecated && "line-through")}>
+                      {column.name}
+                    </span>
+                    <MetadataIcons metadata={column} />
                   </div>
                   <span className="px-2 py-1 text-xs text-muted-foreground">
                     {column.enumValues
@@ -386,6 +541,7 @@ function TableNode({ data }: NodeProps<TableNodeDefinition>) {
                 {data.withExplain && column.description && (
                   <Description description={column.description} />
                 )}
+                {data.withExplain && <Metadata metadata={column} />}
                 <Handle
                   type="target"
                   position={Position.Left}
@@ -449,7 +605,7 @@ function TableNode({ data }: NodeProps<TableNodeDefinition>) {
           {data.policies.length > 0 && <Separator className="h-1" />}
           {data.policies.map((policy) => {
             return (
-              <div key={policy.name} className="relative flex text-sm">
+              <div key={policy.name} className="relative flex flex-col text-sm">
                 <div className="flex w-full items-center justify-between gap-2 p-2">
                   <div className="flex items-center gap-2">
                     <Icon name="lock" size="sm" className="text-green" />
@@ -528,6 +684,67 @@ function TableNode({ data }: NodeProps<TableNodeDefinition>) {
                     </PopoverContent>
                   </Popover>
                 </div>
+                {data.withExplain && policy.description && (
+                  <div className="px-2 pb-2">
+                    <Description description={policy.description} />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          {data.triggers.length > 0 && <Separator className="h-1" />}
+          {data.triggers.map((trigger) => {
+            return (
+              <div
+                key={trigger.name}
+                className="relative flex flex-col gap-4 p-2 text-sm"
+              >
+                <div className="flex w-full items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <Icon name="play" size="sm" className="text-green" />
+                    {trigger.name}
+                    <span className="text-xs text-muted-foreground">
+                      {trigger.timing} {trigger.events.join(" | ")}
+                    </span>
+                  </div>
+                  <Popover data-no-print>
+                    <PopoverTrigger asChild>
+                      <Button
+                        data-no-print
+                        variant="ghost"
+                        size="sm"
+                        className="border-none"
+                      >
+                        <span>Show definition</span>
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-fit max-w-96">
+                      <pre
+                        className="flex flex-wrap overflow-hidden text-sm"
+                        dangerouslySetInnerHTML={{
+                          __html: highlighter.codeToHtml(
+                            String(trigger.definition),
+                            {
+                              theme: "tokyo-night",
+                              lang: "sql",
+                              structure: "inline",
+                            },
+                          ),
+                        }}
+                      />
+                    </PopoverContent>
+                  </Popover>
+                </div>
+                {data.withExplain && trigger.description && (
+                  <Description description={trigger.description} />
+                )}
+                <Handle
+                  type="target"
+                  position={Position.Right}
+                  id={`${trigger.name}-trigger`}
+                  className={cn(hiddenNodeConnector, "!right-0")}
+                />
               </div>
             );
           })}
@@ -535,7 +752,10 @@ function TableNode({ data }: NodeProps<TableNodeDefinition>) {
           {data.relations.length > 0 && <Separator className="h-1" />}
           {data.relations.map((relation) => {
             return (
-              <div key={relation.fieldName} className="relative flex text-sm">
+              <div
+                key={relation.fieldName}
+                className="relative flex flex-col text-sm"
+              >
                 <div className="flex w-full items-center justify-between gap-2 p-2">
                   <div className="flex items-center gap-2">
                     <Icon name="cable" size="sm" className="text-green" />
@@ -549,6 +769,11 @@ function TableNode({ data }: NodeProps<TableNodeDefinition>) {
                     {relation.type === "one" ? " | null" : "[]"}
                   </span>
                 </div>
+                {data.withExplain && relation.description && (
+                  <div className="px-2 pb-2">
+                    <Description description={relation.description} />
+                  </div>
+                )}
 
                 <Handle
                   type="target"
@@ -577,17 +802,22 @@ function ViewNode({ data }: NodeProps<ViewNodeDefinition>) {
 
   return (
     <>
-      <div className="flex min-w-64 max-w-fit flex-col divide-y rounded-lg border-2 bg-background text-foreground shadow-md">
+      <div
+        className="flex min-w-64 max-w-fit flex-col divide-y rounded-lg border-2 bg-background text-foreground shadow-md"
+        style={projectBorder(data.project)}
+      >
         <div className="flex w-full p-2 text-base">
           <div className="flex w-full flex-col gap-4">
             <div className="flex w-full items-center justify-between gap-4 text-base">
               <div className="relative flex items-center gap-2">
                 <Icon name="eye" size="md" />
-                <span>
+                <span className={cn(data.deprecated && "line-through")}>
                   {data.schema && data.schema !== "public"
                     ? `${data.schema}.${data.name}`
                     : data.name}
                 </span>
+                <MetadataIcons metadata={data} />
+                <ProjectBadge project={data.project} />
               </div>
               <div className="flex items-center gap-2">
                 {data.provider && (
@@ -640,6 +870,7 @@ function ViewNode({ data }: NodeProps<ViewNodeDefinition>) {
             {data.withExplain && data.description && (
               <Description description={data.description} />
             )}
+            {data.withExplain && <Metadata metadata={data} />}
           </div>
         </div>
         <div className="relative cursor-default divide-y">
@@ -647,7 +878,12 @@ function ViewNode({ data }: NodeProps<ViewNodeDefinition>) {
             return (
               <div
                 key={column.name}
-                className="relative flex flex-col gap-4 p-2 text-sm"
+                className={cn(
+                  "relative flex flex-col gap-4 p-2 text-sm",
+                  data.filter &&
+                    matchesFilter(column, data.filter) &&
+                    "bg-yellow-500/10",
+                )}
               >
                 <div className="flex w-full items-center justify-between gap-2">
                   <div className="flex items-center gap-2">
@@ -671,7 +907,10 @@ function ViewNode({ data }: NodeProps<ViewNodeDefinition>) {
                         column.isNotNull && "fill-secondary-foreground",
                       )}
                     />
-                    {column.name}
+                    <span className={cn(column.deprecated && "line-through")}>
+                      {column.name}
+                    </span>
+                    <MetadataIcons metadata={column} />
                   </div>
                   <span className="px-2 py-1 text-xs text-muted-foreground">
                     {column.enumValues
@@ -718,6 +957,7 @@ function ViewNode({ data }: NodeProps<ViewNodeDefinition>) {
                 {data.withExplain && column.description && (
                   <Description description={column.description} />
                 )}
+                {data.withExplain && <Metadata metadata={column} />}
                 <Handle
                   type="target"
                   position={Position.Left}
@@ -746,6 +986,178 @@ function ViewNode({ data }: NodeProps<ViewNodeDefinition>) {
   );
 }
 
+function FunctionNode({ data }: NodeProps<FunctionNodeDefinition>) {
+  const hiddenNodeConnector =
+    "!h-px !w-px !min-w-0 !min-h-0 !cursor-grab !border-0 !opacity-0";
+
+  return (
+    <>
+      <div
+        className="flex min-w-64 max-w-fit flex-col divide-y rounded-lg border-2 bg-background text-foreground shadow-md"
+        style={projectBorder(data.project)}
+      >
+        <div className="flex w-full p-2 text-base">
+          <div className="flex w-full flex-col gap-4">
+            <div className="flex w-full items-center justify-between gap-4 text-base">
+              <div className="relative flex items-center gap-2">
+                <Icon name="code" size="md" />
+                <span>
+                  {data.schema !== "public"
+                    ? `${data.schema}.${data.name}`
+                    : data.name}
+                </span>
+                <ProjectBadge project={data.project} />
+              </div>
+              <div className="flex items-center gap-2">
+                <Badge variant="outline">
+                  {data.kind === "function"
+                    ? data.language
+                    : `${data.kind} | ${data.language}`}
+                </Badge>
+                {data.definition && (
+                  <Popover data-no-print>
+                    <PopoverTrigger asChild>
+                      <Button
+                        data-no-print
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 border-none"
+                      >
+                        <span>Definition</span>
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-fit max-w-[40rem]">
+                      <pre
+                        className="overflow-auto text-sm"
+                        dangerouslySetInnerHTML={{
+                          __html: highlighter.codeToHtml(
+                            String(data.definition),
+                            {
+                              theme: "tokyo-night",
+                              lang: "sql",
+                            },
+                          ),
+                        }}
+                      />
+                    </PopoverContent>
+                  </Popover>
+                )}
+              </div>
+            </div>
+            {data.withExplain && data.description && (
+              <Description description={data.description} />
+            )}
+          </div>
+        </div>
+        <div className="relative flex cursor-default items-center justify-between gap-2 p-2 text-sm">
+          <span>({data.arguments})</span>
+          {data.returns && (
+            <span className="px-2 py-1 text-xs text-muted-foreground">
+              {data.returns}
+            </span>
+          )}
+        </div>
+        <Handle
+          type="source"
+          position={Position.Bottom}
+          id="trigger"
+          className={cn(hiddenNodeConnector, "!bottom-0")}
+        />
+      </div>
+    </>
+  );
+}
+
+function TypeNode({ data }: NodeProps<TypeNodeDefinition>) {
+  return (
+    <>
+      <div
+        className="flex min-w-64 max-w-fit flex-col divide-y rounded-lg border-2 bg-background text-foreground shadow-md"
+        style={projectBorder(data.project)}
+      >
+        <div className="flex w-full p-2 text-base">
+          <div className="flex w-full flex-col gap-4">
+            <div className="flex w-full items-center justify-between gap-4 text-base">
+              <div className="relative flex items-center gap-2">
+                <Icon
+                  name={data.kind === "domain" ? "box" : "braces"}
+                  size="md"
+                />
+                <span>
+                  {data.schema !== "public"
+                    ? `${data.schema}.${data.name}`
+                    : data.name}
+                </span>
+                <ProjectBadge project={data.project} />
+              </div>
+              <Badge variant="outline">{data.kind}</Badge>
+            </div>
+            {data.withExplain && data.description && (
+              <Description description={data.description} />
+            )}
+          </div>
+        </div>
+        <div className="relative cursor-default divide-y">
+          {data.dataType && (
+            <div className="relative flex w-full items-center justify-between gap-2 p-2 text-sm">
+              <div className="flex items-center gap-2">
+                <Icon
+                  name="diamond"
+                  size="sm"
+                  className={cn(data.isNotNull && "fill-secondary-foreground")}
+                />
+                {data.dataType}
+                {!data.isNotNull && (
+                  <span className="text-xs text-muted-foreground">| null</span>
+                )}
+              </div>
+              {data.default && (
+                <span className="px-2 py-1 text-xs text-muted-foreground">
+                  default: {data.default}
+                </span>
+              )}
+            </div>
+          )}
+          {data.columns.map((column) => {
+            return (
+              <div
+                key={column.name}
+                className="relative flex flex-col gap-4 p-2 text-sm"
+              >
+                <div className="flex w-full items-center justify-between gap-2">
+                  <span>{column.name}</span>
+                  <span className="px-2 py-1 text-xs text-muted-foreground">
+                    {column.dataType}
+                  </span>
+                </div>
+                {data.withExplain && column.description && (
+                  <Description description={column.description} />
+                )}
+              </div>
+            );
+          })}
+          {data.checks.map((check) => {
+            return (
+              <div
+                key={check.name}
+                className="relative flex w-full items-center justify-between gap-2 p-2 text-sm"
+              >
+                <div className="flex items-center gap-2">
+                  <Icon name="shield-check" size="sm" className="text-green" />
+                  {check.name}
+                </div>
+                <span className="px-2 py-1 text-xs text-muted-foreground">
+                  {check.value}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </>
+  );
+}
+
 function Description({ description }: { description: string }) {
   return (
     <div className="relative rounded-md border border-muted/80 px-2 py-0.5 text-foreground/60">
@@ -762,6 +1174,198 @@ function Description({ description }: { description: string }) {
   );
 }
 
+/**
+ * Color the border of a node by project, in a view combining several projects
+ */
+function projectBorder(project: NodeProject | undefined) {
+  return project ? { borderColor: project.color } : undefined;
+}
+
+function ProjectBadge({ project }: { project: NodeProject | undefined }) {
+  if (!project) {
+    return null;
+  }
+
+  return (
+    <Badge
+      variant="outline"
+      className="items-center"
+      style={{ borderColor: project.color, color: project.color }}
+    >
+      {project.name}
+    </Badge>
+  );
+}
+
+function ProjectsLegend({ projects }: { projects: NodeProject[] }) {
+  return (
+    <div className="flex flex-col gap-1 rounded-md border bg-background p-2 text-xs">
+      {projects.map((project) => (
+        <div key={project.id} className="flex items-center gap-2">
+          <span
+            className="size-3 rounded-sm"
+            style={{ backgroundColor: project.color }}
+          />
+          {project.name}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function isSensitive(sensitivity: string | undefined) {
+  return sensitivity === "pii" || sensitivity === "secret";
+}
+
+function matchesFilter(metadata: ExplainMetadata, filter: MetadataFilter) {
+  return filter.kind === "tag"
+    ? Boolean(metadata.tags?.includes(filter.value))
+    : metadata.sensitivity === filter.value;
+}
+
+/**
+ * Tags and sensitivities used in the snapshots, by tables, views and their columns
+ */
+function collectMetadata(snapshots: Snapshot[]) {
+  const entities: ExplainMetadata[] = snapshots
+    .flatMap((snapshot) => [
+      ...Object.values(snapshot.tables),
+      ...Object.values(snapshot.views),
+    ])
+    .flatMap((it) => [it, ...Object.values(it.columns)]);
+
+  return {
+    tags: [...new Set(entities.flatMap((it) => it.tags ?? []))].sort(),
+    sensitivities: [
+      ...new Set(entities.flatMap((it) => it.sensitivity ?? [])),
+    ].sort(),
+  };
+}
+
+function MetadataIcons({ metadata }: { metadata: ExplainMetadata }) {
+  return (
+    <>
+      {metadata.sensitivity && (
+        <span title={`sensitivity: ${metadata.sensitivity}`}>
+          <Icon
+            name="shield"
+            size="sm"
+            className={cn(
+              isSensitive(metadata.sensitivity)
+                ? "text-red-400"
+                : "text-muted-foreground",
+            )}
+          />
+        </span>
+      )}
+      {metadata.deprecated && (
+        <span title={`deprecated: ${metadata.deprecated}`}>
+          <Icon name="triangle-alert" size="sm" className="text-orange-400" />
+        </span>
+      )}
+    </>
+  );
+}
+
+function Metadata({ metadata }: { metadata: ExplainMetadata }) {
+  if (
+    !metadata.owner &&
+    !metadata.deprecated &&
+    !metadata.tags?.length &&
+    !metadata.examples?.length
+  ) {
+    return null;
+  }
+
+  return (
+    <div
+      className="flex flex-wrap items-center gap-1 text-foreground/60"
+      style={{ fontSize: "0.6rem" }}
+    >
+      {metadata.deprecated && (
+        <span className="text-orange-400">
+          deprecated: {metadata.deprecated}
+        </span>
+      )}
+      {metadata.owner && (
+        <span className="flex items-center gap-1">
+          <Icon name="user-round" size="xs" />
+          {metadata.owner}
+        </span>
+      )}
+      {metadata.tags?.map((tag) => (
+        <Badge key={tag} variant="secondary" className="px-1 py-0">
+          #{tag}
+        </Badge>
+      ))}
+      {metadata.examples && metadata.examples.length > 0 && (
+        <span>e.g. {metadata.examples.join(", ")}</span>
+      )}
+    </div>
+  );
+}
+
+function MetadataFilterButton({
+  tags,
+  sensitivities,
+  filter,
+  onFilterChange,
+}: {
+  tags: string[];
+  sensitivities: string[];
+  filter: MetadataFilter | undefined;
+  onFilterChange: (filter: MetadataFilter | undefined) => void;
+}) {
+  const options: MetadataFilter[] = [
+    ...sensitivities.map((value) => ({ kind: "sensitivity" as const, value })),
+    ...tags.map((value) => ({ kind: "tag" as const, value })),
+  ];
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className={cn("gap-2", filter && "border-yellow-500/60")}
+        >
+          <Icon name="shield" size="sm" />
+          {filter
+            ? `${filter.kind === "tag" ? "#" : ""}${filter.value}`
+            : "Highlight"}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="flex w-fit max-w-80 flex-col gap-2">
+        <Typography variant="mutedText" className="text-sm">
+          Highlight the tables and columns by sensitivity or tag
+        </Typography>
+        <div className="flex flex-wrap gap-1">
+          {options.map((option) => (
+            <Toggle
+              key={`${option.kind}-${option.value}`}
+              variant="outline"
+              size="sm"
+              pressed={
+                filter?.kind === option.kind && filter.value === option.value
+              }
+              onPressedChange={(pressed) =>
+                onFilterChange(pressed ? option : undefined)
+              }
+              className={cn(
+                option.kind === "sensitivity" &&
+                  isSensitive(option.value) &&
+                  "text-red-400",
+              )}
+            >
+              {option.kind === "tag" ? `#${option.value}` : option.value}
+            </Toggle>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
 function AutoLayoutButton(props: React.ComponentPropsWithoutRef<"button">) {
   return (
     <TooltipProvider>